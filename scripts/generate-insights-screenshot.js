@@ -153,20 +153,22 @@ async function applyChromeStubs(context, payload) {
             const callback =
               typeof optionsOrCallback === 'function' ? optionsOrCallback : maybeCallback
             const payload = message || {}
-            if (payload.type === 'get-refresh-status') {
+            // Answer in the shared/messages response envelope
+            const respond = (result) => {
+              const response = { requestId: payload.requestId, ok: true, payload: result }
               if (typeof callback === 'function') {
-                callback({ success: true, inProgress: false })
+                callback(response)
               }
-              return undefined
+              return Promise.resolve(response)
+            }
+            if (payload.type === 'get-refresh-status') {
+              return respond({ success: true, inProgress: false, progress: null })
             }
             if (payload.type === 'start-refresh') {
-              if (typeof callback === 'function') {
-                callback({
-                  success: true,
-                  summary: summaryPayload,
-                })
-              }
-              return undefined
+              return respond({
+                success: true,
+                summary: summaryPayload,
+              })
             }
             return originalSendMessage(message, optionsOrCallback, maybeCallback)
           }
@@ -1,16 +1,55 @@
+import { waitForCollectorResult } from './collector/result-wait'
 import { initDevTools } from './error-reporter/dev-tools'
 import { errorReporter, isAuthError } from './error-reporter/ErrorReporter'
+import {
+  AUTO_SYNC_ALARM,
+  AUTO_SYNC_CHECK_MINUTES,
+  getAutoSyncDecision,
+  loadAutoSyncRecord,
+  saveAutoSyncRecord,
+} from './shared/auto-sync'
+import {
+  applyCacheChanges,
+  createEmptyCache,
+  getActivitiesByUid,
+  getRosterEntriesForPerson,
+  loadCacheMeta,
+  loadExtensionCache,
+  migrateStoredData,
+  saveExtensionCache,
+  selectCacheChanges,
+} from './shared/cache'
+import { mergeWithExistingCache } from './shared/merge'
+import {
+  type CancelRefreshResponse,
+  onEvents,
+  onRequests,
+  type RefreshResponse,
+  sendEvent,
+} from './shared/messages'
+import { isSuccessfulOutcome, resolveActivityOutcome } from './shared/outcome'
+import {
+  applyProgressToRefreshState,
+  clearRefreshState,
+  createRefreshState,
+  loadRefreshState,
+  saveRefreshState,
+} from './shared/refresh-state'
+import { selectActivitiesForResync } from './shared/resync'
+import { isActiveRosterEntry } from './shared/roles'
+import { loadExtensionSettings, SETTINGS_KEY } from './shared/settings'
+import { isTombstoned } from './shared/tombstones'
 import type {
-  ActivityRecord,
   CollectorDelta,
   CollectorProgressMessage,
   CollectorResultMessage,
-  CollectorSuccessPayload,
   ExtensionCache,
-  PersonRecord,
+  ExtensionSettings,
+  PersistedRefreshState,
+  RefreshMode,
   RefreshProgress,
   RefreshSummary,
-  RosterEntryRecord,
+  SharedActivity,
 } from './shared/types'
 
 // Handle extension icon click - open insights page
@@ -18,27 +57,64 @@ chrome.action.onClicked.addListener(() => {
   chrome.tabs.create({ url: chrome.runtime.getURL('insights.html') })
 })
 
-const REFRESH_MESSAGE = 'start-refresh'
-const REFRESH_RESULT_MESSAGE = 'refresh-result'
-const REFRESH_PROGRESS_MESSAGE = 'refresh-progress'
-const REFRESH_STATUS_REQUEST_MESSAGE = 'get-refresh-status'
-const REFRESH_STATUS_CHANGE_MESSAGE = 'refresh-status-changed'
-const GET_SHARED_ACTIVITIES_MESSAGE = 'get-shared-activities'
-
 type HandleRefreshResult = {
   success: true
   summary: RefreshSummary
 }
 
+interface RefreshRequest {
+  fetchLimit?: number | null
+  mode?: RefreshMode
+  /** Persisted state of a run that was interrupted when the service worker stopped. */
+  resumeFrom?: PersistedRefreshState
+}
+
 interface ActiveCacheContext {
   workingCache: ExtensionCache
 }
 
-type CacheMergeInput = Partial<CollectorSuccessPayload> & CollectorDelta
-
 let activeRefresh: Promise<HandleRefreshResult> | null = null
 let currentProgress: RefreshProgress | null = null
 let activeCacheContext: ActiveCacheContext | null = null
+let activeRunId: string | null = null
+let cancelledRunId: string | null = null
+let refreshState: PersistedRefreshState | null = null
+
+// Stored data is upgraded to the current schema before anything else reads it. Chrome may
+// also stop the service worker mid-refresh; pick the run back up from storage on start-up
+const startupResume = migrateStoredData()
+  .catch((error) => {
+    console.warn('Mountaineers Assistant: failed to migrate stored data', error)
+  })
+  .then(resumeInterruptedRefresh)
+
+// Alarms survive service worker restarts, but are re-created so setting changes made while
+// the extension was updated or disabled still take effect
+loadExtensionSettings()
+  .then(configureAutoSyncAlarm)
+  .catch((error) => {
+    console.warn('Mountaineers Assistant: failed to configure automatic sync', error)
+  })
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local' || !changes[SETTINGS_KEY]) {
+    return
+  }
+  loadExtensionSettings()
+    .then(configureAutoSyncAlarm)
+    .catch((error) => {
+      console.warn('Mountaineers Assistant: failed to configure automatic sync', error)
+    })
+})
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== AUTO_SYNC_ALARM) {
+    return
+  }
+  runAutoSync().catch((error) => {
+    console.error('Mountaineers Assistant: automatic sync failed', error)
+  })
+})
 
 async function ensureOffscreenDocument(): Promise<void> {
   try {
@@ -72,72 +148,64 @@ async function ensureOffscreenDocument(): Promise<void> {
   }
 }
 
-chrome.runtime.onMessage.addListener((rawMessage, sender, sendResponse) => {
-  if (!isRecord(rawMessage) || typeof rawMessage.type !== 'string') {
-    return undefined
-  }
-
-  if (rawMessage.type === REFRESH_STATUS_REQUEST_MESSAGE) {
-    sendResponse({
+// Answer only once any interrupted run has been resumed, so a restart never reports idle
+onRequests({
+  'get-refresh-status': () =>
+    startupResume.then(() => ({
       success: true,
       inProgress: Boolean(activeRefresh),
       progress: currentProgress,
-    })
-    return false
-  }
-
-  if (rawMessage.type === GET_SHARED_ACTIVITIES_MESSAGE) {
-    const memberUid = typeof rawMessage.memberUid === 'string' ? rawMessage.memberUid : null
-    if (memberUid) {
-      getSharedActivities(memberUid)
-        .then((activities) => sendResponse({ activities }))
-        .catch((error) => {
-          console.error('Mountaineers Assistant: failed to get shared activities', error)
-          sendResponse({ activities: [] })
-        })
-      return true
+    })),
+  'cancel-refresh': () => startupResume.then(cancelActiveRefresh),
+  'get-shared-activities': ({ memberUid }) =>
+    getSharedActivities(memberUid)
+      .then((activities) => ({ activities }))
+      .catch((error) => {
+        console.error('Mountaineers Assistant: failed to get shared activities', error)
+        return { activities: [] }
+      }),
+  'start-refresh': async ({ limit, mode }) => {
+    await startupResume
+    if (activeRefresh) {
+      console.info(
+        'Mountaineers Assistant: refresh already in progress, ignoring duplicate request'
+      )
+      return {
+        success: false,
+        error: 'A refresh is already running. Please wait for it to finish.',
+        inProgress: true,
+        progress: currentProgress,
+      }
     }
-    sendResponse({ activities: [] })
-    return false
-  }
-
-  if (isCollectorProgressMessage(rawMessage)) {
-    handleProgressUpdate(rawMessage)
-    return false
-  }
-
-  if (rawMessage.type !== REFRESH_MESSAGE) {
-    return undefined
-  }
-
-  if (activeRefresh) {
-    console.info('Mountaineers Assistant: refresh already in progress, ignoring duplicate request')
-    sendResponse({
-      success: false,
-      error: 'A refresh is already running. Please wait for it to finish.',
-      inProgress: true,
-      progress: currentProgress,
-    })
-    return false
-  }
+    return startRefresh({ fetchLimit: limit ?? undefined, mode: mode ?? 'new' })
+  },
+})
 
-  const fetchLimit =
-    typeof rawMessage.limit === 'number' && Number.isFinite(rawMessage.limit)
-      ? rawMessage.limit
-      : undefined
+onEvents({
+  'refresh-progress': (message) => {
+    if (message.origin === 'collector') {
+      handleProgressUpdate(message)
+    }
+  },
+})
 
-  const refreshOperation = handleRefreshRequest({ fetchLimit })
+function startRefresh(request: RefreshRequest): Promise<RefreshResponse> {
+  const runId = crypto.randomUUID()
+  const refreshOperation = handleRefreshRequest({ ...request, runId })
 
   activeRefresh = refreshOperation
-  currentProgress = createInitialProgress()
+  activeRunId = runId
+  currentProgress = request.resumeFrom
+    ? { ...(request.resumeFrom.progress ?? createInitialProgress()), stage: 'resuming' }
+    : createInitialProgress()
   notifyRefreshStatusChange(true)
 
-  refreshOperation
-    .then((result) => {
+  return refreshOperation
+    .then((result): RefreshResponse => {
       console.info('Mountaineers Assistant: refresh completed', result.summary)
-      sendResponse(result)
+      return result
     })
-    .catch((error: unknown) => {
+    .catch((error: unknown): RefreshResponse => {
       const errorMessage = error instanceof Error ? error.message : String(error)
 
       if (isAuthError(error)) {
@@ -153,25 +221,123 @@ chrome.runtime.onMessage.addListener((rawMessage, sender, sendResponse) => {
           diagnostics: {
             operation: 'refresh',
             progress: currentProgress,
+            resumed: Boolean(request.resumeFrom),
           },
         })
       }
 
-      sendResponse({
+      return {
         success: false,
         error: errorMessage,
-      })
+        requiresLogin: isAuthError(error),
+      }
     })
     .finally(() => {
       if (activeRefresh === refreshOperation) {
         activeRefresh = null
+        activeRunId = null
+        cancelledRunId = null
       }
       currentProgress = null
       notifyRefreshStatusChange(false)
     })
+}
 
-  return true
-})
+async function configureAutoSyncAlarm(settings: ExtensionSettings): Promise<void> {
+  if (settings.autoSyncFrequency === 'off') {
+    await chrome.alarms.clear(AUTO_SYNC_ALARM)
+    return
+  }
+  const existing = await chrome.alarms.get(AUTO_SYNC_ALARM)
+  if (existing?.periodInMinutes === AUTO_SYNC_CHECK_MINUTES) {
+    return
+  }
+  // Checks hourly rather than once per period so quiet hours only delay a sync, never skip it
+  await chrome.alarms.create(AUTO_SYNC_ALARM, {
+    delayInMinutes: 1,
+    periodInMinutes: AUTO_SYNC_CHECK_MINUTES,
+  })
+}
+
+async function runAutoSync(): Promise<void> {
+  await startupResume
+  if (activeRefresh) {
+    // Someone is already syncing; the next alarm checks again
+    return
+  }
+
+  const [settings, lastRun] = await Promise.all([loadExtensionSettings(), loadAutoSyncRecord()])
+  const decision = getAutoSyncDecision(settings, lastRun)
+  if (!decision.run) {
+    console.debug('Mountaineers Assistant: automatic sync not started (%s)', decision.reason)
+    return
+  }
+
+  console.info('Mountaineers Assistant: starting automatic sync')
+  const startedAt = new Date().toISOString()
+  const response = await startRefresh({ fetchLimit: settings.fetchLimit, mode: 'new' })
+  const finishedAt = new Date().toISOString()
+
+  if (response.success) {
+    await saveAutoSyncRecord({
+      startedAt,
+      finishedAt,
+      status: 'success',
+      summary: response.summary,
+    })
+    return
+  }
+  await saveAutoSyncRecord({
+    startedAt,
+    finishedAt,
+    status: response.requiresLogin ? 'skipped' : 'error',
+    summary: null,
+    error: response.error,
+  })
+}
+
+function cancelActiveRefresh(): CancelRefreshResponse {
+  if (!activeRefresh || !activeRunId) {
+    return { success: false, error: 'No refresh is running.' }
+  }
+  if (cancelledRunId === activeRunId) {
+    return { success: true }
+  }
+  cancelledRunId = activeRunId
+  console.info('Mountaineers Assistant: cancelling refresh %s', activeRunId)
+  // The offscreen document may not exist yet; handleRefreshRequest checks the flag too
+  sendEvent({ type: 'offscreen-cancel', runId: activeRunId })
+  currentProgress = { ...(currentProgress ?? createInitialProgress()), stage: 'cancelling' }
+  broadcastProgress(currentProgress)
+  return { success: true }
+}
+
+async function resumeInterruptedRefresh(): Promise<void> {
+  let state: PersistedRefreshState | null
+  try {
+    state = await loadRefreshState()
+  } catch (error) {
+    console.warn('Mountaineers Assistant: failed to read persisted refresh state', error)
+    return
+  }
+  if (!state) {
+    return
+  }
+
+  if (state.pendingActivityUids && state.pendingActivityUids.length === 0) {
+    // Every activity was merged before the worker stopped; only the final bookkeeping was lost
+    await clearRefreshState().catch(() => undefined)
+    return
+  }
+
+  console.info(
+    'Mountaineers Assistant: resuming interrupted refresh (%d completed, %s pending)',
+    state.completedActivityUids.length,
+    state.pendingActivityUids ? String(state.pendingActivityUids.length) : 'unknown'
+  )
+  // Not awaited: callers only need activeRefresh to be set, not the run to finish
+  void startRefresh({ fetchLimit: state.fetchLimit, resumeFrom: state })
+}
 
 function createInitialProgress(): RefreshProgress {
   return {
@@ -187,33 +353,67 @@ function createInitialProgress(): RefreshProgress {
 
 async function handleRefreshRequest({
   fetchLimit,
-}: {
-  fetchLimit?: number | null
-} = {}): Promise<HandleRefreshResult> {
+  mode = 'new',
+  resumeFrom,
+  runId,
+}: RefreshRequest & { runId: string }): Promise<HandleRefreshResult> {
   try {
     // Ensure offscreen document exists
     await ensureOffscreenDocument()
 
-    const stored = (await chrome.storage.local.get('mountaineersAssistantData')) as Record<
-      string,
-      unknown
-    >
-    const existingCache =
-      (stored.mountaineersAssistantData as ExtensionCache | undefined) ?? createEmptyCache()
+    const [storedCache, settings] = await Promise.all([
+      loadExtensionCache(),
+      loadExtensionSettings(),
+    ])
+    const existingCache = storedCache ?? createEmptyCache()
 
     initializeActiveCache(existingCache)
 
-    const existingActivityUids = existingCache.activities.map((activity) => activity.uid)
+    // Re-synced activities are left out of the known set so the collector fetches them again
+    const refetchActivityUids =
+      resumeFrom?.refetchActivityUids ??
+      selectActivitiesForResync(existingCache.activities, mode, {
+        staleDays: settings.resyncStaleDays,
+        failedActivities: existingCache.failedActivities,
+      })
+    const refetchSet = new Set(refetchActivityUids)
+    const existingActivityUids = existingCache.activities
+      .map((activity) => activity.uid)
+      .filter((uid) => !refetchSet.has(uid))
+
+    if (cancelledRunId === runId) {
+      // Cancelled while the offscreen document was still starting; nothing was collected
+      return {
+        success: true,
+        summary: {
+          activityCount: existingCache.activities.length,
+          lastUpdated: existingCache.lastUpdated,
+          newActivities: 0,
+          cancelled: true,
+        },
+      }
+    }
+
+    refreshState = resumeFrom
+      ? { ...resumeFrom, runId, stage: 'resuming', updatedAt: Date.now() }
+      : { ...createRefreshState(runId, fetchLimit ?? null), refetchActivityUids }
+    await saveRefreshState(refreshState)
 
     console.debug('Mountaineers Assistant: sending collection request to offscreen document')
 
     // Send collection request to offscreen document
-    const resultPromise = waitForOffscreenResult()
+    const resultPromise = waitForCollectorResult(runId)
 
-    chrome.runtime.sendMessage({
+    sendEvent({
       type: 'offscreen-collect',
+      runId,
       existingActivityUids,
-      fetchLimit: fetchLimit ?? null,
+      // A resumed run whose queue is known only loads what is still pending
+      targetActivityUids: resumeFrom?.pendingActivityUids ?? null,
+      fetchLimit: refreshState.fetchLimit,
+      concurrency: settings.fetchConcurrency,
+      requestDelayMs: settings.fetchDelayMs,
+      roleMappings: settings.roleMappings,
     })
 
     console.debug('Mountaineers Assistant: awaiting offscreen response')
@@ -225,7 +425,7 @@ async function handleRefreshRequest({
 
     const finalMerge = mergeWithExistingCache(existingCache, result.data)
 
-    await chrome.storage.local.set({ mountaineersAssistantData: finalMerge.updatedCache })
+    await saveExtensionCache(finalMerge.updatedCache)
 
     return {
       success: true,
@@ -233,163 +433,61 @@ async function handleRefreshRequest({
         activityCount: finalMerge.updatedCache.activities.length,
         lastUpdated: finalMerge.updatedCache.lastUpdated,
         newActivities: finalMerge.newActivities,
+        refreshedActivities: finalMerge.refreshedActivities,
+        cancelled: Boolean(result.cancelled),
+        failedActivities: result.data.failedActivities?.length ?? 0,
+        tombstonedActivities: finalMerge.tombstonedActivities,
       },
     }
   } finally {
     activeCacheContext = null
+    // Failed runs are not resumed either; the user restarts them explicitly
+    refreshState = null
+    await clearRefreshState().catch((error) => {
+      console.warn('Mountaineers Assistant: failed to clear persisted refresh state', error)
+    })
   }
 }
 
-function waitForOffscreenResult(): Promise<CollectorResultMessage> {
-  return new Promise((resolve, reject) => {
-    let settled = false
-    const ACTIVITY_TIMEOUT_MS = 30_000 // 30 seconds per activity, reset on progress
-
-    let timeoutId = scheduleTimeout()
-
-    function scheduleTimeout(): ReturnType<typeof setTimeout> {
-      return setTimeout(() => {
-        finalize(() => reject(new Error('Timed out while refreshing activities.')))
-      }, ACTIVITY_TIMEOUT_MS)
-    }
-
-    function resetTimeout(): void {
-      clearTimeout(timeoutId)
-      timeoutId = scheduleTimeout()
-    }
-
-    function handleMessage(message: unknown): void {
-      if (isCollectorProgressMessage(message)) {
-        resetTimeout()
-        return
-      }
-      if (!isCollectorResultMessage(message)) {
-        return
-      }
-      finalize(() => resolve(message))
-    }
-
-    function finalize(callback: () => void): void {
-      if (settled) {
-        return
-      }
-      settled = true
-      cleanup()
-      callback()
-    }
-
-    function cleanup(): void {
-      clearTimeout(timeoutId)
-      chrome.runtime.onMessage.removeListener(handleMessage)
-    }
-
-    chrome.runtime.onMessage.addListener(handleMessage)
-  })
-}
-
-function mergeWithExistingCache(
-  existingCache: ExtensionCache,
-  incoming: CacheMergeInput
-): { updatedCache: ExtensionCache; newActivities: number } {
-  const updatedCache: ExtensionCache = {
-    activities: [...existingCache.activities],
-    people: [...existingCache.people],
-    rosterEntries: [...existingCache.rosterEntries],
-    lastUpdated: new Date().toISOString(),
-    currentUserUid: incoming.currentUserUid ?? existingCache.currentUserUid ?? null,
-  }
-
-  const activityMap = new Map<string, ActivityRecord>(
-    updatedCache.activities.map((activity) => [activity.uid, activity])
-  )
-
-  let newActivities = 0
-  for (const activity of incoming.activities ?? []) {
-    const existing = activityMap.get(activity.uid)
-    if (!existing) {
-      activityMap.set(activity.uid, activity)
-      newActivities += 1
-      continue
-    }
-    const merged = { ...existing, ...activity }
-    if (activity.activity_type == null && existing.activity_type != null) {
-      merged.activity_type = existing.activity_type
-    }
-    activityMap.set(activity.uid, merged)
-  }
-
-  updatedCache.activities = Array.from(activityMap.values()).sort((a, b) => {
-    const dateA = a.start_date ? new Date(a.start_date).getTime() : 0
-    const dateB = b.start_date ? new Date(b.start_date).getTime() : 0
-    return dateB - dateA
-  })
-
-  const peopleMap = new Map<string, PersonRecord>(
-    updatedCache.people.map((person) => [person.uid, person])
-  )
-
-  for (const person of incoming.people ?? []) {
-    const existing = peopleMap.get(person.uid)
-    if (!existing) {
-      peopleMap.set(person.uid, person)
-      continue
-    }
-    const mergedPerson = { ...existing }
-    let changed = false
-    if (!existing.href && person.href) {
-      mergedPerson.href = person.href
-      changed = true
-    }
-    if (!existing.avatar && person.avatar) {
-      mergedPerson.avatar = person.avatar
-      changed = true
-    }
-    if (!existing.name && person.name) {
-      mergedPerson.name = person.name
-      changed = true
-    }
-    if (changed) {
-      peopleMap.set(person.uid, mergedPerson)
-    }
-  }
-
-  updatedCache.people = Array.from(peopleMap.values()).sort((a, b) =>
-    (a.name || '').localeCompare(b.name || '')
-  )
-
-  const rosterKey = (entry: RosterEntryRecord) => `${entry.activity_uid}|${entry.person_uid}`
-
-  const rosterMap = new Map<string, RosterEntryRecord>(
-    updatedCache.rosterEntries.map((entry) => [rosterKey(entry), entry])
-  )
-
-  for (const entry of incoming.rosterEntries ?? []) {
-    rosterMap.set(rosterKey(entry), entry)
-  }
-
-  updatedCache.rosterEntries = Array.from(rosterMap.values())
-
-  return { updatedCache, newActivities }
-}
-
 function notifyRefreshStatusChange(isRefreshing: boolean): void {
-  chrome.runtime.sendMessage({
-    type: REFRESH_STATUS_CHANGE_MESSAGE,
+  sendEvent({
+    type: 'refresh-status-changed',
     inProgress: isRefreshing,
     progress: currentProgress,
   })
 }
 
 function handleProgressUpdate(message: CollectorProgressMessage): void {
+  if (!activeRunId || message.runId !== activeRunId) {
+    // Left over from a run this worker did not start (e.g. before a restart)
+    return
+  }
   const previous = currentProgress
   const normalized = normalizeProgressPayload(message, previous)
   currentProgress = normalized
   logProgress(normalized, previous)
   broadcastProgress(normalized)
-  if (message.delta) {
-    applyDeltaToCache(message.delta).catch((error) => {
+  const cacheUpdate = message.delta ? applyDeltaToCache(message.delta) : Promise.resolve()
+  // Mark activities completed only after their delta is in the cache, so a failed
+  // write leaves them pending for the next resume
+  cacheUpdate
+    .then(() => recordRefreshProgress(message, normalized))
+    .catch((error) => {
       console.warn('Mountaineers Assistant: failed to apply incremental cache update', error)
     })
+}
+
+async function recordRefreshProgress(
+  message: CollectorProgressMessage,
+  progress: RefreshProgress
+): Promise<void> {
+  if (!refreshState || refreshState.runId !== message.runId) {
+    return
+  }
+  refreshState = applyProgressToRefreshState(refreshState, message, progress)
+  // Per-request stage changes are not worth a storage write; queue changes are
+  if (message.delta || message.queuedActivityUids) {
+    await saveRefreshState(refreshState)
   }
 }
 
@@ -440,15 +538,7 @@ function clampNumber(value: number, min: number, max: number): number {
 }
 
 function broadcastProgress(progress: RefreshProgress): void {
-  try {
-    chrome.runtime.sendMessage({
-      type: REFRESH_PROGRESS_MESSAGE,
-      origin: 'background',
-      progress,
-    })
-  } catch (error) {
-    console.warn('Mountaineers Assistant: failed to broadcast refresh progress', error)
-  }
+  sendEvent({ type: 'refresh-progress', origin: 'background', progress })
 }
 
 function logProgress(progress: RefreshProgress, previous: RefreshProgress | null): void {
@@ -494,9 +584,7 @@ async function applyDeltaToCache(delta: CollectorDelta): Promise<void> {
   }
   const mergeResult = mergeWithExistingCache(activeCacheContext.workingCache, sanitizedDelta)
   activeCacheContext.workingCache = mergeResult.updatedCache
-  await chrome.storage.local.set({
-    mountaineersAssistantData: activeCacheContext.workingCache,
-  })
+  await applyCacheChanges(selectCacheChanges(mergeResult.updatedCache, sanitizedDelta))
 }
 
 function sanitizeDelta(delta: CollectorDelta | null | undefined): CollectorDelta | null {
@@ -510,6 +598,12 @@ function sanitizeDelta(delta: CollectorDelta | null | undefined): CollectorDelta
   const rosterEntries = Array.isArray(delta.rosterEntries)
     ? delta.rosterEntries.map((item) => ({ ...item }))
     : []
+  const rosterActivityUids = Array.isArray(delta.rosterActivityUids)
+    ? delta.rosterActivityUids.filter((uid): uid is string => typeof uid === 'string')
+    : []
+  const failedActivities = Array.isArray(delta.failedActivities)
+    ? delta.failedActivities.map((item) => ({ ...item }))
+    : []
   if (!activities.length && !people.length && !rosterEntries.length) {
     return null
   }
@@ -517,82 +611,51 @@ function sanitizeDelta(delta: CollectorDelta | null | undefined): CollectorDelta
     activities,
     people,
     rosterEntries,
+    rosterActivityUids,
+    failedActivities,
   }
 }
 
-function createEmptyCache(): ExtensionCache {
-  return {
-    activities: [],
-    people: [],
-    rosterEntries: [],
-    lastUpdated: null,
-    currentUserUid: null,
-  }
-}
-
-function isCollectorProgressMessage(value: unknown): value is CollectorProgressMessage {
-  if (!isRecord(value)) {
-    return false
-  }
-  return value.type === REFRESH_PROGRESS_MESSAGE && value.origin === 'collector'
-}
-
-function isCollectorResultMessage(value: unknown): value is CollectorResultMessage {
-  if (!isRecord(value)) {
-    return false
-  }
-  return value.type === REFRESH_RESULT_MESSAGE
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null
-}
-
-interface SharedActivity {
-  uid: string
-  title: string
-  date: string
-  href: string
-}
-
 async function getSharedActivities(memberUid: string): Promise<SharedActivity[]> {
-  const stored = (await chrome.storage.local.get('mountaineersAssistantData')) as Record<
-    string,
-    unknown
-  >
-  const cache = stored.mountaineersAssistantData as ExtensionCache | undefined
+  const [meta, settings] = await Promise.all([loadCacheMeta(), loadExtensionSettings()])
+  const currentUserUid = meta?.currentUserUid
 
-  if (!cache || !cache.currentUserUid) {
+  if (!currentUserUid) {
     return []
   }
 
   // Don't show section on own profile
-  if (memberUid === cache.currentUserUid) {
+  if (memberUid === currentUserUid) {
     return []
   }
 
   // Find all activities where both current user and target member participated
+  const [currentUserEntries, memberEntries] = await Promise.all([
+    getRosterEntriesForPerson(currentUserUid),
+    getRosterEntriesForPerson(memberUid),
+  ])
   const currentUserActivities = new Set(
-    cache.rosterEntries
-      .filter((entry) => entry.person_uid === cache.currentUserUid)
-      .map((entry) => entry.activity_uid)
+    currentUserEntries.filter(isActiveRosterEntry).map((entry) => entry.activity_uid)
   )
 
   const memberActivities = new Set(
-    cache.rosterEntries
-      .filter((entry) => entry.person_uid === memberUid)
-      .map((entry) => entry.activity_uid)
+    memberEntries.filter(isActiveRosterEntry).map((entry) => entry.activity_uid)
   )
 
   const sharedActivityUids = [...currentUserActivities].filter((uid) => memberActivities.has(uid))
 
   // Get activity details
-  const activityMap = new Map(cache.activities.map((a) => [a.uid, a]))
+  const activityMap = new Map((await getActivitiesByUid(sharedActivityUids)).map((a) => [a.uid, a]))
 
   const sharedActivities: SharedActivity[] = sharedActivityUids
     .map((uid) => {
       const activity = activityMap.get(uid)
       if (!activity) return null
+      if (isTombstoned(activity) && !settings.showRemovedActivities) return null
+      // Canceled or turned-back trips only count when the user opted in
+      if (!settings.countUnsuccessful && !isSuccessfulOutcome(resolveActivityOutcome(activity))) {
+        return null
+      }
       return {
         uid: activity.uid,
         title: activity.title || 'Untitled Activity',
@@ -2,11 +2,17 @@
  * Parse activity page DOM to extract event data for calendar export
  */
 
+import {
+  normalizeWhitespace,
+  parseActivityDetails,
+  parseDetailDate,
+  readDetailEntries,
+} from '../shared/activity-details'
 import type { ActivityPageData } from './types'
 
 /**
  * Extract activity details from current page DOM
- * Reuses parsing pattern from offscreen.ts but adapted for content script context
+ * Uses the same details-list parser as the offscreen collector
  */
 export function parseActivityPage(): ActivityPageData | null {
   // Get activity title from h1
@@ -18,52 +24,10 @@ export function parseActivityPage(): ActivityPageData | null {
     return null
   }
 
-  // Extract details from .program-core .details li elements
-  const detailItems = Array.from(document.querySelectorAll('.program-core .details li'))
-
-  let activityType: string | null = null
-  let difficultyRating: string | null = null
-  let leaderRating: string | null = null
-  let startDate: Date | null = null
-  let endDate: Date | null = null
-  let location: string | null = null
-  let registrationOpensAt: Date | null = null
-
-  for (const item of detailItems) {
-    const label = item.querySelector('label')
-    const normalizedLabel = normalizeWhitespace(label?.textContent ?? '')
-    if (!normalizedLabel) continue
-
-    const labelText = normalizedLabel.replace(/:$/, '').toLowerCase()
-    if (!labelText) continue
-
-    // Clone the item and remove label to get just the value
-    const clone = item.cloneNode(true) as HTMLElement
-    const cloneLabel = clone.querySelector('label')
-    if (cloneLabel) {
-      cloneLabel.remove()
-    }
+  const details = parseActivityDetails(readDetailEntries(document))
 
-    const value = normalizeWhitespace(clone.textContent ?? '')
-    if (!value) continue
-
-    // Map labels to fields
-    if (labelText === 'activity type') {
-      activityType = value
-    } else if (labelText === 'difficulty') {
-      difficultyRating = value
-    } else if (labelText === 'leader rating') {
-      leaderRating = value
-    } else if (labelText === 'start date' || labelText === 'date') {
-      startDate = parseDate(value)
-    } else if (labelText === 'end date') {
-      endDate = parseDate(value)
-    } else if (labelText === 'location' || labelText === 'meeting place') {
-      location = value
-    } else if (labelText.includes('registration opens')) {
-      registrationOpensAt = parseDate(value)
-    }
-  }
+  const startDate = parseDate(details.startDate)
+  let endDate = parseDate(details.endDate)
 
   // Default end date to start date if not specified (most activities are single-day)
   if (startDate && !endDate) {
@@ -75,13 +39,13 @@ export function parseActivityPage(): ActivityPageData | null {
 
   return {
     title,
-    activityType,
-    difficultyRating,
-    leaderRating,
+    activityType: details.activityType,
+    difficultyRating: details.difficultyRating,
+    leaderRating: details.leaderRating,
     startDate,
     endDate,
-    location,
-    registrationOpensAt,
+    location: details.location,
+    registrationOpensAt: parseDate(details.registrationOpens),
     isRegistrationOpen,
     activityUrl: window.location.href,
   }
@@ -125,18 +89,6 @@ function findButtonByText(textOptions: string[]): HTMLElement | null {
   return null
 }
 
-/**
- * Normalize whitespace in text content
- * Reused from offscreen.ts
- */
-function normalizeWhitespace(value: string | null): string | null {
-  if (typeof value !== 'string') {
-    return null
-  }
-  const cleaned = value.replace(/\s+/g, ' ').trim()
-  return cleaned || null
-}
-
 /**
  * Parse date string into Date object
  * Handles various date formats from Mountaineers.org
@@ -145,28 +97,20 @@ function normalizeWhitespace(value: string | null): string | null {
  * This function interprets date strings as Pacific Time to ensure calendar exports
  * show correct times for users in all timezones.
  */
-function parseDate(value: string): Date | null {
+function parseDate(value: string | null): Date | null {
   if (!value) {
     return null
   }
 
-  // Remove day of week if present: "Sat, Jan 20, 2024, 9:00 AM" -> "Jan 20, 2024, 9:00 AM"
-  const withoutDayOfWeek = value.replace(/^(Mon|Tue|Wed|Thu|Fri|Sat|Sun),?\s*/i, '')
-
   // Parse to extract date/time components
   // This initially uses the browser's local timezone, but we'll reinterpret as Pacific
-  const tempDate = new Date(withoutDayOfWeek)
-  if (Number.isNaN(tempDate.getTime())) {
+  const parts = parseDetailDate(value)
+  if (!parts) {
     console.warn('Mountaineers Assistant: Could not parse date:', value)
     return null
   }
 
-  // Extract the components that were parsed
-  const year = tempDate.getFullYear()
-  const month = tempDate.getMonth()
-  const day = tempDate.getDate()
-  const hours = tempDate.getHours()
-  const minutes = tempDate.getMinutes()
+  const { year, month, day, hours, minutes } = parts
 
   // Treat these components as Pacific Time and convert to UTC
   // Pacific Standard Time = UTC-8, Pacific Daylight Time = UTC-7
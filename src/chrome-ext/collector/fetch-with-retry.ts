@@ -0,0 +1,167 @@
+/**
+ * Fetch wrapper that retries transient failures (network errors, timeouts, 429 and 5xx)
+ * with exponential backoff, honouring the server's Retry-After header.
+ */
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+export interface RetryAttempt {
+  url: string
+  /** 1-based number of the attempt about to be made. */
+  attempt: number
+  delayMs: number
+  /** HTTP status of the failed attempt, or null for network errors and timeouts. */
+  status: number | null
+  error: unknown
+}
+
+export interface FetchWithRetryOptions {
+  fetch: FetchLike
+  /** Retries after the first attempt. */
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  /** Longest Retry-After the wrapper waits for; longer requests give up and return the response. */
+  maxRetryAfterMs?: number
+  /** Per-attempt timeout. 0 disables it. */
+  timeoutMs?: number
+  /** Checked before each retry so a cancelled run does not keep retrying. */
+  shouldStop?: () => boolean
+  onRetry?: (attempt: RetryAttempt) => void
+  now?: () => number
+  random?: () => number
+  sleep?: (ms: number) => Promise<void>
+}
+
+export const DEFAULT_RETRY_OPTIONS = {
+  retries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  maxRetryAfterMs: 120_000,
+  timeoutMs: 30_000,
+} as const
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
+
+export class FetchTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms: ${url}`)
+    this.name = 'FetchTimeoutError'
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status)
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null
+  }
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000
+  }
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) {
+    return null
+  }
+  return Math.max(0, date - now)
+}
+
+/**
+ * Exponential backoff with jitter: the delay for `attempt` (1-based) is drawn from the upper
+ * half of `baseDelayMs * 2^(attempt - 1)`, capped at `maxDelayMs`.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  {
+    baseDelayMs = DEFAULT_RETRY_OPTIONS.baseDelayMs,
+    maxDelayMs = DEFAULT_RETRY_OPTIONS.maxDelayMs,
+    random = Math.random,
+  }: { baseDelayMs?: number; maxDelayMs?: number; random?: () => number } = {}
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1))
+  return Math.round(ceiling / 2 + random() * (ceiling / 2))
+}
+
+export function createFetchWithRetry({
+  fetch: fetchImpl,
+  retries = DEFAULT_RETRY_OPTIONS.retries,
+  baseDelayMs = DEFAULT_RETRY_OPTIONS.baseDelayMs,
+  maxDelayMs = DEFAULT_RETRY_OPTIONS.maxDelayMs,
+  maxRetryAfterMs = DEFAULT_RETRY_OPTIONS.maxRetryAfterMs,
+  timeoutMs = DEFAULT_RETRY_OPTIONS.timeoutMs,
+  shouldStop = () => false,
+  onRetry,
+  now = Date.now,
+  random = Math.random,
+  sleep = defaultSleep,
+}: FetchWithRetryOptions): FetchLike {
+  const attemptOnce = async (url: string, init?: RequestInit): Promise<Response> => {
+    if (!timeoutMs || timeoutMs <= 0) {
+      return fetchImpl(url, init)
+    }
+    const controller = new AbortController()
+    const callerSignal = init?.signal
+    const abortFromCaller = () => controller.abort(callerSignal?.reason)
+    if (callerSignal?.aborted) {
+      controller.abort(callerSignal.reason)
+    } else {
+      callerSignal?.addEventListener('abort', abortFromCaller, { once: true })
+    }
+    let timedOut = false
+    const timeoutId = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    try {
+      return await fetchImpl(url, { ...init, signal: controller.signal })
+    } catch (error) {
+      throw timedOut ? new FetchTimeoutError(url, timeoutMs) : error
+    } finally {
+      clearTimeout(timeoutId)
+      callerSignal?.removeEventListener('abort', abortFromCaller)
+    }
+  }
+
+  return async (url, init) => {
+    for (let attempt = 1; ; attempt += 1) {
+      const canRetry = () => attempt <= retries && !shouldStop()
+      let response: Response
+      try {
+        response = await attemptOnce(url, init)
+      } catch (error) {
+        // The caller aborting is not a transient failure
+        if (init?.signal?.aborted || !canRetry()) {
+          throw error
+        }
+        const delayMs = computeBackoffDelay(attempt, { baseDelayMs, maxDelayMs, random })
+        onRetry?.({ url, attempt: attempt + 1, delayMs, status: null, error })
+        await sleep(delayMs)
+        continue
+      }
+
+      if (response.ok || !isRetryableStatus(response.status) || !canRetry()) {
+        return response
+      }
+
+      const backoff = computeBackoffDelay(attempt, { baseDelayMs, maxDelayMs, random })
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'), now())
+      if (retryAfter !== null && retryAfter > maxRetryAfterMs) {
+        return response
+      }
+      const delayMs = Math.max(backoff, retryAfter ?? 0)
+      // Release the connection before waiting
+      await response.body?.cancel().catch(() => undefined)
+      onRetry?.({ url, attempt: attempt + 1, delayMs, status: response.status, error: null })
+      await sleep(delayMs)
+    }
+  }
+}
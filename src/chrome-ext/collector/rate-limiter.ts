@@ -0,0 +1,62 @@
+/**
+ * Token bucket used to keep the collector polite towards mountaineers.org
+ */
+
+export interface RateLimiter {
+  /** Resolves once a request may be sent. Callers are served in FIFO order. */
+  acquire: () => Promise<void>
+}
+
+export interface RateLimiterOptions {
+  /** Time needed to earn one token. 0 disables limiting. */
+  intervalMs: number
+  /** Maximum number of tokens that can be saved up. */
+  burst?: number
+  now?: () => number
+  sleep?: (ms: number) => Promise<void>
+}
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
+
+export function createRateLimiter({
+  intervalMs,
+  burst = 1,
+  now = Date.now,
+  sleep = defaultSleep,
+}: RateLimiterOptions): RateLimiter {
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    return { acquire: () => Promise.resolve() }
+  }
+
+  const capacity = Math.max(1, Math.floor(burst))
+  let tokens = capacity
+  let lastRefill = now()
+  let queue: Promise<void> = Promise.resolve()
+
+  const refill = (): void => {
+    const current = now()
+    const earned = (current - lastRefill) / intervalMs
+    if (earned > 0) {
+      tokens = Math.min(capacity, tokens + earned)
+      lastRefill = current
+    }
+  }
+
+  const take = async (): Promise<void> => {
+    refill()
+    if (tokens < 1) {
+      await sleep(Math.ceil((1 - tokens) * intervalMs))
+      refill()
+    }
+    tokens = Math.max(0, tokens - 1)
+  }
+
+  return {
+    acquire: () => {
+      const turn = queue.then(take)
+      queue = turn.catch(() => undefined)
+      return turn
+    },
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * How the background waits for the offscreen collector to finish a run: it gives up only after
+ * the collector has gone quiet for longer than a healthy run ever does.
+ */
+
+import { type EventHandlers, onEvents } from '../shared/messages'
+import type { CollectorResultMessage } from '../shared/types'
+import { DEFAULT_RETRY_OPTIONS } from './fetch-with-retry'
+
+/**
+ * A retrying request reports before it waits, then stays silent through the wait and the next
+ * attempt. The longest such gap is the longest wait followed by an attempt that times out;
+ * the margin covers rate limiting and parsing around it.
+ */
+export const COLLECTOR_INACTIVITY_TIMEOUT_MS =
+  Math.max(DEFAULT_RETRY_OPTIONS.maxDelayMs, DEFAULT_RETRY_OPTIONS.maxRetryAfterMs) +
+  DEFAULT_RETRY_OPTIONS.timeoutMs +
+  30_000
+
+export interface WaitForCollectorOptions {
+  timeoutMs?: number
+  subscribe?: (handlers: EventHandlers) => () => void
+}
+
+/**
+ * Resolve with the collector's result for `runId`. Every progress event from the collector
+ * restarts the inactivity timeout.
+ */
+export function waitForCollectorResult(
+  runId: string,
+  {
+    timeoutMs = COLLECTOR_INACTIVITY_TIMEOUT_MS,
+    subscribe = onEvents,
+  }: WaitForCollectorOptions = {}
+): Promise<CollectorResultMessage> {
+  return new Promise((resolve, reject) => {
+    let settled = false
+    let timeoutId = scheduleTimeout()
+
+    function scheduleTimeout(): ReturnType<typeof setTimeout> {
+      return setTimeout(() => {
+        finalize(() => reject(new Error('Timed out while refreshing activities.')))
+      }, timeoutMs)
+    }
+
+    function resetTimeout(): void {
+      clearTimeout(timeoutId)
+      timeoutId = scheduleTimeout()
+    }
+
+    const stopListening = subscribe({
+      'refresh-progress': (message) => {
+        if (message.origin === 'collector' && message.runId === runId) {
+          resetTimeout()
+        }
+      },
+      'refresh-result': (message) => {
+        if (message.runId === runId) {
+          finalize(() => resolve(message))
+        }
+      },
+    })
+
+    function finalize(callback: () => void): void {
+      if (settled) {
+        return
+      }
+      settled = true
+      clearTimeout(timeoutId)
+      stopListening()
+      callback()
+    }
+  })
+}
@@ -0,0 +1,46 @@
+/**
+ * Bounded worker pool for the offscreen collector
+ */
+
+export interface WorkerPoolOptions {
+  concurrency: number
+  /** Checked before each item is started; returning true stops scheduling new work. */
+  shouldStop?: () => boolean
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Items are started in order; completion order depends on the worker.
+ * Worker errors are propagated after in-flight work settles.
+ */
+export async function runWorkerPool<T>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<void>,
+  { concurrency, shouldStop }: WorkerPoolOptions
+): Promise<void> {
+  const limit = Math.max(1, Math.floor(concurrency) || 1)
+  let nextIndex = 0
+  const errors: unknown[] = []
+
+  const runLane = async (): Promise<void> => {
+    while (nextIndex < items.length && errors.length === 0) {
+      if (shouldStop?.()) {
+        return
+      }
+      const index = nextIndex
+      nextIndex += 1
+      try {
+        await worker(items[index], index)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+  }
+
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, () => runLane())
+  await Promise.all(lanes)
+
+  if (errors.length > 0) {
+    throw errors[0]
+  }
+}
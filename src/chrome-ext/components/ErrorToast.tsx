@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import { getUnreportedErrors, markErrorDismissed } from '../error-reporter/storage'
 import type { ErrorLogEntry } from '../error-reporter/types'
+import { onEvents } from '../shared/messages'
 
 interface ErrorToastProps {
   onReportClick: (errorId: string) => void
@@ -15,22 +16,11 @@ export function ErrorToast({ onReportClick }: ErrorToastProps) {
     loadUnreportedErrors()
 
     // Listen for new errors from background/offscreen
-    const handleMessage = (message: unknown) => {
-      if (
-        message &&
-        typeof message === 'object' &&
-        'type' in message &&
-        message.type === 'error-logged'
-      ) {
+    return onEvents({
+      'error-logged': () => {
         loadUnreportedErrors()
-      }
-    }
-
-    chrome.runtime.onMessage.addListener(handleMessage)
-
-    return () => {
-      chrome.runtime.onMessage.removeListener(handleMessage)
-    }
+      },
+    })
   }, [])
 
   const loadUnreportedErrors = async () => {
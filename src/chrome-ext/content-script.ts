@@ -1,12 +1,7 @@
 import { parseActivityPage } from './calendar/activity-parser'
 import { injectCalendarButton } from './calendar/button-injector'
-
-interface SharedActivity {
-  uid: string
-  title: string
-  date: string
-  href: string
-}
+import { sendRequest } from './shared/messages'
+import type { SharedActivity } from './shared/types'
 
 const MAX_ACTIVITIES_TO_SHOW = 5
 
@@ -54,16 +49,11 @@ async function initMemberProfileFeatures(): Promise<void> {
     return
   }
 
-  const response = await chrome.runtime.sendMessage({
-    type: 'get-shared-activities',
-    memberUid,
-  })
-
-  if (!response || !response.activities || response.activities.length === 0) {
+  const { activities } = await sendRequest('get-shared-activities', { memberUid })
+  if (activities.length === 0) {
     return
   }
 
-  const activities: SharedActivity[] = response.activities
   injectSharedActivitiesSection(activities, memberUid)
 }
 
@@ -165,10 +155,8 @@ function createSharedActivitiesSection(
   subheader.textContent = `Activities you've done together${remaining > 0 ? ` (showing ${activitiesToShow.length} of ${activities.length})` : ''}`
   section.appendChild(subheader)
 
-  // Build URL for insights page with partner filter
-  const insightsUrl = chrome.runtime.getURL(
-    `insights.html?partner=${encodeURIComponent(memberUid)}`
-  )
+  // Build URL for this member's partner page on the insights dashboard
+  const insightsUrl = chrome.runtime.getURL(`insights.html?person=${encodeURIComponent(memberUid)}`)
 
   // Activity list
   const list = document.createElement('ul')
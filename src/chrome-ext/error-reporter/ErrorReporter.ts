@@ -1,3 +1,4 @@
+import { sendEvent } from '../shared/messages'
 import { sanitizeDiagnosticData, sanitizeErrorMessage } from './sanitization'
 import { addError } from './storage'
 import type { CaptureErrorOptions, ErrorCategory, ErrorLogEntry } from './types'
@@ -249,14 +250,9 @@ class ErrorReporter {
     // Send message to all contexts (insights, preferences pages)
     // UI pages will listen for this and show toast
     try {
-      void Promise.resolve(
-        chrome?.runtime?.sendMessage?.({
-          type: 'error-logged',
-          errorId,
-        })
-      ).catch(() => {
-        // Ignore errors if no UI is open
-      })
+      if (typeof chrome !== 'undefined' && chrome.runtime) {
+        void sendEvent({ type: 'error-logged', errorId })
+      }
     } catch {
       // Ignore if chrome.runtime not available
     }
@@ -3,9 +3,29 @@ import { useEffect, useMemo, useRef, useState } from 'react'
 import { ErrorReportModal } from '../components/ErrorReportModal'
 import { ErrorToast } from '../components/ErrorToast'
 import { Footer } from '../components/Footer'
+import { getOutcomeLabel } from '../shared/outcome'
+import { ActivityCalendar } from './components/ActivityCalendar'
+import { ActivityLog } from './components/ActivityLog'
 import ChoicesMultiSelect from './components/ChoicesMultiSelect'
+import { DateRangeFilter } from './components/DateRangeFilter'
+import { FetchControls } from './components/FetchControls'
+import { NetworkGraph } from './components/NetworkGraph'
+import { PartnerDetail } from './components/PartnerDetail'
+import { RatingProgression } from './components/RatingProgression'
+import { RecordsCard } from './components/RecordsCard'
+import { Resume } from './components/Resume'
+import { YearComparison } from './components/YearComparison'
+import { describeDateRange, isTimelineGranularity, TIMELINE_GRANULARITIES } from './date-range'
 import { useInsightsDashboard } from './hooks/useInsightsDashboard'
-import type { DistributionEntry, PartnerEntry, TimelineView } from './types'
+import { isSeasonalityDimension, SEASONALITY_DIMENSIONS } from './seasonality'
+import type {
+  DashboardTab,
+  DistributionEntry,
+  OutcomeRateEntry,
+  PartnerEntry,
+  SeasonalityDimension,
+  TimelineView,
+} from './types'
 import {
   formatDate,
   formatDateRange,
@@ -50,7 +70,7 @@ const EmptyState = ({ message }: { message: string }) => (
   </div>
 )
 
-const TimelineChart = ({ data }: { data: TimelineView }) => {
+const TimelineChart = ({ data }: { data: Pick<TimelineView, 'categories' | 'series'> }) => {
   const containerRef = useRef<HTMLDivElement | null>(null)
   const highcharts = (window as typeof window & { Highcharts?: typeof import('highcharts') })
     .Highcharts
@@ -232,7 +252,62 @@ const DistributionList = ({ entries }: { entries: DistributionEntry[] }) => (
   </ul>
 )
 
-const PartnerRow = ({ partner, showAvatars }: { partner: PartnerEntry; showAvatars: boolean }) => (
+const OutcomeRateTable = ({
+  entries,
+  turnAroundCount,
+}: {
+  entries: OutcomeRateEntry[]
+  turnAroundCount: number
+}) => {
+  if (!entries.length) {
+    return <div className="py-6 text-sm text-slate-500">No outcome data yet.</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-600">
+        Turn-arounds:{' '}
+        <span className="font-medium text-slate-900">{formatNumber(turnAroundCount)}</span>
+      </p>
+      <table className="min-w-full text-left text-sm">
+        <thead className="text-xs uppercase tracking-wide text-slate-500">
+          <tr className="border-b border-slate-200">
+            <th scope="col" className="py-2 pr-4">
+              Type
+            </th>
+            <th scope="col" className="py-2 pr-4">
+              Successful
+            </th>
+            <th scope="col" className="py-2 pr-4">
+              Success rate
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.label} className="table-row border-b border-slate-200 last:border-b-0">
+              <td className="py-2 pr-4 font-medium text-slate-700">{entry.label}</td>
+              <td className="py-2 pr-4 text-slate-500">
+                {formatNumber(entry.successful)} of {formatNumber(entry.total)}
+              </td>
+              <td className="py-2 pr-4 text-slate-700">{entry.successRate.toFixed(0)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+const PartnerRow = ({
+  partner,
+  showAvatars,
+  onOpenPartner,
+}: {
+  partner: PartnerEntry
+  showAvatars: boolean
+  onOpenPartner: (uid: string) => void
+}) => (
   <tr className="table-row border-b border-slate-200 last:border-b-0">
     <td className="py-3 pl-4 pr-4">
       <div className="flex items-center gap-3">
@@ -249,17 +324,23 @@ const PartnerRow = ({ partner, showAvatars }: { partner: PartnerEntry; showAvata
             )}
           </div>
         )}
-        {partner.profile ? (
+        <button
+          type="button"
+          className="table-link text-left"
+          onClick={() => onOpenPartner(partner.uid)}
+        >
+          {partner.name}
+        </button>
+        {partner.profile && (
           <a
             href={partner.profile}
             target="_blank"
             rel="noopener noreferrer"
-            className="table-link"
+            className="text-xs text-slate-400 hover:text-sky-600"
+            aria-label={`${partner.name} on mountaineers.org`}
           >
-            {partner.name}
+            ↗
           </a>
-        ) : (
-          <span className="text-slate-500">{partner.name}</span>
         )}
       </div>
     </td>
@@ -271,9 +352,11 @@ const PartnerRow = ({ partner, showAvatars }: { partner: PartnerEntry; showAvata
 const PartnersTable = ({
   partners,
   showAvatars,
+  onOpenPartner,
 }: {
   partners: PartnerEntry[]
   showAvatars: boolean
+  onOpenPartner: (uid: string) => void
 }) => {
   if (!partners.length) {
     return (
@@ -301,7 +384,12 @@ const PartnersTable = ({
         </thead>
         <tbody>
           {partners.map((partner) => (
-            <PartnerRow key={partner.uid} partner={partner} showAvatars={showAvatars} />
+            <PartnerRow
+              key={partner.uid}
+              partner={partner}
+              showAvatars={showAvatars}
+              onOpenPartner={onOpenPartner}
+            />
           ))}
         </tbody>
       </table>
@@ -309,6 +397,42 @@ const PartnersTable = ({
   )
 }
 
+const DASHBOARD_TABS: Array<{ value: DashboardTab; label: string }> = [
+  { value: 'overview', label: 'Overview' },
+  { value: 'activity-log', label: 'Activity log' },
+  { value: 'network', label: 'Network' },
+  { value: 'resume', label: 'Resume' },
+]
+
+const DashboardTabs = ({
+  value,
+  onChange,
+}: {
+  value: DashboardTab
+  onChange: (tab: DashboardTab) => void
+}) => (
+  <div className="flex gap-2 print:hidden" role="tablist" aria-label="Dashboard views">
+    {DASHBOARD_TABS.map((tab) => {
+      const selected = tab.value === value
+      return (
+        <button
+          key={tab.value}
+          type="button"
+          role="tab"
+          aria-selected={selected}
+          data-testid={`tab-${tab.value}`}
+          onClick={() => onChange(tab.value)}
+          className={`rounded-full px-4 py-1.5 text-sm font-medium ${
+            selected ? 'bg-sky-600 text-white' : 'bg-white/80 text-slate-600 hover:bg-slate-100'
+          }`}
+        >
+          {tab.label}
+        </button>
+      )
+    })}
+  </div>
+)
+
 const InsightsApp = () => {
   const {
     loading,
@@ -318,17 +442,38 @@ const InsightsApp = () => {
     filterOptions,
     settings,
     view,
+    availableYears,
+    comparisonYears,
+    setComparisonYears,
+    yearComparison,
     summary,
     statusMessage,
     setFilter,
+    setDateRange,
+    granularity,
+    setGranularity,
+    tab,
+    setTab,
+    partnerUid,
+    partnerDetail,
+    network,
+    resume,
+    openPartner,
     clearFilters,
     fetchActivities,
+    cancelRefresh,
+    exportActivities,
     isLoading,
+    isCancelling,
     fetchLimit,
+    refreshMode,
+    setRefreshMode,
+    resyncStaleDays,
     fullDateRange,
   } = useInsightsDashboard()
 
   const [reportModalErrorId, setReportModalErrorId] = useState<string | null>(null)
+  const [seasonalityDimension, setSeasonalityDimension] = useState<SeasonalityDimension>('month')
 
   const filterDisabled = empty || !view
 
@@ -348,7 +493,7 @@ const InsightsApp = () => {
         />
       )}
       <div className="mx-auto max-w-7xl space-y-4 px-4 py-8 sm:px-6">
-        <header>
+        <header className="print:hidden">
           <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
             <div className="space-y-2">
               <div>
@@ -371,81 +516,63 @@ const InsightsApp = () => {
                   Last updated: <span className="font-medium text-slate-900">{lastUpdated}</span>
                 </p>
               </div>
-              <button
-                data-testid="fetch-button"
-                onClick={fetchActivities}
-                disabled={isLoading}
-                className="inline-flex w-full items-center justify-center gap-2 rounded-lg bg-sky-600 px-3 py-2 text-sm font-medium text-white shadow-lg shadow-sky-600/25 transition-colors hover:bg-sky-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:pointer-events-none disabled:opacity-60"
-              >
-                {isLoading && (
-                  <svg
-                    className="h-4 w-4 animate-spin"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                  >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    />
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"
-                    />
-                  </svg>
-                )}
-                {fetchLimit
-                  ? `Fetch New Activities (limit: ${fetchLimit})`
-                  : 'Fetch New Activities'}
-              </button>
-              {statusMessage && (
-                <p
-                  className={`overflow-hidden text-ellipsis text-xs ${
-                    statusMessage.toLowerCase().includes('error') ||
-                    statusMessage.toLowerCase().includes('log in')
-                      ? 'text-rose-600'
-                      : 'text-slate-600'
-                  }`}
-                  title={statusMessage}
-                >
-                  {statusMessage.toLowerCase().includes('log in to mountaineers') ? (
-                    <a
-                      href="https://www.mountaineers.org/login"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="underline hover:text-rose-700"
-                    >
-                      {statusMessage}
-                    </a>
-                  ) : (
-                    statusMessage
-                  )}
-                </p>
-              )}
+              <FetchControls
+                onFetch={fetchActivities}
+                onCancel={cancelRefresh}
+                isLoading={isLoading}
+                isCancelling={isCancelling}
+                statusMessage={statusMessage}
+                fetchLimit={fetchLimit}
+                refreshMode={refreshMode}
+                onRefreshModeChange={setRefreshMode}
+                resyncStaleDays={resyncStaleDays}
+              />
             </div>
           </div>
         </header>
 
-        <section className="glass-card filter-card rounded-2xl p-5">
+        <section className="glass-card filter-card rounded-2xl p-5 print:hidden">
           <div className="mb-4 flex items-center justify-between">
             <h2 className="text-sm font-semibold uppercase tracking-widest text-slate-500">
               Filters
             </h2>
-            <button
-              type="button"
-              className="text-xs font-medium text-sky-600 hover:underline disabled:text-slate-400"
-              onClick={clearFilters}
-              disabled={filterDisabled}
-            >
-              Clear filters
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                type="button"
+                data-testid="export-json"
+                className="text-xs font-medium text-sky-600 hover:underline disabled:text-slate-400"
+                onClick={() => exportActivities('json')}
+                disabled={filterDisabled}
+                title="Download the activities matching the current filters as a JSON archive"
+              >
+                Export JSON
+              </button>
+              <button
+                type="button"
+                data-testid="export-csv"
+                className="text-xs font-medium text-sky-600 hover:underline disabled:text-slate-400"
+                onClick={() => exportActivities('csv')}
+                disabled={filterDisabled}
+                title="Download the activities matching the current filters as CSV files"
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                className="text-xs font-medium text-sky-600 hover:underline disabled:text-slate-400"
+                onClick={clearFilters}
+                disabled={filterDisabled}
+              >
+                Clear filters
+              </button>
+            </div>
           </div>
-          <form className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <form className="grid grid-cols-1 gap-4 md:grid-cols-3 xl:grid-cols-4">
+            <DateRangeFilter
+              value={filters.dateRange}
+              onChange={setDateRange}
+              disabled={filterDisabled}
+            />
             <ChoicesMultiSelect
               id="filter-activity-type"
               label="Activity type"
@@ -494,7 +621,60 @@ const InsightsApp = () => {
                 return partner?.name ?? uid
               }}
             />
+            <ChoicesMultiSelect
+              id="filter-outcome"
+              label="Outcome"
+              options={filterOptions.outcomes}
+              value={filters.outcome}
+              onChange={(values) => setFilter('outcome', values)}
+              disabled={filterDisabled}
+              formatter={getOutcomeLabel}
+              helperText={
+                settings.countUnsuccessful
+                  ? undefined
+                  : 'Only successful activities count toward totals unless an outcome is selected.'
+              }
+            />
+            <ChoicesMultiSelect
+              id="filter-branch"
+              label="Branch"
+              options={filterOptions.branches}
+              value={filters.branch}
+              onChange={(values) => setFilter('branch', values)}
+              disabled={filterDisabled || filterOptions.branches.length === 0}
+              helperText={
+                filterOptions.branches.length === 0
+                  ? 'Branch filter available once activity details are re-synced.'
+                  : undefined
+              }
+            />
+            <ChoicesMultiSelect
+              id="filter-leader"
+              label="Leader"
+              options={filterOptions.leaders}
+              value={filters.leader}
+              onChange={(values) => setFilter('leader', values)}
+              disabled={filterDisabled || filterOptions.leaders.length === 0}
+              helperText={
+                filterOptions.leaders.length === 0
+                  ? 'Leader filter available once activity details are re-synced.'
+                  : undefined
+              }
+            />
           </form>
+          {filters.partner.length > 0 && (
+            <p className="mt-3 text-xs text-slate-500">
+              Partner {filters.partner.length === 1 ? 'page' : 'pages'}:{' '}
+              {filters.partner.map((uid, index) => (
+                <span key={uid}>
+                  {index > 0 && ', '}
+                  <button type="button" className="table-link" onClick={() => openPartner(uid)}>
+                    {filterOptions.partners.find((p) => p.uid === uid)?.name ?? uid}
+                  </button>
+                </span>
+              ))}
+            </p>
+          )}
         </section>
 
         {loading && <LoadingCard message={statusMessage} />}
@@ -503,7 +683,36 @@ const InsightsApp = () => {
           <EmptyState message="Use the 'Fetch New Activities' button above to populate insights." />
         )}
 
-        {!loading && !error && !empty && view && (
+        {!loading && !error && !empty && view && partnerUid && (
+          <PartnerDetail
+            detail={partnerDetail}
+            showAvatars={settings.showAvatars}
+            onBack={() => openPartner(null)}
+            onOpenPartner={openPartner}
+          />
+        )}
+
+        {!loading && !error && !empty && view && !partnerUid && (
+          <DashboardTabs value={tab} onChange={setTab} />
+        )}
+
+        {!loading && !error && !empty && view && !partnerUid && tab === 'activity-log' && (
+          <ActivityLog
+            entries={view.activityLog}
+            showAvatars={settings.showAvatars}
+            onOpenPartner={openPartner}
+          />
+        )}
+
+        {!loading && !error && !empty && network && !partnerUid && tab === 'network' && (
+          <NetworkGraph network={network} onOpenPartner={openPartner} />
+        )}
+
+        {!loading && !error && !empty && resume && !partnerUid && tab === 'resume' && (
+          <Resume resume={resume} />
+        )}
+
+        {!loading && !error && !empty && view && !partnerUid && tab === 'overview' && (
           <div className="space-y-4" id="dashboardContent">
             <section className="grid gap-4 md:grid-cols-4">
               <article className="glass-card rounded-2xl p-5">
@@ -546,13 +755,33 @@ const InsightsApp = () => {
                   <div>
                     <h2 className="text-lg font-medium text-slate-900">Activities cadence</h2>
                     <p className="text-sm text-slate-500">
-                      Monthly count of activities over the trailing year.
+                      Count of activities per {granularity} across the selected dates.
                     </p>
                   </div>
-                  <span className="inline-flex items-center gap-2 rounded-full bg-sky-500/20 px-3 py-1 text-xs font-medium text-sky-600">
-                    <span className="h-2 w-2 rounded-full bg-sky-500"></span>
-                    Trailing 12 months
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="inline-flex items-center gap-2 rounded-full bg-sky-500/20 px-3 py-1 text-xs font-medium text-sky-600">
+                      <span className="h-2 w-2 rounded-full bg-sky-500"></span>
+                      {describeDateRange(filters.dateRange)}
+                    </span>
+                    <select
+                      aria-label="Timeline granularity"
+                      data-testid="timeline-granularity"
+                      value={granularity}
+                      onChange={(event) => {
+                        const next = event.target.value
+                        if (isTimelineGranularity(next)) {
+                          setGranularity(next)
+                        }
+                      }}
+                      className="rounded-lg border border-slate-200/70 bg-white/90 px-2 py-1 text-xs text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+                    >
+                      {TIMELINE_GRANULARITIES.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
                 <div className="relative h-96">
                   <TimelineChart data={view.timeline} />
@@ -592,13 +821,100 @@ const InsightsApp = () => {
               </article>
             </section>
 
+            <section className="grid gap-4 xl:grid-cols-5">
+              <div className="min-w-0 xl:col-span-3">
+                <ActivityCalendar calendar={view.calendar} />
+              </div>
+              <article className="glass-card relative space-y-4 rounded-2xl p-6 xl:col-span-2">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <h2 className="text-lg font-medium text-slate-900">Seasonality</h2>
+                    <p className="text-sm text-slate-500">
+                      {view.seasonality.weekendShare === null
+                        ? 'When in the year your activities happen.'
+                        : `${view.seasonality.weekendShare.toFixed(0)}% of matching activities were on a weekend.`}
+                    </p>
+                  </div>
+                  <select
+                    aria-label="Seasonality breakdown"
+                    data-testid="seasonality-dimension"
+                    value={seasonalityDimension}
+                    onChange={(event) => {
+                      const next = event.target.value
+                      if (isSeasonalityDimension(next)) {
+                        setSeasonalityDimension(next)
+                      }
+                    }}
+                    className="rounded-lg border border-slate-200/70 bg-white/90 px-2 py-1 text-xs text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+                  >
+                    {SEASONALITY_DIMENSIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="relative h-80">
+                  <TimelineChart data={view.seasonality[seasonalityDimension]} />
+                </div>
+              </article>
+            </section>
+
+            <RecordsCard records={view.records} />
+
+            <RatingProgression ratings={view.ratings} />
+
+            <section className="grid gap-4 xl:grid-cols-4">
+              <article className="glass-card relative space-y-4 rounded-2xl p-6">
+                <div>
+                  <h2 className="text-lg font-medium text-slate-900">Outcomes</h2>
+                  <p className="text-sm text-slate-500">
+                    {view.metrics.successRate === null
+                      ? 'How your activities turned out.'
+                      : `${view.metrics.successRate.toFixed(0)}% of matching activities were successful.`}
+                  </p>
+                </div>
+                <div className="relative h-72">
+                  <DistributionChart
+                    entries={view.outcomes.entries}
+                    label="Activities"
+                    emptyMessage="No outcome data"
+                    colors={['#22c55e', '#f59e0b', '#94a3b8', '#f43f5e', '#0f172a']}
+                  />
+                </div>
+                <DistributionList entries={view.outcomes.entries} />
+              </article>
+              <article className="glass-card space-y-4 rounded-2xl p-6 xl:col-span-3">
+                <div>
+                  <h2 className="text-lg font-medium text-slate-900">Success rate by type</h2>
+                  <p className="text-sm text-slate-500">
+                    Share of activities of each type that ended successfully.
+                  </p>
+                </div>
+                <OutcomeRateTable
+                  entries={view.outcomes.byType}
+                  turnAroundCount={view.metrics.turnAroundCount}
+                />
+              </article>
+            </section>
+
+            {yearComparison && availableYears.length > 1 && (
+              <YearComparison
+                comparison={yearComparison}
+                availableYears={availableYears}
+                selectedYears={comparisonYears}
+                onSelectedYearsChange={setComparisonYears}
+              />
+            )}
+
             <section className="grid gap-4 xl:grid-cols-2">
               <article className="glass-card space-y-4 rounded-2xl p-6">
                 <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                   <div>
                     <h2 className="text-lg font-medium text-slate-900">Top activity partners</h2>
                     <p className="text-sm text-slate-500">
-                      Teammates appearing alongside you most frequently.
+                      Teammates appearing alongside you most frequently. Select a name to see your
+                      history together.
                     </p>
                   </div>
                   <span className="text-xs font-medium text-slate-500">
@@ -606,14 +922,27 @@ const InsightsApp = () => {
                     partners
                   </span>
                 </div>
-                <PartnersTable partners={view.partners} showAvatars={settings.showAvatars} />
+                <PartnersTable
+                  partners={view.partners}
+                  showAvatars={settings.showAvatars}
+                  onOpenPartner={openPartner}
+                />
               </article>
               <article className="glass-card space-y-4 rounded-2xl p-6">
-                <div>
-                  <h2 className="text-lg font-medium text-slate-900">Recent activities</h2>
-                  <p className="text-sm text-slate-500">
-                    Latest events with quick links back to mountaineers.org.
-                  </p>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-medium text-slate-900">Recent activities</h2>
+                    <p className="text-sm text-slate-500">
+                      Latest events with quick links back to mountaineers.org.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="shrink-0 text-xs font-medium text-sky-600 hover:underline"
+                    onClick={() => setTab('activity-log')}
+                  >
+                    View all
+                  </button>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="min-w-full text-left text-sm">
@@ -628,6 +957,12 @@ const InsightsApp = () => {
                         <th scope="col" className="py-3 pr-4">
                           Type
                         </th>
+                        <th scope="col" className="py-3 pr-4">
+                          Branch
+                        </th>
+                        <th scope="col" className="py-3 pr-4">
+                          Leaders
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -653,13 +988,41 @@ const InsightsApp = () => {
                               ) : (
                                 <span className="text-slate-500">{activity.title}</span>
                               )}
+                              {activity.removed && (
+                                <span
+                                  className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-500"
+                                  title="No longer listed in your Mountaineers activity history"
+                                >
+                                  Removed
+                                </span>
+                              )}
+                              {activity.routeName && (
+                                <span className="block text-xs text-slate-500">
+                                  {activity.routeHref ? (
+                                    <a
+                                      href={activity.routeHref}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="table-link"
+                                    >
+                                      {activity.routeName}
+                                    </a>
+                                  ) : (
+                                    activity.routeName
+                                  )}
+                                </span>
+                              )}
                             </td>
                             <td className="py-3 pr-4 text-slate-500">{activity.activity_type}</td>
+                            <td className="py-3 pr-4 text-slate-500">{activity.branch ?? '—'}</td>
+                            <td className="py-3 pr-4 text-slate-500">
+                              {activity.leaderNames.length ? activity.leaderNames.join(', ') : '—'}
+                            </td>
                           </tr>
                         ))
                       ) : (
                         <tr>
-                          <td colSpan={3} className="py-6 pl-4 pr-4 text-sm text-slate-500">
+                          <td colSpan={5} className="py-6 pl-4 pr-4 text-sm text-slate-500">
                             Recent activity details will show here once eligible events are
                             available.
                           </td>
@@ -673,7 +1036,9 @@ const InsightsApp = () => {
           </div>
         )}
 
-        <Footer />
+        <div className="print:hidden">
+          <Footer />
+        </div>
       </div>
     </div>
   )
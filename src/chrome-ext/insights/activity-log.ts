@@ -0,0 +1,100 @@
+import type { ActivityLogEntry, ActivityLogSort, ActivityLogSortKey } from './types'
+
+export const ACTIVITY_LOG_PAGE_SIZE = 25
+
+export const DEFAULT_ACTIVITY_LOG_SORT: ActivityLogSort = { key: 'date', direction: 'desc' }
+
+export interface ActivityLogPage {
+  entries: ActivityLogEntry[]
+  /** Zero-based, clamped to the available pages. */
+  page: number
+  pageCount: number
+  /** One-based position of the first and last entry shown, for "Showing x–y of z". */
+  first: number
+  last: number
+  total: number
+}
+
+/** Dates and partner counts read best largest first; text columns alphabetically. */
+export const getDefaultSortDirection = (key: ActivityLogSortKey): ActivityLogSort['direction'] =>
+  key === 'date' || key === 'partners' ? 'desc' : 'asc'
+
+/** Clicking the active column flips its direction; another column starts at its default. */
+export const toggleActivityLogSort = (
+  current: ActivityLogSort,
+  key: ActivityLogSortKey
+): ActivityLogSort =>
+  current.key === key
+    ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+    : { key, direction: getDefaultSortDirection(key) }
+
+/** Keeps entries whose title contains every word of the query, ignoring case. */
+export const searchActivityLog = (
+  entries: ActivityLogEntry[],
+  query: string
+): ActivityLogEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (!terms.length) return entries
+  return entries.filter((entry) => {
+    const title = entry.title.toLowerCase()
+    return terms.every((term) => title.includes(term))
+  })
+}
+
+const getSortValue = (entry: ActivityLogEntry, key: ActivityLogSortKey): string | number | null => {
+  switch (key) {
+    case 'date':
+      return entry.date.getTime()
+    case 'type':
+      return entry.activityType
+    case 'category':
+      return entry.category
+    case 'role':
+      return entry.roles.length ? [...entry.roles].sort().join(', ') : null
+    case 'difficulty':
+      return entry.difficulty
+    case 'partners':
+      return entry.partnerCount
+  }
+}
+
+/** Sorts a copy of the entries. Missing values go last either way; ties fall back to newest first. */
+export const sortActivityLog = (
+  entries: ActivityLogEntry[],
+  sort: ActivityLogSort
+): ActivityLogEntry[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1
+  return [...entries].sort((a, b) => {
+    const left = getSortValue(a, sort.key)
+    const right = getSortValue(b, sort.key)
+    if (left === null || right === null) {
+      if (left !== right) return left === null ? 1 : -1
+    } else if (left !== right) {
+      const compared =
+        typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right), undefined, { numeric: true })
+      if (compared !== 0) return compared * factor
+    }
+    return b.date.getTime() - a.date.getTime()
+  })
+}
+
+export const paginateActivityLog = (
+  entries: ActivityLogEntry[],
+  page: number,
+  pageSize: number = ACTIVITY_LOG_PAGE_SIZE
+): ActivityLogPage => {
+  const pageCount = Math.max(1, Math.ceil(entries.length / pageSize))
+  const current = Math.min(Math.max(0, Math.floor(page)), pageCount - 1)
+  const start = current * pageSize
+  const pageEntries = entries.slice(start, start + pageSize)
+  return {
+    entries: pageEntries,
+    page: current,
+    pageCount,
+    first: pageEntries.length ? start + 1 : 0,
+    last: start + pageEntries.length,
+    total: entries.length,
+  }
+}
@@ -0,0 +1,99 @@
+import type React from 'react'
+import { getHeatmapLevel, HEATMAP_LEVELS } from '../seasonality'
+import type { CalendarDay, CalendarHeatmapView } from '../types'
+import { formatDate, formatNumber } from '../utils'
+
+interface ActivityCalendarProps {
+  calendar: CalendarHeatmapView
+}
+
+// Index 0 is an empty day, then one shade per heatmap level
+const LEVEL_CLASSES = ['bg-slate-200/70', 'bg-sky-200', 'bg-sky-400', 'bg-sky-600', 'bg-sky-800']
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+const LABELLED_WEEKDAYS = new Set(['Mon', 'Wed', 'Fri'])
+const CELL_CLASS = 'h-3 w-3 rounded-sm'
+
+const describeDay = (day: CalendarDay): string => {
+  const label = formatDate(new Date(`${day.date}T00:00:00.000Z`))
+  if (!day.count) return `${label}: no activities`
+  const count = day.count === 1 ? '1 activity' : `${formatNumber(day.count)} activities`
+  return `${label}: ${count} (${day.types.join(', ')})`
+}
+
+export const ActivityCalendar: React.FC<ActivityCalendarProps> = ({ calendar }) => (
+  <article className="glass-card space-y-4 rounded-2xl p-6" data-testid="activity-calendar">
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+      <div>
+        <h2 className="text-lg font-medium text-slate-900">Activity calendar</h2>
+        <p className="text-sm text-slate-500">
+          Activities per day across the selected dates. Hover over a day for details.
+        </p>
+      </div>
+      <div className="flex items-center gap-1 text-xs text-slate-500" aria-hidden="true">
+        Less
+        {LEVEL_CLASSES.slice(0, HEATMAP_LEVELS + 1).map((className) => (
+          <span key={className} className={`${CELL_CLASS} ${className}`} />
+        ))}
+        More
+      </div>
+    </div>
+
+    {calendar.years.length ? (
+      <div className="space-y-5">
+        {calendar.years.map((entry) => (
+          <div key={entry.year}>
+            <p className="mb-1 text-sm text-slate-600">
+              <span className="font-medium text-slate-900">{entry.year}</span> ·{' '}
+              {formatNumber(entry.activities)} activities on {formatNumber(entry.activeDays)} days
+            </p>
+            <div className="overflow-x-auto pb-1">
+              <div className="inline-flex flex-col gap-1">
+                <div className="relative ml-8 h-4 text-[10px] text-slate-400" aria-hidden="true">
+                  {entry.months.map((month) => (
+                    <span
+                      key={month.label}
+                      className="absolute"
+                      style={{ left: `${month.week * 0.875}rem` }}
+                    >
+                      {month.label}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  <div className="flex w-7 flex-col gap-0.5 text-[10px] leading-3 text-slate-400">
+                    {WEEKDAYS.map((label) => (
+                      <span key={label} className="h-3">
+                        {LABELLED_WEEKDAYS.has(label) ? label : ''}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="flex gap-0.5">
+                    {entry.weeks.map((week) => (
+                      <div key={week[0].date} className="flex flex-col gap-0.5">
+                        {week.map((day) =>
+                          day.inRange ? (
+                            <span
+                              key={day.date}
+                              title={describeDay(day)}
+                              className={`${CELL_CLASS} ${
+                                LEVEL_CLASSES[getHeatmapLevel(day.count, calendar.maxCount)]
+                              }`}
+                            />
+                          ) : (
+                            <span key={day.date} className={CELL_CLASS} />
+                          )
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <p className="py-10 text-center text-sm text-slate-500">No dated activities yet.</p>
+    )}
+  </article>
+)
@@ -0,0 +1,333 @@
+import type React from 'react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { getOutcomeLabel } from '../../shared/outcome'
+import {
+  DEFAULT_ACTIVITY_LOG_SORT,
+  paginateActivityLog,
+  searchActivityLog,
+  sortActivityLog,
+  toggleActivityLogSort,
+} from '../activity-log'
+import type {
+  ActivityLogEntry,
+  ActivityLogRosterEntry,
+  ActivityLogSort,
+  ActivityLogSortKey,
+} from '../types'
+import { formatDate, formatNumber, initials } from '../utils'
+
+interface ActivityLogProps {
+  entries: ActivityLogEntry[]
+  showAvatars: boolean
+  title?: string
+  description?: string
+  /** Opens a person's partner page from the expanded roster. */
+  onOpenPartner?: (uid: string) => void
+}
+
+const COLUMNS: Array<{ key: ActivityLogSortKey; label: string }> = [
+  { key: 'date', label: 'Date' },
+  { key: 'type', label: 'Type' },
+  { key: 'category', label: 'Category' },
+  { key: 'role', label: 'Your role' },
+  { key: 'difficulty', label: 'Difficulty' },
+  { key: 'partners', label: 'Partners' },
+]
+
+// Expand toggle and activity title plus the sortable columns
+const COLUMN_COUNT = COLUMNS.length + 2
+
+const SortHeader = ({
+  column,
+  sort,
+  onSort,
+}: {
+  column: (typeof COLUMNS)[number]
+  sort: ActivityLogSort
+  onSort: (key: ActivityLogSortKey) => void
+}) => {
+  const active = sort.key === column.key
+  return (
+    <th
+      scope="col"
+      className="py-3 pr-4"
+      aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        data-testid={`activity-log-sort-${column.key}`}
+        onClick={() => onSort(column.key)}
+        className={`inline-flex items-center gap-1 uppercase tracking-wide hover:text-slate-900 ${
+          active ? 'text-slate-900' : ''
+        }`}
+      >
+        {column.label}
+        <span aria-hidden="true" className="text-[10px]">
+          {active ? (sort.direction === 'asc' ? '▲' : '▼') : ''}
+        </span>
+      </button>
+    </th>
+  )
+}
+
+const ExternalProfileLink = ({ person }: { person: ActivityLogRosterEntry }) =>
+  person.profile ? (
+    <a
+      href={person.profile}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="ml-1 text-xs text-slate-400 hover:text-sky-600"
+      aria-label={`${person.name} on mountaineers.org`}
+    >
+      ↗
+    </a>
+  ) : null
+
+const RosterList = ({
+  roster,
+  showAvatars,
+  onOpenPartner,
+}: {
+  roster: ActivityLogRosterEntry[]
+  showAvatars: boolean
+  onOpenPartner?: (uid: string) => void
+}) =>
+  roster.length ? (
+    <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+      {roster.map((person) => (
+        <li key={`${person.uid}-${person.role}`} className="flex items-center gap-2">
+          {showAvatars && (
+            <div className="flex h-7 w-7 shrink-0 items-center justify-center overflow-hidden rounded-full bg-slate-200 text-[10px] font-semibold text-slate-700">
+              {person.avatar ? (
+                <img
+                  src={person.avatar}
+                  alt={`${person.name} avatar`}
+                  className="h-full w-full object-cover"
+                />
+              ) : (
+                <span aria-hidden="true">{initials(person.name)}</span>
+              )}
+            </div>
+          )}
+          <span>
+            {onOpenPartner && !person.isCurrentUser ? (
+              <>
+                <button
+                  type="button"
+                  className="table-link text-left"
+                  onClick={() => onOpenPartner(person.uid)}
+                >
+                  {person.name}
+                </button>
+                <ExternalProfileLink person={person} />
+              </>
+            ) : person.profile ? (
+              <a
+                href={person.profile}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="table-link"
+              >
+                {person.name}
+              </a>
+            ) : (
+              <span className="text-slate-700">{person.name}</span>
+            )}
+            {person.isCurrentUser && <span className="text-slate-400"> (you)</span>}
+            <span className="block text-xs text-slate-500">{person.role}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  ) : (
+    <p className="text-slate-500">No roster cached for this activity.</p>
+  )
+
+export const ActivityLog: React.FC<ActivityLogProps> = ({
+  entries,
+  showAvatars,
+  title = 'Activity log',
+  description = 'Every activity matching the current filters. Expand a row to see who was there.',
+  onOpenPartner,
+}) => {
+  const [query, setQuery] = useState('')
+  const [sort, setSort] = useState<ActivityLogSort>(DEFAULT_ACTIVITY_LOG_SORT)
+  const [page, setPage] = useState(0)
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set())
+
+  const matching = useMemo(
+    () => sortActivityLog(searchActivityLog(entries, query), sort),
+    [entries, query, sort]
+  )
+  const current = paginateActivityLog(matching, page)
+  const handleSort = (key: ActivityLogSortKey) => setSort(toggleActivityLogSort(sort, key))
+
+  // A new search, sort or set of filters starts again from the first page
+  useEffect(() => {
+    setPage(0)
+  }, [entries, query, sort])
+
+  const toggleExpanded = (uid: string) => {
+    setExpanded((previous) => {
+      const next = new Set(previous)
+      if (next.has(uid)) {
+        next.delete(uid)
+      } else {
+        next.add(uid)
+      }
+      return next
+    })
+  }
+
+  return (
+    <article className="glass-card space-y-4 rounded-2xl p-6" data-testid="activity-log">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-slate-900">{title}</h2>
+          <p className="text-sm text-slate-500">{description}</p>
+        </div>
+        <label className="block text-xs text-slate-600 sm:w-72">
+          <span className="sr-only">Search activity titles</span>
+          <input
+            type="search"
+            data-testid="activity-log-search"
+            placeholder="Search titles…"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            className="w-full rounded-lg border border-slate-200/70 bg-white/90 px-3 py-1.5 text-sm text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-slate-500">
+            <tr className="border-b border-slate-200">
+              <th scope="col" className="w-8 py-3 pl-2">
+                <span className="sr-only">Roster</span>
+              </th>
+              <SortHeader column={COLUMNS[0]} sort={sort} onSort={handleSort} />
+              <th scope="col" className="py-3 pr-4">
+                Activity
+              </th>
+              {COLUMNS.slice(1).map((column) => (
+                <SortHeader key={column.key} column={column} sort={sort} onSort={handleSort} />
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {current.entries.length ? (
+              current.entries.map((entry) => {
+                const isExpanded = expanded.has(entry.uid)
+                return (
+                  <Fragment key={entry.uid}>
+                    <tr className="table-row border-b border-slate-200">
+                      <td className="py-3 pl-2">
+                        <button
+                          type="button"
+                          aria-expanded={isExpanded}
+                          aria-label={`${isExpanded ? 'Hide' : 'Show'} roster for ${entry.title}`}
+                          onClick={() => toggleExpanded(entry.uid)}
+                          className="h-6 w-6 rounded text-slate-500 hover:bg-slate-100 hover:text-slate-900"
+                        >
+                          <span aria-hidden="true">{isExpanded ? '▾' : '▸'}</span>
+                        </button>
+                      </td>
+                      <td className="whitespace-nowrap py-3 pr-4 text-slate-500">
+                        {formatDate(entry.date)}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-700">
+                        {entry.href ? (
+                          <a
+                            href={entry.href}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="table-link"
+                          >
+                            {entry.title}
+                          </a>
+                        ) : (
+                          <span className="text-slate-500">{entry.title}</span>
+                        )}
+                        {entry.outcome !== 'successful' && (
+                          <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-700">
+                            {getOutcomeLabel(entry.outcome)}
+                          </span>
+                        )}
+                        {entry.removed && (
+                          <span
+                            className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-500"
+                            title="No longer listed in your Mountaineers activity history"
+                          >
+                            Removed
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-500">{entry.activityType}</td>
+                      <td className="py-3 pr-4 text-slate-500">{entry.category}</td>
+                      <td className="py-3 pr-4 text-slate-500">
+                        {entry.roles.length ? entry.roles.join(', ') : '—'}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-500">{entry.difficulty ?? '—'}</td>
+                      <td className="py-3 pr-4 text-slate-700">
+                        {formatNumber(entry.partnerCount)}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-slate-200 bg-slate-50/70">
+                        <td colSpan={COLUMN_COUNT} className="px-4 py-3 text-sm">
+                          <RosterList
+                            roster={entry.roster}
+                            showAvatars={showAvatars}
+                            onOpenPartner={onOpenPartner}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })
+            ) : (
+              <tr>
+                <td colSpan={COLUMN_COUNT} className="py-6 pr-4 text-sm text-slate-500">
+                  {query.trim()
+                    ? 'No activity titles match your search.'
+                    : 'No activities match the current filters.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span data-testid="activity-log-count">
+          {current.total
+            ? `Showing ${formatNumber(current.first)}–${formatNumber(current.last)} of ${formatNumber(current.total)}`
+            : 'No activities'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setPage(current.page - 1)}
+            disabled={current.page === 0}
+            className="rounded-lg px-2 py-1 font-medium text-sky-600 hover:bg-sky-50 disabled:text-slate-400 disabled:hover:bg-transparent"
+          >
+            Previous
+          </button>
+          <span>
+            Page {current.page + 1} of {current.pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(current.page + 1)}
+            disabled={current.page >= current.pageCount - 1}
+            className="rounded-lg px-2 py-1 font-medium text-sky-600 hover:bg-sky-50 disabled:text-slate-400 disabled:hover:bg-transparent"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </article>
+  )
+}
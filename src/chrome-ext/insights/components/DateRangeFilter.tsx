@@ -0,0 +1,72 @@
+import type React from 'react'
+import { DATE_RANGE_PRESETS, isDateRangePreset, toCustomDateRange } from '../date-range'
+import type { DateRangeFilter as DateRangeValue } from '../types'
+
+interface DateRangeFilterProps {
+  value: DateRangeValue
+  onChange: (value: DateRangeValue) => void
+  disabled?: boolean
+}
+
+const inputClasses =
+  'w-full rounded-lg border border-slate-200/70 bg-white/90 px-2 py-1.5 text-sm text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70 disabled:opacity-60'
+
+export const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ value, onChange, disabled }) => (
+  <div className="block text-sm">
+    <label htmlFor="filter-date-range" className="block">
+      <span className="block text-xs font-semibold uppercase tracking-widest text-slate-500">
+        Date range
+      </span>
+    </label>
+    <select
+      id="filter-date-range"
+      data-testid="filter-date-range"
+      value={value.preset}
+      disabled={disabled}
+      onChange={(event) => {
+        const preset = event.target.value
+        if (isDateRangePreset(preset)) {
+          // Switching to custom starts from the dates the previous preset covered
+          onChange(
+            preset === 'custom' ? toCustomDateRange(value) : { preset, start: null, end: null }
+          )
+        }
+      }}
+      className={`mt-2 ${inputClasses}`}
+    >
+      {DATE_RANGE_PRESETS.map((preset) => (
+        <option key={preset.value} value={preset.value}>
+          {preset.label}
+        </option>
+      ))}
+    </select>
+    {value.preset === 'custom' ? (
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <label className="block text-xs text-slate-600">
+          <span>From</span>
+          <input
+            type="date"
+            data-testid="filter-date-from"
+            value={value.start ?? ''}
+            max={value.end ?? undefined}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...value, start: event.target.value || null })}
+            className={inputClasses}
+          />
+        </label>
+        <label className="block text-xs text-slate-600">
+          <span>To</span>
+          <input
+            type="date"
+            data-testid="filter-date-to"
+            value={value.end ?? ''}
+            min={value.start ?? undefined}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...value, end: event.target.value || null })}
+            className={inputClasses}
+          />
+        </label>
+      </div>
+    ) : null}
+  </div>
+)
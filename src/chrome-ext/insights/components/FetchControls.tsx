@@ -1,39 +1,65 @@
 import React from 'react'
-import type { RefreshSummary } from '../../shared/types'
+import { getRefreshModeLabel, isRefreshMode, REFRESH_MODES } from '../../shared/resync'
+import type { RefreshMode } from '../../shared/types'
 
 interface FetchControlsProps {
   onFetch: () => void
+  onCancel: () => void
   isLoading: boolean
+  isCancelling: boolean
   statusMessage: string
-  summary: RefreshSummary
   fetchLimit: number | null
+  refreshMode: RefreshMode
+  onRefreshModeChange: (mode: RefreshMode) => void
+  resyncStaleDays: number
 }
 
 export const FetchControls: React.FC<FetchControlsProps> = ({
   onFetch,
+  onCancel,
   isLoading,
+  isCancelling,
   statusMessage,
-  summary,
   fetchLimit,
+  refreshMode,
+  onRefreshModeChange,
+  resyncStaleDays,
 }) => {
-  const buttonText = fetchLimit
-    ? `Fetch New Activities (limit: ${fetchLimit})`
-    : 'Fetch New Activities'
+  const baseText = refreshMode === 'new' ? 'Fetch New Activities' : 'Re-sync Activities'
+  const buttonText = fetchLimit ? `${baseText} (limit: ${fetchLimit})` : baseText
+  const isError =
+    statusMessage.toLowerCase().includes('error') || statusMessage.toLowerCase().includes('log in')
 
   return (
-    <div className="glass-card space-y-4 rounded-2xl p-6">
-      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-        <div>
-          <h2 className="text-lg font-semibold text-slate-900">Activity Data</h2>
-          <p className="text-sm text-slate-500">
-            Fetch latest activity history from mountaineers.org.
-          </p>
-        </div>
+    <div className="space-y-3">
+      <label className="block space-y-1 text-xs text-slate-600">
+        <span>Refresh mode</span>
+        <select
+          id="refresh-mode"
+          data-testid="refresh-mode"
+          value={refreshMode}
+          disabled={isLoading}
+          onChange={(event) => {
+            const next = event.target.value
+            if (isRefreshMode(next)) {
+              onRefreshModeChange(next)
+            }
+          }}
+          className="w-full rounded-lg border border-slate-200/70 bg-white/90 px-2 py-1.5 text-sm text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70 disabled:opacity-60"
+        >
+          {REFRESH_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {getRefreshModeLabel(mode, resyncStaleDays)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-2">
         <button
           data-testid="fetch-button"
           onClick={onFetch}
           disabled={isLoading}
-          className="inline-flex items-center justify-center gap-2 rounded-xl bg-sky-600 px-4 py-2 text-sm font-medium text-white shadow-lg shadow-sky-600/25 transition-colors hover:bg-sky-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:pointer-events-none disabled:opacity-60"
+          className="inline-flex flex-1 items-center justify-center gap-2 rounded-lg bg-sky-600 px-3 py-2 text-sm font-medium text-white shadow-lg shadow-sky-600/25 transition-colors hover:bg-sky-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:pointer-events-none disabled:opacity-60"
         >
           {isLoading && (
             <svg
@@ -59,30 +85,38 @@ export const FetchControls: React.FC<FetchControlsProps> = ({
           )}
           {buttonText}
         </button>
+        {isLoading && (
+          <button
+            type="button"
+            data-testid="cancel-button"
+            onClick={onCancel}
+            disabled={isCancelling}
+            className="inline-flex items-center justify-center rounded-lg border border-slate-200 bg-white/90 px-3 py-2 text-sm font-medium text-slate-700 shadow transition-colors hover:bg-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:pointer-events-none disabled:opacity-60"
+          >
+            {isCancelling ? 'Cancelling…' : 'Cancel'}
+          </button>
+        )}
       </div>
       {statusMessage && (
-        <div className="rounded-lg bg-slate-50 px-4 py-3">
-          <p
-            className={`text-sm ${
-              statusMessage.toLowerCase().includes('error') ||
-              statusMessage.toLowerCase().includes('log in')
-                ? 'text-rose-600'
-                : 'text-slate-700'
-            }`}
-          >
-            {statusMessage}
-          </p>
-          {statusMessage.toLowerCase().includes('log in') && (
+        <p
+          className={`overflow-hidden text-ellipsis text-xs ${
+            isError ? 'text-rose-600' : 'text-slate-600'
+          }`}
+          title={statusMessage}
+        >
+          {statusMessage.toLowerCase().includes('log in to mountaineers') ? (
             <a
-              href="https://www.mountaineers.org/"
+              href="https://www.mountaineers.org/login"
               target="_blank"
               rel="noopener noreferrer"
-              className="mt-2 inline-block text-sm text-sky-600 hover:text-sky-700 hover:underline"
+              className="underline hover:text-rose-700"
             >
-              Open Mountaineers.org →
+              {statusMessage}
             </a>
+          ) : (
+            statusMessage
           )}
-        </div>
+        </p>
       )}
     </div>
   )
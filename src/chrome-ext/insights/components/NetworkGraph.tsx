@@ -0,0 +1,263 @@
+import type React from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getEgoNetwork, layoutNetwork, type NodePosition } from '../network-graph'
+import type { NetworkNode, PartnerNetwork } from '../types'
+import { formatNumber, getActivityTypeColors } from '../utils'
+
+interface NetworkGraphProps {
+  network: PartnerNetwork
+  onOpenPartner: (uid: string) => void
+}
+
+const CANVAS_HEIGHT = 560
+const CURRENT_USER_COLOR = '#0f172a'
+const EDGE_COLOR = '148, 163, 184'
+const LABELLED_NODES = 15
+const MIN_WEIGHT_OPTIONS = [1, 2, 3, 5]
+
+const nodeRadius = (node: NetworkNode) => 4 + Math.sqrt(node.activities) * 2
+
+const clusterColor = (cluster: number) => {
+  const palette = getActivityTypeColors()
+  return palette[cluster % palette.length]
+}
+
+const nodeColor = (node: NetworkNode) =>
+  node.isCurrentUser ? CURRENT_USER_COLOR : clusterColor(node.cluster)
+
+const findNodeAt = (
+  nodes: NetworkNode[],
+  positions: Map<string, NodePosition>,
+  x: number,
+  y: number
+): NetworkNode | null => {
+  let closest: NetworkNode | null = null
+  let closestDistance = Number.POSITIVE_INFINITY
+  for (const node of nodes) {
+    const position = positions.get(node.uid)
+    if (!position) continue
+    const distance = Math.hypot(position.x - x, position.y - y)
+    if (distance <= nodeRadius(node) + 3 && distance < closestDistance) {
+      closest = node
+      closestDistance = distance
+    }
+  }
+  return closest
+}
+
+export const NetworkGraph: React.FC<NetworkGraphProps> = ({ network, onOpenPartner }) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [width, setWidth] = useState(0)
+  const [includeMe, setIncludeMe] = useState(false)
+  const [minWeight, setMinWeight] = useState(1)
+  const [hovered, setHovered] = useState<string | null>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const measure = () => setWidth(container.clientWidth)
+    measure()
+    window.addEventListener('resize', measure)
+    return () => {
+      window.removeEventListener('resize', measure)
+    }
+  }, [])
+
+  const { nodes, edges } = useMemo(() => {
+    const visibleNodes = network.nodes.filter((node) => includeMe || !node.isCurrentUser)
+    const visible = new Set(visibleNodes.map((node) => node.uid))
+    const visibleEdges = network.edges.filter(
+      (edge) => edge.weight >= minWeight && visible.has(edge.source) && visible.has(edge.target)
+    )
+    return { nodes: visibleNodes, edges: visibleEdges }
+  }, [network, includeMe, minWeight])
+
+  const positions = useMemo(
+    () => (width ? layoutNetwork(nodes, edges, { width, height: CANVAS_HEIGHT }) : new Map()),
+    [nodes, edges, width]
+  )
+
+  const currentUser = network.nodes.find((node) => node.isCurrentUser) ?? null
+  // Hovering shows that person's circle; otherwise your own connections stand out when shown
+  const focus = hovered ?? (includeMe ? (currentUser?.uid ?? null) : null)
+  const highlighted = useMemo(() => (focus ? getEgoNetwork(edges, focus) : null), [edges, focus])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || !width) return
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = width * ratio
+    canvas.height = CANVAS_HEIGHT * ratio
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, width, CANVAS_HEIGHT)
+
+    const maxWeight = edges.reduce((max, edge) => Math.max(max, edge.weight), 1)
+    const isFocused = (uid: string) => !highlighted || highlighted.has(uid)
+
+    edges.forEach((edge) => {
+      const a = positions.get(edge.source)
+      const b = positions.get(edge.target)
+      if (!a || !b) return
+      const inFocus = highlighted && (edge.source === focus || edge.target === focus)
+      const alpha = highlighted ? (inFocus ? 0.7 : 0.05) : 0.15 + (0.45 * edge.weight) / maxWeight
+      context.strokeStyle = `rgba(${EDGE_COLOR}, ${alpha})`
+      context.lineWidth = 0.5 + Math.log2(1 + edge.weight)
+      context.beginPath()
+      context.moveTo(a.x, a.y)
+      context.lineTo(b.x, b.y)
+      context.stroke()
+    })
+
+    const labelled = new Set(nodes.slice(0, LABELLED_NODES).map((node) => node.uid))
+    nodes.forEach((node) => {
+      const position = positions.get(node.uid)
+      if (!position) return
+      context.globalAlpha = isFocused(node.uid) ? 1 : 0.2
+      context.fillStyle = nodeColor(node)
+      context.beginPath()
+      context.arc(position.x, position.y, nodeRadius(node), 0, 2 * Math.PI)
+      context.fill()
+      if (node.uid === focus) {
+        context.strokeStyle = CURRENT_USER_COLOR
+        context.lineWidth = 2
+        context.stroke()
+      }
+      if (labelled.has(node.uid) || (highlighted?.has(node.uid) ?? false)) {
+        context.fillStyle = '#1e293b'
+        context.font = '12px Inter, sans-serif'
+        context.fillText(
+          node.isCurrentUser ? 'You' : node.name,
+          position.x + nodeRadius(node) + 3,
+          position.y + 4
+        )
+      }
+    })
+    context.globalAlpha = 1
+  }, [nodes, edges, positions, highlighted, focus, width])
+
+  const pointerNode = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    return findNodeAt(nodes, positions, event.clientX - bounds.left, event.clientY - bounds.top)
+  }
+
+  const hoveredNode = nodes.find((node) => node.uid === hovered) ?? null
+  const nodesByUid = new Map(network.nodes.map((node) => [node.uid, node]))
+  // People who share no activity with any other partner form circles of one; those are not listed
+  const circles = network.clusters
+    .map((members, index) => ({ members, index }))
+    .filter(({ members }) => members.length > 1)
+
+  return (
+    <article className="glass-card space-y-4 rounded-2xl p-6" data-testid="partner-network">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-slate-900">Partner network</h2>
+          <p className="text-sm text-slate-500">
+            People linked by the activities they shared with you under the current filters. Colors
+            mark circles that often go out together. Hover to see someone's connections and select
+            them for their partner page.
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-4 text-xs text-slate-600">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeMe}
+              onChange={(event) => setIncludeMe(event.target.checked)}
+            />
+            Show me
+          </label>
+          <label className="flex items-center gap-2">
+            Links from
+            <select
+              value={minWeight}
+              onChange={(event) => setMinWeight(Number(event.target.value))}
+              className="rounded-lg border border-slate-200/70 bg-white/90 px-2 py-1 text-xs text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+            >
+              {MIN_WEIGHT_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option === 1 ? '1 activity' : `${option} activities`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative">
+        {nodes.length ? (
+          <canvas
+            ref={canvasRef}
+            style={{ width: '100%', height: CANVAS_HEIGHT }}
+            className={hovered ? 'cursor-pointer' : undefined}
+            onMouseMove={(event) => setHovered(pointerNode(event)?.uid ?? null)}
+            onMouseLeave={() => setHovered(null)}
+            onClick={(event) => {
+              const node = pointerNode(event)
+              if (node && !node.isCurrentUser) {
+                onOpenPartner(node.uid)
+              }
+            }}
+            aria-label="Partner network graph; the circles listed below give the same information"
+          />
+        ) : (
+          <p className="py-10 text-center text-sm text-slate-500">
+            No partners on the matching activities yet.
+          </p>
+        )}
+        {hoveredNode && (
+          <div className="pointer-events-none absolute left-2 top-2 rounded-lg bg-white/90 px-3 py-2 text-xs text-slate-700 shadow">
+            <span className="font-medium text-slate-900">
+              {hoveredNode.isCurrentUser ? 'You' : hoveredNode.name}
+            </span>{' '}
+            · {formatNumber(hoveredNode.activities)} activities
+          </div>
+        )}
+      </div>
+
+      {circles.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Circles
+          </h3>
+          <ul className="mt-2 grid gap-2 text-sm sm:grid-cols-2 xl:grid-cols-3">
+            {circles.map(({ members, index }) => (
+              <li key={members[0]} className="flex gap-2">
+                <span
+                  aria-hidden="true"
+                  className="mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: clusterColor(index) }}
+                />
+                <span className="text-slate-600">
+                  {members
+                    .map((uid) => nodesByUid.get(uid))
+                    .filter((node): node is NetworkNode => Boolean(node))
+                    .sort((a, b) => b.activities - a.activities)
+                    .slice(0, 6)
+                    .map((node, position) => (
+                      <span key={node.uid}>
+                        {position > 0 && ', '}
+                        <button
+                          type="button"
+                          className="table-link"
+                          onClick={() => onOpenPartner(node.uid)}
+                        >
+                          {node.name}
+                        </button>
+                      </span>
+                    ))}
+                  {members.length > 6 && (
+                    <span className="text-slate-400"> and {members.length - 6} more</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </article>
+  )
+}
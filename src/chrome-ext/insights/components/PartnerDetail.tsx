@@ -0,0 +1,178 @@
+import type React from 'react'
+import type { PartnerDetailView } from '../types'
+import { formatDate, formatNumber, initials } from '../utils'
+import { ActivityLog } from './ActivityLog'
+
+interface PartnerDetailProps {
+  detail: PartnerDetailView | null
+  showAvatars: boolean
+  onBack: () => void
+  onOpenPartner: (uid: string) => void
+}
+
+const StatCard = ({ label, value }: { label: string; value: string }) => (
+  <article className="glass-card rounded-2xl p-5">
+    <p className="text-xs font-semibold uppercase tracking-widest text-slate-500">{label}</p>
+    <p className="mt-3 text-2xl font-semibold text-slate-900">{value}</p>
+  </article>
+)
+
+const BackButton = ({ onBack }: { onBack: () => void }) => (
+  <button
+    type="button"
+    data-testid="partner-back"
+    className="text-sm font-medium text-sky-600 hover:underline"
+    onClick={onBack}
+  >
+    ← Back to dashboard
+  </button>
+)
+
+export const PartnerDetail: React.FC<PartnerDetailProps> = ({
+  detail,
+  showAvatars,
+  onBack,
+  onOpenPartner,
+}) => {
+  if (!detail) {
+    return (
+      <div className="space-y-4">
+        <BackButton onBack={onBack} />
+        <div className="glass-card rounded-2xl px-6 py-10 text-center text-sm text-slate-500">
+          This person is not in your cached activity history.
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4" data-testid="partner-detail">
+      <BackButton onBack={onBack} />
+
+      <header className="glass-card flex items-center gap-4 rounded-2xl p-6">
+        {showAvatars && (
+          <div className="flex h-14 w-14 shrink-0 items-center justify-center overflow-hidden rounded-full bg-slate-200 text-base font-semibold text-slate-700">
+            {detail.avatar ? (
+              <img
+                src={detail.avatar}
+                alt={`${detail.name} avatar`}
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <span aria-hidden="true">{initials(detail.name)}</span>
+            )}
+          </div>
+        )}
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+            Activity partner
+          </p>
+          <h2 className="text-2xl font-semibold text-slate-900">{detail.name}</h2>
+          {detail.profile && (
+            <a
+              href={detail.profile}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="table-link text-sm"
+            >
+              View profile on mountaineers.org
+            </a>
+          )}
+        </div>
+      </header>
+
+      <section className="grid gap-4 md:grid-cols-3">
+        <StatCard label="Shared activities" value={formatNumber(detail.sharedCount)} />
+        <StatCard label="First outing together" value={formatDate(detail.firstShared)} />
+        <StatCard label="Latest outing together" value={formatDate(detail.lastShared)} />
+      </section>
+
+      <section className="grid gap-4 xl:grid-cols-3">
+        <article className="glass-card space-y-3 rounded-2xl p-6">
+          <h3 className="text-lg font-medium text-slate-900">Activity types</h3>
+          {detail.activityTypes.length ? (
+            <ul className="space-y-2 text-sm">
+              {detail.activityTypes.map((entry) => (
+                <li key={entry.label} className="flex justify-between gap-2">
+                  <span className="text-slate-700">{entry.label}</span>
+                  <span className="text-slate-500">
+                    {formatNumber(entry.value)} · {entry.percentage.toFixed(0)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">No shared activities yet.</p>
+          )}
+        </article>
+
+        <article className="glass-card space-y-3 rounded-2xl p-6">
+          <h3 className="text-lg font-medium text-slate-900">Roles</h3>
+          {detail.roles.length ? (
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr className="border-b border-slate-200">
+                  <th scope="col" className="py-2 pr-4">
+                    Role
+                  </th>
+                  <th scope="col" className="py-2 pr-4">
+                    You
+                  </th>
+                  <th scope="col" className="py-2 pr-4">
+                    {detail.name}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {detail.roles.map((entry) => (
+                  <tr
+                    key={entry.role}
+                    className="table-row border-b border-slate-200 last:border-b-0"
+                  >
+                    <td className="py-2 pr-4 text-slate-700">{entry.role}</td>
+                    <td className="py-2 pr-4 text-slate-500">{formatNumber(entry.yours)}</td>
+                    <td className="py-2 pr-4 text-slate-500">{formatNumber(entry.theirs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-slate-500">
+              No roster roles cached for your shared activities.
+            </p>
+          )}
+        </article>
+
+        <article className="glass-card space-y-3 rounded-2xl p-6">
+          <h3 className="text-lg font-medium text-slate-900">Often along too</h3>
+          {detail.coPartners.length ? (
+            <ul className="space-y-2 text-sm">
+              {detail.coPartners.map((entry) => (
+                <li key={entry.uid} className="flex justify-between gap-2">
+                  <button
+                    type="button"
+                    className="table-link text-left"
+                    onClick={() => onOpenPartner(entry.uid)}
+                  >
+                    {entry.name}
+                  </button>
+                  <span className="text-slate-500">{formatNumber(entry.count)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">Nobody else joined your shared activities.</p>
+          )}
+        </article>
+      </section>
+
+      <ActivityLog
+        entries={detail.activities}
+        showAvatars={showAvatars}
+        title="Shared activities"
+        description={`Everything you and ${detail.name} did together. Expand a row to see who else was there.`}
+        onOpenPartner={onOpenPartner}
+      />
+    </div>
+  )
+}
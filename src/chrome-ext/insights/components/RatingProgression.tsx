@@ -0,0 +1,182 @@
+import type { Options as HighchartsOptions } from 'highcharts'
+import type React from 'react'
+import { useEffect, useRef, useState } from 'react'
+import type { RatingProgression as RatingProgressionEntry, RatingsView } from '../types'
+import { formatDate, formatNumber } from '../utils'
+
+interface RatingProgressionProps {
+  ratings: RatingsView
+}
+
+const SERIES_COLORS = ['#0284c7', '#f97316']
+
+const ProgressionChart = ({ progression }: { progression: RatingProgressionEntry }) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const highcharts = (window as typeof window & { Highcharts?: typeof import('highcharts') })
+    .Highcharts
+
+  useEffect(() => {
+    if (!containerRef.current || !highcharts) {
+      return
+    }
+
+    const { scale } = progression
+    const chart = highcharts.chart(containerRef.current, {
+      chart: {
+        type: 'line',
+        backgroundColor: 'transparent',
+      },
+      title: { text: null },
+      credits: { enabled: false },
+      xAxis: {
+        type: 'datetime',
+        lineColor: 'transparent',
+        labels: {
+          style: { color: '#64748b', fontFamily: 'Inter, sans-serif' },
+        },
+      },
+      yAxis: {
+        title: { text: null },
+        min: 1,
+        max: scale.length,
+        tickInterval: 1,
+        gridLineColor: 'rgba(148, 163, 184, 0.25)',
+        labels: {
+          formatter(this: { value: number | string }) {
+            return scale[Number(this.value) - 1] ?? ''
+          },
+          style: { color: '#64748b', fontFamily: 'Inter, sans-serif' },
+        },
+      },
+      tooltip: {
+        headerFormat: '<span style="font-size:12px">{point.key}</span><br/>',
+        pointFormat: '<b>{point.name}</b><br/>{series.name}: {point.rating}',
+        xDateFormat: '%b %e, %Y',
+        style: { fontFamily: 'Inter, sans-serif' },
+      },
+      legend: {
+        enabled: true,
+        align: 'center',
+        verticalAlign: 'top',
+        itemStyle: { color: '#1e293b', fontFamily: 'Inter, sans-serif', fontSize: '12px' },
+      },
+      plotOptions: {
+        line: {
+          lineWidth: 1,
+          marker: { enabled: true, radius: 4 },
+        },
+      },
+      colors: SERIES_COLORS,
+      series: [
+        { name: 'Difficulty', points: progression.difficulty },
+        { name: 'Leader rating', points: progression.leaderRating },
+      ]
+        .filter((series) => series.points.length > 0)
+        .map((series) => ({
+          name: series.name,
+          data: series.points.map((point) => ({
+            x: point.date.getTime(),
+            y: point.level,
+            name: point.title,
+            rating: point.rating,
+          })),
+        })),
+    } as unknown as HighchartsOptions)
+
+    return () => {
+      chart.destroy()
+    }
+  }, [progression, highcharts])
+
+  return <div ref={containerRef} className="absolute inset-0" />
+}
+
+export const RatingProgression: React.FC<RatingProgressionProps> = ({ ratings }) => {
+  const [selectedType, setSelectedType] = useState<string | null>(null)
+  // Filters can remove the chosen type; fall back to the most rated one
+  const progression =
+    ratings.types.find((entry) => entry.activityType === selectedType) ?? ratings.types[0] ?? null
+
+  return (
+    <article className="glass-card space-y-4 rounded-2xl p-6" data-testid="rating-progression">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-slate-900">Difficulty progression</h2>
+          <p className="text-sm text-slate-500">
+            Difficulty and leader ratings of the matching activities over time, on a scale for each
+            activity type.
+          </p>
+        </div>
+        {ratings.types.length > 0 && (
+          <select
+            aria-label="Activity type"
+            data-testid="rating-progression-type"
+            value={progression?.activityType ?? ''}
+            onChange={(event) => setSelectedType(event.target.value)}
+            className="rounded-lg border border-slate-200/70 bg-white/90 px-2 py-1 text-xs text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+          >
+            {ratings.types.map((entry) => (
+              <option key={entry.activityType} value={entry.activityType}>
+                {entry.activityType}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {progression ? (
+        <div className="grid gap-4 xl:grid-cols-3">
+          <div className="relative h-72 xl:col-span-2">
+            <ProgressionChart progression={progression} />
+          </div>
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+              Highest completed difficulty
+            </h3>
+            <ul className="mt-2 space-y-2 text-sm">
+              {ratings.types.map((entry) => (
+                <li key={entry.activityType} className="flex justify-between gap-3">
+                  <span className="font-medium text-slate-700">{entry.activityType}</span>
+                  {entry.highestCompleted ? (
+                    <span
+                      className="text-right text-slate-500"
+                      title={`${entry.highestCompleted.title}, ${formatDate(entry.highestCompleted.date)}`}
+                    >
+                      {entry.scale[entry.highestCompleted.level - 1]}
+                      <span className="text-slate-400"> · {entry.highestCompleted.rating}</span>
+                    </span>
+                  ) : (
+                    <span className="text-slate-400">None completed</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ) : (
+        <p className="py-10 text-center text-sm text-slate-500">
+          No recognized ratings on the matching activities.
+        </p>
+      )}
+
+      {ratings.unknown.length > 0 && (
+        <div className="rounded-xl bg-amber-50/80 p-4 text-sm text-amber-900">
+          <p className="font-medium">Ratings not on a scale</p>
+          <p className="text-xs text-amber-800">
+            These ratings did not match a level for their activity type, so they are left out of the
+            chart.
+          </p>
+          <ul className="mt-2 space-y-1 text-xs">
+            {ratings.unknown.map((entry) => (
+              <li key={`${entry.activityType}-${entry.kind}-${entry.rating}`}>
+                “{entry.rating}” · {entry.activityType}{' '}
+                {entry.kind === 'leader' ? 'leader rating' : 'difficulty'} ·{' '}
+                {entry.count === 1 ? '1 activity' : `${formatNumber(entry.count)} activities`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </article>
+  )
+}
@@ -0,0 +1,105 @@
+import type React from 'react'
+import type { DashboardRecords, RecordActivity } from '../types'
+import { formatDate, formatDateRange, formatNumber } from '../utils'
+
+interface RecordsCardProps {
+  records: DashboardRecords
+}
+
+const countOf = (count: number, singular: string, plural = `${singular}s`) =>
+  `${formatNumber(count)} ${count === 1 ? singular : plural}`
+
+const ActivityLink = ({ activity }: { activity: RecordActivity }) =>
+  activity.href ? (
+    <a href={activity.href} target="_blank" rel="noopener noreferrer" className="table-link">
+      {activity.title}
+    </a>
+  ) : (
+    <span>{activity.title}</span>
+  )
+
+const RecordTile = ({
+  label,
+  value,
+  children,
+}: {
+  label: string
+  value: string | null
+  children?: React.ReactNode
+}) => (
+  <div className="rounded-xl bg-white/60 p-4">
+    <p className="text-xs font-semibold uppercase tracking-widest text-slate-500">{label}</p>
+    <p className="mt-2 text-xl font-semibold text-slate-900">{value ?? '–'}</p>
+    {value && children && <p className="mt-1 text-xs text-slate-500">{children}</p>}
+  </div>
+)
+
+export const RecordsCard: React.FC<RecordsCardProps> = ({ records }) => {
+  const { weekStreak, monthStreak, longestGap, busiestMonth, busiestSeason, biggestGroup } = records
+
+  return (
+    <article className="glass-card space-y-4 rounded-2xl p-6" data-testid="records">
+      <div>
+        <h2 className="text-lg font-medium text-slate-900">Records</h2>
+        <p className="text-sm text-slate-500">Personal bests among the matching activities.</p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+        <RecordTile
+          label="Longest weekly streak"
+          value={weekStreak ? countOf(weekStreak.length, 'week') : null}
+        >
+          {weekStreak && formatDateRange(weekStreak.start, weekStreak.end)}
+        </RecordTile>
+        <RecordTile
+          label="Longest monthly streak"
+          value={monthStreak ? countOf(monthStreak.length, 'month') : null}
+        >
+          {monthStreak && formatDateRange(monthStreak.start, monthStreak.end)}
+        </RecordTile>
+        <RecordTile
+          label="Longest break"
+          value={longestGap ? countOf(longestGap.days, 'day') : null}
+        >
+          {longestGap && formatDateRange(longestGap.from, longestGap.to)}
+        </RecordTile>
+        <RecordTile label="Busiest month" value={busiestMonth?.label ?? null}>
+          {busiestMonth && countOf(busiestMonth.count, 'activity', 'activities')}
+        </RecordTile>
+        <RecordTile label="Busiest season" value={busiestSeason?.label ?? null}>
+          {busiestSeason && countOf(busiestSeason.count, 'activity', 'activities')}
+        </RecordTile>
+        <RecordTile
+          label="Biggest group"
+          value={biggestGroup ? countOf(biggestGroup.partners, 'partner') : null}
+        >
+          {biggestGroup && (
+            <>
+              <ActivityLink activity={biggestGroup} /> · {formatDate(biggestGroup.date)}
+            </>
+          )}
+        </RecordTile>
+      </div>
+
+      {records.firsts.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-widest text-slate-500">Firsts</h3>
+          <ul className="mt-2 grid gap-x-6 gap-y-1 text-sm sm:grid-cols-2">
+            {records.firsts.map((activity) => (
+              <li key={activity.activityType} className="flex justify-between gap-3">
+                <span className="min-w-0 truncate">
+                  <span className="font-medium text-slate-700">{activity.activityType}</span>
+                  <span className="text-slate-500">
+                    {' '}
+                    · <ActivityLink activity={activity} />
+                  </span>
+                </span>
+                <span className="shrink-0 text-slate-500">{formatDate(activity.date)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </article>
+  )
+}
@@ -0,0 +1,267 @@
+import type React from 'react'
+import { useState } from 'react'
+import { downloadExportFiles } from '../../shared/export'
+import { isLeadershipRole } from '../resume'
+import { buildResumeDocument, buildResumePdf } from '../resume-export'
+import type { ResumeActivity, ResumeView } from '../types'
+import { formatDate, formatDateRange, formatNumber } from '../utils'
+
+interface ResumeProps {
+  resume: ResumeView
+}
+
+type ResumeLayout = 'by-type' | 'chronological'
+
+const RESUME_LAYOUTS: Array<{ value: ResumeLayout; label: string }> = [
+  { value: 'by-type', label: 'By type' },
+  { value: 'chronological', label: 'Chronological' },
+]
+
+const SummaryStat = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <p className="text-xs font-semibold uppercase tracking-widest text-slate-500">{label}</p>
+    <p className="mt-1 text-xl font-semibold text-slate-900">{value}</p>
+  </div>
+)
+
+const ActivityTable = ({
+  activities,
+  showType,
+  showPartners,
+}: {
+  activities: ResumeActivity[]
+  showType: boolean
+  showPartners: boolean
+}) => (
+  <table className="min-w-full text-left text-sm">
+    <thead className="text-xs uppercase tracking-wide text-slate-500">
+      <tr className="border-b border-slate-200">
+        <th scope="col" className="py-2 pr-4">
+          Date
+        </th>
+        <th scope="col" className="py-2 pr-4">
+          Activity
+        </th>
+        {showType && (
+          <th scope="col" className="py-2 pr-4">
+            Type
+          </th>
+        )}
+        <th scope="col" className="py-2 pr-4">
+          Role
+        </th>
+        <th scope="col" className="py-2 pr-4">
+          Difficulty
+        </th>
+        {showPartners && (
+          <th scope="col" className="py-2 pr-4">
+            Partners
+          </th>
+        )}
+      </tr>
+    </thead>
+    <tbody>
+      {activities.map((activity) => (
+        <tr
+          key={activity.uid}
+          className="table-row border-b border-slate-200 last:border-b-0 break-inside-avoid"
+        >
+          <td className="whitespace-nowrap py-2 pr-4 text-slate-500">
+            {formatDate(activity.date)}
+          </td>
+          <td className="py-2 pr-4 text-slate-700">
+            {activity.href ? (
+              <a
+                href={activity.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="table-link"
+              >
+                {activity.title}
+              </a>
+            ) : (
+              activity.title
+            )}
+          </td>
+          {showType && <td className="py-2 pr-4 text-slate-500">{activity.activityType}</td>}
+          <td className="py-2 pr-4 text-slate-500">
+            {activity.roles.length ? (
+              activity.roles.map((role, index) => (
+                <span
+                  key={role}
+                  className={isLeadershipRole(role) ? 'font-medium text-slate-900' : undefined}
+                >
+                  {index > 0 && ', '}
+                  {role}
+                </span>
+              ))
+            ) : (
+              <span className="text-slate-400">–</span>
+            )}
+          </td>
+          <td className="py-2 pr-4 text-slate-500">{activity.difficulty ?? '–'}</td>
+          {showPartners && (
+            <td className="py-2 pr-4 text-slate-500">{activity.partnerNames.join(', ') || '–'}</td>
+          )}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+)
+
+export const Resume: React.FC<ResumeProps> = ({ resume }) => {
+  const [layout, setLayout] = useState<ResumeLayout>('by-type')
+  const [showPartners, setShowPartners] = useState(false)
+
+  return (
+    <div className="space-y-4" data-testid="resume">
+      <article className="glass-card space-y-5 rounded-2xl p-6 break-inside-avoid">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-widest text-sky-600">
+              Outdoor resume
+            </p>
+            <h2 className="text-2xl font-semibold text-slate-900">
+              {resume.name ?? 'Your activities'}
+            </h2>
+            <p className="text-sm text-slate-500">
+              Successful activities with The Mountaineers matching the current filters.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 print:hidden">
+            <label className="flex items-center gap-1.5 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                data-testid="resume-partners"
+                checked={showPartners}
+                onChange={(event) => setShowPartners(event.target.checked)}
+                className="h-3.5 w-3.5 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+              />
+              Partner names
+            </label>
+            <fieldset className="flex rounded-lg border border-slate-200/70 bg-white/90 p-0.5 text-xs">
+              <legend className="sr-only">Resume layout</legend>
+              {RESUME_LAYOUTS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={layout === option.value}
+                  onClick={() => setLayout(option.value)}
+                  className={`rounded-md px-3 py-1 font-medium ${
+                    layout === option.value
+                      ? 'bg-sky-600 text-white'
+                      : 'text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </fieldset>
+            <button
+              type="button"
+              data-testid="resume-print"
+              className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-slate-700"
+              onClick={() => window.print()}
+            >
+              Print
+            </button>
+            <button
+              type="button"
+              data-testid="resume-download-pdf"
+              className="rounded-lg border border-slate-200/70 bg-white/90 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+              onClick={() =>
+                downloadExportFiles([buildResumePdf(resume, { includePartners: showPartners })])
+              }
+            >
+              Download PDF
+            </button>
+            <button
+              type="button"
+              data-testid="resume-download"
+              className="rounded-lg border border-slate-200/70 bg-white/90 px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-100"
+              onClick={() =>
+                downloadExportFiles([
+                  buildResumeDocument(resume, { includePartners: showPartners }),
+                ])
+              }
+            >
+              Download HTML
+            </button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <SummaryStat label="Activities" value={formatNumber(resume.totalActivities)} />
+          <SummaryStat label="Activity types" value={formatNumber(resume.sections.length)} />
+          <SummaryStat label="Led or instructed" value={formatNumber(resume.leadershipCount)} />
+          <SummaryStat label="Active" value={formatDateRange(resume.firstDate, resume.lastDate)} />
+        </div>
+      </article>
+
+      {!resume.totalActivities && (
+        <div className="glass-card rounded-2xl px-6 py-10 text-center text-sm text-slate-500">
+          No successful activities match the current filters.
+        </div>
+      )}
+
+      {layout === 'by-type' &&
+        resume.sections.map((section) => (
+          <article
+            key={section.activityType}
+            className="glass-card space-y-4 rounded-2xl p-6 print:break-inside-avoid-page"
+          >
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-baseline sm:justify-between">
+              <h3 className="text-lg font-medium text-slate-900">{section.activityType}</h3>
+              <p className="text-sm text-slate-500">
+                {section.count === 1 ? '1 activity' : `${formatNumber(section.count)} activities`} ·{' '}
+                {formatDateRange(section.firstDate, section.lastDate)}
+              </p>
+            </div>
+            {(section.highestDifficulty || section.leadershipRoles.length > 0) && (
+              <dl className="grid gap-3 text-sm sm:grid-cols-2">
+                {section.highestDifficulty && (
+                  <div>
+                    <dt className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+                      Highest difficulty
+                    </dt>
+                    <dd className="text-slate-700">
+                      {section.highestDifficulty.label}
+                      <span className="text-slate-400"> · {section.highestDifficulty.rating}</span>
+                    </dd>
+                  </div>
+                )}
+                {section.leadershipRoles.length > 0 && (
+                  <div>
+                    <dt className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+                      Roles held
+                    </dt>
+                    <dd className="text-slate-700">
+                      {section.leadershipRoles
+                        .map((entry) => `${entry.role} × ${formatNumber(entry.count)}`)
+                        .join(', ')}
+                    </dd>
+                  </div>
+                )}
+              </dl>
+            )}
+            <div className="overflow-x-auto">
+              <ActivityTable
+                activities={section.activities}
+                showType={false}
+                showPartners={showPartners}
+              />
+            </div>
+          </article>
+        ))}
+
+      {layout === 'chronological' && resume.totalActivities > 0 && (
+        <article className="glass-card space-y-4 rounded-2xl p-6">
+          <h3 className="text-lg font-medium text-slate-900">All activities</h3>
+          <div className="overflow-x-auto">
+            <ActivityTable activities={resume.activities} showType showPartners={showPartners} />
+          </div>
+        </article>
+      )}
+    </div>
+  )
+}
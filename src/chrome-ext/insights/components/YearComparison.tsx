@@ -0,0 +1,296 @@
+import type { Options as HighchartsOptions } from 'highcharts'
+import type React from 'react'
+import { useEffect, useRef } from 'react'
+import type { CumulativeYearSeries, DistributionEntry, YearComparisonView } from '../types'
+import { formatNumber, getActivityTypeColors } from '../utils'
+
+interface YearComparisonProps {
+  comparison: YearComparisonView
+  availableYears: number[]
+  selectedYears: number[]
+  onSelectedYearsChange: (years: number[]) => void
+}
+
+type YearRow = YearComparisonView['years'][number]
+
+// Day of year on which each month starts, ignoring leap days; only used for axis labels
+const MONTH_START_DAYS = [1, 32, 60, 91, 121, 152, 182, 213, 244, 274, 305, 335]
+const MONTH_LABELS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+]
+
+const formatDelta = (value: number): string => {
+  if (value > 0) return `+${formatNumber(value)}`
+  if (value < 0) return `−${formatNumber(Math.abs(value))}`
+  return '±0'
+}
+
+const Delta = ({ value }: { value: number | undefined }) => {
+  if (value === undefined) {
+    return null
+  }
+  const tone = value > 0 ? 'text-emerald-600' : value < 0 ? 'text-rose-600' : 'text-slate-400'
+  return <span className={`ml-2 text-xs font-medium ${tone}`}>{formatDelta(value)}</span>
+}
+
+const MetricRow = ({
+  label,
+  rows,
+  value,
+  delta,
+}: {
+  label: string
+  rows: YearRow[]
+  value: (row: YearRow) => number
+  delta: (row: YearRow) => number | undefined
+}) => (
+  <tr className="table-row border-b border-slate-200 last:border-b-0">
+    <th scope="row" className="py-2 pr-4 font-medium text-slate-700">
+      {label}
+    </th>
+    {rows.map((row) => (
+      <td key={row.year} className="py-2 pr-4 text-slate-700">
+        {formatNumber(value(row))}
+        <Delta value={delta(row)} />
+      </td>
+    ))}
+  </tr>
+)
+
+const MixList = ({
+  entries,
+  emptyMessage,
+}: {
+  entries: DistributionEntry[]
+  emptyMessage: string
+}) =>
+  entries.length ? (
+    <ul className="space-y-1">
+      {entries.map((entry) => (
+        <li key={entry.label} className="flex justify-between gap-2">
+          <span>{entry.label}</span>
+          <span className="text-slate-500">{entry.percentage.toFixed(0)}%</span>
+        </li>
+      ))}
+    </ul>
+  ) : (
+    <span className="text-slate-400">{emptyMessage}</span>
+  )
+
+const CumulativeChart = ({ series }: { series: CumulativeYearSeries[] }) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const highcharts = (window as typeof window & { Highcharts?: typeof import('highcharts') })
+    .Highcharts
+
+  useEffect(() => {
+    if (!containerRef.current || !highcharts) {
+      return
+    }
+
+    const chart = highcharts.chart(containerRef.current, {
+      chart: {
+        type: 'line',
+        backgroundColor: 'transparent',
+      },
+      title: { text: null },
+      credits: { enabled: false },
+      xAxis: {
+        min: 0,
+        max: 366,
+        tickPositions: MONTH_START_DAYS,
+        lineColor: 'transparent',
+        labels: {
+          formatter(this: { value: number | string }) {
+            return MONTH_LABELS[MONTH_START_DAYS.indexOf(Number(this.value))] ?? ''
+          },
+          style: { color: '#64748b', fontFamily: 'Inter, sans-serif' },
+        },
+      },
+      yAxis: {
+        title: { text: null },
+        min: 0,
+        allowDecimals: false,
+        gridLineColor: 'rgba(148, 163, 184, 0.25)',
+        labels: {
+          style: { color: '#64748b', fontFamily: 'Inter, sans-serif' },
+        },
+      },
+      tooltip: {
+        headerFormat: '',
+        pointFormat: '<b>{series.name}</b>: {point.y} activities by day {point.x}',
+        style: { fontFamily: 'Inter, sans-serif' },
+      },
+      legend: {
+        enabled: true,
+        align: 'center',
+        verticalAlign: 'top',
+        itemStyle: { color: '#1e293b', fontFamily: 'Inter, sans-serif', fontSize: '12px' },
+      },
+      plotOptions: {
+        line: {
+          step: 'left',
+          marker: { enabled: false },
+        },
+      },
+      colors: getActivityTypeColors(),
+      series: series.map((entry) => ({
+        name: String(entry.year),
+        data: entry.data,
+      })),
+    } as unknown as HighchartsOptions)
+
+    return () => {
+      chart.destroy()
+    }
+  }, [series, highcharts])
+
+  return <div ref={containerRef} className="absolute inset-0" />
+}
+
+export const YearComparison: React.FC<YearComparisonProps> = ({
+  comparison,
+  availableYears,
+  selectedYears,
+  onSelectedYearsChange,
+}) => {
+  const rows = comparison.years
+
+  const toggleYear = (year: number) => {
+    const next = selectedYears.includes(year)
+      ? selectedYears.filter((selected) => selected !== year)
+      : [...selectedYears, year]
+    onSelectedYearsChange(next.sort((a, b) => a - b))
+  }
+
+  return (
+    <article className="glass-card space-y-4 rounded-2xl p-6" data-testid="year-comparison">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-slate-900">Year over year</h2>
+          <p className="text-sm text-slate-500">
+            Calendar years side by side under the current filters. Changes are against the previous
+            year shown.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Years to compare">
+          {availableYears.map((year) => {
+            const selected = selectedYears.includes(year)
+            return (
+              <button
+                key={year}
+                type="button"
+                aria-pressed={selected}
+                onClick={() => toggleYear(year)}
+                className={`rounded-full px-3 py-1 text-xs font-medium ${
+                  selected
+                    ? 'bg-sky-600 text-white'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                {year}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {rows.length < 2 ? (
+        <p className="py-6 text-sm text-slate-500">Select at least two years to compare them.</p>
+      ) : (
+        <div className="grid gap-4 xl:grid-cols-2">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr className="border-b border-slate-200">
+                  <th scope="col" className="py-2 pr-4">
+                    <span className="sr-only">Metric</span>
+                  </th>
+                  {rows.map((row) => (
+                    <th key={row.year} scope="col" className="py-2 pr-4">
+                      {row.year}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <MetricRow
+                  label="Activities"
+                  rows={rows}
+                  value={(row) => row.activities}
+                  delta={(row) => row.delta?.activities}
+                />
+                <MetricRow
+                  label="Unique partners"
+                  rows={rows}
+                  value={(row) => row.uniquePartners}
+                  delta={(row) => row.delta?.uniquePartners}
+                />
+                <MetricRow
+                  label="New partners"
+                  rows={rows}
+                  value={(row) => row.newPartners}
+                  delta={(row) => row.delta?.newPartners}
+                />
+                <MetricRow
+                  label="New activity types"
+                  rows={rows}
+                  value={(row) => row.newActivityTypes.length}
+                  delta={(row) => row.delta?.newActivityTypes}
+                />
+                <tr className="table-row border-b border-slate-200 align-top">
+                  <th scope="row" className="py-2 pr-4 font-medium text-slate-700">
+                    Types tried
+                  </th>
+                  {rows.map((row) => (
+                    <td key={row.year} className="py-2 pr-4 text-xs text-slate-600">
+                      {row.newActivityTypes.length ? row.newActivityTypes.join(', ') : '—'}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="table-row border-b border-slate-200 align-top">
+                  <th scope="row" className="py-2 pr-4 font-medium text-slate-700">
+                    Role mix
+                  </th>
+                  {rows.map((row) => (
+                    <td key={row.year} className="py-2 pr-4 text-xs text-slate-600">
+                      <MixList entries={row.roles} emptyMessage="No role data" />
+                    </td>
+                  ))}
+                </tr>
+                <tr className="table-row align-top">
+                  <th scope="row" className="py-2 pr-4 font-medium text-slate-700">
+                    Difficulty
+                  </th>
+                  {rows.map((row) => (
+                    <td key={row.year} className="py-2 pr-4 text-xs text-slate-600">
+                      <MixList entries={row.difficulty} emptyMessage="No activities" />
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+              Cumulative activities by day of year
+            </p>
+            <div className="relative h-72">
+              <CumulativeChart series={comparison.cumulative} />
+            </div>
+          </div>
+        </div>
+      )}
+    </article>
+  )
+}
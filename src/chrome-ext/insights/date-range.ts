@@ -0,0 +1,234 @@
+import type { DateRangeFilter, DateRangePreset, TimelineGranularity } from './types'
+
+export const DATE_RANGE_PRESETS: Array<{ value: DateRangePreset; label: string }> = [
+  { value: 'all', label: 'All time' },
+  { value: 'this-season', label: 'This season' },
+  { value: 'this-year', label: 'This year' },
+  { value: 'last-12-months', label: 'Last 12 months' },
+  { value: 'last-year', label: 'Last year' },
+  { value: 'custom', label: 'Custom range' },
+]
+
+export const TIMELINE_GRANULARITIES: Array<{ value: TimelineGranularity; label: string }> = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+  { value: 'year', label: 'Yearly' },
+]
+
+export const DEFAULT_DATE_RANGE: DateRangeFilter = { preset: 'all', start: null, end: null }
+export const DEFAULT_TIMELINE_GRANULARITY: TimelineGranularity = 'month'
+
+/** Half-open UTC interval; a null bound is unbounded on that side. */
+export interface ResolvedDateRange {
+  start: Date | null
+  end: Date | null
+}
+
+export interface TimelineBucket {
+  key: string
+  label: string
+}
+
+const DATE_INPUT_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const PRESET_VALUES = new Set<string>(DATE_RANGE_PRESETS.map((preset) => preset.value))
+const GRANULARITY_VALUES = new Set<string>(TIMELINE_GRANULARITIES.map((entry) => entry.value))
+
+const monthYearFormatter = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  year: 'numeric',
+  timeZone: 'UTC',
+})
+const dayFormatter = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC',
+})
+
+export const isDateRangePreset = (value: unknown): value is DateRangePreset =>
+  typeof value === 'string' && PRESET_VALUES.has(value)
+
+export const isTimelineGranularity = (value: unknown): value is TimelineGranularity =>
+  typeof value === 'string' && GRANULARITY_VALUES.has(value)
+
+/** Parses a `YYYY-MM-DD` date input value as UTC midnight, or null when it is not a real date. */
+export const parseDateInput = (value: string | null | undefined): Date | null => {
+  if (!value || !DATE_INPUT_PATTERN.test(value)) return null
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return Number.isNaN(date.getTime()) || toDateInput(date) !== value ? null : date
+}
+
+export const toDateInput = (date: Date): string => date.toISOString().slice(0, 10)
+
+/** Drops unknown presets and invalid dates; custom bounds are kept only for the custom preset. */
+export const normalizeDateRange = (value: unknown): DateRangeFilter => {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_DATE_RANGE }
+  const candidate = value as Partial<DateRangeFilter>
+  if (!isDateRangePreset(candidate.preset)) return { ...DEFAULT_DATE_RANGE }
+  if (candidate.preset !== 'custom') {
+    return { preset: candidate.preset, start: null, end: null }
+  }
+  const start = parseDateInput(candidate.start) ? (candidate.start as string) : null
+  const end = parseDateInput(candidate.end) ? (candidate.end as string) : null
+  return { preset: 'custom', start, end }
+}
+
+export const dateRangesEqual = (a: DateRangeFilter, b: DateRangeFilter): boolean =>
+  a.preset === b.preset && a.start === b.start && a.end === b.end
+
+const utcDate = (year: number, month: number, day = 1) => new Date(Date.UTC(year, month, day))
+
+/**
+ * Turns a date range filter into concrete bounds relative to `now`. Seasons are meteorological:
+ * winter is December through February, spring March through May, and so on.
+ */
+export const resolveDateRange = (
+  range: DateRangeFilter,
+  now: Date = new Date()
+): ResolvedDateRange => {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+  switch (range.preset) {
+    case 'this-season': {
+      // January and February land on month -1, the December of the previous year
+      const seasonStart = Math.floor((month + 1) / 3) * 3 - 1
+      return { start: utcDate(year, seasonStart), end: utcDate(year, seasonStart + 3) }
+    }
+    case 'this-year':
+      return { start: utcDate(year, 0), end: utcDate(year + 1, 0) }
+    case 'last-12-months':
+      return {
+        start: utcDate(year - 1, month, now.getUTCDate() + 1),
+        end: utcDate(year, month, now.getUTCDate() + 1),
+      }
+    case 'last-year':
+      return { start: utcDate(year - 1, 0), end: utcDate(year, 0) }
+    case 'custom': {
+      const start = parseDateInput(range.start)
+      const end = parseDateInput(range.end)
+      return {
+        start,
+        // The end date is inclusive in the form, so the interval runs to the following midnight
+        end: end ? utcDate(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() + 1) : null,
+      }
+    }
+    default:
+      return { start: null, end: null }
+  }
+}
+
+/** The custom range covering the same days as `range`, for editing a preset by hand. */
+export const toCustomDateRange = (
+  range: DateRangeFilter,
+  now: Date = new Date()
+): DateRangeFilter => {
+  const { start, end } = resolveDateRange(range, now)
+  return {
+    preset: 'custom',
+    start: start ? toDateInput(start) : null,
+    end: end ? toDateInput(new Date(end.getTime() - 1)) : null,
+  }
+}
+
+export const isWithinDateRange = (date: Date, range: ResolvedDateRange): boolean =>
+  (!range.start || date >= range.start) && (!range.end || date < range.end)
+
+/** Short description of the range for headings and the dashboard summary. */
+export const describeDateRange = (range: DateRangeFilter): string => {
+  if (range.preset !== 'custom') {
+    return DATE_RANGE_PRESETS.find((preset) => preset.value === range.preset)?.label ?? 'All time'
+  }
+  const start = parseDateInput(range.start)
+  const end = parseDateInput(range.end)
+  if (start && end) return `${dayFormatter.format(start)} – ${dayFormatter.format(end)}`
+  if (start) return `Since ${dayFormatter.format(start)}`
+  if (end) return `Until ${dayFormatter.format(end)}`
+  return 'All time'
+}
+
+const PRESET_PHRASES: Partial<Record<DateRangePreset, string>> = {
+  'this-season': 'this season',
+  'this-year': 'this year',
+  'last-12-months': 'in the last 12 months',
+  'last-year': 'last year',
+}
+
+/** The range as it reads mid-sentence, e.g. "since Mar 1, 2024"; null when nothing is excluded. */
+export const describeDateRangePhrase = (range: DateRangeFilter): string | null => {
+  if (range.preset !== 'custom') {
+    return PRESET_PHRASES[range.preset] ?? null
+  }
+  const start = parseDateInput(range.start)
+  const end = parseDateInput(range.end)
+  if (start && end) return `between ${dayFormatter.format(start)} and ${dayFormatter.format(end)}`
+  if (start) return `since ${dayFormatter.format(start)}`
+  if (end) return `until ${dayFormatter.format(end)}`
+  return null
+}
+
+/** First instant of the bucket containing `date`; weeks start on Monday. */
+export const getBucketStart = (date: Date, granularity: TimelineGranularity): Date => {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  switch (granularity) {
+    case 'week': {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7
+      return utcDate(year, month, date.getUTCDate() - daysSinceMonday)
+    }
+    case 'quarter':
+      return utcDate(year, month - (month % 3))
+    case 'year':
+      return utcDate(year, 0)
+    default:
+      return utcDate(year, month)
+  }
+}
+
+const nextBucketStart = (start: Date, granularity: TimelineGranularity): Date => {
+  const year = start.getUTCFullYear()
+  const month = start.getUTCMonth()
+  switch (granularity) {
+    case 'week':
+      return utcDate(year, month, start.getUTCDate() + 7)
+    case 'quarter':
+      return utcDate(year, month + 3)
+    case 'year':
+      return utcDate(year + 1, 0)
+    default:
+      return utcDate(year, month + 1)
+  }
+}
+
+export const getBucketKey = (date: Date, granularity: TimelineGranularity): string =>
+  toDateInput(getBucketStart(date, granularity))
+
+const getBucketLabel = (start: Date, granularity: TimelineGranularity): string => {
+  switch (granularity) {
+    case 'week':
+      return dayFormatter.format(start)
+    case 'quarter':
+      return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${start.getUTCFullYear()}`
+    case 'year':
+      return String(start.getUTCFullYear())
+    default:
+      return monthYearFormatter.format(start)
+  }
+}
+
+/** Every bucket from the one containing `first` through the one containing `last`, inclusive. */
+export const buildTimelineBuckets = (
+  first: Date,
+  last: Date,
+  granularity: TimelineGranularity
+): TimelineBucket[] => {
+  const buckets: TimelineBucket[] = []
+  for (
+    let cursor = getBucketStart(first, granularity);
+    cursor <= last;
+    cursor = nextBucketStart(cursor, granularity)
+  ) {
+    buckets.push({ key: toDateInput(cursor), label: getBucketLabel(cursor, granularity) })
+  }
+  return buckets
+}
@@ -1,6 +1,34 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import type { ExtensionCache, RefreshProgress, RefreshSummary } from '../../shared/types'
-import type { DashboardFilters, DashboardView, DisplaySettings, PreparedData } from '../types'
+import { CACHE_CHANGED_KEY, isOwnCacheChange, loadExtensionCache } from '../../shared/cache'
+import { buildExportFiles, downloadExportFiles, type ExportFormat } from '../../shared/export'
+import { onEvents, sendRequest } from '../../shared/messages'
+import { migrateSettings } from '../../shared/migrations'
+import { DEFAULT_EXTENSION_SETTINGS, normalizeExtensionSettings } from '../../shared/settings'
+import type { ExtensionCache, RefreshMode, RefreshSummary } from '../../shared/types'
+import {
+  DEFAULT_DATE_RANGE,
+  DEFAULT_TIMELINE_GRANULARITY,
+  dateRangesEqual,
+  normalizeDateRange,
+} from '../date-range'
+import { buildPartnerNetwork } from '../network-graph'
+import { calculatePartnerDetail } from '../partner-detail'
+import { calculateResume } from '../resume'
+import type {
+  DashboardFilters,
+  DashboardTab,
+  DashboardView,
+  DateRangeFilter,
+  DisplaySettings,
+  ListFilterKey,
+  PartnerDetailView,
+  PartnerNetwork,
+  PreparedData,
+  ResumeView,
+  TimelineGranularity,
+  YearComparisonView,
+} from '../types'
+import { buildDashboardSearch, parseDashboardUrlState } from '../url-state'
 import {
   buildSummary,
   calculateDashboard,
@@ -9,13 +37,13 @@ import {
   prepareDashboardData,
   titleCase,
 } from '../utils'
+import {
+  calculateYearComparison,
+  getAvailableYears,
+  getDefaultComparisonYears,
+} from '../year-comparison'
 
-const STORAGE_KEY = 'mountaineersAssistantData'
 const SETTINGS_KEY = 'mountaineersAssistantSettings'
-const REFRESH_MESSAGE = 'start-refresh'
-const REFRESH_PROGRESS_MESSAGE = 'refresh-progress'
-const REFRESH_STATUS_CHANGE_MESSAGE = 'refresh-status-changed'
-const REFRESH_STATUS_REQUEST_MESSAGE = 'get-refresh-status'
 
 type ReadyPayload = {
   filterOptions: PreparedData['filterOptions'] | null
@@ -24,23 +52,22 @@ type ReadyPayload = {
 
 type ReadyResolver = (payload: ReadyPayload | null) => void
 
+/** What the current dashboard view was calculated from. */
+type ViewInputs = {
+  prepared: PreparedData
+  filters: DashboardFilters
+  settings: DisplaySettings
+}
+
 const INITIAL_FILTERS: DashboardFilters = {
   activityType: [],
   category: [],
   role: [],
   partner: [],
-}
-
-const getInitialFiltersFromUrl = (): Partial<DashboardFilters> => {
-  const params = new URLSearchParams(window.location.search)
-  const filters: Partial<DashboardFilters> = {}
-
-  const partner = params.get('partner')
-  if (partner) {
-    filters.partner = [partner]
-  }
-
-  return filters
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
 }
 
 const cloneFilterOptions = (options: PreparedData['filterOptions'] | null) => {
@@ -61,6 +88,14 @@ const normalizeSettings = (value: unknown): DisplaySettings => {
       typeof candidate.showAvatars === 'boolean'
         ? candidate.showAvatars
         : DEFAULT_DISPLAY_SETTINGS.showAvatars,
+    countUnsuccessful:
+      typeof candidate.countUnsuccessful === 'boolean'
+        ? candidate.countUnsuccessful
+        : DEFAULT_DISPLAY_SETTINGS.countUnsuccessful,
+    showRemovedActivities:
+      typeof candidate.showRemovedActivities === 'boolean'
+        ? candidate.showRemovedActivities
+        : DEFAULT_DISPLAY_SETTINGS.showRemovedActivities,
   }
 }
 
@@ -87,13 +122,35 @@ export interface InsightsState {
   filterOptions: PreparedData['filterOptions']
   settings: DisplaySettings
   view: DashboardView | null
+  availableYears: number[]
+  comparisonYears: number[]
+  setComparisonYears: (years: number[]) => void
+  yearComparison: YearComparisonView | null
+  network: PartnerNetwork | null
+  resume: ResumeView | null
   summary: string
   statusMessage: string
-  setFilter: (key: keyof DashboardFilters, values: string[]) => void
+  setFilter: (key: ListFilterKey, values: string[]) => void
+  setDateRange: (range: DateRangeFilter) => void
+  granularity: TimelineGranularity
+  setGranularity: (granularity: TimelineGranularity) => void
+  /** Open dashboard tab; the year comparison, network and resume are only built for theirs. */
+  tab: DashboardTab
+  setTab: (tab: DashboardTab) => void
+  /** Person whose partner page is open; null shows the dashboard. */
+  partnerUid: string | null
+  partnerDetail: PartnerDetailView | null
+  openPartner: (uid: string | null) => void
   clearFilters: () => void
   fetchActivities: () => Promise<void>
+  cancelRefresh: () => Promise<void>
+  exportActivities: (format: ExportFormat) => Promise<void>
   isLoading: boolean
+  isCancelling: boolean
   fetchLimit: number | null
+  refreshMode: RefreshMode
+  setRefreshMode: (mode: RefreshMode) => void
+  resyncStaleDays: number
   refreshSummary: RefreshSummary
   fullDateRange: { earliest: Date | null; latest: Date | null }
 }
@@ -121,15 +178,31 @@ export const useInsightsDashboard = (): InsightsState => {
     categories: [],
     roles: [],
     partners: [],
+    outcomes: [],
+    branches: [],
+    leaders: [],
   })
   const [settings, setSettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS)
+  const [granularity, setGranularity] = useState<TimelineGranularity>(DEFAULT_TIMELINE_GRANULARITY)
   const [view, setView] = useState<DashboardView | null>(null)
+  const [viewInputs, setViewInputs] = useState<ViewInputs | null>(null)
+  // Bumped whenever baseDataRef is replaced, so the view is recalculated from the new data
+  const [dataVersion, setDataVersion] = useState(0)
+  const [availableYears, setAvailableYears] = useState<number[]>([])
+  const [comparisonYears, setComparisonYears] = useState<number[]>([])
+  const [tab, setTab] = useState<DashboardTab>('overview')
+  const [partnerUid, setPartnerUid] = useState<string | null>(null)
   const [summary, setSummary] = useState<string>(
     'Snapshot of recent Mountaineers activities with quick views of cadence, discipline mix, and the partners you adventure with most often.'
   )
   const [statusMessage, setStatusMessage] = useState<string>('Loading cached data…')
   const [isLoading, setIsLoading] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
   const [fetchLimit, setFetchLimit] = useState<number | null>(null)
+  const [refreshMode, setRefreshMode] = useState<RefreshMode>('new')
+  const [resyncStaleDays, setResyncStaleDays] = useState<number>(
+    DEFAULT_EXTENSION_SETTINGS.resyncStaleDays
+  )
   const [refreshSummary, setRefreshSummary] = useState<RefreshSummary>({
     activityCount: 0,
     lastUpdated: null,
@@ -153,6 +226,8 @@ export const useInsightsDashboard = (): InsightsState => {
     })
   )
   const cacheWasUpdatedDuringRefreshRef = useRef(false)
+  // Filters only start being written to the URL once they have been read from it
+  const urlStateLoadedRef = useRef(false)
 
   useEffect(() => {
     filtersRef.current = filters
@@ -194,6 +269,18 @@ export const useInsightsDashboard = (): InsightsState => {
                   options.partners.map((p) => p.uid)
                 )
               : current.partner,
+            outcome: overrides.outcome
+              ? sanitizeSelection(overrides.outcome, options.outcomes)
+              : current.outcome,
+            branch: overrides.branch
+              ? sanitizeSelection(overrides.branch, options.branches)
+              : current.branch,
+            leader: overrides.leader
+              ? sanitizeSelection(overrides.leader, options.leaders)
+              : current.leader,
+            dateRange: overrides.dateRange
+              ? normalizeDateRange(overrides.dateRange)
+              : current.dateRange,
           }
         })
       },
@@ -204,17 +291,17 @@ export const useInsightsDashboard = (): InsightsState => {
   const loadSettings = useCallback(async (): Promise<DisplaySettings> => {
     try {
       const stored = await chrome.storage.local.get(SETTINGS_KEY)
-      return normalizeSettings(stored?.[SETTINGS_KEY])
+      return normalizeSettings(migrateSettings(stored?.[SETTINGS_KEY]).settings)
     } catch (err) {
       console.warn('Mountaineers Assistant insights: unable to load settings', err)
       return { ...DEFAULT_DISPLAY_SETTINGS }
     }
   }, [])
 
-  const loadExtensionData = useCallback(async (): Promise<ExtensionCache | null> => {
-    const stored = await chrome.storage.local.get(STORAGE_KEY)
-    return (stored?.[STORAGE_KEY] as ExtensionCache | undefined) ?? null
-  }, [])
+  const loadExtensionData = useCallback(
+    async (): Promise<ExtensionCache | null> => loadExtensionCache(),
+    []
+  )
 
   useEffect(() => {
     let cancelled = false
@@ -237,7 +324,15 @@ export const useInsightsDashboard = (): InsightsState => {
             'No cached data available. Use the Fetch New Activities button to get started.'
           )
           resolveReady({ filterOptions: null, empty: true })
-          setFilterOptions({ activityTypes: [], categories: [], roles: [], partners: [] })
+          setFilterOptions({
+            activityTypes: [],
+            categories: [],
+            roles: [],
+            partners: [],
+            outcomes: [],
+            branches: [],
+            leaders: [],
+          })
           window.mountaineersDashboard!.filterOptions = null
           setLoading(false)
           return
@@ -245,7 +340,11 @@ export const useInsightsDashboard = (): InsightsState => {
 
         const prepared = prepareDashboardData(data)
         baseDataRef.current = prepared
+        setDataVersion((version) => version + 1)
         setFilterOptions(prepared.filterOptions)
+        const years = getAvailableYears(prepared)
+        setAvailableYears(years)
+        setComparisonYears(getDefaultComparisonYears(years))
         window.mountaineersDashboard!.filterOptions = cloneFilterOptions(prepared.filterOptions)
 
         // Calculate full date range from all activities
@@ -269,8 +368,11 @@ export const useInsightsDashboard = (): InsightsState => {
         }
 
         // Apply URL parameters as initial filters if present
-        const urlFilters = getInitialFiltersFromUrl()
-        setFilters({ ...INITIAL_FILTERS, ...urlFilters })
+        const urlState = parseDashboardUrlState(window.location.search)
+        setFilters(urlState.filters)
+        setGranularity(urlState.granularity)
+        setPartnerUid(urlState.person)
+        urlStateLoadedRef.current = true
         resolveReady({ filterOptions: prepared.filterOptions })
         setStatusMessage(
           `Cached ${formatNumber(prepared.activities.length)} activities ready for exploration.`
@@ -299,6 +401,7 @@ export const useInsightsDashboard = (): InsightsState => {
     const prepared = baseDataRef.current
     if (!prepared || !prepared.activities.length) {
       setView(null)
+      setViewInputs(null)
       return
     }
     const sanitized = {
@@ -309,27 +412,92 @@ export const useInsightsDashboard = (): InsightsState => {
         filters.partner,
         prepared.filterOptions.partners.map((p) => p.uid)
       ),
+      outcome: sanitizeSelection(filters.outcome, prepared.filterOptions.outcomes),
+      branch: sanitizeSelection(filters.branch, prepared.filterOptions.branches),
+      leader: sanitizeSelection(filters.leader, prepared.filterOptions.leaders),
+      dateRange: normalizeDateRange(filters.dateRange),
     } satisfies DashboardFilters
 
     if (
       !arraysEqual(sanitized.activityType, filters.activityType) ||
       !arraysEqual(sanitized.category, filters.category) ||
       !arraysEqual(sanitized.role, filters.role) ||
-      !arraysEqual(sanitized.partner, filters.partner)
+      !arraysEqual(sanitized.partner, filters.partner) ||
+      !arraysEqual(sanitized.outcome, filters.outcome) ||
+      !arraysEqual(sanitized.branch, filters.branch) ||
+      !arraysEqual(sanitized.leader, filters.leader) ||
+      !dateRangesEqual(sanitized.dateRange, filters.dateRange)
     ) {
       setFilters(sanitized)
       return
     }
 
-    const nextView = calculateDashboard(prepared, sanitized)
+    const nextView = calculateDashboard(prepared, sanitized, settings, { granularity })
     setView(nextView)
+    // Kept when only the granularity changed, so the views below are not rebuilt for it
+    setViewInputs((current) =>
+      current?.prepared === prepared && current.filters === filters && current.settings === settings
+        ? current
+        : { prepared, filters, settings }
+    )
     setSummary(buildSummary(nextView, sanitized, prepared))
-  }, [filters])
+  }, [filters, settings, granularity, dataVersion])
+
+  // The rest is built only while its tab or page is open, not on every filter change
+  const yearComparison = useMemo<YearComparisonView | null>(() => {
+    if (!viewInputs || partnerUid || tab !== 'overview') return null
+    return calculateYearComparison(
+      viewInputs.prepared,
+      viewInputs.filters,
+      viewInputs.settings,
+      comparisonYears
+    )
+  }, [viewInputs, partnerUid, tab, comparisonYears])
+
+  const network = useMemo<PartnerNetwork | null>(() => {
+    if (!viewInputs || partnerUid || tab !== 'network') return null
+    return buildPartnerNetwork(viewInputs.prepared, viewInputs.filters, viewInputs.settings)
+  }, [viewInputs, partnerUid, tab])
+
+  const resume = useMemo<ResumeView | null>(() => {
+    if (!viewInputs || partnerUid || tab !== 'resume') return null
+    return calculateResume(viewInputs.prepared, viewInputs.filters, viewInputs.settings)
+  }, [viewInputs, partnerUid, tab])
+
+  // The partner page ignores the filters, so it only follows the data and settings
+  const viewPrepared = viewInputs?.prepared ?? null
+  const viewSettings = viewInputs?.settings ?? null
+  const partnerDetail = useMemo<PartnerDetailView | null>(() => {
+    if (!viewPrepared || !viewSettings || !partnerUid) return null
+    return calculatePartnerDetail(viewPrepared, partnerUid, viewSettings)
+  }, [viewPrepared, viewSettings, partnerUid])
+
+  // Keep the address bar in step so the current view can be bookmarked or shared
+  useEffect(() => {
+    if (!urlStateLoadedRef.current) return
+    const search = buildDashboardSearch({ filters, granularity, person: partnerUid })
+    if (search !== window.location.search) {
+      window.history.replaceState(
+        window.history.state,
+        '',
+        `${window.location.pathname}${search}${window.location.hash}`
+      )
+    }
+  }, [filters, granularity, partnerUid])
 
-  const setFilter = useCallback((key: keyof DashboardFilters, values: string[]) => {
+  const setFilter = useCallback((key: ListFilterKey, values: string[]) => {
     setFilters((current) => ({ ...current, [key]: values }))
   }, [])
 
+  const openPartner = useCallback((uid: string | null) => {
+    setPartnerUid(uid)
+    window.scrollTo({ top: 0 })
+  }, [])
+
+  const setDateRange = useCallback((range: DateRangeFilter) => {
+    setFilters((current) => ({ ...current, dateRange: range }))
+  }, [])
+
   const clearFilters = useCallback(() => {
     setFilters({ ...INITIAL_FILTERS })
   }, [])
@@ -344,23 +512,20 @@ export const useInsightsDashboard = (): InsightsState => {
         const stored = await chrome.storage.local.get(SETTINGS_KEY)
         if (!isMounted) return
 
-        const settings = stored?.[SETTINGS_KEY] as { fetchLimit?: number } | undefined
-        const limit = settings?.fetchLimit
-        const parsed = typeof limit === 'number' && limit > 0 ? limit : null
-        setFetchLimit(parsed)
+        const settings = normalizeExtensionSettings(stored?.[SETTINGS_KEY])
+        setFetchLimit(settings.fetchLimit)
+        setResyncStaleDays(settings.resyncStaleDays)
 
         // Query current refresh status
-        const response = await chrome.runtime.sendMessage({
-          type: REFRESH_STATUS_REQUEST_MESSAGE,
-        })
+        const response = await sendRequest('get-refresh-status', {})
 
         if (!isMounted) return
 
-        if (response?.success && response.inProgress) {
+        if (response.inProgress) {
           setIsLoading(true)
           if (response.progress) {
             // Update status message based on current progress
-            const progress = response.progress as RefreshProgress
+            const progress = response.progress
             const stage = progress.stage || ''
             let message = 'Refresh in progress…'
 
@@ -376,6 +541,13 @@ export const useInsightsDashboard = (): InsightsState => {
               message = `Found ${progress.total} new ${progress.total === 1 ? 'activity' : 'activities'} to fetch`
             } else if (stage === 'finalizing' && progress.total) {
               message = `Finalizing ${progress.total} ${progress.total === 1 ? 'activity' : 'activities'}…`
+            } else if (stage === 'resuming') {
+              message = 'Resuming interrupted refresh…'
+            } else if (stage === 'cancelling') {
+              message = 'Cancelling refresh…'
+              setIsCancelling(true)
+            } else if (stage === 'retrying') {
+              message = 'Mountaineers.org is busy, retrying…'
             }
 
             setStatusMessage(message)
@@ -397,26 +569,12 @@ export const useInsightsDashboard = (): InsightsState => {
 
   // Listen for progress and status messages
   useEffect(() => {
-    const messageListener = (message: unknown) => {
-      if (!message || typeof message !== 'object') return
-
-      const payload = message as {
-        type?: string
-        stage?: string
-        inProgress?: boolean
-        progress?: RefreshProgress
-        total?: number
-        completed?: number
-        activityTitle?: string
-        activityUid?: string
-      }
-
-      if (payload.type === REFRESH_PROGRESS_MESSAGE) {
-        const stage = payload.stage || (payload.progress?.stage ?? '')
+    return onEvents({
+      'refresh-progress': (payload) => {
         // Handle both flat properties (from collector) and nested progress object (from background)
-        const total = payload.progress?.total ?? payload.total
-        const completed = payload.progress?.completed ?? payload.completed
-        const activityTitle = payload.progress?.activityTitle ?? payload.activityTitle
+        const update = payload.origin === 'background' ? payload.progress : payload
+        const { stage, total, completed, activityTitle } = update
+        const retryDelayMs = payload.origin === 'collector' ? payload.retryDelayMs : undefined
         let message = ''
 
         switch (stage) {
@@ -424,6 +582,9 @@ export const useInsightsDashboard = (): InsightsState => {
           case 'starting':
             message = 'Refreshing list of activities…'
             break
+          case 'resuming':
+            message = 'Resuming interrupted refresh…'
+            break
           case 'activities-collected':
             if (total) {
               message = `Found ${total} new ${total === 1 ? 'activity' : 'activities'} to fetch`
@@ -456,6 +617,20 @@ export const useInsightsDashboard = (): InsightsState => {
             message = 'No new activities found.'
             setIsLoading(false)
             break
+          case 'cancelling':
+            message = 'Cancelling refresh…'
+            setIsCancelling(true)
+            break
+          case 'retrying': {
+            const seconds = Math.max(1, Math.round((retryDelayMs ?? 0) / 1000))
+            message = `Mountaineers.org is busy, retrying in ${seconds}s…`
+            break
+          }
+          case 'cancelled':
+            message = completed
+              ? `Refresh cancelled after ${completed} ${completed === 1 ? 'activity' : 'activities'}.`
+              : 'Refresh cancelled.'
+            break
           case 'error':
             message = 'Refresh encountered an error.'
             setIsLoading(false)
@@ -465,24 +640,22 @@ export const useInsightsDashboard = (): InsightsState => {
         if (message) {
           setStatusMessage(message)
         }
-      }
-
-      if (payload.type === REFRESH_STATUS_CHANGE_MESSAGE) {
-        setIsLoading(Boolean(payload.inProgress))
-      }
-    }
-
-    chrome.runtime.onMessage.addListener(messageListener)
-
-    return () => {
-      chrome.runtime.onMessage.removeListener(messageListener)
-    }
+      },
+      'refresh-status-changed': (payload) => {
+        setIsLoading(payload.inProgress)
+        if (!payload.inProgress) {
+          setIsCancelling(false)
+        }
+      },
+    })
   }, [])
 
   // Listen for storage changes to reload page when cache is updated
   useEffect(() => {
     const storageListener = (changes: { [key: string]: chrome.storage.StorageChange }) => {
-      if (changes[STORAGE_KEY]) {
+      const cacheChange = changes[CACHE_CHANGED_KEY]
+      // A write this page made itself is already reflected in what it shows
+      if (cacheChange && !isOwnCacheChange(cacheChange)) {
         if (isLoading) {
           // Cache was updated during refresh - mark for reload when refresh completes
           cacheWasUpdatedDuringRefreshRef.current = true
@@ -512,17 +685,11 @@ export const useInsightsDashboard = (): InsightsState => {
     setStatusMessage('Starting refresh…')
 
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: REFRESH_MESSAGE,
+      const response = await sendRequest('start-refresh', {
         limit: fetchLimit,
+        mode: refreshMode,
       })
 
-      if (!response) {
-        setStatusMessage('No response from background script.')
-        setIsLoading(false)
-        return
-      }
-
       if (!response.success) {
         setStatusMessage(response.error || 'Refresh failed.')
         setIsLoading(false)
@@ -530,18 +697,81 @@ export const useInsightsDashboard = (): InsightsState => {
       }
 
       const newActivities = response.summary?.newActivities ?? 0
-      setStatusMessage(`Cached ${newActivities} new activities.`)
+      const refreshedActivities = response.summary?.refreshedActivities ?? 0
+      const cached =
+        refreshedActivities > 0
+          ? `Cached ${newActivities} new and re-synced ${refreshedActivities} activities.`
+          : `Cached ${newActivities} new activities.`
+      const failed = response.summary?.failedActivities ?? 0
+      const failedNote = failed
+        ? ` ${failed} ${failed === 1 ? 'activity' : 'activities'} could not be fully loaded; retry them from the refresh mode menu.`
+        : ''
+      const removed = response.summary?.tombstonedActivities ?? 0
+      const removedNote = removed
+        ? ` ${removed} cached ${removed === 1 ? 'activity is' : 'activities are'} no longer in your history and will be hidden.`
+        : ''
+      setStatusMessage(
+        `${response.summary?.cancelled ? 'Refresh cancelled. ' : ''}${cached}${failedNote}${removedNote}`
+      )
       setRefreshSummary(response.summary)
       setIsLoading(false)
+      // Re-syncs are one-off; the next click goes back to fetching new activities only
+      setRefreshMode('new')
 
       // Note: The storage change listener will reload the page automatically
       // now that isLoading is false and the cache has been updated
     } catch (error) {
+      // The service worker may have been stopped mid-refresh and resumed the run on restart,
+      // in which case the original request never gets a response but the refresh continues
+      const status = await sendRequest('get-refresh-status', {}).catch(() => null)
+      if (status?.success && status.inProgress) {
+        setStatusMessage('Resuming interrupted refresh…')
+        return
+      }
       const message = error instanceof Error ? error.message : 'Unexpected error.'
       setStatusMessage(message)
       setIsLoading(false)
     }
-  }, [fetchLimit])
+  }, [fetchLimit, refreshMode])
+
+  const cancelRefresh = useCallback(async () => {
+    setIsCancelling(true)
+    setStatusMessage('Cancelling refresh…')
+    try {
+      const response = await sendRequest('cancel-refresh', {})
+      if (!response.success) {
+        setIsCancelling(false)
+        if (response.error) {
+          setStatusMessage(response.error)
+        }
+      }
+    } catch (error) {
+      setIsCancelling(false)
+      setStatusMessage(error instanceof Error ? error.message : 'Unable to cancel the refresh.')
+    }
+  }, [])
+
+  // Exports what the dashboard currently counts, so filters and display settings carry over
+  const exportActivities = useCallback(
+    async (format: ExportFormat) => {
+      try {
+        const data = await loadExtensionData()
+        if (!data || !view) {
+          setStatusMessage('No cached data to export yet.')
+          return
+        }
+        downloadExportFiles(buildExportFiles(data, format, { activityUids: view.activityUids }))
+        const count = view.activityUids.length
+        setStatusMessage(
+          `Exported ${formatNumber(count)} ${count === 1 ? 'activity' : 'activities'}.`
+        )
+      } catch (error) {
+        console.error('Mountaineers Assistant insights: export failed', error)
+        setStatusMessage(error instanceof Error ? error.message : 'Unable to export activities.')
+      }
+    },
+    [loadExtensionData, view]
+  )
 
   // Update refresh summary when data changes
   useEffect(() => {
@@ -572,13 +802,33 @@ export const useInsightsDashboard = (): InsightsState => {
       filterOptions,
       settings,
       view,
+      availableYears,
+      comparisonYears,
+      setComparisonYears,
+      yearComparison,
+      network,
+      resume,
       summary,
       statusMessage,
       setFilter,
+      setDateRange,
+      granularity,
+      setGranularity,
+      tab,
+      setTab,
+      partnerUid,
+      partnerDetail,
+      openPartner,
       clearFilters,
       fetchActivities,
+      cancelRefresh,
+      exportActivities,
       isLoading,
+      isCancelling,
       fetchLimit,
+      refreshMode,
+      setRefreshMode,
+      resyncStaleDays,
       refreshSummary,
       fullDateRange,
     }),
@@ -590,13 +840,29 @@ export const useInsightsDashboard = (): InsightsState => {
       filterOptions,
       settings,
       view,
+      availableYears,
+      comparisonYears,
+      yearComparison,
+      network,
+      resume,
       summary,
       statusMessage,
       setFilter,
+      setDateRange,
+      granularity,
+      tab,
+      partnerUid,
+      partnerDetail,
+      openPartner,
       clearFilters,
       fetchActivities,
+      cancelRefresh,
+      exportActivities,
       isLoading,
+      isCancelling,
       fetchLimit,
+      refreshMode,
+      resyncStaleDays,
       refreshSummary,
       fullDateRange,
     ]
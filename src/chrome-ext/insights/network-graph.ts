@@ -0,0 +1,254 @@
+import type {
+  DashboardFilters,
+  NetworkEdge,
+  NetworkNode,
+  PartnerNetwork,
+  PreparedData,
+} from './types'
+import { type DashboardSettings, filterActivities } from './utils'
+
+/** Beyond this many people the graph turns into a hairball, so only the most frequent stay. */
+export const MAX_NETWORK_PARTNERS = 50
+const MAX_CLUSTERING_ROUNDS = 20
+
+export interface NodePosition {
+  x: number
+  y: number
+}
+
+export interface LayoutOptions {
+  width: number
+  height: number
+  padding?: number
+  iterations?: number
+}
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}\n${b}` : `${b}\n${a}`)
+
+/**
+ * Weighted label propagation: each person repeatedly joins the cluster they share the most
+ * activities with. Visiting in a fixed order keeps the result stable between renders.
+ */
+const findClusters = (uids: string[], edges: NetworkEdge[]): string[][] => {
+  const neighbors = new Map<string, Array<[string, number]>>(uids.map((uid) => [uid, []]))
+  edges.forEach((edge) => {
+    neighbors.get(edge.source)?.push([edge.target, edge.weight])
+    neighbors.get(edge.target)?.push([edge.source, edge.weight])
+  })
+
+  const labels = new Map(uids.map((uid, index) => [uid, index]))
+  for (let round = 0; round < MAX_CLUSTERING_ROUNDS; round += 1) {
+    let changed = false
+    uids.forEach((uid) => {
+      const scores = new Map<number, number>()
+      neighbors.get(uid)?.forEach(([neighbor, weight]) => {
+        const label = labels.get(neighbor)!
+        scores.set(label, (scores.get(label) || 0) + weight)
+      })
+      let best = labels.get(uid)!
+      let bestScore = scores.get(best) ?? 0
+      scores.forEach((score, label) => {
+        if (score > bestScore || (score === bestScore && label < best)) {
+          best = label
+          bestScore = score
+        }
+      })
+      if (best !== labels.get(uid)) {
+        labels.set(uid, best)
+        changed = true
+      }
+    })
+    if (!changed) break
+  }
+
+  const groups = new Map<number, string[]>()
+  uids.forEach((uid) => {
+    const label = labels.get(uid)!
+    groups.set(label, [...(groups.get(label) || []), uid])
+  })
+  return Array.from(groups.values()).sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]))
+}
+
+/**
+ * Co-participation graph of the people on the matching activities. Edges join everyone who was
+ * on the same activity, weighted by how many activities they shared; you are included as a node
+ * but left out of clustering, because you are connected to everyone.
+ */
+export const buildPartnerNetwork = (
+  prepared: PreparedData,
+  filters: DashboardFilters,
+  settings: DashboardSettings,
+  maxPartners: number = MAX_NETWORK_PARTNERS
+): PartnerNetwork => {
+  const { counted } = filterActivities(prepared, filters, settings)
+
+  const activityCounts = new Map<string, number>()
+  const participants = counted.map((activity) => {
+    const uids = Array.from(
+      new Set((prepared.rosterByActivity.get(activity.uid) || []).map((entry) => entry.person_uid))
+    )
+    uids.forEach((uid) => {
+      activityCounts.set(uid, (activityCounts.get(uid) || 0) + 1)
+    })
+    return uids
+  })
+
+  const currentUserUid = prepared.currentUserUid
+  const kept = new Set(
+    Array.from(activityCounts.entries())
+      .filter(([uid]) => uid !== currentUserUid)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, maxPartners)
+      .map(([uid]) => uid)
+  )
+  if (currentUserUid && activityCounts.has(currentUserUid)) {
+    kept.add(currentUserUid)
+  }
+
+  const weights = new Map<string, number>()
+  participants.forEach((uids) => {
+    const present = uids.filter((uid) => kept.has(uid)).sort()
+    for (let i = 0; i < present.length; i += 1) {
+      for (let j = i + 1; j < present.length; j += 1) {
+        const key = edgeKey(present[i], present[j])
+        weights.set(key, (weights.get(key) || 0) + 1)
+      }
+    }
+  })
+  const edges: NetworkEdge[] = Array.from(weights.entries())
+    .map(([key, weight]) => {
+      const [source, target] = key.split('\n')
+      return { source, target, weight }
+    })
+    .sort(
+      (a, b) =>
+        b.weight - a.weight ||
+        edgeKey(a.source, a.target).localeCompare(edgeKey(b.source, b.target))
+    )
+
+  const partnerUids = Array.from(kept)
+    .filter((uid) => uid !== currentUserUid)
+    .sort()
+  const clusters = findClusters(
+    partnerUids,
+    edges.filter((edge) => edge.source !== currentUserUid && edge.target !== currentUserUid)
+  )
+  const clusterOf = new Map<string, number>()
+  clusters.forEach((members, index) => {
+    members.forEach((uid) => {
+      clusterOf.set(uid, index)
+    })
+  })
+
+  const nodes: NetworkNode[] = Array.from(kept)
+    .map((uid) => ({
+      uid,
+      name: prepared.peopleMap.get(uid)?.name || uid,
+      activities: activityCounts.get(uid) || 0,
+      cluster: clusterOf.get(uid) ?? -1,
+      isCurrentUser: uid === currentUserUid,
+    }))
+    .sort((a, b) => b.activities - a.activities || a.name.localeCompare(b.name))
+
+  return { nodes, edges, clusters }
+}
+
+/** The person plus everyone they share an edge with. */
+export const getEgoNetwork = (edges: NetworkEdge[], uid: string): Set<string> => {
+  const members = new Set([uid])
+  edges.forEach((edge) => {
+    if (edge.source === uid) members.add(edge.target)
+    if (edge.target === uid) members.add(edge.source)
+  })
+  return members
+}
+
+/**
+ * Force-directed (Fruchterman–Reingold) positions inside the given box. Nodes start on a circle
+ * grouped by cluster, so the same network always lays out the same way.
+ */
+export const layoutNetwork = (
+  nodes: NetworkNode[],
+  edges: NetworkEdge[],
+  { width, height, padding = 24, iterations = 300 }: LayoutOptions
+): Map<string, NodePosition> => {
+  const positions = new Map<string, NodePosition>()
+  if (!nodes.length) return positions
+
+  const centerX = width / 2
+  const centerY = height / 2
+  const innerWidth = Math.max(1, width - padding * 2)
+  const innerHeight = Math.max(1, height - padding * 2)
+  const ordered = [...nodes].sort((a, b) => a.cluster - b.cluster || a.uid.localeCompare(b.uid))
+  ordered.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / ordered.length
+    positions.set(node.uid, {
+      x: centerX + (innerWidth / 3) * Math.cos(angle),
+      y: centerY + (innerHeight / 3) * Math.sin(angle),
+    })
+  })
+  if (nodes.length === 1) {
+    positions.set(nodes[0].uid, { x: centerX, y: centerY })
+    return positions
+  }
+
+  const k = Math.sqrt((innerWidth * innerHeight) / nodes.length)
+  let temperature = Math.min(innerWidth, innerHeight) / 10
+  const cooling = temperature / (iterations + 1)
+
+  for (let step = 0; step < iterations; step += 1) {
+    const displacement = new Map(ordered.map((node) => [node.uid, { x: 0, y: 0 }]))
+
+    for (let i = 0; i < ordered.length; i += 1) {
+      for (let j = i + 1; j < ordered.length; j += 1) {
+        const a = positions.get(ordered[i].uid)!
+        const b = positions.get(ordered[j].uid)!
+        const dx = a.x - b.x
+        const dy = a.y - b.y
+        const distance = Math.max(0.01, Math.hypot(dx, dy))
+        const force = (k * k) / distance
+        const da = displacement.get(ordered[i].uid)!
+        const db = displacement.get(ordered[j].uid)!
+        da.x += (dx / distance) * force
+        da.y += (dy / distance) * force
+        db.x -= (dx / distance) * force
+        db.y -= (dy / distance) * force
+      }
+    }
+
+    edges.forEach((edge) => {
+      const a = positions.get(edge.source)
+      const b = positions.get(edge.target)
+      if (!a || !b) return
+      const dx = a.x - b.x
+      const dy = a.y - b.y
+      const distance = Math.max(0.01, Math.hypot(dx, dy))
+      // Frequent partners pull harder, but logarithmically so one pair cannot collapse the graph
+      const force = ((distance * distance) / k) * Math.log2(1 + edge.weight)
+      const da = displacement.get(edge.source)!
+      const db = displacement.get(edge.target)!
+      da.x -= (dx / distance) * force
+      da.y -= (dy / distance) * force
+      db.x += (dx / distance) * force
+      db.y += (dy / distance) * force
+    })
+
+    ordered.forEach((node) => {
+      const position = positions.get(node.uid)!
+      const delta = displacement.get(node.uid)!
+      const length = Math.max(0.01, Math.hypot(delta.x, delta.y))
+      const move = Math.min(length, temperature)
+      position.x = Math.min(
+        width - padding,
+        Math.max(padding, position.x + (delta.x / length) * move)
+      )
+      position.y = Math.min(
+        height - padding,
+        Math.max(padding, position.y + (delta.y / length) * move)
+      )
+    })
+    temperature -= cooling
+  }
+
+  return positions
+}
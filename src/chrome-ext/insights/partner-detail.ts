@@ -0,0 +1,108 @@
+import { DEFAULT_DATE_RANGE } from './date-range'
+import type {
+  CoPartnerEntry,
+  DashboardFilters,
+  PartnerDetailView,
+  PartnerRoleEntry,
+  PreparedData,
+} from './types'
+import {
+  buildActivityLogEntry,
+  buildDistributionEntries,
+  type DashboardSettings,
+  filterActivities,
+  toExternalHref,
+} from './utils'
+
+const MAX_CO_PARTNERS = 8
+
+// The partner page covers your whole history with someone, whatever the dashboard filters say
+const ALL_ACTIVITIES: DashboardFilters = {
+  activityType: [],
+  category: [],
+  role: [],
+  partner: [],
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
+}
+
+const increment = (counts: Map<string, number>, key: string) => {
+  counts.set(key, (counts.get(key) || 0) + 1)
+}
+
+/**
+ * Everything you did with one person: the shared activities, what types they were, which roles
+ * each of you held and who else tends to come along. Returns null for people not in the cache.
+ */
+export const calculatePartnerDetail = (
+  prepared: PreparedData,
+  partnerUid: string,
+  settings: DashboardSettings
+): PartnerDetailView | null => {
+  const person = prepared.peopleMap.get(partnerUid)
+  if (!person || partnerUid === prepared.currentUserUid) {
+    return null
+  }
+
+  const { counted } = filterActivities(
+    prepared,
+    { ...ALL_ACTIVITIES, partner: [partnerUid] },
+    settings
+  )
+  // Prepared activities are oldest first; the page lists the latest first
+  const activities = [...counted]
+    .reverse()
+    .map((activity) => buildActivityLogEntry(prepared, activity))
+
+  const typeCounts = new Map<string, number>()
+  const yourRoles = new Map<string, number>()
+  const theirRoles = new Map<string, number>()
+  const coPartnerCounts = new Map<string, number>()
+  activities.forEach((activity) => {
+    increment(typeCounts, activity.activityType)
+    const yours = new Set<string>()
+    const theirs = new Set<string>()
+    const others = new Set<string>()
+    activity.roster.forEach((entry) => {
+      if (entry.isCurrentUser) {
+        yours.add(entry.role)
+      } else if (entry.uid === partnerUid) {
+        theirs.add(entry.role)
+      } else {
+        others.add(entry.uid)
+      }
+    })
+    yours.forEach((role) => increment(yourRoles, role))
+    theirs.forEach((role) => increment(theirRoles, role))
+    others.forEach((uid) => increment(coPartnerCounts, uid))
+  })
+
+  const roles: PartnerRoleEntry[] = Array.from(new Set([...yourRoles.keys(), ...theirRoles.keys()]))
+    .map((role) => ({ role, yours: yourRoles.get(role) || 0, theirs: theirRoles.get(role) || 0 }))
+    .sort((a, b) => b.yours + b.theirs - (a.yours + a.theirs) || a.role.localeCompare(b.role))
+
+  const coPartners: CoPartnerEntry[] = Array.from(coPartnerCounts.entries())
+    .map(([uid, count]) => ({ uid, name: prepared.peopleMap.get(uid)?.name || uid, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, MAX_CO_PARTNERS)
+
+  const sortedTypes = Array.from(typeCounts.entries()).sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+  )
+
+  return {
+    uid: partnerUid,
+    name: person.name || partnerUid,
+    profile: person.href ? toExternalHref(person.href) : null,
+    avatar: person.avatar || null,
+    sharedCount: activities.length,
+    firstShared: activities[activities.length - 1]?.date ?? null,
+    lastShared: activities[0]?.date ?? null,
+    activityTypes: buildDistributionEntries(sortedTypes, activities.length),
+    roles,
+    coPartners,
+    activities,
+  }
+}
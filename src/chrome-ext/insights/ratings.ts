@@ -0,0 +1,90 @@
+import { isSuccessfulOutcome } from '../shared/outcome'
+import { getRatingScale, hasRating, normalizeRating } from '../shared/ratings'
+import type {
+  PreparedActivity,
+  RatingKind,
+  RatingPoint,
+  RatingProgression,
+  RatingsView,
+  UnknownRating,
+} from './types'
+
+const RATING_FIELDS: Array<[RatingKind, 'difficulty_rating' | 'leader_rating']> = [
+  ['difficulty', 'difficulty_rating'],
+  ['leader', 'leader_rating'],
+]
+
+/**
+ * Difficulty and leader ratings over time for each activity type, on the type's ordinal scale.
+ * Ratings the scale does not recognize are collected in `unknown` instead of being dropped.
+ */
+export const calculateRatingProgression = (activities: PreparedActivity[]): RatingsView => {
+  const chronological = [...activities].sort((a, b) => a.date.getTime() - b.date.getTime())
+  const byType = new Map<string, RatingProgression>()
+  const unknownCounts = new Map<string, UnknownRating>()
+
+  chronological.forEach((activity) => {
+    RATING_FIELDS.forEach(([kind, field]) => {
+      const rating = activity[field]
+      if (!hasRating(rating)) return
+
+      const level = normalizeRating(rating, activity.typeLabel)
+      if (level === null) {
+        const key = `${activity.typeLabel}\n${kind}\n${rating.trim()}`
+        const entry = unknownCounts.get(key) ?? {
+          activityType: activity.typeLabel,
+          kind,
+          rating: rating.trim(),
+          count: 0,
+        }
+        entry.count += 1
+        unknownCounts.set(key, entry)
+        return
+      }
+
+      let progression = byType.get(activity.typeLabel)
+      if (!progression) {
+        progression = {
+          activityType: activity.typeLabel,
+          scale: getRatingScale(activity.typeLabel).levels.map((entry) => entry.label),
+          difficulty: [],
+          leaderRating: [],
+          highestCompleted: null,
+        }
+        byType.set(activity.typeLabel, progression)
+      }
+      const point: RatingPoint = {
+        uid: activity.uid,
+        title: activity.title || activity.uid,
+        date: activity.date,
+        level,
+        rating: rating.trim(),
+      }
+      if (kind === 'leader') {
+        progression.leaderRating.push(point)
+        return
+      }
+      progression.difficulty.push(point)
+      if (
+        isSuccessfulOutcome(activity.outcome) &&
+        level > (progression.highestCompleted?.level ?? 0)
+      ) {
+        progression.highestCompleted = point
+      }
+    })
+  })
+
+  const ratedCount = (entry: RatingProgression) =>
+    entry.difficulty.length + entry.leaderRating.length
+  return {
+    types: Array.from(byType.values()).sort(
+      (a, b) => ratedCount(b) - ratedCount(a) || a.activityType.localeCompare(b.activityType)
+    ),
+    unknown: Array.from(unknownCounts.values()).sort(
+      (a, b) =>
+        b.count - a.count ||
+        a.activityType.localeCompare(b.activityType) ||
+        a.rating.localeCompare(b.rating)
+    ),
+  }
+}
@@ -0,0 +1,138 @@
+import { getBucketStart } from './date-range'
+import { getSeasonIndex, SEASON_LABELS } from './seasonality'
+import type {
+  ActivityLogEntry,
+  DashboardRecords,
+  GapRecord,
+  PeriodRecord,
+  RecordActivity,
+  StreakRecord,
+} from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+const monthFormatter = new Intl.DateTimeFormat('en-US', {
+  month: 'long',
+  year: 'numeric',
+  timeZone: 'UTC',
+})
+
+type StreakPeriod = 'week' | 'month'
+
+// Consecutive periods get consecutive indices, so streaks are runs of +1 steps
+const getPeriodIndex = (start: Date, period: StreakPeriod): number =>
+  period === 'week'
+    ? Math.floor(start.getTime() / WEEK_MS)
+    : start.getUTCFullYear() * 12 + start.getUTCMonth()
+
+const getPeriodEnd = (start: Date, period: StreakPeriod): Date =>
+  period === 'week'
+    ? new Date(start.getTime() + 6 * DAY_MS)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0))
+
+const toRecordActivity = (entry: ActivityLogEntry): RecordActivity => ({
+  uid: entry.uid,
+  title: entry.title,
+  href: entry.href,
+  date: entry.date,
+  activityType: entry.activityType,
+})
+
+/** Longest run of back-to-back periods with an activity; the earliest wins a tie. */
+const findLongestStreak = (dates: Date[], period: StreakPeriod): StreakRecord | null => {
+  const starts = new Map<number, Date>()
+  dates.forEach((date) => {
+    const start = getBucketStart(date, period)
+    starts.set(getPeriodIndex(start, period), start)
+  })
+  const indices = Array.from(starts.keys()).sort((a, b) => a - b)
+  if (!indices.length) return null
+
+  let bestStart = 0
+  let bestEnd = 0
+  let runStart = 0
+  indices.forEach((index, position) => {
+    if (position > 0 && index !== indices[position - 1] + 1) {
+      runStart = position
+    }
+    if (position - runStart > bestEnd - bestStart) {
+      bestStart = runStart
+      bestEnd = position
+    }
+  })
+  return {
+    length: bestEnd - bestStart + 1,
+    start: starts.get(indices[bestStart])!,
+    end: getPeriodEnd(starts.get(indices[bestEnd])!, period),
+  }
+}
+
+const findLongestGap = (dates: Date[]): GapRecord | null => {
+  let best: GapRecord | null = null
+  for (let index = 1; index < dates.length; index += 1) {
+    const days = Math.round((dates[index].getTime() - dates[index - 1].getTime()) / DAY_MS)
+    if (days > 0 && (!best || days > best.days)) {
+      best = { days, from: dates[index - 1], to: dates[index] }
+    }
+  }
+  return best
+}
+
+const getSeasonLabel = (date: Date): string => {
+  const season = getSeasonIndex(date)
+  const year = date.getUTCFullYear()
+  if (season !== 0) return `${SEASON_LABELS[season]} ${year}`
+  // Winter runs across the new year and is named after both years
+  const startYear = date.getUTCMonth() === 11 ? year : year - 1
+  return `${SEASON_LABELS[0]} ${startYear}–${String(startYear + 1).slice(-2)}`
+}
+
+/** Most frequent label, keeping the earliest on a tie. Labels must be seen in date order. */
+const findBusiestPeriod = (labels: string[]): PeriodRecord | null => {
+  const counts = new Map<string, number>()
+  labels.forEach((label) => {
+    counts.set(label, (counts.get(label) || 0) + 1)
+  })
+  let best: PeriodRecord | null = null
+  counts.forEach((count, label) => {
+    if (!best || count > best.count) {
+      best = { label, count }
+    }
+  })
+  return best
+}
+
+/**
+ * Personal bests among the matching activities: streaks, the longest break, the busiest month
+ * and season, the largest group and the first activity of each type. `isCourse` keeps course
+ * rosters, which list a whole class, out of the group size record.
+ */
+export const calculateRecords = (
+  entries: ActivityLogEntry[],
+  isCourse: (entry: ActivityLogEntry) => boolean
+): DashboardRecords => {
+  const chronological = [...entries].sort((a, b) => a.date.getTime() - b.date.getTime())
+  const dates = chronological.map((entry) => entry.date)
+
+  let biggestGroup: DashboardRecords['biggestGroup'] = null
+  const firsts = new Map<string, RecordActivity>()
+  chronological.forEach((entry) => {
+    if (!isCourse(entry) && entry.partnerCount > (biggestGroup?.partners ?? 0)) {
+      biggestGroup = { ...toRecordActivity(entry), partners: entry.partnerCount }
+    }
+    if (!firsts.has(entry.activityType)) {
+      firsts.set(entry.activityType, toRecordActivity(entry))
+    }
+  })
+
+  return {
+    weekStreak: findLongestStreak(dates, 'week'),
+    monthStreak: findLongestStreak(dates, 'month'),
+    longestGap: findLongestGap(dates),
+    busiestMonth: findBusiestPeriod(dates.map((date) => monthFormatter.format(date))),
+    busiestSeason: findBusiestPeriod(dates.map(getSeasonLabel)),
+    biggestGroup,
+    firsts: Array.from(firsts.values()),
+  }
+}
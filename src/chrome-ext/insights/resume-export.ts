@@ -0,0 +1,432 @@
+import type { ExportFile } from '../shared/export'
+import {
+  measurePdfText,
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  type PdfColor,
+  type PdfPage,
+  renderPdf,
+  wrapPdfText,
+} from '../shared/pdf'
+import { isLeadershipRole } from './resume'
+import type { ResumeActivity, ResumeView } from './types'
+import { formatDate, formatDateRange, formatNumber } from './utils'
+
+export interface ResumeExportOptions {
+  /** List the other people on each activity; off by default since the document is shared. */
+  includePartners?: boolean
+  now?: Date
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character])
+
+const countOf = (count: number): string =>
+  count === 1 ? '1 activity' : `${formatNumber(count)} activities`
+
+const resumeTitle = (resume: ResumeView): string =>
+  resume.name ? `${resume.name} – Outdoor resume` : 'Outdoor resume'
+
+const resumeStats = (resume: ResumeView): Array<[string, string]> => [
+  ['Activities', formatNumber(resume.totalActivities)],
+  ['Activity types', formatNumber(resume.sections.length)],
+  ['Led or instructed', formatNumber(resume.leadershipCount)],
+  ['Active', formatDateRange(resume.firstDate, resume.lastDate)],
+]
+
+const resumeFilename = (now: Date, extension: string): string =>
+  `mountaineers-resume-${now.toISOString().slice(0, 10)}.${extension}`
+
+// Inline so the file opens the same anywhere, offline, and prints on plain white pages
+const RESUME_STYLES = `
+@page { margin: 1.5cm; }
+* { box-sizing: border-box; }
+body { margin: 0 auto; max-width: 56rem; padding: 2rem; color: #0f172a;
+  font: 14px/1.45 Inter, system-ui, -apple-system, 'Segoe UI', sans-serif; }
+h1 { margin: 0; font-size: 1.75rem; }
+h2 { margin: 0; font-size: 1.15rem; }
+a { color: inherit; }
+.eyebrow { margin: 0; color: #0284c7; font-size: 0.7rem; font-weight: 600;
+  letter-spacing: 0.15em; text-transform: uppercase; }
+.muted { color: #64748b; }
+.stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 1rem; margin: 1.25rem 0 2rem;
+  padding: 1rem 0; border-top: 1px solid #e2e8f0; border-bottom: 1px solid #e2e8f0; }
+.stats dt { color: #64748b; font-size: 0.7rem; font-weight: 600; letter-spacing: 0.1em;
+  text-transform: uppercase; }
+.stats dd { margin: 0.25rem 0 0; font-size: 1.1rem; font-weight: 600; }
+section { margin-bottom: 1.75rem; }
+.section-head { display: flex; justify-content: space-between; align-items: baseline; gap: 1rem;
+  break-after: avoid; }
+.details { margin: 0.35rem 0 0.6rem; }
+table { width: 100%; border-collapse: collapse; }
+th { color: #64748b; font-size: 0.7rem; letter-spacing: 0.05em; text-align: left;
+  text-transform: uppercase; }
+th, td { padding: 0.35rem 0.75rem 0.35rem 0; border-bottom: 1px solid #e2e8f0;
+  vertical-align: top; }
+tr { break-inside: avoid; }
+td.date { white-space: nowrap; }
+.lead { font-weight: 600; }
+footer { margin-top: 2rem; color: #94a3b8; font-size: 0.75rem; }
+`
+
+const renderRoles = (roles: string[]): string =>
+  roles.length
+    ? roles
+        .map((role) =>
+          isLeadershipRole(role)
+            ? `<span class="lead">${escapeHtml(role)}</span>`
+            : escapeHtml(role)
+        )
+        .join(', ')
+    : '–'
+
+const renderTable = (
+  activities: ResumeActivity[],
+  { showType, includePartners }: { showType: boolean; includePartners: boolean }
+): string => {
+  const headers = [
+    'Date',
+    'Activity',
+    ...(showType ? ['Type'] : []),
+    'Role',
+    'Difficulty',
+    ...(includePartners ? ['Partners'] : []),
+  ]
+  const rows = activities.map((activity) => {
+    const title = activity.href
+      ? `<a href="${escapeHtml(activity.href)}">${escapeHtml(activity.title)}</a>`
+      : escapeHtml(activity.title)
+    const cells = [
+      `<td class="date">${escapeHtml(formatDate(activity.date))}</td>`,
+      `<td>${title}</td>`,
+      ...(showType ? [`<td>${escapeHtml(activity.activityType)}</td>`] : []),
+      `<td>${renderRoles(activity.roles)}</td>`,
+      `<td>${escapeHtml(activity.difficulty ?? '–')}</td>`,
+      ...(includePartners
+        ? [`<td>${escapeHtml(activity.partnerNames.join(', ') || '–')}</td>`]
+        : []),
+    ]
+    return `<tr>${cells.join('')}</tr>`
+  })
+  return [
+    '<table>',
+    `<thead><tr>${headers.map((header) => `<th>${header}</th>`).join('')}</tr></thead>`,
+    `<tbody>${rows.join('\n')}</tbody>`,
+    '</table>',
+  ].join('\n')
+}
+
+/**
+ * A self-contained HTML document of the outdoor resume, for attaching to leader or course
+ * applications or opening and printing later. Everything is rendered from the resume
+ * view, with no scripts or external resources.
+ */
+export const buildResumeDocument = (
+  resume: ResumeView,
+  { includePartners = false, now = new Date() }: ResumeExportOptions = {}
+): ExportFile => {
+  const title = resumeTitle(resume)
+  const stats = resumeStats(resume)
+
+  const sections = resume.sections.map((section) => {
+    const details = [
+      section.highestDifficulty
+        ? `Highest difficulty: ${escapeHtml(section.highestDifficulty.label)} (${escapeHtml(
+            section.highestDifficulty.rating
+          )})`
+        : null,
+      section.leadershipRoles.length
+        ? `Roles held: ${section.leadershipRoles
+            .map((entry) => `${escapeHtml(entry.role)} × ${formatNumber(entry.count)}`)
+            .join(', ')}`
+        : null,
+    ].filter((detail): detail is string => detail !== null)
+    return [
+      '<section>',
+      '<div class="section-head">',
+      `<h2>${escapeHtml(section.activityType)}</h2>`,
+      `<span class="muted">${countOf(section.count)} · ${escapeHtml(
+        formatDateRange(section.firstDate, section.lastDate)
+      )}</span>`,
+      '</div>',
+      details.length ? `<p class="details">${details.join(' · ')}</p>` : '',
+      renderTable(section.activities, { showType: false, includePartners }),
+      '</section>',
+    ].join('\n')
+  })
+
+  const content = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${RESUME_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    '<p class="eyebrow">Outdoor resume</p>',
+    `<h1>${escapeHtml(resume.name ?? 'Outdoor resume')}</h1>`,
+    '<p class="muted">Successful activities with The Mountaineers</p>',
+    '</header>',
+    `<dl class="stats">${stats
+      .map(([label, value]) => `<div><dt>${label}</dt><dd>${escapeHtml(value)}</dd></div>`)
+      .join('')}</dl>`,
+    sections.length
+      ? sections.join('\n')
+      : '<p class="muted">No successful activities match the current filters.</p>',
+    `<footer>Generated by Mountaineers Assistant on ${escapeHtml(formatDate(now))}.</footer>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+
+  return {
+    filename: resumeFilename(now, 'html'),
+    mimeType: 'text/html;charset=utf-8',
+    content,
+  }
+}
+
+// Matches the HTML document: slate text, a sky eyebrow and light rules between rows
+const PDF_INK: PdfColor = [0.06, 0.09, 0.16]
+const PDF_MUTED: PdfColor = [0.39, 0.45, 0.55]
+const PDF_FAINT: PdfColor = [0.58, 0.64, 0.72]
+const PDF_ACCENT: PdfColor = [0.01, 0.52, 0.78]
+const PDF_RULE: PdfColor = [0.89, 0.91, 0.94]
+
+const PDF_MARGIN = 48
+const PDF_CONTENT_WIDTH = PDF_PAGE_WIDTH - 2 * PDF_MARGIN
+// Leaves room for the footer below the last row
+const PDF_CONTENT_BOTTOM = PDF_PAGE_HEIGHT - PDF_MARGIN - 12
+const PDF_TABLE_SIZE = 9
+const PDF_LINE_HEIGHT = 11.5
+const PDF_ROW_PADDING = 4
+const PDF_COLUMN_GAP = 8
+
+interface ResumePdfColumn {
+  header: string
+  width: number
+  value: (activity: ResumeActivity) => string
+  bold?: (activity: ResumeActivity) => boolean
+  href?: (activity: ResumeActivity) => string | null
+}
+
+const resumePdfColumns = (includePartners: boolean): ResumePdfColumn[] => {
+  const date: ResumePdfColumn = {
+    header: 'Date',
+    width: 76,
+    value: (activity) => formatDate(activity.date),
+  }
+  const role: ResumePdfColumn = {
+    header: 'Role',
+    width: includePartners ? 92 : 112,
+    value: (activity) => activity.roles.join(', ') || '–',
+    bold: (activity) => activity.roles.some(isLeadershipRole),
+  }
+  const difficulty: ResumePdfColumn = {
+    header: 'Difficulty',
+    width: includePartners ? 72 : 90,
+    value: (activity) => activity.difficulty ?? '–',
+  }
+  const partners: ResumePdfColumn[] = includePartners
+    ? [
+        {
+          header: 'Partners',
+          width: 110,
+          value: (activity) => activity.partnerNames.join(', ') || '–',
+        },
+      ]
+    : []
+  const fixedWidth = [date, role, difficulty, ...partners].reduce(
+    (total, column) => total + column.width,
+    0
+  )
+  const title: ResumePdfColumn = {
+    header: 'Activity',
+    width: PDF_CONTENT_WIDTH - fixedWidth,
+    value: (activity) => activity.title,
+    href: (activity) => activity.href,
+  }
+  return [date, title, role, difficulty, ...partners]
+}
+
+/**
+ * The outdoor resume as a PDF file, laid out like the HTML document: the summary, then one
+ * section per activity type with its table of activities. Rows never split across pages and
+ * the table header repeats at the top of each continued page.
+ */
+export const buildResumePdf = (
+  resume: ResumeView,
+  { includePartners = false, now = new Date() }: ResumeExportOptions = {}
+): ExportFile => {
+  let page: PdfPage = { texts: [], rules: [], links: [] }
+  const pages = [page]
+  let y = PDF_MARGIN
+
+  const addPage = () => {
+    page = { texts: [], rules: [], links: [] }
+    pages.push(page)
+    y = PDF_MARGIN
+  }
+  const text = (
+    x: number,
+    baseline: number,
+    value: string,
+    size: number,
+    { bold = false, color = PDF_INK }: { bold?: boolean; color?: PdfColor } = {}
+  ) => page.texts.push({ x, y: baseline, text: value, size, bold, color })
+  const rule = (at: number) =>
+    page.rules.push({ x1: PDF_MARGIN, x2: PDF_MARGIN + PDF_CONTENT_WIDTH, y: at, color: PDF_RULE })
+
+  text(PDF_MARGIN, y + 8, 'OUTDOOR RESUME', 8, { bold: true, color: PDF_ACCENT })
+  y += 14
+  for (const line of wrapPdfText(resume.name ?? 'Outdoor resume', PDF_CONTENT_WIDTH, 20, true)) {
+    text(PDF_MARGIN, y + 20, line, 20, { bold: true })
+    y += 24
+  }
+  text(PDF_MARGIN, y + 12, 'Successful activities with The Mountaineers', 10, {
+    color: PDF_MUTED,
+  })
+  y += 24
+
+  rule(y)
+  const statWidth = PDF_CONTENT_WIDTH / 4
+  let statsHeight = 0
+  resumeStats(resume).forEach(([label, value], index) => {
+    const x = PDF_MARGIN + index * statWidth
+    text(x, y + 18, label.toUpperCase(), 7, { bold: true, color: PDF_MUTED })
+    const lines = wrapPdfText(value, statWidth - PDF_COLUMN_GAP, 11, true)
+    lines.forEach((line, lineIndex) => {
+      text(x, y + 34 + lineIndex * 13, line, 11, { bold: true })
+    })
+    statsHeight = Math.max(statsHeight, 30 + lines.length * 13)
+  })
+  y += statsHeight
+  rule(y)
+  y += 28
+
+  if (!resume.sections.length) {
+    text(PDF_MARGIN, y, 'No successful activities match the current filters.', 10, {
+      color: PDF_MUTED,
+    })
+  }
+
+  const columns = resumePdfColumns(includePartners)
+  const tableHeader = () => {
+    let x = PDF_MARGIN
+    for (const column of columns) {
+      text(x, y + 8, column.header.toUpperCase(), 7, { bold: true, color: PDF_MUTED })
+      x += column.width
+    }
+    y += 12
+    rule(y)
+  }
+
+  for (const section of resume.sections) {
+    const details = [
+      section.highestDifficulty
+        ? `Highest difficulty: ${section.highestDifficulty.label} (${section.highestDifficulty.rating})`
+        : null,
+      section.leadershipRoles.length
+        ? `Roles held: ${section.leadershipRoles
+            .map((entry) => `${entry.role} × ${formatNumber(entry.count)}`)
+            .join(', ')}`
+        : null,
+    ].filter((detail): detail is string => detail !== null)
+    const detailLines = details.length
+      ? wrapPdfText(details.join(' · '), PDF_CONTENT_WIDTH, PDF_TABLE_SIZE)
+      : []
+    // Keep the heading with its header row and first activity
+    if (y + 60 + detailLines.length * 12 > PDF_CONTENT_BOTTOM) addPage()
+
+    text(PDF_MARGIN, y + 13, section.activityType, 13, { bold: true })
+    const summary = `${countOf(section.count)} · ${formatDateRange(
+      section.firstDate,
+      section.lastDate
+    )}`
+    const summaryX = PDF_MARGIN + PDF_CONTENT_WIDTH - measurePdfText(summary, PDF_TABLE_SIZE)
+    text(summaryX, y + 13, summary, PDF_TABLE_SIZE, { color: PDF_MUTED })
+    y += 20
+    for (const line of detailLines) {
+      text(PDF_MARGIN, y + 10, line, PDF_TABLE_SIZE, { color: PDF_MUTED })
+      y += 12
+    }
+    y += 6
+    tableHeader()
+
+    for (const activity of section.activities) {
+      const cells = columns.map((column) =>
+        wrapPdfText(
+          column.value(activity),
+          column.width - PDF_COLUMN_GAP,
+          PDF_TABLE_SIZE,
+          column.bold?.(activity)
+        )
+      )
+      const height =
+        Math.max(...cells.map((lines) => lines.length)) * PDF_LINE_HEIGHT + 2 * PDF_ROW_PADDING
+      if (y + height > PDF_CONTENT_BOTTOM) {
+        addPage()
+        tableHeader()
+      }
+      let x = PDF_MARGIN
+      columns.forEach((column, index) => {
+        const bold = column.bold?.(activity)
+        const lines = cells[index]
+        lines.forEach((line, lineIndex) => {
+          text(
+            x,
+            y + PDF_ROW_PADDING + PDF_TABLE_SIZE + lineIndex * PDF_LINE_HEIGHT,
+            line,
+            PDF_TABLE_SIZE,
+            {
+              bold,
+              color: bold || column.href ? PDF_INK : PDF_MUTED,
+            }
+          )
+        })
+        const href = column.href?.(activity)
+        if (href) {
+          page.links.push({
+            x,
+            y: y + PDF_ROW_PADDING,
+            width: Math.max(...lines.map((line) => measurePdfText(line, PDF_TABLE_SIZE, bold))),
+            height: lines.length * PDF_LINE_HEIGHT,
+            url: href,
+          })
+        }
+        x += column.width
+      })
+      y += height
+      rule(y)
+    }
+    y += 24
+  }
+
+  const generated = `Generated by Mountaineers Assistant on ${formatDate(now)}`
+  pages.forEach((footerPage, index) => {
+    footerPage.texts.push({
+      x: PDF_MARGIN,
+      y: PDF_PAGE_HEIGHT - PDF_MARGIN / 2,
+      text:
+        pages.length > 1 ? `${generated} · Page ${index + 1} of ${pages.length}` : `${generated}.`,
+      size: 7.5,
+      color: PDF_FAINT,
+    })
+  })
+
+  return {
+    filename: resumeFilename(now, 'pdf'),
+    mimeType: 'application/pdf',
+    content: renderPdf(pages, { title: resumeTitle(resume), createdAt: now }),
+  }
+}
@@ -0,0 +1,112 @@
+import { isSuccessfulOutcome } from '../shared/outcome'
+import { isLeaderRole } from '../shared/roles'
+import { calculateRatingProgression } from './ratings'
+import type {
+  DashboardFilters,
+  PreparedActivity,
+  PreparedData,
+  ResumeActivity,
+  ResumeRoleEntry,
+  ResumeTypeSection,
+  ResumeView,
+} from './types'
+import { type DashboardSettings, filterActivities, titleCase, toExternalHref } from './utils'
+
+/** Roles worth listing on a resume: leading or teaching, as opposed to taking part. */
+export const isLeadershipRole = (role: string): boolean =>
+  isLeaderRole(role) || /\binstructor\b/i.test(role)
+
+const buildResumeActivity = (
+  prepared: PreparedData,
+  activity: PreparedActivity
+): ResumeActivity => {
+  const roster = prepared.rosterByActivity.get(activity.uid) || []
+  const partnerNames = new Set<string>()
+  roster.forEach((entry) => {
+    if (entry.person_uid === prepared.currentUserUid) return
+    partnerNames.add(prepared.peopleMap.get(entry.person_uid)?.name || entry.person_uid)
+  })
+  return {
+    uid: activity.uid,
+    title: activity.title || activity.uid,
+    href: activity.href ? toExternalHref(activity.href) : null,
+    date: activity.date,
+    activityType: activity.typeLabel,
+    category: titleCase(activity.categoryKey),
+    difficulty: activity.difficulty_rating?.trim() || null,
+    roles: activity.userRoles,
+    partnerNames: Array.from(partnerNames).sort((a, b) => a.localeCompare(b)),
+  }
+}
+
+const countLeadershipRoles = (activities: ResumeActivity[]): ResumeRoleEntry[] => {
+  const counts = new Map<string, number>()
+  activities.forEach((activity) => {
+    activity.roles.filter(isLeadershipRole).forEach((role) => {
+      counts.set(role, (counts.get(role) || 0) + 1)
+    })
+  })
+  return Array.from(counts.entries())
+    .map(([role, count]) => ({ role, count }))
+    .sort((a, b) => b.count - a.count || a.role.localeCompare(b.role))
+}
+
+/**
+ * An outdoor resume: the successful activities matching the dashboard filters, grouped by type
+ * with date spans, the hardest rated difficulty and the leadership roles held. Unsuccessful
+ * outings never appear, whatever the "count unsuccessful" preference says.
+ */
+export const calculateResume = (
+  prepared: PreparedData,
+  filters: DashboardFilters,
+  settings: DashboardSettings,
+  now: Date = new Date()
+): ResumeView => {
+  const successful = filterActivities(prepared, filters, settings, now).matching.filter(
+    (activity) => isSuccessfulOutcome(activity.outcome)
+  )
+  const activities = [...successful]
+    .reverse()
+    .map((activity) => buildResumeActivity(prepared, activity))
+
+  const hardest = new Map(
+    calculateRatingProgression(successful).types.map((entry) => [
+      entry.activityType,
+      entry.highestCompleted
+        ? {
+            label: entry.scale[entry.highestCompleted.level - 1],
+            rating: entry.highestCompleted.rating,
+          }
+        : null,
+    ])
+  )
+
+  const byType = new Map<string, ResumeActivity[]>()
+  activities.forEach((activity) => {
+    byType.set(activity.activityType, [...(byType.get(activity.activityType) || []), activity])
+  })
+  const sections: ResumeTypeSection[] = Array.from(byType.entries())
+    .map(([activityType, entries]) => ({
+      activityType,
+      count: entries.length,
+      firstDate: entries[entries.length - 1].date,
+      lastDate: entries[0].date,
+      highestDifficulty: hardest.get(activityType) ?? null,
+      leadershipRoles: countLeadershipRoles(entries),
+      activities: entries,
+    }))
+    .sort((a, b) => b.count - a.count || a.activityType.localeCompare(b.activityType))
+
+  const currentUser = prepared.currentUserUid
+    ? prepared.peopleMap.get(prepared.currentUserUid)
+    : undefined
+  return {
+    name: currentUser?.name || null,
+    totalActivities: activities.length,
+    firstDate: activities[activities.length - 1]?.date ?? null,
+    lastDate: activities[0]?.date ?? null,
+    leadershipCount: activities.filter((activity) => activity.roles.some(isLeadershipRole)).length,
+    sections,
+    activities,
+  }
+}
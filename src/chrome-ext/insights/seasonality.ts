@@ -0,0 +1,175 @@
+import { toDateInput } from './date-range'
+import type {
+  CalendarDay,
+  CalendarHeatmapView,
+  CalendarYear,
+  PreparedActivity,
+  SeasonalityBreakdown,
+  SeasonalityDimension,
+  SeasonalityView,
+} from './types'
+
+export const SEASONALITY_DIMENSIONS: Array<{ value: SeasonalityDimension; label: string }> = [
+  { value: 'month', label: 'Month of year' },
+  { value: 'weekday', label: 'Day of week' },
+  { value: 'season', label: 'Season' },
+]
+
+/** Color steps of the heatmap, not counting empty days. */
+export const HEATMAP_LEVELS = 4
+
+/** Indexed by `getSeasonIndex`. */
+export const SEASON_LABELS = ['Winter', 'Spring', 'Summer', 'Fall']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MONTH_LABELS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+]
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const SEASONALITY_DIMENSION_VALUES = new Set<string>(
+  SEASONALITY_DIMENSIONS.map((dimension) => dimension.value)
+)
+
+export const isSeasonalityDimension = (value: unknown): value is SeasonalityDimension =>
+  typeof value === 'string' && SEASONALITY_DIMENSION_VALUES.has(value)
+
+/** 0 for Monday through 6 for Sunday. */
+export const getWeekdayIndex = (date: Date): number => (date.getUTCDay() + 6) % 7
+
+/** Meteorological seasons, matching the date range presets: 0 is winter (December–February). */
+export const getSeasonIndex = (date: Date): number =>
+  Math.floor(((date.getUTCMonth() + 1) % 12) / 3)
+
+/** Color step for a day: 0 when empty, otherwise 1 through HEATMAP_LEVELS relative to the busiest day. */
+export const getHeatmapLevel = (count: number, maxCount: number): number => {
+  if (count <= 0 || maxCount <= 0) return 0
+  return Math.min(HEATMAP_LEVELS, Math.max(1, Math.ceil((count / maxCount) * HEATMAP_LEVELS)))
+}
+
+const startOfDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+const buildCalendarYear = (
+  year: number,
+  typesByDay: Map<string, Map<string, number>>,
+  rangeStart: number,
+  rangeEnd: number
+): CalendarYear => {
+  const yearStart = Date.UTC(year, 0, 1)
+  const yearEnd = Date.UTC(year, 11, 31)
+  // Whole weeks from the Monday on or before January 1 so every column is full
+  const gridStart = yearStart - getWeekdayIndex(new Date(yearStart)) * DAY_MS
+  const gridEnd = yearEnd + (6 - getWeekdayIndex(new Date(yearEnd))) * DAY_MS
+
+  const weeks: CalendarDay[][] = []
+  const months: CalendarYear['months'] = []
+  let activities = 0
+  let activeDays = 0
+  for (let time = gridStart; time <= gridEnd; time += DAY_MS) {
+    const week = Math.floor((time - gridStart) / (7 * DAY_MS))
+    if (!weeks[week]) weeks.push([])
+    const date = new Date(time)
+    const key = toDateInput(date)
+    if (time >= yearStart && time <= yearEnd && date.getUTCDate() === 1) {
+      months.push({ label: MONTH_LABELS[date.getUTCMonth()], week })
+    }
+    if (time < yearStart || time > yearEnd || time < rangeStart || time > rangeEnd) {
+      weeks[week].push({ date: key, count: 0, types: [], inRange: false })
+      continue
+    }
+
+    const typeCounts = Array.from(typesByDay.get(key)?.entries() ?? []).sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+    )
+    const count = typeCounts.reduce((sum, [, value]) => sum + value, 0)
+    activities += count
+    if (count > 0) activeDays += 1
+    weeks[week].push({ date: key, count, types: typeCounts.map(([label]) => label), inRange: true })
+  }
+
+  return { year, weeks, months, activities, activeDays }
+}
+
+/**
+ * Daily activity counts from `first` through `last`, laid out as one Monday-first grid per
+ * calendar year so long histories wrap instead of growing one endless row.
+ */
+export const buildCalendarHeatmap = (
+  activities: PreparedActivity[],
+  first: Date | null,
+  last: Date | null
+): CalendarHeatmapView => {
+  if (!first || !last || first > last) {
+    return { years: [], maxCount: 0 }
+  }
+
+  const typesByDay = new Map<string, Map<string, number>>()
+  activities.forEach((activity) => {
+    const key = toDateInput(activity.date)
+    const typeCounts = typesByDay.get(key) ?? new Map<string, number>()
+    typeCounts.set(activity.typeLabel, (typeCounts.get(activity.typeLabel) || 0) + 1)
+    typesByDay.set(key, typeCounts)
+  })
+
+  const rangeStart = startOfDay(first)
+  const rangeEnd = startOfDay(last)
+  const years: CalendarYear[] = []
+  for (let year = last.getUTCFullYear(); year >= first.getUTCFullYear(); year -= 1) {
+    years.push(buildCalendarYear(year, typesByDay, rangeStart, rangeEnd))
+  }
+
+  let maxCount = 0
+  years.forEach((entry) => {
+    entry.weeks.forEach((week) => {
+      week.forEach((day) => {
+        if (day.count > maxCount) maxCount = day.count
+      })
+    })
+  })
+  return { years, maxCount }
+}
+
+/**
+ * When in the year activities happen, split by type. `seriesOf` maps an activity onto one of
+ * `seriesNames`, so the breakdowns can share the timeline's types and its "Other" bucket.
+ */
+export const buildSeasonality = (
+  activities: PreparedActivity[],
+  seriesNames: string[],
+  seriesOf: (activity: PreparedActivity) => string
+): SeasonalityView => {
+  const breakdown = (
+    categories: string[],
+    indexOf: (date: Date) => number
+  ): SeasonalityBreakdown => {
+    const counts = new Map(seriesNames.map((name) => [name, categories.map(() => 0)]))
+    activities.forEach((activity) => {
+      const data = counts.get(seriesOf(activity))
+      if (data) data[indexOf(activity.date)] += 1
+    })
+    return {
+      categories,
+      series: seriesNames.map((name) => ({ name, data: counts.get(name)! })),
+    }
+  }
+
+  const weekendCount = activities.filter((activity) => getWeekdayIndex(activity.date) >= 5).length
+  return {
+    month: breakdown(MONTH_LABELS, (date) => date.getUTCMonth()),
+    weekday: breakdown(WEEKDAY_LABELS, getWeekdayIndex),
+    season: breakdown(SEASON_LABELS, getSeasonIndex),
+    weekendShare: activities.length ? (weekendCount / activities.length) * 100 : null,
+  }
+}
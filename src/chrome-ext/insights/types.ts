@@ -1,19 +1,49 @@
 import type {
+  ActivityOutcome,
   ActivityRecord,
   ExtensionCache,
   PersonRecord,
   RosterEntryRecord,
 } from '../shared/types'
 
+export type DateRangePreset =
+  | 'all'
+  | 'this-season'
+  | 'this-year'
+  | 'last-12-months'
+  | 'last-year'
+  | 'custom'
+
+export type DateRangeFilter = {
+  preset: DateRangePreset
+  /** Inclusive `YYYY-MM-DD` bounds, only used by the custom preset; null leaves that side open. */
+  start: string | null
+  end: string | null
+}
+
+export type TimelineGranularity = 'week' | 'month' | 'quarter' | 'year'
+
 export type DashboardFilters = {
   activityType: string[]
   category: string[]
   role: string[]
   partner: string[]
+  outcome: string[]
+  branch: string[]
+  leader: string[]
+  dateRange: DateRangeFilter
 }
 
+/** The views under the dashboard tabs. */
+export type DashboardTab = 'overview' | 'activity-log' | 'network' | 'resume'
+
+/** The multi-select filters, as opposed to the date range. */
+export type ListFilterKey = Exclude<keyof DashboardFilters, 'dateRange'>
+
 export type DisplaySettings = {
   showAvatars: boolean
+  countUnsuccessful: boolean
+  showRemovedActivities: boolean
 }
 
 export interface PreparedActivity extends ActivityRecord {
@@ -21,7 +51,8 @@ export interface PreparedActivity extends ActivityRecord {
   typeLabel: string
   categoryKey: string
   userRoles: string[]
-  monthKey: string | null
+  outcome: ActivityOutcome
+  leaderNames: string[]
 }
 
 export interface PreparedData {
@@ -30,12 +61,14 @@ export interface PreparedData {
   peopleMap: Map<string, PersonRecord>
   currentUserUid: string | null
   lastUpdated: Date | null
-  timelineMonths: Array<{ key: string; label: string }>
   filterOptions: {
     activityTypes: string[]
     categories: string[]
     roles: string[]
     partners: Array<{ uid: string; name: string }>
+    outcomes: string[]
+    branches: string[]
+    leaders: string[]
   }
 }
 
@@ -45,6 +78,8 @@ export interface DashboardMetrics {
   courseCount: number
   uniquePartners: number
   uniqueTypes: number
+  successRate: number | null
+  turnAroundCount: number
 }
 
 export interface DashboardMeta {
@@ -59,16 +94,147 @@ export interface TimelineSeries {
 }
 
 export interface TimelineView {
+  granularity: TimelineGranularity
+  categories: string[]
+  series: TimelineSeries[]
+}
+
+export interface CalendarDay {
+  /** `YYYY-MM-DD`, in UTC like every other dashboard date. */
+  date: string
+  count: number
+  /** Activity types done that day, most frequent first. */
+  types: string[]
+  /** False for padding days outside the selected dates or in a neighbouring year. */
+  inRange: boolean
+}
+
+export interface CalendarYear {
+  year: number
+  /** Monday-first weeks of seven days each, covering the whole year. */
+  weeks: CalendarDay[][]
+  /** Week column in which each month starts, for axis labels. */
+  months: Array<{ label: string; week: number }>
+  activities: number
+  activeDays: number
+}
+
+export interface CalendarHeatmapView {
+  /** Newest year first. */
+  years: CalendarYear[]
+  /** Most activities on a single day, for scaling the colors. */
+  maxCount: number
+}
+
+export type SeasonalityDimension = 'month' | 'weekday' | 'season'
+
+export interface SeasonalityBreakdown {
   categories: string[]
+  /** One series per activity type, using the same types as the timeline. */
   series: TimelineSeries[]
 }
 
+export interface SeasonalityView {
+  month: SeasonalityBreakdown
+  weekday: SeasonalityBreakdown
+  season: SeasonalityBreakdown
+  /** Percentage of activities on a Saturday or Sunday; null without activities. */
+  weekendShare: number | null
+}
+
+export interface StreakRecord {
+  /** Consecutive weeks or months with at least one activity. */
+  length: number
+  /** First day of the first period and last day of the last period. */
+  start: Date
+  end: Date
+}
+
+export interface GapRecord {
+  days: number
+  /** Dates of the activities either side of the gap. */
+  from: Date
+  to: Date
+}
+
+export interface PeriodRecord {
+  label: string
+  count: number
+}
+
+export interface RecordActivity {
+  uid: string
+  title: string
+  href: string | null
+  date: Date
+  activityType: string
+}
+
+export interface GroupSizeRecord extends RecordActivity {
+  partners: number
+}
+
+export interface DashboardRecords {
+  weekStreak: StreakRecord | null
+  monthStreak: StreakRecord | null
+  longestGap: GapRecord | null
+  busiestMonth: PeriodRecord | null
+  busiestSeason: PeriodRecord | null
+  /** Most partners on one activity, leaving out courses and their large rosters. */
+  biggestGroup: GroupSizeRecord | null
+  /** Earliest matching activity of each type, oldest first. */
+  firsts: RecordActivity[]
+}
+
+export type RatingKind = 'difficulty' | 'leader'
+
+export interface RatingPoint {
+  uid: string
+  title: string
+  date: Date
+  level: number
+  /** The rating as shown on the activity page. */
+  rating: string
+}
+
+export interface RatingProgression {
+  activityType: string
+  /** Level names, easiest first; level n is `scale[n - 1]`. */
+  scale: string[]
+  /** Activities with a recognized rating, oldest first. */
+  difficulty: RatingPoint[]
+  leaderRating: RatingPoint[]
+  /** Hardest difficulty among successful activities, earliest first on a tie. */
+  highestCompleted: RatingPoint | null
+}
+
+export interface UnknownRating {
+  activityType: string
+  kind: RatingKind
+  rating: string
+  count: number
+}
+
+export interface RatingsView {
+  /** Activity types with at least one recognized rating, most rated first. */
+  types: RatingProgression[]
+  /** Ratings that fit no level of their type's scale, most frequent first. */
+  unknown: UnknownRating[]
+}
+
 export interface DistributionEntry {
   label: string
   value: number
   percentage: number
 }
 
+export interface OutcomeRateEntry {
+  label: string
+  successful: number
+  total: number
+  successRate: number
+}
+
 export interface PartnerEntry {
   uid: string
   name: string
@@ -84,23 +250,204 @@ export interface RecentActivityEntry {
   href: string | null
   date: Date | null
   activity_type: string | null
+  branch: string | null
+  leaderNames: string[]
+  routeName: string | null
+  routeHref: string | null
+  /** No longer listed in the member history. */
+  removed: boolean
+}
+
+export interface ActivityLogRosterEntry {
+  uid: string
+  name: string
+  role: string
+  profile: string | null
+  avatar: string | null
+  isCurrentUser: boolean
+}
+
+export interface ActivityLogEntry {
+  uid: string
+  title: string
+  href: string | null
+  date: Date
+  activityType: string
+  category: string
+  /** Your roles on the activity; empty when the roster has not been loaded. */
+  roles: string[]
+  difficulty: string | null
+  partnerCount: number
+  outcome: ActivityOutcome
+  removed: boolean
+  roster: ActivityLogRosterEntry[]
+}
+
+export type ActivityLogSortKey = 'date' | 'type' | 'category' | 'role' | 'difficulty' | 'partners'
+
+export interface ActivityLogSort {
+  key: ActivityLogSortKey
+  direction: 'asc' | 'desc'
+}
+
+export interface PartnerRoleEntry {
+  role: string
+  /** Shared activities on which you held this role. */
+  yours: number
+  /** Shared activities on which the partner held this role. */
+  theirs: number
+}
+
+export interface CoPartnerEntry {
+  uid: string
+  name: string
+  /** Shared activities with the partner that this person was also on. */
+  count: number
+}
+
+export interface PartnerDetailView {
+  uid: string
+  name: string
+  profile: string | null
+  avatar: string | null
+  sharedCount: number
+  firstShared: Date | null
+  lastShared: Date | null
+  activityTypes: DistributionEntry[]
+  roles: PartnerRoleEntry[]
+  coPartners: CoPartnerEntry[]
+  /** Shared activities, newest first. */
+  activities: ActivityLogEntry[]
+}
+
+export interface NetworkNode {
+  uid: string
+  name: string
+  /** Matching activities this person was on. */
+  activities: number
+  /** Index into the network's clusters; -1 for you, since you are on every activity. */
+  cluster: number
+  isCurrentUser: boolean
+}
+
+export interface NetworkEdge {
+  source: string
+  target: string
+  /** Activities the two people were both on. */
+  weight: number
+}
+
+export interface PartnerNetwork {
+  nodes: NetworkNode[]
+  edges: NetworkEdge[]
+  /** Member uids of each cluster, largest cluster first. */
+  clusters: string[][]
+}
+
+export interface ResumeActivity {
+  uid: string
+  title: string
+  href: string | null
+  date: Date
+  activityType: string
+  category: string
+  difficulty: string | null
+  /** Your roles on the activity; empty when the roster has not been loaded. */
+  roles: string[]
+  /** Everyone else on the roster, by name. */
+  partnerNames: string[]
+}
+
+export interface ResumeRoleEntry {
+  role: string
+  count: number
+}
+
+export interface ResumeTypeSection {
+  activityType: string
+  count: number
+  firstDate: Date
+  lastDate: Date
+  /** Hardest rated difficulty, placed on the type's rating scale; null when none was rated. */
+  highestDifficulty: { label: string; rating: string } | null
+  /** Leader and instructor roles you held, most frequent first. */
+  leadershipRoles: ResumeRoleEntry[]
+  /** Newest first. */
+  activities: ResumeActivity[]
+}
+
+export interface ResumeView {
+  /** Your name from the cached rosters, if known. */
+  name: string | null
+  totalActivities: number
+  firstDate: Date | null
+  lastDate: Date | null
+  /** Activities on which you held a leader or instructor role. */
+  leadershipCount: number
+  /** One section per activity type, most activities first. */
+  sections: ResumeTypeSection[]
+  /** Every activity on the resume, newest first. */
+  activities: ResumeActivity[]
 }
 
 export interface DashboardView {
   metrics: DashboardMetrics
   meta: DashboardMeta
   timeline: TimelineView
+  calendar: CalendarHeatmapView
+  seasonality: SeasonalityView
+  records: DashboardRecords
+  ratings: RatingsView
   activityType: {
     entries: DistributionEntry[]
   }
   roles: {
     entries: DistributionEntry[]
   }
+  outcomes: {
+    entries: DistributionEntry[]
+    byType: OutcomeRateEntry[]
+  }
   partners: PartnerEntry[]
   totals: {
     partners: number
   }
   recentActivities: RecentActivityEntry[]
+  /** Every counted activity, newest first, for the activity log. */
+  activityLog: ActivityLogEntry[]
+  /** Activities counted under the current filters, in dashboard order; used for exports. */
+  activityUids: string[]
+}
+
+export interface YearSummary {
+  year: number
+  activities: number
+  uniquePartners: number
+  /** Partners first joined on a matching activity this year. */
+  newPartners: number
+  /** Activity types first done this year, among the matching activities. */
+  newActivityTypes: string[]
+  roles: DistributionEntry[]
+  difficulty: DistributionEntry[]
+}
+
+/** Change from the previous compared year; null for the earliest one. */
+export interface YearDelta {
+  activities: number
+  uniquePartners: number
+  newPartners: number
+  newActivityTypes: number
+}
+
+export interface CumulativeYearSeries {
+  year: number
+  /** [day of year, activities so far] at each day with an activity, starting from [0, 0]. */
+  data: Array<[number, number]>
+}
+
+export interface YearComparisonView {
+  years: Array<YearSummary & { delta: YearDelta | null }>
+  cumulative: CumulativeYearSeries[]
 }
 
 export interface DashboardContext {
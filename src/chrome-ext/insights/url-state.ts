@@ -0,0 +1,75 @@
+import {
+  DEFAULT_DATE_RANGE,
+  DEFAULT_TIMELINE_GRANULARITY,
+  isTimelineGranularity,
+  normalizeDateRange,
+} from './date-range'
+import type { DashboardFilters, ListFilterKey, TimelineGranularity } from './types'
+
+export interface DashboardUrlState {
+  filters: DashboardFilters
+  granularity: TimelineGranularity
+  /** Person whose partner page is open, if any. */
+  person: string | null
+}
+
+// Query parameter for each list filter; values repeat, e.g. `?type=Hiking&type=Climbing`
+const LIST_FILTER_PARAMS: Array<[ListFilterKey, string]> = [
+  ['activityType', 'type'],
+  ['category', 'category'],
+  ['role', 'role'],
+  ['partner', 'partner'],
+  ['outcome', 'outcome'],
+  ['branch', 'branch'],
+  ['leader', 'leader'],
+]
+
+/**
+ * Reads dashboard filters, timeline granularity and the open partner page from a query string.
+ * Unknown values are left for the dashboard to drop against the cached data.
+ */
+export const parseDashboardUrlState = (search: string): DashboardUrlState => {
+  const params = new URLSearchParams(search)
+  const filters = { dateRange: DEFAULT_DATE_RANGE } as DashboardFilters
+  LIST_FILTER_PARAMS.forEach(([key, param]) => {
+    filters[key] = params.getAll(param).filter((value) => value.length > 0)
+  })
+  filters.dateRange = normalizeDateRange({
+    // A bare from/to pair implies a custom range
+    preset: params.get('range') ?? (params.has('from') || params.has('to') ? 'custom' : 'all'),
+    start: params.get('from'),
+    end: params.get('to'),
+  })
+  const granularity = params.get('granularity')
+  return {
+    filters,
+    granularity: isTimelineGranularity(granularity) ? granularity : DEFAULT_TIMELINE_GRANULARITY,
+    person: params.get('person') || null,
+  }
+}
+
+/** Builds the query string for the given state, leaving out defaults so shared links stay short. */
+export const buildDashboardSearch = (state: DashboardUrlState): string => {
+  const params = new URLSearchParams()
+  LIST_FILTER_PARAMS.forEach(([key, param]) => {
+    state.filters[key].forEach((value) => {
+      params.append(param, value)
+    })
+  })
+  const { dateRange } = state.filters
+  if (dateRange.preset !== 'all') {
+    params.set('range', dateRange.preset)
+  }
+  if (dateRange.preset === 'custom') {
+    if (dateRange.start) params.set('from', dateRange.start)
+    if (dateRange.end) params.set('to', dateRange.end)
+  }
+  if (state.granularity !== DEFAULT_TIMELINE_GRANULARITY) {
+    params.set('granularity', state.granularity)
+  }
+  if (state.person) {
+    params.set('person', state.person)
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
@@ -1,20 +1,38 @@
+import {
+  ACTIVITY_OUTCOMES,
+  getOutcomeLabel,
+  isSuccessfulOutcome,
+  resolveActivityOutcome,
+} from '../shared/outcome'
+import { isActiveRosterEntry } from '../shared/roles'
+import { isTombstoned } from '../shared/tombstones'
 import type { ExtensionCache } from '../shared/types'
+import {
+  buildTimelineBuckets,
+  DEFAULT_TIMELINE_GRANULARITY,
+  describeDateRangePhrase,
+  getBucketKey,
+  isWithinDateRange,
+  resolveDateRange,
+} from './date-range'
+import { calculateRatingProgression } from './ratings'
+import { calculateRecords } from './records'
+import { buildCalendarHeatmap, buildSeasonality } from './seasonality'
 import type {
+  ActivityLogEntry,
   DashboardFilters,
   DashboardView,
   DisplaySettings,
   DistributionEntry,
+  OutcomeRateEntry,
   PartnerEntry,
   PreparedActivity,
   PreparedData,
   RecentActivityEntry,
+  TimelineGranularity,
 } from './types'
 
 const numberFormatter = new Intl.NumberFormat('en-US')
-const monthYearFormatter = new Intl.DateTimeFormat('en-US', {
-  month: 'short',
-  year: 'numeric',
-})
 const fullDateFormatter = new Intl.DateTimeFormat('en-US', {
   month: 'short',
   day: 'numeric',
@@ -49,6 +67,8 @@ const OTHER_TIMELINE_LABEL = 'Other types'
 
 export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
   showAvatars: true,
+  countUnsuccessful: false,
+  showRemovedActivities: false,
 }
 
 export type PreparedDashboard = {
@@ -172,8 +192,9 @@ export const prepareDashboardData = (payload: ExtensionCache): PreparedData => {
     .sort((a, b) => a.date.getTime() - b.date.getTime())
 
   const validActivityUids = new Set(activitiesWithDates.map((activity) => activity.uid))
-  const rosterEntries = rosterEntriesRaw.filter((entry) =>
-    validActivityUids.has(entry.activity_uid)
+  // Waitlisted and cancelled registrants did not take part, so they never count as partners
+  const rosterEntries = rosterEntriesRaw.filter(
+    (entry) => validActivityUids.has(entry.activity_uid) && isActiveRosterEntry(entry)
   )
 
   const rosterByActivity = new Map<string, typeof rosterEntries>()
@@ -187,6 +208,9 @@ export const prepareDashboardData = (payload: ExtensionCache): PreparedData => {
   const categorySet = new Set<string>()
   const activityTypeSet = new Set<string>()
   const roleSet = new Set<string>()
+  const outcomeSet = new Set<string>()
+  const branchSet = new Set<string>()
+  const leaderSet = new Set<string>()
 
   const activitiesEnriched: PreparedActivity[] = activitiesWithDates.map((activity) => {
     const typeLabel = getActivityTypeLabel(activity.activity_type)
@@ -209,33 +233,27 @@ export const prepareDashboardData = (payload: ExtensionCache): PreparedData => {
       })
     }
 
-    const monthKey = activity.date
-      ? `${activity.date.getUTCFullYear()}-${activity.date.getUTCMonth()}`
-      : null
+    const outcome = resolveActivityOutcome(activity)
+    outcomeSet.add(outcome)
+
+    if (activity.branch) {
+      branchSet.add(activity.branch)
+    }
+    const leaderNames = Array.isArray(activity.leader_names) ? activity.leader_names : []
+    leaderNames.forEach((name) => {
+      leaderSet.add(name)
+    })
 
     return {
       ...activity,
       typeLabel,
       categoryKey,
       userRoles: Array.from(userRoleSet),
-      monthKey,
+      outcome,
+      leaderNames,
     }
   })
 
-  const timelineMonths: Array<{ key: string; label: string }> = []
-  if (activitiesEnriched.length) {
-    const latestActivityDate = activitiesEnriched[activitiesEnriched.length - 1].date
-    for (let offset = 11; offset >= 0; offset -= 1) {
-      const monthDate = new Date(
-        Date.UTC(latestActivityDate.getUTCFullYear(), latestActivityDate.getUTCMonth() - offset, 1)
-      )
-      timelineMonths.push({
-        key: `${monthDate.getUTCFullYear()}-${monthDate.getUTCMonth()}`,
-        label: monthYearFormatter.format(monthDate),
-      })
-    }
-  }
-
   const activityTypes = Array.from(activityTypeSet).sort((a, b) => a.localeCompare(b))
   const categories = Array.from(categorySet).sort((a, b) => {
     if (a === 'uncategorized') return 1
@@ -243,6 +261,9 @@ export const prepareDashboardData = (payload: ExtensionCache): PreparedData => {
     return a.localeCompare(b)
   })
   const roles = Array.from(roleSet).sort((a, b) => a.localeCompare(b))
+  const outcomes = ACTIVITY_OUTCOMES.filter((outcome) => outcomeSet.has(outcome))
+  const branches = Array.from(branchSet).sort((a, b) => a.localeCompare(b))
+  const leaders = Array.from(leaderSet).sort((a, b) => a.localeCompare(b))
 
   // Extract unique partners (excluding current user)
   const partners: Array<{ uid: string; name: string }> = []
@@ -274,17 +295,19 @@ export const prepareDashboardData = (payload: ExtensionCache): PreparedData => {
     peopleMap,
     currentUserUid: resolvedCurrentUserUid,
     lastUpdated,
-    timelineMonths,
     filterOptions: {
       activityTypes,
       categories,
       roles,
       partners,
+      outcomes,
+      branches,
+      leaders,
     },
   }
 }
 
-const buildDistributionEntries = (
+export const buildDistributionEntries = (
   entries: Array<[string, number]>,
   total: number
 ): DistributionEntry[] =>
@@ -294,17 +317,103 @@ const buildDistributionEntries = (
     percentage: total ? (value / total) * 100 : 0,
   }))
 
-export const calculateDashboard = (
+const buildOutcomeRates = (activities: PreparedActivity[]): OutcomeRateEntry[] => {
+  const stats = new Map<string, { successful: number; total: number }>()
+  activities.forEach((activity) => {
+    const entry = stats.get(activity.typeLabel) || { successful: 0, total: 0 }
+    entry.total += 1
+    if (isSuccessfulOutcome(activity.outcome)) {
+      entry.successful += 1
+    }
+    stats.set(activity.typeLabel, entry)
+  })
+  return Array.from(stats.entries())
+    .map(([label, { successful, total }]) => ({
+      label,
+      successful,
+      total,
+      successRate: total ? (successful / total) * 100 : 0,
+    }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label))
+}
+
+/** One row of the activity log, with the roster resolved to names and profile links. */
+export const buildActivityLogEntry = (
   prepared: PreparedData,
-  filters: DashboardFilters
-): DashboardView => {
+  activity: PreparedActivity
+): ActivityLogEntry => {
+  const roster = prepared.rosterByActivity.get(activity.uid) || []
+  return {
+    uid: activity.uid,
+    title: activity.title || activity.uid,
+    href: activity.href ? toExternalHref(activity.href) : null,
+    date: activity.date,
+    activityType: activity.typeLabel,
+    category: titleCase(activity.categoryKey),
+    roles: activity.userRoles,
+    difficulty: activity.difficulty_rating?.trim() || null,
+    partnerCount: new Set(
+      roster.map((entry) => entry.person_uid).filter((uid) => uid !== prepared.currentUserUid)
+    ).size,
+    outcome: activity.outcome,
+    removed: isTombstoned(activity),
+    roster: roster.map((entry) => {
+      const person = prepared.peopleMap.get(entry.person_uid)
+      return {
+        uid: entry.person_uid,
+        name: person?.name || entry.person_uid,
+        role: getRoleLabel(entry.role),
+        profile: person?.href ? toExternalHref(person.href) : null,
+        avatar: person?.avatar || null,
+        isCurrentUser: entry.person_uid === prepared.currentUserUid,
+      }
+    }),
+  }
+}
+
+export type DashboardSettings = Pick<DisplaySettings, 'countUnsuccessful'> &
+  Partial<Pick<DisplaySettings, 'showRemovedActivities'>>
+
+export interface FilteredActivities {
+  /** Every activity matching the filters, whatever its outcome. */
+  matching: PreparedActivity[]
+  /** The matching activities that count toward totals under the display settings. */
+  counted: PreparedActivity[]
+}
+
+export interface DashboardOptions {
+  granularity?: TimelineGranularity
+  /** Reference point for relative date ranges such as "this season". */
+  now?: Date
+}
+
+export const filterActivities = (
+  prepared: PreparedData,
+  filters: DashboardFilters,
+  settings: DashboardSettings = DEFAULT_DISPLAY_SETTINGS,
+  now: Date = new Date()
+): FilteredActivities => {
+  const dateRange = resolveDateRange(filters.dateRange, now)
   const typeFilter = new Set(filters.activityType || [])
   const categoryFilter = new Set(filters.category || [])
   const roleFilter = new Set(filters.role || [])
-
-  let filteredActivities = prepared.activities.filter((activity) => {
+  const outcomeFilter = new Set(filters.outcome || [])
+  const branchFilter = new Set(filters.branch || [])
+  const leaderFilter = new Set(filters.leader || [])
+  // An explicit outcome selection always wins over the "count unsuccessful" preference
+  const countsTowardTotals = (activity: PreparedActivity): boolean =>
+    settings.countUnsuccessful || outcomeFilter.size > 0 || isSuccessfulOutcome(activity.outcome)
+
+  let matching = prepared.activities.filter((activity) => {
+    if (!settings.showRemovedActivities && isTombstoned(activity)) return false
+    if (!isWithinDateRange(activity.date, dateRange)) return false
     if (typeFilter.size && !typeFilter.has(activity.typeLabel)) return false
     if (categoryFilter.size && !categoryFilter.has(activity.categoryKey)) return false
+    if (outcomeFilter.size && !outcomeFilter.has(activity.outcome)) return false
+    if (branchFilter.size && !(activity.branch && branchFilter.has(activity.branch))) return false
+    if (leaderFilter.size && !activity.leaderNames.some((name) => leaderFilter.has(name))) {
+      return false
+    }
     if (roleFilter.size) {
       if (!activity.userRoles.length) return false
       const matchesRole = activity.userRoles.some((role) => roleFilter.has(role))
@@ -315,7 +424,7 @@ export const calculateDashboard = (
 
   // Apply partner filter (AND logic: all selected partners must be present)
   if (filters.partner.length > 0) {
-    filteredActivities = filteredActivities.filter((activity) => {
+    matching = matching.filter((activity) => {
       const roster = prepared.rosterByActivity.get(activity.uid)
       if (!roster || roster.length === 0) {
         return false // No roster data means no partners
@@ -328,24 +437,44 @@ export const calculateDashboard = (
     })
   }
 
+  return { matching, counted: matching.filter(countsTowardTotals) }
+}
+
+export const calculateDashboard = (
+  prepared: PreparedData,
+  filters: DashboardFilters,
+  settings: DashboardSettings = DEFAULT_DISPLAY_SETTINGS,
+  options: DashboardOptions = {}
+): DashboardView => {
+  const granularity = options.granularity ?? DEFAULT_TIMELINE_GRANULARITY
+  const now = options.now ?? new Date()
+  // Outcome breakdowns look at every matching activity; everything else only at counted ones
+  const { matching: outcomeActivities, counted: filteredActivities } = filterActivities(
+    prepared,
+    filters,
+    settings,
+    now
+  )
+
   const activityTypeCounts = new Map<string, number>()
-  const monthTypeCounts = new Map<string, Map<string, number>>()
+  const bucketTypeCounts = new Map<string, Map<string, number>>()
   filteredActivities.forEach((activity) => {
     const typeKey = activity.typeLabel
     activityTypeCounts.set(typeKey, (activityTypeCounts.get(typeKey) || 0) + 1)
 
-    if (activity.monthKey) {
-      if (!monthTypeCounts.has(activity.monthKey)) {
-        monthTypeCounts.set(activity.monthKey, new Map())
-      }
-      const typeCounts = monthTypeCounts.get(activity.monthKey)!
-      typeCounts.set(typeKey, (typeCounts.get(typeKey) || 0) + 1)
+    const bucketKey = getBucketKey(activity.date, granularity)
+    if (!bucketTypeCounts.has(bucketKey)) {
+      bucketTypeCounts.set(bucketKey, new Map())
     }
+    const typeCounts = bucketTypeCounts.get(bucketKey)!
+    typeCounts.set(typeKey, (typeCounts.get(typeKey) || 0) + 1)
   })
 
   // Partners table calculation (uses unfiltered base data)
   const partnerStats = new Map<string, { count: number; lastDate: Date | null }>()
   prepared.activities.forEach((activity) => {
+    if (!settings.showRemovedActivities && isTombstoned(activity)) return
+    if (!settings.countUnsuccessful && !isSuccessfulOutcome(activity.outcome)) return
     const roster = prepared.rosterByActivity.get(activity.uid) || []
     const seen = new Set<string>()
     roster.forEach((entry) => {
@@ -386,6 +515,19 @@ export const calculateDashboard = (
     })
     .slice(0, 10)
 
+  const outcomeCounts = new Map<string, number>()
+  outcomeActivities.forEach((activity) => {
+    outcomeCounts.set(activity.outcome, (outcomeCounts.get(activity.outcome) || 0) + 1)
+  })
+  const successfulCount = outcomeCounts.get('successful') || 0
+  const outcomeEntries = buildDistributionEntries(
+    ACTIVITY_OUTCOMES.filter((outcome) => outcomeCounts.has(outcome)).map((outcome) => [
+      getOutcomeLabel(outcome),
+      outcomeCounts.get(outcome) || 0,
+    ]),
+    outcomeActivities.length
+  )
+
   const metrics = {
     totalActivities: filteredActivities.length,
     tripCount: filteredActivities.filter((activity) => isTripCategory(activity.categoryKey)).length,
@@ -393,6 +535,10 @@ export const calculateDashboard = (
       .length,
     uniquePartners: partnerStats.size,
     uniqueTypes: activityTypeCounts.size,
+    successRate: outcomeActivities.length
+      ? (successfulCount / outcomeActivities.length) * 100
+      : null,
+    turnAroundCount: outcomeCounts.get('turned-back') || 0,
   }
 
   const recentActivities: RecentActivityEntry[] = [...filteredActivities]
@@ -404,8 +550,17 @@ export const calculateDashboard = (
       date: activity.date,
       activity_type: activity.typeLabel || 'Unknown',
       href: activity.href ? toExternalHref(activity.href) : null,
+      branch: activity.branch ?? null,
+      leaderNames: activity.leaderNames,
+      routeName: activity.route_name ?? null,
+      routeHref: activity.route_href ? toExternalHref(activity.route_href) : null,
+      removed: isTombstoned(activity),
     }))
 
+  const activityLog = [...filteredActivities]
+    .reverse()
+    .map((activity) => buildActivityLogEntry(prepared, activity))
+
   const rolesSorted = Array.from(roleCounts.entries()).sort((a, b) => b[1] - a[1])
   const totalRoles = rolesSorted.reduce((sum, [, count]) => sum + count, 0)
   const primaryRoles = rolesSorted.slice(0, 4)
@@ -431,8 +586,17 @@ export const calculateDashboard = (
     timelineSeriesBuckets.set(OTHER_TIMELINE_LABEL, [])
   }
 
-  prepared.timelineMonths.forEach((month) => {
-    const typeCounts = monthTypeCounts.get(month.key) || new Map<string, number>()
+  // The timeline covers the whole selected range; open-ended ranges stop at the data
+  const dateRange = resolveDateRange(filters.dateRange, now)
+  const firstDate = dateRange.start ?? filteredActivities[0]?.date
+  const lastDate = dateRange.end
+    ? new Date(dateRange.end.getTime() - 1)
+    : filteredActivities[filteredActivities.length - 1]?.date
+  const timelineBuckets =
+    firstDate && lastDate ? buildTimelineBuckets(firstDate, lastDate, granularity) : []
+
+  timelineBuckets.forEach((bucket) => {
+    const typeCounts = bucketTypeCounts.get(bucket.key) || new Map<string, number>()
 
     timelineTypeKeys.forEach((label) => {
       timelineSeriesBuckets.get(label)!.push(typeCounts.get(label) || 0)
@@ -454,6 +618,13 @@ export const calculateDashboard = (
     data,
   }))
 
+  const seasonality = buildSeasonality(
+    filteredActivities,
+    Array.from(timelineSeriesBuckets.keys()),
+    (activity) =>
+      timelineTypeSet.has(activity.typeLabel) ? activity.typeLabel : OTHER_TIMELINE_LABEL
+  )
+
   const meta = {
     earliest: filteredActivities[0]?.date || null,
     latest: filteredActivities[filteredActivities.length - 1]?.date || null,
@@ -464,16 +635,27 @@ export const calculateDashboard = (
     metrics,
     meta,
     timeline: {
-      categories: prepared.timelineMonths.map((month) => month.label),
+      granularity,
+      categories: timelineBuckets.map((bucket) => bucket.label),
       series: timelineSeries,
     },
+    calendar: buildCalendarHeatmap(filteredActivities, firstDate ?? null, lastDate ?? null),
+    seasonality,
+    records: calculateRecords(activityLog, (entry) => isCourseCategory(entry.category)),
+    ratings: calculateRatingProgression(filteredActivities),
     activityType: {
       entries: buildDistributionEntries(sortedTypeEntries, metrics.totalActivities),
     },
     roles,
+    outcomes: {
+      entries: outcomeEntries,
+      byType: buildOutcomeRates(outcomeActivities),
+    },
     partners,
     recentActivities,
+    activityLog,
     totals: { partners: partnerStats.size },
+    activityUids: filteredActivities.map((activity) => activity.uid),
   }
 }
 
@@ -508,6 +690,11 @@ export const buildSummary = (
     }
   }
 
+  const rangePhrase = describeDateRangePhrase(filters.dateRange)
+  if (rangePhrase) {
+    filterParts.push(rangePhrase)
+  }
+
   const filterText = filterParts.length > 0 ? ` ${filterParts.join('; ')}` : ''
   return `Visualize your Mountaineers activity history, filter by type or partner, and explore participation trends over time${filterText}.`
 }
@@ -0,0 +1,155 @@
+import { DEFAULT_DATE_RANGE } from './date-range'
+import type {
+  CumulativeYearSeries,
+  DashboardFilters,
+  PreparedActivity,
+  PreparedData,
+  YearComparisonView,
+  YearSummary,
+} from './types'
+import { buildDistributionEntries, type DashboardSettings, filterActivities } from './utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const UNRATED_LABEL = 'Unrated'
+
+/** Calendar years (UTC, like the timeline) with at least one cached activity, newest first. */
+export const getAvailableYears = (prepared: PreparedData): number[] =>
+  Array.from(new Set(prepared.activities.map((activity) => activity.date.getUTCFullYear()))).sort(
+    (a, b) => b - a
+  )
+
+/** The two most recent years, which is what most people want to compare first. */
+export const getDefaultComparisonYears = (availableYears: number[]): number[] =>
+  availableYears.slice(0, 2).sort((a, b) => a - b)
+
+/** 1 for January 1st, 366 for December 31st of a leap year. */
+export const getDayOfYear = (date: Date): number =>
+  Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS) + 1
+
+const sortedDistribution = (counts: Map<string, number>) => {
+  const entries = Array.from(counts.entries()).sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+  )
+  const total = entries.reduce((sum, [, count]) => sum + count, 0)
+  return buildDistributionEntries(entries, total)
+}
+
+const increment = (counts: Map<string, number>, key: string) => {
+  counts.set(key, (counts.get(key) || 0) + 1)
+}
+
+const summarizeYear = (
+  year: number,
+  activities: PreparedActivity[],
+  prepared: PreparedData,
+  firstPartnerYear: Map<string, number>,
+  firstTypeYear: Map<string, number>
+): YearSummary => {
+  const partners = new Set<string>()
+  const roleCounts = new Map<string, number>()
+  const difficultyCounts = new Map<string, number>()
+  activities.forEach((activity) => {
+    const roster = prepared.rosterByActivity.get(activity.uid) || []
+    roster.forEach((entry) => {
+      if (entry.person_uid !== prepared.currentUserUid) {
+        partners.add(entry.person_uid)
+      }
+    })
+    activity.userRoles.forEach((role) => {
+      increment(roleCounts, role)
+    })
+    increment(difficultyCounts, activity.difficulty_rating?.trim() || UNRATED_LABEL)
+  })
+
+  const count = (firstYears: Map<string, number>) =>
+    Array.from(firstYears.values()).filter((first) => first === year).length
+
+  return {
+    year,
+    activities: activities.length,
+    uniquePartners: partners.size,
+    newPartners: count(firstPartnerYear),
+    newActivityTypes: Array.from(firstTypeYear.entries())
+      .filter(([, first]) => first === year)
+      .map(([label]) => label)
+      .sort((a, b) => a.localeCompare(b)),
+    roles: sortedDistribution(roleCounts),
+    difficulty: sortedDistribution(difficultyCounts),
+  }
+}
+
+const buildCumulativeSeries = (year: number, activities: PreparedActivity[]) => {
+  const data: Array<[number, number]> = [[0, 0]]
+  activities.forEach((activity, index) => {
+    const day = getDayOfYear(activity.date)
+    const last = data[data.length - 1]
+    if (last[0] === day) {
+      last[1] = index + 1
+    } else {
+      data.push([day, index + 1])
+    }
+  })
+  return { year, data } satisfies CumulativeYearSeries
+}
+
+/**
+ * Side-by-side statistics for the given calendar years under the dashboard filters. "New"
+ * partners and activity types are first seen in that year across the whole filtered history,
+ * not just among the compared years. The date range filter is ignored.
+ */
+export const calculateYearComparison = (
+  prepared: PreparedData,
+  filters: DashboardFilters,
+  settings: DashboardSettings,
+  years: number[]
+): YearComparisonView => {
+  // Whole calendar years are compared, so the dashboard's date range does not apply here
+  const { counted } = filterActivities(
+    prepared,
+    { ...filters, dateRange: DEFAULT_DATE_RANGE },
+    settings
+  )
+
+  const byYear = new Map<number, PreparedActivity[]>()
+  const firstPartnerYear = new Map<string, number>()
+  const firstTypeYear = new Map<string, number>()
+  // Prepared activities are sorted by date, so the first sighting is the earliest
+  counted.forEach((activity) => {
+    const year = activity.date.getUTCFullYear()
+    const bucket = byYear.get(year) || []
+    bucket.push(activity)
+    byYear.set(year, bucket)
+    if (!firstTypeYear.has(activity.typeLabel)) {
+      firstTypeYear.set(activity.typeLabel, year)
+    }
+    const roster = prepared.rosterByActivity.get(activity.uid) || []
+    roster.forEach((entry) => {
+      if (entry.person_uid !== prepared.currentUserUid && !firstPartnerYear.has(entry.person_uid)) {
+        firstPartnerYear.set(entry.person_uid, year)
+      }
+    })
+  })
+
+  const selected = Array.from(new Set(years)).sort((a, b) => a - b)
+  const summaries = selected.map((year) =>
+    summarizeYear(year, byYear.get(year) || [], prepared, firstPartnerYear, firstTypeYear)
+  )
+
+  return {
+    years: summaries.map((summary, index) => {
+      const previous = summaries[index - 1]
+      return {
+        ...summary,
+        delta: previous
+          ? {
+              activities: summary.activities - previous.activities,
+              uniquePartners: summary.uniquePartners - previous.uniquePartners,
+              newPartners: summary.newPartners - previous.newPartners,
+              newActivityTypes: summary.newActivityTypes.length - previous.newActivityTypes.length,
+            }
+          : null,
+      }
+    }),
+    cumulative: selected.map((year) => buildCumulativeSeries(year, byYear.get(year) || [])),
+  }
+}
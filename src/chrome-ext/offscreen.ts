@@ -1,90 +1,151 @@
+import { createFetchWithRetry } from './collector/fetch-with-retry'
+import { createRateLimiter } from './collector/rate-limiter'
+import { runWorkerPool } from './collector/worker-pool'
 import { initDevTools } from './error-reporter/dev-tools'
 import { errorReporter, isAuthError } from './error-reporter/ErrorReporter'
+import {
+  type ActivityDetails,
+  detailDateToIso,
+  parseActivityDetails,
+  readDetailEntries,
+} from './shared/activity-details'
+import { onEvents, sendEvent } from './shared/messages'
+import { normalizeOutcome } from './shared/outcome'
+import { normalizeRoleMappings, readRosterStatus, resolveRole } from './shared/roles'
 import type {
   ActivityRecord,
   CollectorDelta,
   CollectorSuccessPayload,
+  FailedActivityRecord,
   PersonRecord,
+  RoleMapping,
   RosterEntryRecord,
 } from './shared/types'
 
-const OFFSCREEN_COLLECT_MESSAGE = 'offscreen-collect'
-const RESULT_MESSAGE = 'refresh-result'
-const PROGRESS_MESSAGE = 'refresh-progress'
 const HOME_URL = 'https://www.mountaineers.org/'
 const HISTORY_SUFFIX = '/member-activity-history.json'
 const ROSTER_SEGMENT = 'roster-tab'
 
-// Listen for collection requests from background script
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (!message || typeof message !== 'object') {
-    return false
-  }
+type CollectorFetch = (input: string, init?: RequestInit) => Promise<Response>
+
+interface CollectorOptions {
+  concurrency: number
+  requestDelayMs: number
+  /** Identifies the refresh run so the background can ignore messages from superseded runs. */
+  runId: string | null
+  /** When set, load exactly these activities instead of every activity not yet cached. */
+  targetActivityUids: string[] | null
+  /** Applied to roster position text; see shared/roles. */
+  roleMappings: RoleMapping[]
+}
 
-  const payload = message as {
-    type?: string
-    existingActivityUids?: string[]
-    fetchLimit?: number | null
-  }
+let activeRunId: string | null = null
+let cancelledRunId: string | null = null
 
-  if (payload.type !== OFFSCREEN_COLLECT_MESSAGE) {
-    return false
-  }
+function isSuperseded(runId: string | null): boolean {
+  return runId !== null && activeRunId !== runId
+}
 
-  // Handle collection asynchronously
-  // Note: We don't use sendResponse here because the actual result is sent
-  // via chrome.runtime.sendMessage inside handleCollectionRequest
-  handleCollectionRequest(payload.existingActivityUids ?? [], payload.fetchLimit ?? null).catch(
-    (error) => {
-      console.error('Offscreen collector: unhandled error in collection request', error)
-    }
-  )
+function isCancelled(runId: string | null): boolean {
+  return runId !== null && cancelledRunId === runId
+}
 
-  return false // Don't keep channel open - we use chrome.runtime.sendMessage instead
+// Listen for collection requests from background script. The result is not a response to
+// the request but a 'refresh-result' event, since collection outlives the message channel
+onEvents({
+  'offscreen-cancel': ({ runId }) => {
+    // The cancel may arrive before the collect request it targets, so just remember it
+    cancelledRunId = runId
+  },
+  'offscreen-collect': (message) => {
+    handleCollectionRequest(message.existingActivityUids, message.fetchLimit, {
+      concurrency: message.concurrency,
+      requestDelayMs: message.requestDelayMs,
+      runId: message.runId,
+      targetActivityUids: message.targetActivityUids,
+      roleMappings: normalizeRoleMappings(message.roleMappings),
+    }).catch((error) => {
+      console.error('Offscreen collector: unhandled error in collection request', error)
+    })
+  },
 })
 
 async function handleCollectionRequest(
   existingActivityUids: string[],
-  fetchLimit: number | null
+  fetchLimit: number | null,
+  options: CollectorOptions
 ): Promise<void> {
+  const { runId } = options
+  // A newer request (e.g. a resume after the service worker restarted) replaces any run in flight
+  activeRunId = runId
   try {
     console.info('Mountaineers Assistant offscreen: starting collection')
-    sendProgressUpdate({ stage: 'fetching-activities', total: 0, completed: 0 })
+    sendProgressUpdate(runId, { stage: 'fetching-activities', total: 0, completed: 0 })
 
     const existingSet = new Set<string>(existingActivityUids)
+    const fetcher = createCollectorFetch(options)
 
-    const { activities, currentUserUid } = await collectMemberActivities(existingSet, fetchLimit)
+    const { activities, historyActivityUids, currentUserUid } = await collectMemberActivities(
+      fetcher,
+      existingSet,
+      fetchLimit,
+      options.targetActivityUids
+    )
 
     console.info('Mountaineers Assistant offscreen: loaded %d activities', activities.length)
     const totalActivities = activities.length
     if (totalActivities === 0) {
-      sendProgressUpdate({ stage: 'no-new-activities', total: 0, completed: 0 })
+      sendProgressUpdate(runId, { stage: 'no-new-activities', total: 0, completed: 0 })
     } else {
-      sendProgressUpdate({ stage: 'activities-collected', total: totalActivities, completed: 0 })
+      sendProgressUpdate(runId, {
+        stage: 'activities-collected',
+        total: totalActivities,
+        completed: 0,
+        queuedActivityUids: activities.map((activity) => activity.uid),
+      })
     }
 
-    const exportData = await loadRosters(activities)
+    const exportData = await loadRosters(activities, fetcher, options)
+    if (isSuperseded(runId)) {
+      console.info('Mountaineers Assistant offscreen: run %s superseded, discarding result', runId)
+      return
+    }
     console.info(
       'Mountaineers Assistant offscreen: collected %d people and %d roster entries',
       exportData.people.length,
       exportData.rosterEntries.length
     )
+    if (exportData.failedActivities.length) {
+      console.warn(
+        'Mountaineers Assistant offscreen: %d activities could not be fully loaded',
+        exportData.failedActivities.length,
+        exportData.failedActivities.map((failure) => failure.uid)
+      )
+    }
 
-    sendProgressUpdate({
-      stage: 'finalizing',
+    // A cancelled run still reports what it finished so the background can merge it
+    const cancelled = isCancelled(runId)
+    sendProgressUpdate(runId, {
+      stage: cancelled ? 'cancelled' : 'finalizing',
       total: totalActivities,
-      completed: totalActivities,
+      completed: cancelled ? exportData.activities.length : totalActivities,
     })
 
-    chrome.runtime.sendMessage({
-      type: RESULT_MESSAGE,
+    sendEvent({
+      type: 'refresh-result',
+      runId: runId ?? undefined,
       success: true,
+      cancelled,
       data: {
         ...exportData,
+        historyActivityUids,
         currentUserUid,
       } satisfies CollectorSuccessPayload,
     })
   } catch (error: unknown) {
+    if (isSuperseded(runId)) {
+      return
+    }
     let errorMessage = error instanceof Error ? error.message : String(error)
 
     if (isAuthError(error)) {
@@ -100,63 +161,102 @@ async function handleCollectionRequest(
         diagnostics: {
           operation: 'collection',
           fetchLimit,
+          concurrency: options.concurrency,
           existingActivityCount: existingActivityUids.length,
         },
       })
     }
 
-    sendProgressUpdate({
+    sendProgressUpdate(runId, {
       stage: 'error',
       total: 0,
       completed: 0,
       error: errorMessage,
     })
-    chrome.runtime.sendMessage({
-      type: RESULT_MESSAGE,
+    sendEvent({
+      type: 'refresh-result',
+      runId: runId ?? undefined,
       success: false,
       error: errorMessage,
     })
   }
 }
 
-function sendProgressUpdate(update: {
-  stage: string
-  total?: number
-  completed?: number
-  activityUid?: string
-  activityTitle?: string | null
-  error?: string
-  delta?: CollectorDelta
-}): void {
-  try {
-    chrome.runtime.sendMessage({
-      type: PROGRESS_MESSAGE,
-      origin: 'collector',
-      ...update,
-      timestamp: Date.now(),
-    })
-  } catch (error) {
-    console.warn('Mountaineers Assistant offscreen: failed to send progress', error)
-  }
+function sendProgressUpdate(
+  runId: string | null,
+  update: {
+    stage: string
+    total?: number
+    completed?: number
+    activityUid?: string
+    activityTitle?: string | null
+    error?: string
+    delta?: CollectorDelta
+    queuedActivityUids?: string[]
+    retryDelayMs?: number
+  }
+): void {
+  if (isSuperseded(runId)) {
+    return
+  }
+  sendEvent({
+    type: 'refresh-progress',
+    origin: 'collector',
+    runId: runId ?? undefined,
+    ...update,
+    timestamp: Date.now(),
+  })
+}
+
+/**
+ * Every request to mountaineers.org goes through the rate limiter and is retried on
+ * transient failures; retries are reported so the UI can explain the pause.
+ */
+function createCollectorFetch(options: CollectorOptions): CollectorFetch {
+  const limiter = createRateLimiter({ intervalMs: options.requestDelayMs })
+  return createFetchWithRetry({
+    fetch: async (input, init) => {
+      await limiter.acquire()
+      return fetch(input, init)
+    },
+    shouldStop: () => isSuperseded(options.runId) || isCancelled(options.runId),
+    onRetry: ({ url, attempt, delayMs, status, error }) => {
+      console.info(
+        'Mountaineers Assistant offscreen: retrying %s (attempt %d) in %d ms after %s',
+        url,
+        attempt,
+        delayMs,
+        status ?? (error instanceof Error ? error.message : 'network error')
+      )
+      sendProgressUpdate(options.runId, { stage: 'retrying', retryDelayMs: delayMs })
+    },
+  })
 }
 
 async function collectMemberActivities(
+  fetcher: CollectorFetch,
   existingActivityUids: Set<string>,
-  fetchLimit: number | null
-): Promise<{ activities: ActivityRecord[]; currentUserUid: string | null }> {
-  const { url: activitiesUrl, currentUserUid } = await discoverActivitiesUrl()
+  fetchLimit: number | null,
+  targetActivityUids: string[] | null = null
+): Promise<{
+  activities: ActivityRecord[]
+  historyActivityUids: string[]
+  currentUserUid: string | null
+}> {
+  const { url: activitiesUrl, currentUserUid } = await discoverActivitiesUrl(fetcher)
   const historyUrl = deriveHistoryUrl(activitiesUrl)
-  const { csrfToken, refererUrl } = await collectCsrfToken(activitiesUrl)
-  const payload = await fetchHistoryPayload(historyUrl, refererUrl, csrfToken)
+  const { csrfToken, refererUrl } = await collectCsrfToken(fetcher, activitiesUrl)
+  const payload = await fetchHistoryPayload(fetcher, historyUrl, refererUrl, csrfToken)
+  const targetSet = targetActivityUids ? new Set(targetActivityUids) : null
 
-  const activities = payload
+  const historyActivities = payload
     .map(normalizeActivity)
-    .filter((activity): activity is ActivityRecord => {
-      if (!activity) {
-        return false
-      }
-      if (!isSuccessful(activity)) {
-        return false
+    .filter((activity): activity is ActivityRecord => activity !== null)
+
+  const activities = historyActivities
+    .filter((activity) => {
+      if (targetSet) {
+        return targetSet.has(activity.uid)
       }
       return !existingActivityUids.has(activity.uid)
     })
@@ -166,15 +266,24 @@ async function collectMemberActivities(
       return timeB - timeA
     })
 
+  // A targeted run (resume) already carries the limit of the run it continues
   const limitedActivities =
-    typeof fetchLimit === 'number' && fetchLimit > 0 ? activities.slice(0, fetchLimit) : activities
+    !targetSet && typeof fetchLimit === 'number' && fetchLimit > 0
+      ? activities.slice(0, fetchLimit)
+      : activities
 
-  return { activities: limitedActivities, currentUserUid }
+  return {
+    activities: limitedActivities,
+    historyActivityUids: historyActivities.map((activity) => activity.uid),
+    currentUserUid,
+  }
 }
 
-async function discoverActivitiesUrl(): Promise<{ url: string; currentUserUid: string | null }> {
+async function discoverActivitiesUrl(
+  fetcher: CollectorFetch
+): Promise<{ url: string; currentUserUid: string | null }> {
   console.debug('Mountaineers Assistant: fetching homepage to locate activities link')
-  const response = await fetch(HOME_URL, { credentials: 'include' })
+  const response = await fetcher(HOME_URL, { credentials: 'include' })
   if (!response.ok) {
     throw new Error(`Failed to load homepage (${response.status})`)
   }
@@ -206,10 +315,11 @@ function deriveHistoryUrl(activitiesUrl: string): string {
 }
 
 async function collectCsrfToken(
+  fetcher: CollectorFetch,
   activitiesUrl: string
 ): Promise<{ csrfToken: string | null; refererUrl: string }> {
   console.debug('Mountaineers Assistant: loading activities page to collect CSRF token')
-  const response = await fetch(activitiesUrl, { credentials: 'include' })
+  const response = await fetcher(activitiesUrl, { credentials: 'include' })
   if (!response.ok) {
     throw new Error(`Failed to load activities page (${response.status})`)
   }
@@ -225,6 +335,7 @@ async function collectCsrfToken(
 }
 
 async function fetchHistoryPayload(
+  fetcher: CollectorFetch,
   historyUrl: string,
   refererUrl: string,
   csrfToken: string | null
@@ -238,7 +349,7 @@ async function fetchHistoryPayload(
     headers['X-CSRF-Token'] = csrfToken
   }
   console.debug('Mountaineers Assistant: requesting history payload %s', historyUrl)
-  const response = await fetch(historyUrl, {
+  const response = await fetcher(historyUrl, {
     credentials: 'include',
     headers,
   })
@@ -278,143 +389,210 @@ function normalizeActivity(record: unknown): ActivityRecord | null {
     trip_results: stringOrNull(record.trip_results),
     result: stringOrNull(record.result),
     rawResult: record.result,
+    outcome: normalizeOutcome(record.result),
     activity_type: stringOrNull(record.activity_type),
     difficulty_rating: null,
     leader_rating: null,
   }
 }
 
-function isSuccessful(activity: ActivityRecord): boolean {
-  const result = (activity.result ?? activity.rawResult ?? '').toString().toLowerCase()
-  return result === 'successful'
-}
-
 async function loadRosters(
-  activities: ActivityRecord[]
-): Promise<Omit<CollectorSuccessPayload, 'currentUserUid'>> {
+  activities: ActivityRecord[],
+  fetcher: CollectorFetch,
+  options: CollectorOptions
+): Promise<Omit<CollectorSuccessPayload, 'currentUserUid' | 'historyActivityUids'>> {
   const peopleByUid = new Map<string, PersonRecord>()
   const rosterEntries: RosterEntryRecord[] = []
-  const enrichedActivities: ActivityRecord[] = []
+  const rosterActivityUids: string[] = []
+  const failedActivities: FailedActivityRecord[] = []
+  // Indexed by input position so the final payload keeps the history ordering
+  const enrichedActivities: Array<ActivityRecord | undefined> = new Array(activities.length)
   const total = activities.length
   let processed = 0
 
   if (total > 0) {
-    sendProgressUpdate({ stage: 'processing', total, completed: 0 })
+    sendProgressUpdate(options.runId, { stage: 'processing', total, completed: 0 })
+  }
+
+  await runWorkerPool(
+    activities,
+    async (activity, index) => {
+      const activityTitle = activity.title ?? null
+      const { enrichedActivity, roster, failure } = await collectActivity(
+        activity,
+        fetcher,
+        options.roleMappings,
+        (stage) =>
+          sendProgressUpdate(options.runId, {
+            stage,
+            total,
+            completed: processed,
+            activityUid: activity.uid,
+            activityTitle,
+          })
+      )
+
+      if (roster) {
+        for (const person of roster.people) {
+          const existing = peopleByUid.get(person.uid)
+          if (!existing) {
+            peopleByUid.set(person.uid, person)
+            continue
+          }
+          const mergedPerson: PersonRecord = { ...existing }
+          let changed = false
+          if (!existing.href && person.href) {
+            mergedPerson.href = person.href
+            changed = true
+          }
+          if (!existing.avatar && person.avatar) {
+            mergedPerson.avatar = person.avatar
+            changed = true
+          }
+          if (!existing.name && person.name) {
+            mergedPerson.name = person.name
+            changed = true
+          }
+          if (changed) {
+            peopleByUid.set(person.uid, mergedPerson)
+          }
+        }
+        rosterEntries.push(...roster.entries)
+        rosterActivityUids.push(activity.uid)
+      }
+
+      enrichedActivities[index] = enrichedActivity
+      if (failure) {
+        failedActivities.push(failure)
+      }
+      // Each activity reports exactly one delta, after both of its requests settle,
+      // so `completed` only ever increases even when activities finish out of order.
+      processed += 1
+      sendProgressUpdate(options.runId, {
+        stage: 'processing',
+        total,
+        completed: processed,
+        activityUid: activity.uid,
+        activityTitle,
+        delta: {
+          activities: [enrichedActivity],
+          people: roster?.people ?? [],
+          rosterEntries: roster?.entries ?? [],
+          rosterActivityUids: roster ? [activity.uid] : [],
+          failedActivities: failure ? [failure] : [],
+        },
+      })
+    },
+    {
+      concurrency: options.concurrency,
+      // Checked between activities; requests already in flight are allowed to finish
+      shouldStop: () => isSuperseded(options.runId) || isCancelled(options.runId),
+    }
+  )
+
+  return {
+    activities: enrichedActivities.filter(
+      (activity): activity is ActivityRecord => activity !== undefined
+    ),
+    people: Array.from(peopleByUid.values()),
+    rosterEntries,
+    rosterActivityUids,
+    failedActivities,
   }
+}
 
-  for (const activity of activities) {
-    let resolvedType = activity.activity_type ?? null
-    let resolvedDifficulty = activity.difficulty_rating ?? null
-    let resolvedLeaderRating = activity.leader_rating ?? null
-    const activityTitle = activity.title ?? null
+async function collectActivity(
+  activity: ActivityRecord,
+  fetcher: CollectorFetch,
+  roleMappings: RoleMapping[],
+  onStage: (stage: 'loading-details' | 'loading-roster') => void
+): Promise<{
+  enrichedActivity: ActivityRecord
+  roster: { people: PersonRecord[]; entries: RosterEntryRecord[] } | null
+  failure: FailedActivityRecord | null
+}> {
+  // Settled up front so a roster failure while the details are pending is not unhandled
+  const detailsPromise = settlePromise(loadActivityDetails(activity, fetcher))
+  const rosterPromise = settlePromise(loadActivityRoster(activity, fetcher, roleMappings))
 
-    const detailsPromise = loadActivityDetails(activity)
-    const rosterPromise = loadActivityRoster(activity)
+  onStage('loading-details')
 
-    sendProgressUpdate({
-      stage: 'loading-details',
-      total,
-      completed: processed,
-      activityUid: activity.uid,
-      activityTitle,
-    })
+  const detailsResult = await detailsPromise
 
-    const detailsResult = await settlePromise(detailsPromise)
+  if (detailsResult.status === 'rejected') {
+    console.warn(`Failed to load activity page for ${activity.uid}`, detailsResult.reason)
+  }
 
-    if (detailsResult.status === 'fulfilled') {
-      if (detailsResult.value.activityType) {
-        resolvedType = detailsResult.value.activityType
-      }
-      if (detailsResult.value.difficultyRating) {
-        resolvedDifficulty = detailsResult.value.difficultyRating
-      }
-      if (detailsResult.value.leaderRating) {
-        resolvedLeaderRating = detailsResult.value.leaderRating
-      }
-    } else {
-      console.warn(
-        `Mountaineers Assistant: failed to load activity details for ${activity.uid}`,
-        detailsResult.reason
-      )
-    }
+  onStage('loading-roster')
 
-    sendProgressUpdate({
-      stage: 'loading-roster',
-      total,
-      completed: processed,
-      activityUid: activity.uid,
-      activityTitle,
-    })
+  const rosterResult = await rosterPromise
 
-    const rosterResult = await settlePromise(rosterPromise)
+  if (rosterResult.status === 'rejected') {
+    console.warn(`Failed to collect roster for ${activity.uid}`, rosterResult.reason)
+  }
 
-    if (rosterResult.status === 'fulfilled') {
-      const { people, entries } = rosterResult.value
-      for (const person of people) {
-        const existing = peopleByUid.get(person.uid)
-        if (!existing) {
-          peopleByUid.set(person.uid, person)
-          continue
-        }
-        const mergedPerson: PersonRecord = { ...existing }
-        let changed = false
-        if (!existing.href && person.href) {
-          mergedPerson.href = person.href
-          changed = true
-        }
-        if (!existing.avatar && person.avatar) {
-          mergedPerson.avatar = person.avatar
-          changed = true
-        }
-        if (!existing.name && person.name) {
-          mergedPerson.name = person.name
-          changed = true
-        }
-        if (changed) {
-          peopleByUid.set(person.uid, mergedPerson)
-        }
-      }
-      rosterEntries.push(...entries)
-    } else {
-      console.warn(`Failed to collect roster for ${activity.uid}`, rosterResult.reason)
-    }
+  const details = detailsResult.status === 'fulfilled' ? detailsResult.value : null
+  const failure = describeFailure(activity, detailsResult, rosterResult)
+  // Only a complete fetch resets the staleness clock, so partial failures get retried
+  const fullyFetched = details !== null && !failure
 
-    const enrichedActivity: ActivityRecord = {
+  return {
+    enrichedActivity: {
       ...activity,
-      activity_type: resolvedType,
-      difficulty_rating: resolvedDifficulty,
-      leader_rating: resolvedLeaderRating,
-    }
-    enrichedActivities.push(enrichedActivity)
-    processed += 1
-    const rosterDelta =
-      rosterResult.status === 'fulfilled'
-        ? {
-            people: rosterResult.value.people,
-            rosterEntries: rosterResult.value.entries,
-          }
-        : {
-            people: [],
-            rosterEntries: [],
-          }
-    sendProgressUpdate({
-      stage: 'processing',
-      total,
-      completed: processed,
-      activityUid: activity.uid,
-      activityTitle,
-      delta: {
-        activities: [enrichedActivity],
-        people: rosterDelta.people,
-        rosterEntries: rosterDelta.rosterEntries,
-      },
-    })
+      activity_type: details?.activityType ?? activity.activity_type ?? null,
+      difficulty_rating: details?.difficultyRating ?? activity.difficulty_rating ?? null,
+      leader_rating: details?.leaderRating ?? activity.leader_rating ?? null,
+      // Left unset when the page could not be read so a re-sync keeps the cached values
+      ...(details ? toDetailFields(details) : {}),
+      ...(fullyFetched ? { fetchedAt: new Date().toISOString() } : {}),
+    },
+    roster: rosterResult.status === 'fulfilled' ? rosterResult.value : null,
+    failure,
   }
+}
 
+function describeFailure(
+  activity: ActivityRecord,
+  detailsResult: PromiseSettledResult<unknown>,
+  rosterResult: PromiseSettledResult<unknown>
+): FailedActivityRecord | null {
+  const failedParts: FailedActivityRecord['failedParts'] = []
+  const reasons: unknown[] = []
+  if (detailsResult.status === 'rejected') {
+    failedParts.push('details')
+    reasons.push(detailsResult.reason)
+  }
+  if (rosterResult.status === 'rejected') {
+    failedParts.push('roster')
+    reasons.push(rosterResult.reason)
+  }
+  if (!failedParts.length) {
+    return null
+  }
+  const reason = reasons[0]
   return {
-    activities: enrichedActivities,
-    people: Array.from(peopleByUid.values()),
-    rosterEntries,
+    uid: activity.uid,
+    title: activity.title ?? null,
+    failedParts,
+    error: reason instanceof Error ? reason.message : reason ? String(reason) : null,
+    failedAt: new Date().toISOString(),
+  }
+}
+
+function toDetailFields(
+  details: ActivityDetails
+): Pick<
+  ActivityRecord,
+  'end_date' | 'location' | 'branch' | 'committee' | 'leader_names' | 'route_name' | 'route_href'
+> {
+  return {
+    end_date: detailDateToIso(details.endDate),
+    location: details.location,
+    branch: details.branch,
+    committee: details.committee,
+    leader_names: details.leaderNames,
+    route_name: details.route?.text ?? null,
+    route_href: details.route?.href ? ensureAbsoluteUrl(details.route.href) : null,
   }
 }
 
@@ -424,81 +602,32 @@ function settlePromise<T>(promise: Promise<T>): Promise<PromiseSettledResult<T>>
     .catch<PromiseSettledResult<T>>((reason) => ({ status: 'rejected', reason }))
 }
 
-async function loadActivityDetails(activity: ActivityRecord): Promise<{
-  activityType: string | null
-  difficultyRating: string | null
-  leaderRating: string | null
-}> {
+async function loadActivityDetails(
+  activity: ActivityRecord,
+  fetcher: CollectorFetch
+): Promise<ActivityDetails | null> {
   if (!activity?.href) {
-    return { activityType: null, difficultyRating: null, leaderRating: null }
-  }
-  try {
-    const response = await fetch(activity.href, { credentials: 'include' })
-    if (!response.ok) {
-      console.warn(
-        `Mountaineers Assistant: activity page unavailable (${response.status}) for ${activity.uid}`
-      )
-      return { activityType: null, difficultyRating: null, leaderRating: null }
-    }
-    const html = await response.text()
-    return extractActivityDetails(html)
-  } catch (error) {
-    console.warn(`Mountaineers Assistant: failed to load activity page for ${activity.uid}`, error)
-    return { activityType: null, difficultyRating: null, leaderRating: null }
+    return null
   }
-}
-
-function extractActivityDetails(html: string): {
-  activityType: string | null
-  difficultyRating: string | null
-  leaderRating: string | null
-} {
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(html, 'text/html')
-  const detailItems = Array.from(doc.querySelectorAll('.program-core .details li'))
-
-  let activityType: string | null = null
-  let difficultyRating: string | null = null
-  let leaderRating: string | null = null
-
-  for (const item of detailItems) {
-    const label = item.querySelector('label')
-    const normalizedLabel = normalizeWhitespace(label?.textContent ?? '')
-    if (!normalizedLabel) continue
-
-    const labelText = normalizedLabel.replace(/:$/, '').toLowerCase()
-    if (!labelText) continue
-
-    const clone = item.cloneNode(true) as HTMLElement
-    const cloneLabel = clone.querySelector('label')
-    if (cloneLabel) {
-      cloneLabel.remove()
-    }
-
-    const value = normalizeWhitespace(clone.textContent ?? '')
-
-    if (!value) continue
-
-    if (labelText === 'activity type') {
-      activityType = value
-    } else if (labelText === 'difficulty') {
-      difficultyRating = value
-    } else if (labelText === 'leader rating') {
-      leaderRating = value
-    }
+  const response = await fetcher(activity.href, { credentials: 'include' })
+  if (!response.ok) {
+    throw new Error(`Activity page fetch failed (${response.status})`)
   }
-
-  return { activityType, difficultyRating, leaderRating }
+  const html = await response.text()
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return parseActivityDetails(readDetailEntries(doc))
 }
 
 async function loadActivityRoster(
-  activity: ActivityRecord
+  activity: ActivityRecord,
+  fetcher: CollectorFetch,
+  roleMappings: RoleMapping[]
 ): Promise<{ people: PersonRecord[]; entries: RosterEntryRecord[] }> {
   if (!activity.href) {
     return { people: [], entries: [] }
   }
   const rosterUrl = deriveRosterUrl(activity.href)
-  const response = await fetch(rosterUrl, {
+  const response = await fetcher(rosterUrl, {
     credentials: 'include',
     headers: {
       Accept: 'text/html, */*; q=0.01',
@@ -518,7 +647,7 @@ async function loadActivityRoster(
     return { people: [], entries: [] }
   }
   const html = await response.text()
-  return parseRosterHtml(html, activity.uid)
+  return parseRosterHtml(html, activity.uid, roleMappings)
 }
 
 function deriveRosterUrl(activityHref: string): string {
@@ -532,7 +661,8 @@ function deriveRosterUrl(activityHref: string): string {
 
 function parseRosterHtml(
   html: string,
-  activityUid: string
+  activityUid: string,
+  roleMappings: RoleMapping[]
 ): {
   people: PersonRecord[]
   entries: RosterEntryRecord[]
@@ -544,7 +674,7 @@ function parseRosterHtml(
   const entries: RosterEntryRecord[] = []
 
   for (const contact of contacts) {
-    const parsed = parseRosterContact(contact as HTMLElement, activityUid)
+    const parsed = parseRosterContact(contact as HTMLElement, activityUid, roleMappings)
     if (!parsed) {
       continue
     }
@@ -557,7 +687,8 @@ function parseRosterHtml(
 
 function parseRosterContact(
   element: HTMLElement,
-  activityUid: string
+  activityUid: string,
+  roleMappings: RoleMapping[]
 ): { person: PersonRecord; entry: RosterEntryRecord } | null {
   const name = extractText(element, ['.roster-name', "a[href*='/members/']", 'div'])
   if (!name) {
@@ -576,8 +707,9 @@ function parseRosterContact(
     return null
   }
 
-  const roleText = extractText(element, ['.roster-position'])
-  const role = normalizeRole(roleText)
+  const rawRole = element.querySelector('.roster-position')?.textContent?.trim() || null
+  const { role, isLeader } = resolveRole(rawRole, roleMappings)
+  const status = readRosterStatus(element)
   const avatar = normalizeAvatarUrl(imageHref)
 
   const person: PersonRecord = {
@@ -591,6 +723,9 @@ function parseRosterContact(
     activity_uid: activityUid,
     person_uid: slug,
     role,
+    rawRole,
+    status,
+    isLeader,
   }
 
   return { person, entry }
@@ -620,23 +755,6 @@ function buildMemberHref(slug: string): string {
   return new URL(`/members/${slug}`, HOME_URL).toString()
 }
 
-function normalizeRole(roleText: string | null): string {
-  const defaultRole = 'Participant'
-  const knownRoles = ['Primary Leader', 'Assistant Leader', 'Instructor', 'Participant']
-  if (!roleText) {
-    return defaultRole
-  }
-  const cleaned = roleText.trim().toLowerCase()
-  const match = knownRoles.find((role) => role.toLowerCase() === cleaned)
-  if (match) {
-    return match
-  }
-  if (cleaned.includes('participant')) {
-    return defaultRole
-  }
-  return defaultRole
-}
-
 function normalizeAvatarUrl(value: string | null): string | null {
   const url = ensureAbsoluteUrl(value)
   if (!url) {
@@ -648,14 +766,6 @@ function normalizeAvatarUrl(value: string | null): string | null {
   return url
 }
 
-function normalizeWhitespace(value: string | null): string | null {
-  if (typeof value !== 'string') {
-    return null
-  }
-  const cleaned = value.replace(/\s+/g, ' ').trim()
-  return cleaned || null
-}
-
 function slugify(value: string): string {
   return value
     .toLowerCase()
@@ -3,27 +3,82 @@ import { ErrorLogViewer } from '../components/ErrorLogViewer'
 import { ErrorReportModal } from '../components/ErrorReportModal'
 import { ErrorToast } from '../components/ErrorToast'
 import { Footer } from '../components/Footer'
+import {
+  AUTO_SYNC_FREQUENCIES,
+  getAutoSyncFrequencyLabel,
+  isAutoSyncFrequency,
+} from '../shared/auto-sync'
+import { getRefreshModeLabel, REFRESH_MODES } from '../shared/resync'
+import {
+  FETCH_CONCURRENCY_RANGE,
+  FETCH_DELAY_RANGE_MS,
+  RESYNC_STALE_DAYS_RANGE,
+} from '../shared/settings'
+import type { AutoSyncRecord, RefreshMode } from '../shared/types'
 import { usePreferencesController } from './hooks/usePreferencesController'
 
 export const PreferencesApp = () => {
   const {
     cacheContent,
     showAvatars,
+    countUnsuccessful,
+    showRemovedActivities,
+    removedActivities,
     fetchLimitInput,
+    fetchConcurrencyInput,
+    fetchDelayInput,
+    resyncStaleDaysInput,
+    roleMappingsInput,
+    autoSyncFrequency,
+    quietHoursStart,
+    quietHoursEnd,
+    lastAutoSync,
+    resyncMode,
+    resyncMessage,
     isRefreshing,
+    isSyncing,
     isClearing,
     isSaving,
+    isResyncing,
+    isPurging,
     setShowAvatars,
+    setCountUnsuccessful,
+    setShowRemovedActivities,
+    purgeRemovedActivities,
     setFetchLimitInput,
+    setFetchConcurrencyInput,
+    setFetchDelayInput,
+    setResyncStaleDaysInput,
+    setRoleMappingsInput,
+    setAutoSyncFrequency,
+    setQuietHoursStart,
+    setQuietHoursEnd,
+    setResyncMode,
+    startResync,
     normalizeFetchLimitInput,
     refreshCache,
     clearCache,
+    exportCache,
+    importFileName,
+    importPreview,
+    importErrors,
+    importWarning,
+    importMode,
+    isImporting,
+    selectImportFile,
+    setImportMode,
+    confirmImport,
+    cancelImport,
     savePreferences,
   } = usePreferencesController()
 
   const refreshLabel = isRefreshing ? 'Refreshing…' : 'Refresh Cache View'
   const clearLabel = isClearing ? 'Clearing…' : 'Clear Cached Data'
   const saveLabel = isSaving ? 'Saving…' : 'Save Preferences'
+  const resyncLabel = isResyncing ? 'Re-syncing…' : 'Start Re-sync'
+  const purgeLabel = isPurging ? 'Purging…' : 'Purge Removed Activities'
+  const importLabel = isImporting ? 'Importing…' : 'Import'
+  const staleDays = Number.parseInt(resyncStaleDaysInput, 10) || RESYNC_STALE_DAYS_RANGE.min
 
   const [copyFeedback, setCopyFeedback] = useState<'idle' | 'success' | 'error'>('idle')
   const [reportModalErrorId, setReportModalErrorId] = useState<string | null>(null)
@@ -77,6 +132,12 @@ export const PreferencesApp = () => {
     'inline-flex items-center justify-center gap-2 rounded-xl bg-sky-600 px-4 py-2 text-sm font-medium text-white shadow-lg shadow-sky-600/25 transition-colors hover:bg-sky-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:pointer-events-none disabled:opacity-60'
   const dangerButtonClasses =
     'inline-flex items-center justify-center gap-2 rounded-xl border border-rose-200/70 bg-rose-50/90 px-4 py-2 text-sm font-medium text-rose-600 shadow transition hover:bg-rose-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rose-300 disabled:pointer-events-none disabled:opacity-60'
+  const secondaryButtonClasses =
+    'inline-flex items-center justify-center gap-2 rounded-xl border border-slate-200/70 bg-white/90 px-4 py-2 text-sm font-medium text-slate-700 shadow transition hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 disabled:pointer-events-none disabled:opacity-60'
+  const numberInputClasses =
+    'w-28 rounded-xl border border-slate-200/70 bg-white/90 px-3 py-2 text-sm text-slate-900 shadow transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70'
+  const selectClasses =
+    'rounded-xl border border-slate-200/70 bg-white/90 px-3 py-2 text-sm text-slate-900 shadow transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70 disabled:opacity-60'
   const controlLabelClasses = 'text-sm font-medium text-slate-800'
   const helperTextClasses = 'text-xs text-slate-500'
 
@@ -131,6 +192,60 @@ export const PreferencesApp = () => {
                   </span>
                 </span>
               </label>
+              <label className="flex items-start gap-3">
+                <input
+                  id="toggle-count-unsuccessful"
+                  type="checkbox"
+                  className="mt-1 h-5 w-5 rounded border-slate-300 text-sky-600 transition focus:ring-sky-500"
+                  checked={countUnsuccessful}
+                  onChange={(event) => setCountUnsuccessful(event.target.checked)}
+                />
+                <span>
+                  <span className={controlLabelClasses}>
+                    Count canceled, turned-back and no-show activities toward totals
+                  </span>
+                  <span className={`mt-1 block ${helperTextClasses}`}>
+                    When off, only successful activities are counted in charts, partner stats and
+                    shared activities. Outcome breakdowns always include every activity.
+                  </span>
+                </span>
+              </label>
+              <label className="flex items-start gap-3">
+                <input
+                  id="toggle-show-removed"
+                  type="checkbox"
+                  className="mt-1 h-5 w-5 rounded border-slate-300 text-sky-600 transition focus:ring-sky-500"
+                  checked={showRemovedActivities}
+                  onChange={(event) => setShowRemovedActivities(event.target.checked)}
+                />
+                <span>
+                  <span className={controlLabelClasses}>
+                    Include activities removed from your Mountaineers history
+                  </span>
+                  <span className={`mt-1 block ${helperTextClasses}`}>
+                    Activities that no longer appear in your history are kept in the cache but
+                    hidden from insights unless this is on.
+                  </span>
+                </span>
+              </label>
+              <div className="space-y-2">
+                <label className={controlLabelClasses} htmlFor="role-mappings-setting">
+                  Roster role mappings
+                </label>
+                <textarea
+                  id="role-mappings-setting"
+                  rows={6}
+                  spellCheck={false}
+                  className="w-full rounded-lg border border-slate-200 bg-white/90 px-3 py-2 font-mono text-xs text-slate-800 focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+                  value={roleMappingsInput}
+                  onChange={(event) => setRoleMappingsInput(event.target.value)}
+                />
+                <span className={`block ${helperTextClasses}`}>
+                  One <code>Roster position = Role</code> per line. Positions not listed keep their
+                  roster text. Roles containing &ldquo;Leader&rdquo; count as leading. Changes apply
+                  to activities fetched or re-synced afterwards.
+                </span>
+              </div>
             </div>
             <div className="space-y-5 text-sm text-slate-700">
               <div className="space-y-1.5">
@@ -147,7 +262,7 @@ export const PreferencesApp = () => {
                     min="1"
                     step="1"
                     inputMode="numeric"
-                    className="w-28 rounded-xl border border-slate-200/70 bg-white/90 px-3 py-2 text-sm text-slate-900 shadow transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+                    className={numberInputClasses}
                     placeholder="All"
                     value={fetchLimitInput}
                     onChange={(event) => setFetchLimitInput(event.target.value)}
@@ -156,6 +271,133 @@ export const PreferencesApp = () => {
                   <span className={helperTextClasses}>Leave blank to fetch everything.</span>
                 </div>
               </div>
+              <div className="space-y-2">
+                <label className={controlLabelClasses} htmlFor="fetch-concurrency-setting">
+                  Load this many activities in parallel
+                </label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    id="fetch-concurrency-setting"
+                    type="number"
+                    min={FETCH_CONCURRENCY_RANGE.min}
+                    max={FETCH_CONCURRENCY_RANGE.max}
+                    step="1"
+                    inputMode="numeric"
+                    className={numberInputClasses}
+                    value={fetchConcurrencyInput}
+                    onChange={(event) => setFetchConcurrencyInput(event.target.value)}
+                  />
+                  <span className={helperTextClasses}>
+                    Higher values sync faster but put more load on mountaineers.org.
+                  </span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className={controlLabelClasses} htmlFor="fetch-delay-setting">
+                  Wait between requests (milliseconds)
+                </label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    id="fetch-delay-setting"
+                    type="number"
+                    min={FETCH_DELAY_RANGE_MS.min}
+                    max={FETCH_DELAY_RANGE_MS.max}
+                    step="100"
+                    inputMode="numeric"
+                    className={numberInputClasses}
+                    value={fetchDelayInput}
+                    onChange={(event) => setFetchDelayInput(event.target.value)}
+                  />
+                  <span className={helperTextClasses}>Applies across all parallel requests.</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className={controlLabelClasses} htmlFor="resync-stale-days-setting">
+                  Treat activities as stale after this many days
+                </label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    id="resync-stale-days-setting"
+                    type="number"
+                    min={RESYNC_STALE_DAYS_RANGE.min}
+                    max={RESYNC_STALE_DAYS_RANGE.max}
+                    step="1"
+                    inputMode="numeric"
+                    className={numberInputClasses}
+                    value={resyncStaleDaysInput}
+                    onChange={(event) => setResyncStaleDaysInput(event.target.value)}
+                  />
+                  <span className={helperTextClasses}>
+                    Used by the stale re-sync mode to pick activities to fetch again.
+                  </span>
+                </div>
+              </div>
+            </div>
+            <div className="space-y-5 text-sm text-slate-700">
+              <div className="space-y-1.5">
+                <h2 className="text-lg font-semibold text-slate-900">Automatic sync</h2>
+                <p className={helperTextClasses}>
+                  Fetches new activities in the background while you are logged in to
+                  mountaineers.org.
+                </p>
+              </div>
+              <div className="flex flex-wrap items-end gap-4">
+                <label className="space-y-2" htmlFor="auto-sync-frequency">
+                  <span className={`block ${controlLabelClasses}`}>Sync</span>
+                  <select
+                    id="auto-sync-frequency"
+                    value={autoSyncFrequency}
+                    onChange={(event) => {
+                      const next = event.target.value
+                      if (isAutoSyncFrequency(next)) {
+                        setAutoSyncFrequency(next)
+                      }
+                    }}
+                    className={selectClasses}
+                  >
+                    {AUTO_SYNC_FREQUENCIES.map((frequency) => (
+                      <option key={frequency} value={frequency}>
+                        {getAutoSyncFrequencyLabel(frequency)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-2" htmlFor="quiet-hours-start">
+                  <span className={`block ${controlLabelClasses}`}>Quiet from</span>
+                  <select
+                    id="quiet-hours-start"
+                    value={quietHoursStart}
+                    disabled={autoSyncFrequency === 'off'}
+                    onChange={(event) => setQuietHoursStart(Number(event.target.value))}
+                    className={selectClasses}
+                  >
+                    {HOURS.map((hour) => (
+                      <option key={hour} value={hour}>
+                        {formatHour(hour)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-2" htmlFor="quiet-hours-end">
+                  <span className={`block ${controlLabelClasses}`}>until</span>
+                  <select
+                    id="quiet-hours-end"
+                    value={quietHoursEnd}
+                    disabled={autoSyncFrequency === 'off'}
+                    onChange={(event) => setQuietHoursEnd(Number(event.target.value))}
+                    className={selectClasses}
+                  >
+                    {HOURS.map((hour) => (
+                      <option key={hour} value={hour}>
+                        {formatHour(hour)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <p className={helperTextClasses} data-testid="last-auto-sync">
+                {describeAutoSync(lastAutoSync)}
+              </p>
             </div>
             <div className="flex justify-end">
               <button
@@ -214,11 +456,211 @@ export const PreferencesApp = () => {
               <button
                 type="button"
                 onClick={clearCache}
-                disabled={isClearing}
+                disabled={isClearing || isSyncing}
+                title={isSyncing ? 'Available once the running refresh finishes' : undefined}
                 className={dangerButtonClasses}
               >
                 {clearLabel}
               </button>
+              <button
+                type="button"
+                data-testid="export-json"
+                onClick={() => exportCache('json')}
+                className={secondaryButtonClasses}
+              >
+                Export JSON
+              </button>
+              <button
+                type="button"
+                data-testid="export-csv"
+                onClick={() => exportCache('csv')}
+                className={secondaryButtonClasses}
+              >
+                Export CSV
+              </button>
+            </div>
+            <p className={helperTextClasses}>
+              The JSON archive holds the complete cache and can be imported below, e.g. after
+              reinstalling. CSV exports include activities, people, roster entries and a sheet of
+              your activities with partners.
+            </p>
+            <div className="space-y-2 text-sm text-slate-700" data-testid="import-cache">
+              <label className={controlLabelClasses} htmlFor="import-file">
+                Import a JSON export
+              </label>
+              <input
+                id="import-file"
+                type="file"
+                accept="application/json,.json"
+                disabled={isImporting}
+                onChange={(event) => {
+                  selectImportFile(event.target.files?.[0] ?? null)
+                  event.target.value = ''
+                }}
+                className="block text-sm text-slate-600 file:mr-3 file:rounded-xl file:border file:border-slate-200/70 file:bg-white/90 file:px-3 file:py-1.5 file:text-sm file:font-medium file:text-slate-700"
+              />
+              {importErrors.length ? (
+                <div className="space-y-1 text-xs text-rose-600" role="alert">
+                  <p>{importFileName} can't be imported:</p>
+                  <ul className="list-disc pl-5">
+                    {importErrors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+              {importPreview ? (
+                <div className="space-y-3 rounded-xl border border-slate-200/70 bg-white/70 p-4">
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-slate-600 md:grid-cols-3">
+                    <dt>Activities</dt>
+                    <dd className="font-medium text-slate-900 md:col-span-2">
+                      {importPreview.activityCount}
+                      {importPreview.filtered ? ' (filtered export)' : ''}
+                    </dd>
+                    <dt>People</dt>
+                    <dd className="font-medium text-slate-900 md:col-span-2">
+                      {importPreview.peopleCount}
+                    </dd>
+                    <dt>Roster entries</dt>
+                    <dd className="font-medium text-slate-900 md:col-span-2">
+                      {importPreview.rosterEntryCount}
+                    </dd>
+                    <dt>Date range</dt>
+                    <dd className="font-medium text-slate-900 md:col-span-2">
+                      {formatImportDate(importPreview.earliest)} –{' '}
+                      {formatImportDate(importPreview.latest)}
+                    </dd>
+                    <dt>Member</dt>
+                    <dd className="font-medium text-slate-900 md:col-span-2">
+                      {importPreview.currentUserName || importPreview.currentUserUid || 'Unknown'}
+                    </dd>
+                    {importPreview.exportedAt ? (
+                      <>
+                        <dt>Exported</dt>
+                        <dd className="font-medium text-slate-900 md:col-span-2">
+                          {new Date(importPreview.exportedAt).toLocaleString()}
+                        </dd>
+                      </>
+                    ) : null}
+                  </dl>
+                  {importWarning ? <p className="text-xs text-amber-700">{importWarning}</p> : null}
+                  {isSyncing ? (
+                    <p className="text-xs text-slate-500">
+                      Importing is available once the running refresh finishes.
+                    </p>
+                  ) : null}
+                  <fieldset className="flex flex-wrap gap-4 text-sm">
+                    <legend className="sr-only">Import mode</legend>
+                    <label className="inline-flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="import-mode"
+                        value="merge"
+                        checked={importMode === 'merge'}
+                        onChange={() => setImportMode('merge')}
+                      />
+                      Merge into the current cache
+                    </label>
+                    <label className="inline-flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="import-mode"
+                        value="replace"
+                        checked={importMode === 'replace'}
+                        onChange={() => setImportMode('replace')}
+                      />
+                      Replace the current cache
+                    </label>
+                  </fieldset>
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      type="button"
+                      onClick={confirmImport}
+                      disabled={isImporting || isSyncing}
+                      className={primaryButtonClasses}
+                    >
+                      {importLabel}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={cancelImport}
+                      disabled={isImporting}
+                      className={secondaryButtonClasses}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </div>
+            <div className="space-y-2 text-sm text-slate-700">
+              <label className={controlLabelClasses} htmlFor="resync-mode">
+                Re-sync cached activities
+              </label>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  id="resync-mode"
+                  value={resyncMode}
+                  disabled={isResyncing}
+                  onChange={(event) =>
+                    setResyncMode(event.target.value as Exclude<RefreshMode, 'new'>)
+                  }
+                  className="rounded-xl border border-slate-200/70 bg-white/90 px-3 py-2 text-sm text-slate-900 shadow transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-500/70"
+                >
+                  {REFRESH_MODES.filter((mode) => mode !== 'new').map((mode) => (
+                    <option key={mode} value={mode}>
+                      {getRefreshModeLabel(mode, staleDays)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={startResync}
+                  disabled={isResyncing}
+                  className={primaryButtonClasses}
+                >
+                  {resyncLabel}
+                </button>
+              </div>
+              <p className={helperTextClasses}>
+                {resyncMessage ||
+                  'Fetches activity pages and rosters again to pick up roster changes and corrected details.'}
+              </p>
+            </div>
+            <div className="space-y-2 text-sm text-slate-700" data-testid="removed-activities">
+              <h3 className={controlLabelClasses}>Removed from history</h3>
+              {removedActivities.length ? (
+                <>
+                  <ul className="max-h-48 space-y-1 overflow-auto text-xs text-slate-600">
+                    {removedActivities.map((activity) => (
+                      <li key={activity.uid}>
+                        <span className="font-medium text-slate-700">
+                          {activity.title || activity.uid}
+                        </span>
+                        {activity.start_date
+                          ? ` · ${new Date(activity.start_date).toLocaleDateString()}`
+                          : ''}
+                        {activity.tombstonedAt
+                          ? ` · missing since ${new Date(activity.tombstonedAt).toLocaleDateString()}`
+                          : ''}
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    type="button"
+                    onClick={purgeRemovedActivities}
+                    disabled={isPurging || isSyncing}
+                    title={isSyncing ? 'Available once the running refresh finishes' : undefined}
+                    className={dangerButtonClasses}
+                  >
+                    {purgeLabel}
+                  </button>
+                </>
+              ) : (
+                <p className={helperTextClasses}>
+                  Every cached activity is still listed in your Mountaineers history.
+                </p>
+              )}
             </div>
             <pre className="frosted-panel max-h-[520px] overflow-auto whitespace-pre-wrap rounded-2xl px-5 py-4 font-mono text-xs leading-relaxed text-slate-100">
               {cacheContent}
@@ -235,3 +677,28 @@ export const PreferencesApp = () => {
 }
 
 export default PreferencesApp
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+function formatHour(hour: number): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' })
+}
+
+function describeAutoSync(record: AutoSyncRecord | null): string {
+  if (!record) {
+    return 'No automatic sync has run yet. Set the same hour twice to turn quiet hours off.'
+  }
+  const when = new Date(record.finishedAt).toLocaleString()
+  if (record.status === 'success') {
+    const added = record.summary?.newActivities ?? 0
+    return `Last automatic sync ${when}: cached ${added} new ${added === 1 ? 'activity' : 'activities'}.`
+  }
+  if (record.status === 'skipped') {
+    return `Last automatic sync ${when} was skipped because you were not logged in.`
+  }
+  return `Last automatic sync ${when} failed: ${record.error ?? 'unknown error'}.`
+}
+
+function formatImportDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : 'unknown'
+}
@@ -1,30 +1,100 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
-import type { ExtensionCache, ExtensionSettings } from '../../shared/types'
+import { AUTO_SYNC_RECORD_KEY, loadAutoSyncRecord } from '../../shared/auto-sync'
+import {
+  CACHE_CHANGED_KEY,
+  clearExtensionCache,
+  loadExtensionCache,
+  saveExtensionCache,
+} from '../../shared/cache'
+import { buildExportFiles, downloadExportFiles, type ExportFormat } from '../../shared/export'
+import {
+  applyImport,
+  type ImportMode,
+  type ImportPreview,
+  parseImportFile,
+} from '../../shared/import'
+import { onEvents, sendRequest } from '../../shared/messages'
+import { formatRoleMappings, parseRoleMappings } from '../../shared/roles'
+import {
+  DEFAULT_EXTENSION_SETTINGS,
+  FETCH_CONCURRENCY_RANGE,
+  FETCH_DELAY_RANGE_MS,
+  normalizeExtensionSettings,
+  RESYNC_STALE_DAYS_RANGE,
+  SETTINGS_KEY,
+} from '../../shared/settings'
+import { isTombstoned, purgeTombstonedActivities } from '../../shared/tombstones'
+import type {
+  ActivityRecord,
+  AutoSyncFrequency,
+  AutoSyncRecord,
+  ExtensionCache,
+  ExtensionSettings,
+  RefreshMode,
+} from '../../shared/types'
 
-const STORAGE_KEY = 'mountaineersAssistantData'
-const SETTINGS_KEY = 'mountaineersAssistantSettings'
-
-const defaultSettings: ExtensionSettings = {
-  showAvatars: true,
-  fetchLimit: null,
-}
+const SYNC_IN_PROGRESS_MESSAGE = 'A refresh is running. Try again once it finishes.'
 
 interface PreferencesControllerState {
   statusMessage: string
   cacheContent: string
   showAvatars: boolean
+  countUnsuccessful: boolean
+  showRemovedActivities: boolean
+  removedActivities: ActivityRecord[]
   fetchLimitInput: string
+  fetchConcurrencyInput: string
+  fetchDelayInput: string
+  resyncStaleDaysInput: string
+  roleMappingsInput: string
+  autoSyncFrequency: AutoSyncFrequency
+  quietHoursStart: number
+  quietHoursEnd: number
+  lastAutoSync: AutoSyncRecord | null
+  resyncMode: Exclude<RefreshMode, 'new'>
+  resyncMessage: string
   isRefreshing: boolean
+  /**
+   * A refresh or re-sync is running in the background. It writes back what it loaded when it
+   * started, so cache edits made meanwhile would be lost; they wait until it finishes.
+   */
+  isSyncing: boolean
   isClearing: boolean
   isSaving: boolean
+  isResyncing: boolean
+  isPurging: boolean
+  importFileName: string | null
+  importPreview: ImportPreview | null
+  importErrors: string[]
+  /** Set when the file belongs to a different member than the current cache. */
+  importWarning: string | null
+  importMode: ImportMode
+  isImporting: boolean
 }
 
 interface PreferencesControllerActions {
   setShowAvatars: (value: boolean) => void
+  setCountUnsuccessful: (value: boolean) => void
+  setShowRemovedActivities: (value: boolean) => void
+  purgeRemovedActivities: () => Promise<void>
   setFetchLimitInput: (value: string) => void
+  setFetchConcurrencyInput: (value: string) => void
+  setFetchDelayInput: (value: string) => void
+  setResyncStaleDaysInput: (value: string) => void
+  setRoleMappingsInput: (value: string) => void
+  setAutoSyncFrequency: (value: AutoSyncFrequency) => void
+  setQuietHoursStart: (value: number) => void
+  setQuietHoursEnd: (value: number) => void
+  setResyncMode: (mode: Exclude<RefreshMode, 'new'>) => void
+  startResync: () => Promise<void>
   normalizeFetchLimitInput: () => void
   refreshCache: () => Promise<void>
   clearCache: () => Promise<void>
+  exportCache: (format: ExportFormat) => Promise<void>
+  selectImportFile: (file: File | null) => Promise<void>
+  setImportMode: (mode: ImportMode) => void
+  confirmImport: () => Promise<void>
+  cancelImport: () => void
   savePreferences: () => Promise<void>
 }
 
@@ -32,16 +102,63 @@ export const usePreferencesController = (): PreferencesControllerState &
   PreferencesControllerActions => {
   const [statusMessage, setStatusMessage] = useState<string>('Loading cached data…')
   const [cacheContent, setCacheContent] = useState<string>('// loading…')
-  const [showAvatars, setShowAvatarsState] = useState<boolean>(defaultSettings.showAvatars)
+  const [showAvatars, setShowAvatarsState] = useState<boolean>(
+    DEFAULT_EXTENSION_SETTINGS.showAvatars
+  )
+  const [countUnsuccessful, setCountUnsuccessfulState] = useState<boolean>(
+    DEFAULT_EXTENSION_SETTINGS.countUnsuccessful
+  )
+  const [showRemovedActivities, setShowRemovedActivities] = useState<boolean>(
+    DEFAULT_EXTENSION_SETTINGS.showRemovedActivities
+  )
+  const [removedActivities, setRemovedActivities] = useState<ActivityRecord[]>([])
   const [fetchLimitInput, setFetchLimitInputState] = useState<string>('')
+  const [fetchConcurrencyInput, setFetchConcurrencyInput] = useState<string>(
+    String(DEFAULT_EXTENSION_SETTINGS.fetchConcurrency)
+  )
+  const [fetchDelayInput, setFetchDelayInput] = useState<string>(
+    String(DEFAULT_EXTENSION_SETTINGS.fetchDelayMs)
+  )
+  const [resyncStaleDaysInput, setResyncStaleDaysInput] = useState<string>(
+    String(DEFAULT_EXTENSION_SETTINGS.resyncStaleDays)
+  )
+  const [roleMappingsInput, setRoleMappingsInput] = useState<string>(
+    formatRoleMappings(DEFAULT_EXTENSION_SETTINGS.roleMappings)
+  )
+  const [autoSyncFrequency, setAutoSyncFrequency] = useState<AutoSyncFrequency>(
+    DEFAULT_EXTENSION_SETTINGS.autoSyncFrequency
+  )
+  const [quietHoursStart, setQuietHoursStart] = useState<number>(
+    DEFAULT_EXTENSION_SETTINGS.quietHoursStart
+  )
+  const [quietHoursEnd, setQuietHoursEnd] = useState<number>(
+    DEFAULT_EXTENSION_SETTINGS.quietHoursEnd
+  )
+  const [lastAutoSync, setLastAutoSync] = useState<AutoSyncRecord | null>(null)
+  const [resyncMode, setResyncMode] = useState<Exclude<RefreshMode, 'new'>>('stale')
+  const [resyncMessage, setResyncMessage] = useState<string>('')
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false)
+  const [isSyncing, setIsSyncing] = useState<boolean>(false)
   const [isClearing, setIsClearing] = useState<boolean>(false)
   const [isSaving, setIsSaving] = useState<boolean>(false)
+  const [isResyncing, setIsResyncing] = useState<boolean>(false)
+  const [isPurging, setIsPurging] = useState<boolean>(false)
+  const [importFileName, setImportFileName] = useState<string | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  const [importedCache, setImportedCache] = useState<ExtensionCache | null>(null)
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const [importWarning, setImportWarning] = useState<string | null>(null)
+  const [importMode, setImportMode] = useState<ImportMode>('merge')
+  const [isImporting, setIsImporting] = useState<boolean>(false)
 
   const setShowAvatars = useCallback((value: boolean) => {
     setShowAvatarsState(Boolean(value))
   }, [])
 
+  const setCountUnsuccessful = useCallback((value: boolean) => {
+    setCountUnsuccessfulState(Boolean(value))
+  }, [])
+
   const setFetchLimitInput = useCallback((value: string) => {
     setFetchLimitInputState(value)
   }, [])
@@ -62,9 +179,18 @@ export const usePreferencesController = (): PreferencesControllerState &
   const loadSettings = useCallback(async () => {
     try {
       const stored = await chrome.storage.local.get(SETTINGS_KEY)
-      const settings = normalizeSettings(stored?.[SETTINGS_KEY])
+      const settings = normalizeExtensionSettings(stored?.[SETTINGS_KEY])
       setShowAvatarsState(Boolean(settings.showAvatars))
+      setCountUnsuccessfulState(Boolean(settings.countUnsuccessful))
+      setShowRemovedActivities(settings.showRemovedActivities)
       setFetchLimitInputState(settings.fetchLimit ? String(settings.fetchLimit) : '')
+      setFetchConcurrencyInput(String(settings.fetchConcurrency))
+      setFetchDelayInput(String(settings.fetchDelayMs))
+      setResyncStaleDaysInput(String(settings.resyncStaleDays))
+      setRoleMappingsInput(formatRoleMappings(settings.roleMappings))
+      setAutoSyncFrequency(settings.autoSyncFrequency)
+      setQuietHoursStart(settings.quietHoursStart)
+      setQuietHoursEnd(settings.quietHoursEnd)
       return settings
     } catch (error) {
       console.error('Mountaineers Assistant preferences: failed to load settings', error)
@@ -78,20 +204,23 @@ export const usePreferencesController = (): PreferencesControllerState &
     setCacheContent('')
 
     try {
-      const stored = await chrome.storage.local.get(STORAGE_KEY)
-      const payload = stored?.[STORAGE_KEY] as ExtensionCache | undefined
+      const payload = await loadExtensionCache()
 
       if (!payload) {
         setStatusMessage(
           'No cached data found yet. Refresh activities from the Insights tab to populate this view.'
         )
         setCacheContent('// cache empty')
+        setRemovedActivities([])
         return null
       }
 
       const summary = buildSummary(payload)
       setStatusMessage(summary)
       setCacheContent(JSON.stringify(payload, null, 2))
+      setRemovedActivities(
+        Array.isArray(payload.activities) ? payload.activities.filter(isTombstoned) : []
+      )
       return payload
     } catch (error) {
       console.error('Mountaineers Assistant preferences: failed to load cache', error)
@@ -103,18 +232,33 @@ export const usePreferencesController = (): PreferencesControllerState &
     }
   }, [])
 
+  const loadLastAutoSync = useCallback(async () => {
+    try {
+      setLastAutoSync(await loadAutoSyncRecord())
+    } catch (error) {
+      console.warn(
+        'Mountaineers Assistant preferences: failed to load automatic sync record',
+        error
+      )
+    }
+  }, [])
+
   const refreshCache = useCallback(async () => {
     setIsRefreshing(true)
     try {
-      await Promise.all([loadCache(), loadSettings()])
+      await Promise.all([loadCache(), loadSettings(), loadLastAutoSync()])
     } catch {
       // Errors already reported inside helpers.
     } finally {
       setIsRefreshing(false)
     }
-  }, [loadCache, loadSettings])
+  }, [loadCache, loadLastAutoSync, loadSettings])
 
   const clearCache = useCallback(async () => {
+    if (isSyncing) {
+      setStatusMessage(SYNC_IN_PROGRESS_MESSAGE)
+      return
+    }
     const confirmed = window.confirm(
       'Clearing the cache will remove all downloaded activities and related data. Do you want to continue?'
     )
@@ -126,7 +270,7 @@ export const usePreferencesController = (): PreferencesControllerState &
     setIsClearing(true)
     setStatusMessage('Clearing cached data…')
     try {
-      await chrome.storage.local.remove(STORAGE_KEY)
+      await clearExtensionCache()
       await loadCache()
       setStatusMessage('Cached data cleared.')
     } catch (error) {
@@ -137,7 +281,133 @@ export const usePreferencesController = (): PreferencesControllerState &
     } finally {
       setIsClearing(false)
     }
-  }, [loadCache])
+  }, [isSyncing, loadCache])
+
+  const exportCache = useCallback(async (format: ExportFormat) => {
+    try {
+      const payload = await loadExtensionCache()
+      if (!payload) {
+        setStatusMessage('No cached data to export yet.')
+        return
+      }
+      downloadExportFiles(buildExportFiles(payload, format))
+      const count = payload.activities.length
+      setStatusMessage(`Exported ${count} ${count === 1 ? 'activity' : 'activities'}.`)
+    } catch (error) {
+      console.error('Mountaineers Assistant preferences: failed to export cache', error)
+      setStatusMessage(error instanceof Error ? error.message : 'Unable to export cached data.')
+    }
+  }, [])
+
+  const cancelImport = useCallback(() => {
+    setImportFileName(null)
+    setImportPreview(null)
+    setImportedCache(null)
+    setImportErrors([])
+    setImportWarning(null)
+  }, [])
+
+  const selectImportFile = useCallback(
+    async (file: File | null) => {
+      cancelImport()
+      if (!file) {
+        return
+      }
+      setImportFileName(file.name)
+      try {
+        const parsed = parseImportFile(await file.text())
+        if (!parsed.ok) {
+          setImportErrors(parsed.errors)
+          return
+        }
+        const existing = await loadExtensionCache()
+        if (
+          existing?.currentUserUid &&
+          parsed.cache.currentUserUid &&
+          existing.currentUserUid !== parsed.cache.currentUserUid
+        ) {
+          setImportWarning(
+            'This file was collected by a different member than the current cache. Merging will mix both histories.'
+          )
+        }
+        setImportedCache(parsed.cache)
+        setImportPreview(parsed.preview)
+      } catch (error) {
+        console.error('Mountaineers Assistant preferences: failed to read import file', error)
+        setImportErrors([error instanceof Error ? error.message : 'Unable to read the file.'])
+      }
+    },
+    [cancelImport]
+  )
+
+  const confirmImport = useCallback(async () => {
+    if (!importedCache) {
+      return
+    }
+    if (isSyncing) {
+      setStatusMessage(SYNC_IN_PROGRESS_MESSAGE)
+      return
+    }
+    if (
+      importMode === 'replace' &&
+      !window.confirm(
+        'Replacing discards every activity currently cached. Do you want to continue?'
+      )
+    ) {
+      return
+    }
+
+    setIsImporting(true)
+    try {
+      const existing = await loadExtensionCache()
+      await saveExtensionCache(applyImport(existing, importedCache, importMode))
+      const count = importedCache.activities.length
+      cancelImport()
+      await loadCache()
+      setStatusMessage(
+        `${importMode === 'replace' ? 'Replaced the cache with' : 'Merged'} ${count} imported ${count === 1 ? 'activity' : 'activities'}.`
+      )
+    } catch (error) {
+      console.error('Mountaineers Assistant preferences: failed to import cache', error)
+      setStatusMessage(error instanceof Error ? error.message : 'Unable to import the file.')
+    } finally {
+      setIsImporting(false)
+    }
+  }, [cancelImport, importMode, importedCache, isSyncing, loadCache])
+
+  const purgeRemovedActivities = useCallback(async () => {
+    if (isSyncing) {
+      setStatusMessage(SYNC_IN_PROGRESS_MESSAGE)
+      return
+    }
+    const confirmed = window.confirm(
+      'Purging removes these activities and their rosters from the cache. Do you want to continue?'
+    )
+    if (!confirmed) {
+      return
+    }
+
+    setIsPurging(true)
+    try {
+      const payload = await loadExtensionCache()
+      if (!payload) {
+        return
+      }
+      const { cache, purged } = purgeTombstonedActivities(payload)
+      if (purged) {
+        await saveExtensionCache(cache)
+      }
+      await loadCache()
+      setStatusMessage(`Purged ${purged} removed ${purged === 1 ? 'activity' : 'activities'}.`)
+    } catch (error) {
+      console.error('Mountaineers Assistant preferences: failed to purge removed activities', error)
+      setStatusMessage(
+        error instanceof Error ? error.message : 'Unable to purge removed activities.'
+      )
+    } finally {
+      setIsPurging(false)
+    }
+  }, [isSyncing, loadCache])
 
   const savePreferences = useCallback(async () => {
     const trimmed = fetchLimitInput.trim()
@@ -148,14 +418,53 @@ export const usePreferencesController = (): PreferencesControllerState &
       return
     }
 
+    const parsedConcurrency = parseIntegerInRange(fetchConcurrencyInput, FETCH_CONCURRENCY_RANGE)
+    if (parsedConcurrency === null) {
+      setStatusMessage(
+        `Parallel requests must be between ${FETCH_CONCURRENCY_RANGE.min} and ${FETCH_CONCURRENCY_RANGE.max}.`
+      )
+      return
+    }
+
+    const parsedDelay = parseIntegerInRange(fetchDelayInput, FETCH_DELAY_RANGE_MS)
+    if (parsedDelay === null) {
+      setStatusMessage(
+        `Request delay must be between ${FETCH_DELAY_RANGE_MS.min} and ${FETCH_DELAY_RANGE_MS.max} milliseconds.`
+      )
+      return
+    }
+
+    const parsedStaleDays = parseIntegerInRange(resyncStaleDaysInput, RESYNC_STALE_DAYS_RANGE)
+    if (parsedStaleDays === null) {
+      setStatusMessage(
+        `Re-sync age must be between ${RESYNC_STALE_DAYS_RANGE.min} and ${RESYNC_STALE_DAYS_RANGE.max} days.`
+      )
+      return
+    }
+
+    const parsedRoleMappings = parseRoleMappings(roleMappingsInput)
+    if (parsedRoleMappings.errors.length) {
+      setStatusMessage(`Role mappings: ${parsedRoleMappings.errors[0]}`)
+      return
+    }
+
     setIsSaving(true)
     try {
       const stored = await chrome.storage.local.get(SETTINGS_KEY)
-      const current = normalizeSettings(stored?.[SETTINGS_KEY])
+      const current = normalizeExtensionSettings(stored?.[SETTINGS_KEY])
       const next: ExtensionSettings = {
         ...current,
         showAvatars,
+        countUnsuccessful,
+        showRemovedActivities,
         fetchLimit: parsedLimit,
+        fetchConcurrency: parsedConcurrency,
+        fetchDelayMs: parsedDelay,
+        resyncStaleDays: parsedStaleDays,
+        roleMappings: parsedRoleMappings.mappings,
+        autoSyncFrequency,
+        quietHoursStart,
+        quietHoursEnd,
       }
       await chrome.storage.local.set({ [SETTINGS_KEY]: next })
       setStatusMessage('Preferences saved.')
@@ -168,12 +477,66 @@ export const usePreferencesController = (): PreferencesControllerState &
     } finally {
       setIsSaving(false)
     }
-  }, [fetchLimitInput, showAvatars])
+  }, [
+    autoSyncFrequency,
+    countUnsuccessful,
+    fetchConcurrencyInput,
+    fetchDelayInput,
+    fetchLimitInput,
+    quietHoursEnd,
+    quietHoursStart,
+    resyncStaleDaysInput,
+    roleMappingsInput,
+    showAvatars,
+    showRemovedActivities,
+  ])
+
+  const startResync = useCallback(async () => {
+    setIsResyncing(true)
+    setResyncMessage('Re-sync running… progress is shown on the Insights page.')
+    try {
+      const stored = await chrome.storage.local.get(SETTINGS_KEY)
+      const settings = normalizeExtensionSettings(stored?.[SETTINGS_KEY])
+      const response = await sendRequest('start-refresh', {
+        limit: settings.fetchLimit,
+        mode: resyncMode,
+      })
+
+      if (!response.success) {
+        setResyncMessage(response.error || 'Re-sync failed.')
+        return
+      }
+      const refreshed = response.summary.refreshedActivities ?? 0
+      const added = response.summary.newActivities
+      const prefix = response.summary.cancelled ? 'Re-sync cancelled. ' : ''
+      const failed = response.summary.failedActivities ?? 0
+      const suffix = failed ? ` ${failed} could not be fully loaded.` : ''
+      setResyncMessage(
+        `${prefix}Re-synced ${refreshed} activities and cached ${added} new ones.${suffix}`
+      )
+    } catch (error) {
+      console.error('Mountaineers Assistant preferences: re-sync failed', error)
+      setResyncMessage(error instanceof Error ? error.message : 'Re-sync failed.')
+    } finally {
+      setIsResyncing(false)
+    }
+  }, [resyncMode])
 
   useEffect(() => {
     refreshCache()
   }, [refreshCache])
 
+  useEffect(() => {
+    sendRequest('get-refresh-status', {})
+      .then((response) => setIsSyncing(response.inProgress))
+      .catch((error) => {
+        console.warn('Mountaineers Assistant preferences: failed to read refresh status', error)
+      })
+    return onEvents({
+      'refresh-status-changed': (payload) => setIsSyncing(payload.inProgress),
+    })
+  }, [])
+
   useEffect(() => {
     const storageListener: Parameters<typeof chrome.storage.onChanged.addListener>[0] = (
       changes,
@@ -182,7 +545,7 @@ export const usePreferencesController = (): PreferencesControllerState &
       if (areaName !== 'local') {
         return
       }
-      if (changes[STORAGE_KEY]) {
+      if (changes[CACHE_CHANGED_KEY]) {
         loadCache().catch(() => {
           // Error already handled in loadCache.
         })
@@ -192,66 +555,119 @@ export const usePreferencesController = (): PreferencesControllerState &
           // Error already handled in loadSettings.
         })
       }
+      if (changes[AUTO_SYNC_RECORD_KEY]) {
+        loadLastAutoSync()
+      }
     }
 
     chrome.storage.onChanged.addListener(storageListener)
     return () => {
       chrome.storage.onChanged.removeListener(storageListener)
     }
-  }, [loadCache, loadSettings])
+  }, [loadCache, loadLastAutoSync, loadSettings])
 
   return useMemo(
     () => ({
       statusMessage,
       cacheContent,
       showAvatars,
+      countUnsuccessful,
+      showRemovedActivities,
+      removedActivities,
       fetchLimitInput,
+      fetchConcurrencyInput,
+      fetchDelayInput,
+      resyncStaleDaysInput,
+      roleMappingsInput,
+      autoSyncFrequency,
+      quietHoursStart,
+      quietHoursEnd,
+      lastAutoSync,
+      resyncMode,
+      resyncMessage,
       isRefreshing,
+      isSyncing,
       isClearing,
       isSaving,
+      isResyncing,
+      isPurging,
       setShowAvatars,
+      setCountUnsuccessful,
+      setShowRemovedActivities,
+      purgeRemovedActivities,
       setFetchLimitInput,
+      setFetchConcurrencyInput,
+      setFetchDelayInput,
+      setResyncStaleDaysInput,
+      setRoleMappingsInput,
+      setAutoSyncFrequency,
+      setQuietHoursStart,
+      setQuietHoursEnd,
+      setResyncMode,
+      startResync,
       normalizeFetchLimitInput,
       refreshCache,
       clearCache,
+      exportCache,
+      importFileName,
+      importPreview,
+      importErrors,
+      importWarning,
+      importMode,
+      isImporting,
+      selectImportFile,
+      setImportMode,
+      confirmImport,
+      cancelImport,
       savePreferences,
     }),
     [
+      autoSyncFrequency,
       cacheContent,
       clearCache,
+      cancelImport,
+      confirmImport,
+      countUnsuccessful,
+      exportCache,
+      fetchConcurrencyInput,
+      fetchDelayInput,
       fetchLimitInput,
+      importErrors,
+      importFileName,
+      importMode,
+      importPreview,
+      importWarning,
       isClearing,
+      isImporting,
+      isPurging,
       isRefreshing,
+      isResyncing,
       isSaving,
+      isSyncing,
+      lastAutoSync,
       normalizeFetchLimitInput,
+      purgeRemovedActivities,
+      quietHoursEnd,
+      quietHoursStart,
       refreshCache,
+      removedActivities,
+      resyncMessage,
+      resyncMode,
+      resyncStaleDaysInput,
+      roleMappingsInput,
       savePreferences,
+      selectImportFile,
+      setCountUnsuccessful,
       setFetchLimitInput,
       setShowAvatars,
       showAvatars,
+      showRemovedActivities,
+      startResync,
       statusMessage,
     ]
   )
 }
 
-function normalizeSettings(value: unknown): ExtensionSettings {
-  if (!value || typeof value !== 'object') {
-    return { ...defaultSettings }
-  }
-  const candidate = value as Partial<ExtensionSettings>
-  const fetchLimit = candidate.fetchLimit ?? null
-  return {
-    showAvatars:
-      typeof candidate.showAvatars === 'boolean'
-        ? candidate.showAvatars
-        : defaultSettings.showAvatars,
-    fetchLimit:
-      typeof fetchLimit === 'number' && Number.isFinite(fetchLimit) && fetchLimit > 0
-        ? Math.floor(fetchLimit)
-        : defaultSettings.fetchLimit,
-  }
-}
-
 function parseFetchLimit(value: string): number | null {
   if (!value) {
     return null
@@ -263,12 +679,28 @@ function parseFetchLimit(value: string): number | null {
   return parsed
 }
 
+function parseIntegerInRange(value: string, range: { min: number; max: number }): number | null {
+  const trimmed = value.trim()
+  if (!/^\d+$/.test(trimmed)) {
+    return null
+  }
+  const parsed = Number.parseInt(trimmed, 10)
+  if (parsed < range.min || parsed > range.max) {
+    return null
+  }
+  return parsed
+}
+
 function buildSummary(cache: ExtensionCache): string {
   const activityCount = Array.isArray(cache.activities) ? cache.activities.length : 0
   const peopleCount = Array.isArray(cache.people) ? cache.people.length : 0
   const rosterCount = Array.isArray(cache.rosterEntries) ? cache.rosterEntries.length : 0
+  const failedCount = Array.isArray(cache.failedActivities) ? cache.failedActivities.length : 0
   const lastUpdated = cache.lastUpdated ? formatTimestamp(cache.lastUpdated) : 'never'
-  return `Cached ${activityCount} activities, ${peopleCount} people, ${rosterCount} roster entries — last refreshed ${lastUpdated}.`
+  const failedNote = failedCount
+    ? ` ${failedCount} ${failedCount === 1 ? 'activity' : 'activities'} failed to load and can be retried.`
+    : ''
+  return `Cached ${activityCount} activities, ${peopleCount} people, ${rosterCount} roster entries — last refreshed ${lastUpdated}.${failedNote}`
 }
 
 function formatTimestamp(value: string): string {
@@ -0,0 +1,159 @@
+/**
+ * Parser for the `.program-core .details` list on Mountaineers.org activity pages.
+ * Shared by the offscreen collector (fetched HTML) and the calendar content script (live page).
+ */
+
+export const ACTIVITY_DETAILS_SELECTOR = '.program-core .details li'
+
+export interface DetailLink {
+  text: string
+  href: string | null
+}
+
+/** One `<li>` of the details list: its label (lowercase, without trailing colon) and value. */
+export interface DetailEntry {
+  label: string
+  value: string
+  links: DetailLink[]
+}
+
+export interface ActivityDetails {
+  activityType: string | null
+  difficultyRating: string | null
+  leaderRating: string | null
+  /** Date values are the raw page text; see parseDetailDate. */
+  startDate: string | null
+  endDate: string | null
+  registrationOpens: string | null
+  location: string | null
+  branch: string | null
+  committee: string | null
+  leaderNames: string[]
+  route: DetailLink | null
+}
+
+export function normalizeWhitespace(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const cleaned = value.replace(/\s+/g, ' ').trim()
+  return cleaned || null
+}
+
+/**
+ * Read the label/value pairs of the details list under `root`.
+ */
+export function readDetailEntries(root: ParentNode): DetailEntry[] {
+  const entries: DetailEntry[] = []
+  for (const item of Array.from(root.querySelectorAll(ACTIVITY_DETAILS_SELECTOR))) {
+    const label = normalizeWhitespace(item.querySelector('label')?.textContent)
+    const labelText = label?.replace(/:$/, '').toLowerCase()
+    if (!labelText) continue
+
+    // Clone the item and remove the label to get just the value
+    const clone = item.cloneNode(true) as Element
+    clone.querySelector('label')?.remove()
+    const value = normalizeWhitespace(clone.textContent)
+    if (!value) continue
+
+    const links = Array.from(clone.querySelectorAll('a'))
+      .map((link) => ({
+        text: normalizeWhitespace(link.textContent) ?? '',
+        href: link.getAttribute('href'),
+      }))
+      .filter((link) => link.text)
+
+    entries.push({ label: labelText, value, links })
+  }
+  return entries
+}
+
+/**
+ * Map detail entries to the fields the extension uses. Unknown labels are ignored.
+ */
+export function parseActivityDetails(entries: readonly DetailEntry[]): ActivityDetails {
+  const details: ActivityDetails = {
+    activityType: null,
+    difficultyRating: null,
+    leaderRating: null,
+    startDate: null,
+    endDate: null,
+    registrationOpens: null,
+    location: null,
+    branch: null,
+    committee: null,
+    leaderNames: [],
+    route: null,
+  }
+
+  for (const { label, value, links } of entries) {
+    if (label === 'activity type') {
+      details.activityType = value
+    } else if (label === 'difficulty') {
+      details.difficultyRating = value
+    } else if (label === 'leader rating') {
+      details.leaderRating = value
+    } else if (label === 'start date' || label === 'date') {
+      details.startDate = value
+    } else if (label === 'end date') {
+      details.endDate = value
+    } else if (label === 'location' || label === 'meeting place') {
+      details.location = value
+    } else if (label.includes('registration opens')) {
+      details.registrationOpens = value
+    } else if (label === 'branch') {
+      details.branch = value
+    } else if (label === 'committee') {
+      details.committee = value
+    } else if (/^(co-|assistant )?leaders?$/.test(label)) {
+      const names = links.length ? links.map((link) => link.text) : value.split(/\s*[,;]\s*/)
+      for (const name of names) {
+        if (name && !details.leaderNames.includes(name)) {
+          details.leaderNames.push(name)
+        }
+      }
+    } else if (/^(route|place|route\/place|destination)$/.test(label)) {
+      details.route = links[0] ?? { text: value, href: null }
+    }
+  }
+
+  return details
+}
+
+/**
+ * Split a page date such as "Sat, Jan 20, 2024, 9:00 AM" into calendar components.
+ * No time zone is applied; callers decide how to interpret the wall-clock time.
+ */
+export function parseDetailDate(value: string | null): {
+  year: number
+  month: number
+  day: number
+  hours: number
+  minutes: number
+} | null {
+  if (!value) {
+    return null
+  }
+  // Remove day of week if present: "Sat, Jan 20, 2024, 9:00 AM" -> "Jan 20, 2024, 9:00 AM"
+  const withoutDayOfWeek = value.replace(/^(Mon|Tue|Wed|Thu|Fri|Sat|Sun),?\s*/i, '')
+  const parsed = new Date(withoutDayOfWeek)
+  if (Number.isNaN(parsed.getTime())) {
+    return null
+  }
+  return {
+    year: parsed.getFullYear(),
+    month: parsed.getMonth(),
+    day: parsed.getDate(),
+    hours: parsed.getHours(),
+    minutes: parsed.getMinutes(),
+  }
+}
+
+/** Convert a page date to an ISO timestamp, the format `start_date` is stored in. */
+export function detailDateToIso(value: string | null): string | null {
+  const parts = parseDetailDate(value)
+  if (!parts) {
+    return null
+  }
+  return new Date(parts.year, parts.month, parts.day, parts.hours, parts.minutes).toISOString()
+}
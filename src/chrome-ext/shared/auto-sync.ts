@@ -0,0 +1,97 @@
+/**
+ * Scheduling rules for the opt-in automatic sync. The background wakes up on an hourly
+ * alarm and uses these helpers to decide whether a sync is due.
+ */
+
+import type { AutoSyncFrequency, AutoSyncRecord, ExtensionSettings } from './types'
+
+export const AUTO_SYNC_ALARM = 'mountaineersAssistantAutoSync'
+export const AUTO_SYNC_RECORD_KEY = 'mountaineersAssistantAutoSyncLastRun'
+
+/** How often the alarm checks whether a sync is due. */
+export const AUTO_SYNC_CHECK_MINUTES = 60
+
+export const AUTO_SYNC_FREQUENCIES: AutoSyncFrequency[] = ['off', 'daily', 'weekly']
+
+const HOUR_MS = 60 * 60 * 1000
+
+const FREQUENCY_INTERVAL_MS: Record<Exclude<AutoSyncFrequency, 'off'>, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+}
+
+export function isAutoSyncFrequency(value: unknown): value is AutoSyncFrequency {
+  return typeof value === 'string' && (AUTO_SYNC_FREQUENCIES as string[]).includes(value)
+}
+
+export function getAutoSyncFrequencyLabel(frequency: AutoSyncFrequency): string {
+  switch (frequency) {
+    case 'daily':
+      return 'Once a day'
+    case 'weekly':
+      return 'Once a week'
+    default:
+      return 'Off'
+  }
+}
+
+/**
+ * Quiet hours run from `start` up to (not including) `end`, in local hours, and may wrap
+ * past midnight. Equal values disable them.
+ */
+export function isWithinQuietHours(date: Date, start: number, end: number): boolean {
+  if (start === end) {
+    return false
+  }
+  const hour = date.getHours()
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end
+}
+
+/**
+ * Decide whether the alarm that just fired should start a sync. Any recorded attempt,
+ * including one skipped because the user was logged out, counts towards the interval.
+ */
+export function getAutoSyncDecision(
+  settings: Pick<ExtensionSettings, 'autoSyncFrequency' | 'quietHoursStart' | 'quietHoursEnd'>,
+  lastRun: AutoSyncRecord | null,
+  now: Date = new Date()
+): { run: true } | { run: false; reason: 'disabled' | 'quiet-hours' | 'not-due' } {
+  if (settings.autoSyncFrequency === 'off') {
+    return { run: false, reason: 'disabled' }
+  }
+  if (isWithinQuietHours(now, settings.quietHoursStart, settings.quietHoursEnd)) {
+    return { run: false, reason: 'quiet-hours' }
+  }
+  const lastStarted = lastRun ? Date.parse(lastRun.startedAt) : Number.NaN
+  if (
+    !Number.isNaN(lastStarted) &&
+    now.getTime() - lastStarted < FREQUENCY_INTERVAL_MS[settings.autoSyncFrequency]
+  ) {
+    return { run: false, reason: 'not-due' }
+  }
+  return { run: true }
+}
+
+export function isAutoSyncRecord(value: unknown): value is AutoSyncRecord {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const candidate = value as Partial<AutoSyncRecord>
+  return (
+    typeof candidate.startedAt === 'string' &&
+    typeof candidate.finishedAt === 'string' &&
+    (candidate.status === 'success' ||
+      candidate.status === 'skipped' ||
+      candidate.status === 'error')
+  )
+}
+
+export async function loadAutoSyncRecord(): Promise<AutoSyncRecord | null> {
+  const stored = (await chrome.storage.local.get(AUTO_SYNC_RECORD_KEY)) as Record<string, unknown>
+  const value = stored?.[AUTO_SYNC_RECORD_KEY]
+  return isAutoSyncRecord(value) ? value : null
+}
+
+export async function saveAutoSyncRecord(record: AutoSyncRecord): Promise<void> {
+  await chrome.storage.local.set({ [AUTO_SYNC_RECORD_KEY]: record })
+}
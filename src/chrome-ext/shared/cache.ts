@@ -0,0 +1,350 @@
+/**
+ * Data access for the activity cache, shared by the background, insights and preferences.
+ *
+ * Activities, people and roster entries live in their own IndexedDB object stores so a sync
+ * can write each delta in one small transaction instead of rewriting everything. Reads always
+ * go through the migrations so every caller sees the current schema, whichever version of the
+ * extension wrote the data.
+ */
+
+import { CACHE_SCHEMA_VERSION, migrateCache, migrateSettings } from './migrations'
+import { SETTINGS_KEY } from './settings'
+import type {
+  ActivityRecord,
+  CollectorDelta,
+  ExtensionCache,
+  PersonRecord,
+  RosterEntryRecord,
+} from './types'
+
+/** Older versions kept the whole cache as one blob under this chrome.storage.local key. */
+export const LEGACY_CACHE_KEY = 'mountaineersAssistantData'
+
+/**
+ * IndexedDB has no change events, so every write bumps this chrome.storage.local key and
+ * pages listen for it through chrome.storage.onChanged.
+ */
+export const CACHE_CHANGED_KEY = 'mountaineersAssistantCacheChangedAt'
+
+/** The value written under CACHE_CHANGED_KEY. */
+export interface CacheChangeNotice {
+  changedAt: number
+  /** The page or worker that wrote, so it can tell its own writes from everyone else's. */
+  writerId: string
+}
+
+const WRITER_ID = crypto.randomUUID()
+
+const DB_NAME = 'mountaineersAssistant'
+const DB_VERSION = 1
+const ACTIVITY_STORE = 'activities'
+const PEOPLE_STORE = 'people'
+const ROSTER_STORE = 'rosterEntries'
+const META_STORE = 'meta'
+const META_KEY = 'cache'
+const ALL_STORES = [ACTIVITY_STORE, PEOPLE_STORE, ROSTER_STORE, META_STORE]
+
+/** Everything in the cache except the record collections. */
+export type CacheMeta = Omit<ExtensionCache, 'activities' | 'people' | 'rosterEntries'>
+
+/** Records touched by one collector delta, written in a single transaction. */
+export interface CacheChanges {
+  activities: ActivityRecord[]
+  people: PersonRecord[]
+  rosterEntries: RosterEntryRecord[]
+  /** Activities whose cached roster entries are removed before `rosterEntries` are written. */
+  replacedRosterActivityUids: string[]
+  meta: CacheMeta
+}
+
+export function createEmptyCache(): ExtensionCache {
+  return {
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    activities: [],
+    people: [],
+    rosterEntries: [],
+    lastUpdated: null,
+    currentUserUid: null,
+  }
+}
+
+export function getCacheMeta(cache: ExtensionCache): CacheMeta {
+  const { activities: _activities, people: _people, rosterEntries: _roster, ...meta } = cache
+  return { ...meta, schemaVersion: CACHE_SCHEMA_VERSION }
+}
+
+/**
+ * Pick the records a delta touched out of the cache it was merged into, so only those are
+ * written back.
+ */
+export function selectCacheChanges(cache: ExtensionCache, delta: CollectorDelta): CacheChanges {
+  const activityUids = new Set((delta.activities ?? []).map((activity) => activity.uid))
+  const personUids = new Set((delta.people ?? []).map((person) => person.uid))
+  const rosterActivityUids = new Set([
+    ...(delta.rosterActivityUids ?? []),
+    ...(delta.rosterEntries ?? []).map((entry) => entry.activity_uid),
+  ])
+  return {
+    activities: cache.activities.filter((activity) => activityUids.has(activity.uid)),
+    people: cache.people.filter((person) => personUids.has(person.uid)),
+    rosterEntries: cache.rosterEntries.filter((entry) =>
+      rosterActivityUids.has(entry.activity_uid)
+    ),
+    replacedRosterActivityUids: [...new Set(delta.rosterActivityUids ?? [])],
+    meta: getCacheMeta(cache),
+  }
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openCacheDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) {
+    return databasePromise
+  }
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const activities = db.createObjectStore(ACTIVITY_STORE, { keyPath: 'uid' })
+      activities.createIndex('start_date', 'start_date')
+      db.createObjectStore(PEOPLE_STORE, { keyPath: 'uid' })
+      const roster = db.createObjectStore(ROSTER_STORE, {
+        keyPath: ['activity_uid', 'person_uid'],
+      })
+      roster.createIndex('activity_uid', 'activity_uid')
+      roster.createIndex('person_uid', 'person_uid')
+      db.createObjectStore(META_STORE)
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // Step aside when an updated extension needs to upgrade the database
+      db.onversionchange = () => {
+        db.close()
+        databasePromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+  })
+  databasePromise.catch(() => {
+    databasePromise = null
+  })
+  return databasePromise
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'))
+  })
+}
+
+/** Whether a CACHE_CHANGED_KEY change was written by this page or worker. */
+export function isOwnCacheChange(change: chrome.storage.StorageChange): boolean {
+  return (change.newValue as CacheChangeNotice | undefined)?.writerId === WRITER_ID
+}
+
+interface WriteOptions {
+  /** Bump CACHE_CHANGED_KEY once the transaction commits; on unless the write is internal. */
+  notify?: boolean
+}
+
+async function writeTransaction(
+  write: (transaction: IDBTransaction) => void,
+  { notify = true }: WriteOptions = {}
+): Promise<void> {
+  const db = await openCacheDatabase()
+  const transaction = db.transaction(ALL_STORES, 'readwrite')
+  const done = transactionDone(transaction)
+  write(transaction)
+  await done
+  if (notify) {
+    const notice: CacheChangeNotice = { changedAt: Date.now(), writerId: WRITER_ID }
+    await chrome.storage.local.set({ [CACHE_CHANGED_KEY]: notice })
+  }
+}
+
+function compareByStartDateDesc(a: ActivityRecord, b: ActivityRecord): number {
+  const dateA = a.start_date ? new Date(a.start_date).getTime() : 0
+  const dateB = b.start_date ? new Date(b.start_date).getTime() : 0
+  return dateB - dateA
+}
+
+async function readMeta(): Promise<CacheMeta | null> {
+  const db = await openCacheDatabase()
+  const transaction = db.transaction(META_STORE, 'readonly')
+  const meta = await requestResult(transaction.objectStore(META_STORE).get(META_KEY))
+  return (meta as CacheMeta | undefined) ?? null
+}
+
+async function readCache(): Promise<ExtensionCache | null> {
+  const db = await openCacheDatabase()
+  const transaction = db.transaction(ALL_STORES, 'readonly')
+  const [meta, activities, people, rosterEntries] = await Promise.all([
+    requestResult(transaction.objectStore(META_STORE).get(META_KEY)),
+    requestResult(transaction.objectStore(ACTIVITY_STORE).getAll()),
+    requestResult(transaction.objectStore(PEOPLE_STORE).getAll()),
+    requestResult(transaction.objectStore(ROSTER_STORE).getAll()),
+  ])
+  if (!meta) {
+    return null
+  }
+  return {
+    ...(meta as CacheMeta),
+    activities: (activities as ActivityRecord[]).sort(compareByStartDateDesc),
+    people: (people as PersonRecord[]).sort((a, b) => (a.name || '').localeCompare(b.name || '')),
+    rosterEntries: rosterEntries as RosterEntryRecord[],
+  }
+}
+
+/** Move a cache left in chrome.storage.local by an older version into IndexedDB. */
+async function importLegacyCache(): Promise<void> {
+  const stored = (await chrome.storage.local.get(LEGACY_CACHE_KEY)) as Record<string, unknown>
+  const legacy = stored?.[LEGACY_CACHE_KEY]
+  if (legacy == null) {
+    return
+  }
+  const { cache } = migrateCache(legacy)
+  if (cache) {
+    await replaceCache(cache, { notify: false })
+  }
+  await chrome.storage.local.remove(LEGACY_CACHE_KEY)
+}
+
+/**
+ * Bring the stored cache up to the current schema before anything reads it. The upgrade leaves
+ * the data as readers will see it either way, so it is written without a change notification;
+ * pages reload on those, and a page whose read upgrades the cache would reload forever.
+ */
+async function prepareCache(): Promise<void> {
+  await importLegacyCache()
+  const meta = await readMeta()
+  if (!meta || (meta.schemaVersion ?? 0) >= CACHE_SCHEMA_VERSION) {
+    return
+  }
+  const { cache } = migrateCache(await readCache())
+  if (cache) {
+    await replaceCache(cache, { notify: false })
+  }
+}
+
+export async function loadExtensionCache(): Promise<ExtensionCache | null> {
+  await prepareCache()
+  return readCache()
+}
+
+export async function loadCacheMeta(): Promise<CacheMeta | null> {
+  await prepareCache()
+  return readMeta()
+}
+
+/** Roster entries for one person, read through the person index. */
+export async function getRosterEntriesForPerson(personUid: string): Promise<RosterEntryRecord[]> {
+  await prepareCache()
+  const db = await openCacheDatabase()
+  const transaction = db.transaction(ROSTER_STORE, 'readonly')
+  const index = transaction.objectStore(ROSTER_STORE).index('person_uid')
+  return (await requestResult(index.getAll(personUid))) as RosterEntryRecord[]
+}
+
+/** Activities by UID; unknown UIDs are skipped. */
+export async function getActivitiesByUid(uids: readonly string[]): Promise<ActivityRecord[]> {
+  await prepareCache()
+  const db = await openCacheDatabase()
+  const store = db.transaction(ACTIVITY_STORE, 'readonly').objectStore(ACTIVITY_STORE)
+  const activities = await Promise.all(uids.map((uid) => requestResult(store.get(uid))))
+  return (activities as (ActivityRecord | undefined)[]).filter(
+    (activity): activity is ActivityRecord => Boolean(activity)
+  )
+}
+
+/** Replace the whole cache in one transaction. */
+export async function saveExtensionCache(cache: ExtensionCache): Promise<void> {
+  await replaceCache(cache)
+}
+
+async function replaceCache(cache: ExtensionCache, options?: WriteOptions): Promise<void> {
+  await writeTransaction((transaction) => {
+    for (const name of ALL_STORES) {
+      transaction.objectStore(name).clear()
+    }
+    const activities = transaction.objectStore(ACTIVITY_STORE)
+    for (const activity of cache.activities) {
+      activities.put(activity)
+    }
+    const people = transaction.objectStore(PEOPLE_STORE)
+    for (const person of cache.people) {
+      people.put(person)
+    }
+    const roster = transaction.objectStore(ROSTER_STORE)
+    for (const entry of cache.rosterEntries) {
+      roster.put(entry)
+    }
+    transaction.objectStore(META_STORE).put(getCacheMeta(cache), META_KEY)
+  }, options)
+}
+
+/** Write the records touched by one delta in a single transaction. */
+export async function applyCacheChanges(changes: CacheChanges): Promise<void> {
+  await writeTransaction((transaction) => {
+    const activities = transaction.objectStore(ACTIVITY_STORE)
+    for (const activity of changes.activities) {
+      activities.put(activity)
+    }
+    const people = transaction.objectStore(PEOPLE_STORE)
+    for (const person of changes.people) {
+      people.put(person)
+    }
+
+    const roster = transaction.objectStore(ROSTER_STORE)
+    const replaced = new Set(changes.replacedRosterActivityUids)
+    for (const entry of changes.rosterEntries) {
+      if (!replaced.has(entry.activity_uid)) {
+        roster.put(entry)
+      }
+    }
+    // Requests run in order, so the old roster is deleted before the new one is written
+    for (const activityUid of replaced) {
+      const keysRequest = roster.index('activity_uid').getAllKeys(activityUid)
+      keysRequest.onsuccess = () => {
+        for (const key of keysRequest.result) {
+          roster.delete(key)
+        }
+        for (const entry of changes.rosterEntries) {
+          if (entry.activity_uid === activityUid) {
+            roster.put(entry)
+          }
+        }
+      }
+    }
+
+    transaction.objectStore(META_STORE).put(changes.meta, META_KEY)
+  })
+}
+
+export async function clearExtensionCache(): Promise<void> {
+  await chrome.storage.local.remove(LEGACY_CACHE_KEY)
+  await writeTransaction((transaction) => {
+    for (const name of ALL_STORES) {
+      transaction.objectStore(name).clear()
+    }
+  })
+}
+
+/** Upgrade the stored cache and settings; run when the service worker starts. */
+export async function migrateStoredData(): Promise<void> {
+  await prepareCache()
+  const stored = (await chrome.storage.local.get(SETTINGS_KEY)) as Record<string, unknown>
+  const { settings, migrated } = migrateSettings(stored?.[SETTINGS_KEY])
+  if (migrated) {
+    await chrome.storage.local.set({ [SETTINGS_KEY]: settings })
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Export of the cache as a versioned JSON archive and flat CSV files. Builders are pure so
+ * they can be tested; `downloadExportFiles` hands the result to the browser.
+ */
+
+import { CACHE_SCHEMA_VERSION } from './migrations'
+import { resolveActivityOutcome } from './outcome'
+import { isActiveRosterEntry } from './roles'
+import type { ActivityRecord, ExportArchive, ExtensionCache, RosterEntryRecord } from './types'
+
+export const EXPORT_FORMAT = 'mountaineers-assistant-export'
+export const EXPORT_VERSION = 1
+
+export type ExportFormat = 'json' | 'csv'
+
+export interface ExportFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+export interface ExportOptions {
+  /** Limit the export to these activities, e.g. the ones matching the dashboard filters. */
+  activityUids?: readonly string[] | null
+  now?: Date
+}
+
+type CsvValue = string | number | boolean | null | undefined
+
+interface CsvColumn<T> {
+  header: string
+  value: (row: T) => CsvValue
+}
+
+// Excel only detects UTF-8 CSV files that start with a byte order mark
+const UTF8_BOM = '\uFEFF'
+
+/** Keep only the given activities and the roster entries, people and failures they reference. */
+export function subsetCache(
+  cache: ExtensionCache,
+  activityUids: readonly string[]
+): ExtensionCache {
+  const included = new Set(activityUids)
+  const rosterEntries = cache.rosterEntries.filter((entry) => included.has(entry.activity_uid))
+  const personUids = new Set(rosterEntries.map((entry) => entry.person_uid))
+  if (cache.currentUserUid) {
+    personUids.add(cache.currentUserUid)
+  }
+  return {
+    ...cache,
+    activities: cache.activities.filter((activity) => included.has(activity.uid)),
+    people: cache.people.filter((person) => personUids.has(person.uid)),
+    rosterEntries,
+    failedActivities: cache.failedActivities?.filter((record) => included.has(record.uid)),
+  }
+}
+
+export function buildJsonArchive(
+  cache: ExtensionCache,
+  { filtered = false, now = new Date() }: { filtered?: boolean; now?: Date } = {}
+): ExportArchive {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    filtered,
+    data: { ...cache, schemaVersion: CACHE_SCHEMA_VERSION },
+  }
+}
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  let text = String(value)
+  // Stop spreadsheets from evaluating text such as "=HYPERLINK(...)" as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T>(columns: readonly CsvColumn<T>[], rows: readonly T[]): string {
+  const lines = [columns.map((column) => escapeCsvValue(column.header)).join(',')]
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvValue(column.value(row))).join(','))
+  }
+  return `${lines.join('\r\n')}\r\n`
+}
+
+const ACTIVITY_COLUMNS: CsvColumn<ActivityRecord>[] = [
+  { header: 'uid', value: (activity) => activity.uid },
+  { header: 'title', value: (activity) => activity.title },
+  { header: 'start_date', value: (activity) => activity.start_date },
+  { header: 'end_date', value: (activity) => activity.end_date },
+  { header: 'category', value: (activity) => activity.category },
+  { header: 'activity_type', value: (activity) => activity.activity_type },
+  { header: 'outcome', value: (activity) => resolveActivityOutcome(activity) },
+  { header: 'result', value: (activity) => activity.result },
+  { header: 'difficulty_rating', value: (activity) => activity.difficulty_rating },
+  { header: 'leader_rating', value: (activity) => activity.leader_rating },
+  { header: 'branch', value: (activity) => activity.branch },
+  { header: 'committee', value: (activity) => activity.committee },
+  { header: 'location', value: (activity) => activity.location },
+  { header: 'leaders', value: (activity) => activity.leader_names?.join('; ') },
+  { header: 'route_name', value: (activity) => activity.route_name },
+  { header: 'route_href', value: (activity) => activity.route_href },
+  { header: 'href', value: (activity) => activity.href },
+  { header: 'fetched_at', value: (activity) => activity.fetchedAt },
+  { header: 'removed_at', value: (activity) => activity.tombstonedAt },
+]
+
+const ROSTER_COLUMNS: CsvColumn<RosterEntryRecord>[] = [
+  { header: 'activity_uid', value: (entry) => entry.activity_uid },
+  { header: 'person_uid', value: (entry) => entry.person_uid },
+  { header: 'role', value: (entry) => entry.role },
+  { header: 'raw_role', value: (entry) => entry.rawRole },
+  { header: 'status', value: (entry) => entry.status ?? 'registered' },
+  { header: 'is_leader', value: (entry) => Boolean(entry.isLeader) },
+]
+
+export function buildActivitiesCsv(cache: ExtensionCache): string {
+  return toCsv(ACTIVITY_COLUMNS, cache.activities)
+}
+
+export function buildPeopleCsv(cache: ExtensionCache): string {
+  return toCsv(
+    [
+      { header: 'uid', value: (person) => person.uid },
+      { header: 'name', value: (person) => person.name },
+      { header: 'href', value: (person) => person.href },
+      { header: 'avatar', value: (person) => person.avatar },
+    ],
+    cache.people
+  )
+}
+
+export function buildRosterCsv(cache: ExtensionCache): string {
+  return toCsv(ROSTER_COLUMNS, cache.rosterEntries)
+}
+
+interface PartnerSheetRow {
+  activity: ActivityRecord
+  role: string | null
+  partners: string[]
+}
+
+/**
+ * One row per activity the current user was on, with the other active participants flattened
+ * into a single column.
+ */
+export function buildMyActivitiesCsv(cache: ExtensionCache): string {
+  const names = new Map(cache.people.map((person) => [person.uid, person.name || person.uid]))
+  const rosters = new Map<string, RosterEntryRecord[]>()
+  for (const entry of cache.rosterEntries) {
+    if (!isActiveRosterEntry(entry)) continue
+    const roster = rosters.get(entry.activity_uid) ?? []
+    roster.push(entry)
+    rosters.set(entry.activity_uid, roster)
+  }
+
+  const rows: PartnerSheetRow[] = []
+  for (const activity of cache.activities) {
+    const roster = rosters.get(activity.uid) ?? []
+    const own = roster.find((entry) => entry.person_uid === cache.currentUserUid)
+    if (!own) continue
+    rows.push({
+      activity,
+      role: own.role,
+      partners: roster
+        .filter((entry) => entry.person_uid !== cache.currentUserUid)
+        .map((entry) => names.get(entry.person_uid) ?? entry.person_uid)
+        .sort((a, b) => a.localeCompare(b)),
+    })
+  }
+
+  return toCsv(
+    [
+      { header: 'start_date', value: (row) => row.activity.start_date },
+      { header: 'title', value: (row) => row.activity.title },
+      { header: 'activity_type', value: (row) => row.activity.activity_type },
+      { header: 'category', value: (row) => row.activity.category },
+      { header: 'outcome', value: (row) => resolveActivityOutcome(row.activity) },
+      { header: 'my_role', value: (row) => row.role },
+      { header: 'partner_count', value: (row) => row.partners.length },
+      { header: 'partners', value: (row) => row.partners.join('; ') },
+      { header: 'href', value: (row) => row.activity.href },
+    ],
+    rows
+  )
+}
+
+function fileDate(now: Date): string {
+  return now.toISOString().slice(0, 10)
+}
+
+export function buildJsonExportFile(
+  cache: ExtensionCache,
+  { activityUids, now = new Date() }: ExportOptions = {}
+): ExportFile {
+  const data = activityUids ? subsetCache(cache, activityUids) : cache
+  return {
+    filename: `mountaineers-assistant-${fileDate(now)}.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(
+      buildJsonArchive(data, { filtered: Boolean(activityUids), now }),
+      null,
+      2
+    ),
+  }
+}
+
+export function buildCsvExportFiles(
+  cache: ExtensionCache,
+  { activityUids, now = new Date() }: ExportOptions = {}
+): ExportFile[] {
+  const data = activityUids ? subsetCache(cache, activityUids) : cache
+  const date = fileDate(now)
+  const sheets: Array<[string, string]> = [
+    ['activities', buildActivitiesCsv(data)],
+    ['people', buildPeopleCsv(data)],
+    ['roster', buildRosterCsv(data)],
+    ['my-activities-with-partners', buildMyActivitiesCsv(data)],
+  ]
+  return sheets.map(([name, csv]) => ({
+    filename: `mountaineers-${name}-${date}.csv`,
+    mimeType: 'text/csv;charset=utf-8',
+    content: `${UTF8_BOM}${csv}`,
+  }))
+}
+
+export function buildExportFiles(
+  cache: ExtensionCache,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportFile[] {
+  return format === 'json'
+    ? [buildJsonExportFile(cache, options)]
+    : buildCsvExportFiles(cache, options)
+}
+
+/** Save files through the browser's download prompt. */
+export function downloadExportFiles(files: readonly ExportFile[]): void {
+  for (const file of files) {
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.filename
+    link.style.display = 'none'
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    // Revoke once the download has had a chance to start
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+}
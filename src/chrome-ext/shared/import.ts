@@ -0,0 +1,228 @@
+/**
+ * Import of a cache exported by shared/export. Files are validated before anything is written,
+ * upgraded through the cache migrations, and then either replace the cache or are merged into
+ * it with the same rules a refresh uses.
+ */
+
+import { EXPORT_FORMAT, EXPORT_VERSION } from './export'
+import { mergeWithExistingCache } from './merge'
+import { CACHE_SCHEMA_VERSION, migrateCache } from './migrations'
+import type { ActivityRecord, ExtensionCache } from './types'
+
+export type ImportMode = 'merge' | 'replace'
+
+export interface ImportPreview {
+  activityCount: number
+  peopleCount: number
+  rosterEntryCount: number
+  earliest: string | null
+  latest: string | null
+  currentUserUid: string | null
+  currentUserName: string | null
+  /** Null for a raw cache dump copied from preferences rather than an export archive. */
+  exportedAt: string | null
+  /** The archive only holds the activities that matched the dashboard filters. */
+  filtered: boolean
+}
+
+export type ParsedImport =
+  | { ok: true; cache: ExtensionCache; preview: ImportPreview }
+  | { ok: false; errors: string[] }
+
+// Enough to point at the problem without flooding the page for a badly broken file
+const MAX_REPORTED_ERRORS = 5
+
+type StoredRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'string'
+}
+
+function checkRecords(
+  errors: string[],
+  cache: StoredRecord,
+  key: string,
+  requiredStrings: string[],
+  optionalStrings: string[]
+): void {
+  const records = cache[key]
+  if (!Array.isArray(records)) {
+    errors.push(`${key} must be a list`)
+    return
+  }
+  records.forEach((record, index) => {
+    if (!isRecord(record)) {
+      errors.push(`${key}[${index}] must be an object`)
+      return
+    }
+    for (const field of requiredStrings) {
+      if (typeof record[field] !== 'string' || !record[field]) {
+        errors.push(`${key}[${index}].${field} must be a non-empty string`)
+      }
+    }
+    for (const field of optionalStrings) {
+      if (!isOptionalString(record[field])) {
+        errors.push(`${key}[${index}].${field} must be a string or null`)
+      }
+    }
+  })
+}
+
+/** Check a stored cache against the `ExtensionCache` shape. Returns every problem found. */
+export function validateExtensionCache(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['The cache must be an object']
+  }
+  const errors: string[] = []
+  checkRecords(
+    errors,
+    value,
+    'activities',
+    ['uid', 'href'],
+    [
+      'title',
+      'category',
+      'start_date',
+      'trip_results',
+      'result',
+      'activity_type',
+      'difficulty_rating',
+      'leader_rating',
+    ]
+  )
+  checkRecords(errors, value, 'people', ['uid'], ['name', 'href', 'avatar'])
+  checkRecords(errors, value, 'rosterEntries', ['activity_uid', 'person_uid'], ['role'])
+  if (!isOptionalString(value.lastUpdated)) {
+    errors.push('lastUpdated must be a string or null')
+  }
+  if (!isOptionalString(value.currentUserUid)) {
+    errors.push('currentUserUid must be a string or null')
+  }
+  if (value.failedActivities !== undefined && !Array.isArray(value.failedActivities)) {
+    errors.push('failedActivities must be a list')
+  }
+  const version = value.schemaVersion
+  if (version !== undefined && (typeof version !== 'number' || version > CACHE_SCHEMA_VERSION)) {
+    errors.push('The cache was written by a newer version of the extension')
+  }
+  return errors
+}
+
+export function buildImportPreview(
+  cache: ExtensionCache,
+  archive: { exportedAt?: unknown; filtered?: unknown } = {}
+): ImportPreview {
+  const dates = cache.activities
+    .map((activity) => activity.start_date)
+    .filter((date): date is string => Boolean(date) && !Number.isNaN(Date.parse(date as string)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b))
+  const currentUser = cache.people.find((person) => person.uid === cache.currentUserUid)
+  return {
+    activityCount: cache.activities.length,
+    peopleCount: cache.people.length,
+    rosterEntryCount: cache.rosterEntries.length,
+    earliest: dates[0] ?? null,
+    latest: dates[dates.length - 1] ?? null,
+    currentUserUid: cache.currentUserUid,
+    currentUserName: currentUser?.name ?? null,
+    exportedAt: typeof archive.exportedAt === 'string' ? archive.exportedAt : null,
+    filtered: archive.filtered === true,
+  }
+}
+
+/**
+ * Parse an export archive, or a raw cache copied from the preferences page, into a cache on
+ * the current schema.
+ */
+export function parseImportFile(text: string): ParsedImport {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON'] }
+  }
+  if (!isRecord(parsed)) {
+    return { ok: false, errors: ['The file does not contain a Mountaineers Assistant export'] }
+  }
+
+  let raw: unknown = parsed
+  if ('format' in parsed) {
+    if (parsed.format !== EXPORT_FORMAT) {
+      return { ok: false, errors: ['The file is not a Mountaineers Assistant export'] }
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+      return { ok: false, errors: ['The export was made by a newer version of the extension'] }
+    }
+    raw = parsed.data
+  }
+
+  const errors = validateExtensionCache(raw)
+  if (errors.length) {
+    const extra = errors.length - MAX_REPORTED_ERRORS
+    return {
+      ok: false,
+      errors:
+        extra > 0
+          ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extra} more problems`]
+          : errors,
+    }
+  }
+
+  const { cache } = migrateCache(raw)
+  if (!cache) {
+    return { ok: false, errors: ['The file does not contain a Mountaineers Assistant export'] }
+  }
+  return { ok: true, cache, preview: buildImportPreview(cache, parsed) }
+}
+
+const fetchedTime = (activity: ActivityRecord): number | null => {
+  const time = activity.fetchedAt ? Date.parse(activity.fetchedAt) : Number.NaN
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Whether an imported activity may update the cached copy: only when it was fetched later, or
+ * when neither copy says when it was fetched.
+ */
+function isFresherImport(imported: ActivityRecord, cached: ActivityRecord): boolean {
+  const importedTime = fetchedTime(imported)
+  const cachedTime = fetchedTime(cached)
+  if (cachedTime === null) {
+    return true
+  }
+  return importedTime !== null && importedTime > cachedTime
+}
+
+/**
+ * The cache to store after importing `imported` in the given mode. A merge never lets an older
+ * export overwrite fresher cached activities or their rosters, and keeps the cache's own
+ * `lastUpdated`, since importing is not a sync.
+ */
+export function applyImport(
+  existing: ExtensionCache | null,
+  imported: ExtensionCache,
+  mode: ImportMode
+): ExtensionCache {
+  if (mode === 'replace' || !existing) {
+    return imported
+  }
+  const cached = new Map(existing.activities.map((activity) => [activity.uid, activity]))
+  const stale = new Set(
+    imported.activities
+      .filter((activity) => {
+        const current = cached.get(activity.uid)
+        return current !== undefined && !isFresherImport(activity, current)
+      })
+      .map((activity) => activity.uid)
+  )
+  const { updatedCache } = mergeWithExistingCache(existing, {
+    ...imported,
+    activities: imported.activities.filter((activity) => !stale.has(activity.uid)),
+    rosterEntries: imported.rosterEntries.filter((entry) => !stale.has(entry.activity_uid)),
+  })
+  return { ...updatedCache, lastUpdated: existing.lastUpdated }
+}
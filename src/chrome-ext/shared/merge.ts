@@ -0,0 +1,143 @@
+/**
+ * Merging of collected or imported records into the cache. Used for every collector delta,
+ * the final refresh result and merge imports, so they all follow the same rules.
+ */
+
+import { reconcileTombstones } from './tombstones'
+import type {
+  ActivityRecord,
+  CollectorDelta,
+  CollectorSuccessPayload,
+  ExtensionCache,
+  PersonRecord,
+  RosterEntryRecord,
+} from './types'
+
+export type CacheMergeInput = Partial<CollectorSuccessPayload> & CollectorDelta
+
+export interface CacheMergeResult {
+  updatedCache: ExtensionCache
+  newActivities: number
+  refreshedActivities: number
+  tombstonedActivities: number
+}
+
+export function mergeWithExistingCache(
+  existingCache: ExtensionCache,
+  incoming: CacheMergeInput
+): CacheMergeResult {
+  const updatedCache: ExtensionCache = {
+    activities: [...existingCache.activities],
+    people: [...existingCache.people],
+    rosterEntries: [...existingCache.rosterEntries],
+    lastUpdated: new Date().toISOString(),
+    currentUserUid: incoming.currentUserUid ?? existingCache.currentUserUid ?? null,
+  }
+
+  const activityMap = new Map<string, ActivityRecord>(
+    updatedCache.activities.map((activity) => [activity.uid, activity])
+  )
+
+  let newActivities = 0
+  let refreshedActivities = 0
+  for (const activity of incoming.activities ?? []) {
+    const existing = activityMap.get(activity.uid)
+    if (!existing) {
+      activityMap.set(activity.uid, activity)
+      newActivities += 1
+      continue
+    }
+    const merged = { ...existing, ...activity }
+    // A failed detail request must not erase values collected by an earlier fetch
+    if (activity.activity_type == null && existing.activity_type != null) {
+      merged.activity_type = existing.activity_type
+    }
+    if (activity.difficulty_rating == null && existing.difficulty_rating != null) {
+      merged.difficulty_rating = existing.difficulty_rating
+    }
+    if (activity.leader_rating == null && existing.leader_rating != null) {
+      merged.leader_rating = existing.leader_rating
+    }
+    activityMap.set(activity.uid, merged)
+    refreshedActivities += 1
+  }
+
+  // Only the final result carries the full history; per-activity deltas leave tombstones alone
+  const reconciled = reconcileTombstones(
+    Array.from(activityMap.values()),
+    incoming.historyActivityUids
+  )
+  updatedCache.activities = reconciled.activities.sort((a, b) => {
+    const dateA = a.start_date ? new Date(a.start_date).getTime() : 0
+    const dateB = b.start_date ? new Date(b.start_date).getTime() : 0
+    return dateB - dateA
+  })
+
+  const peopleMap = new Map<string, PersonRecord>(
+    updatedCache.people.map((person) => [person.uid, person])
+  )
+
+  for (const person of incoming.people ?? []) {
+    const existing = peopleMap.get(person.uid)
+    if (!existing) {
+      peopleMap.set(person.uid, person)
+      continue
+    }
+    const mergedPerson = { ...existing }
+    let changed = false
+    if (!existing.href && person.href) {
+      mergedPerson.href = person.href
+      changed = true
+    }
+    if (!existing.avatar && person.avatar) {
+      mergedPerson.avatar = person.avatar
+      changed = true
+    }
+    if (!existing.name && person.name) {
+      mergedPerson.name = person.name
+      changed = true
+    }
+    if (changed) {
+      peopleMap.set(person.uid, mergedPerson)
+    }
+  }
+
+  updatedCache.people = Array.from(peopleMap.values()).sort((a, b) =>
+    (a.name || '').localeCompare(b.name || '')
+  )
+
+  const rosterKey = (entry: RosterEntryRecord) => `${entry.activity_uid}|${entry.person_uid}`
+
+  // A freshly loaded roster is authoritative: drop people no longer listed on it
+  const replacedRosters = new Set(incoming.rosterActivityUids ?? [])
+  const rosterMap = new Map<string, RosterEntryRecord>(
+    updatedCache.rosterEntries
+      .filter((entry) => !replacedRosters.has(entry.activity_uid))
+      .map((entry) => [rosterKey(entry), entry])
+  )
+
+  for (const entry of incoming.rosterEntries ?? []) {
+    rosterMap.set(rosterKey(entry), entry)
+  }
+
+  updatedCache.rosterEntries = Array.from(rosterMap.values())
+
+  // An activity leaves the failed list once it is fetched again without errors
+  const attemptedUids = new Set((incoming.activities ?? []).map((activity) => activity.uid))
+  const failedMap = new Map(
+    (existingCache.failedActivities ?? [])
+      .filter((record) => !attemptedUids.has(record.uid))
+      .map((record) => [record.uid, record])
+  )
+  for (const record of incoming.failedActivities ?? []) {
+    failedMap.set(record.uid, record)
+  }
+  updatedCache.failedActivities = Array.from(failedMap.values())
+
+  return {
+    updatedCache,
+    newActivities,
+    refreshedActivities,
+    tombstonedActivities: reconciled.tombstoned,
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * The message protocol between the background service worker, the offscreen collector, the
+ * content script and the extension pages.
+ *
+ * Requests are answered exactly once, with a response carrying the request's `requestId` so a
+ * reply can never be mistaken for the answer to another call in flight. Events are broadcast
+ * and never answered. Any extension context can post to `chrome.runtime`, so every incoming
+ * message is validated before a handler sees it.
+ */
+
+import { isRefreshMode } from './resync'
+import type {
+  CollectorProgressMessage,
+  CollectorResultMessage,
+  RefreshMode,
+  RefreshProgress,
+  RefreshSummary,
+  RoleMapping,
+  SharedActivity,
+} from './types'
+
+export type RefreshResponse =
+  | { success: true; summary: RefreshSummary }
+  | {
+      success: false
+      error: string
+      requiresLogin?: boolean
+      /** Set when the request was refused because another refresh is running. */
+      inProgress?: boolean
+      progress?: RefreshProgress | null
+    }
+
+export interface RefreshStatusResponse {
+  success: true
+  inProgress: boolean
+  progress: RefreshProgress | null
+}
+
+export interface CancelRefreshResponse {
+  success: boolean
+  error?: string
+}
+
+export interface SharedActivitiesResponse {
+  activities: SharedActivity[]
+}
+
+/** What each request carries besides its type and ID, and what it is answered with. */
+export interface RequestProtocol {
+  'start-refresh': {
+    payload: { limit?: number | null; mode?: RefreshMode }
+    response: RefreshResponse
+  }
+  'cancel-refresh': { payload: Record<string, never>; response: CancelRefreshResponse }
+  'get-refresh-status': { payload: Record<string, never>; response: RefreshStatusResponse }
+  'get-shared-activities': {
+    payload: { memberUid: string }
+    response: SharedActivitiesResponse
+  }
+}
+
+export type RequestType = keyof RequestProtocol
+export type RequestPayload<T extends RequestType> = RequestProtocol[T]['payload']
+export type ResponsePayload<T extends RequestType> = RequestProtocol[T]['response']
+
+export type RequestMessage<T extends RequestType = RequestType> = {
+  [K in T]: { type: K; requestId: string } & RequestPayload<K>
+}[T]
+
+export type ResponseMessage<T extends RequestType = RequestType> =
+  | { requestId: string; ok: true; payload: ResponsePayload<T> }
+  | { requestId: string; ok: false; error: string }
+
+export interface BackgroundProgressMessage {
+  type: 'refresh-progress'
+  origin: 'background'
+  progress: RefreshProgress
+}
+
+export interface OffscreenCollectMessage {
+  type: 'offscreen-collect'
+  runId: string
+  existingActivityUids: string[]
+  /** When set, load exactly these activities instead of every activity not yet cached. */
+  targetActivityUids: string[] | null
+  fetchLimit: number | null
+  concurrency: number
+  requestDelayMs: number
+  roleMappings: RoleMapping[]
+}
+
+export interface EventProtocol {
+  /** Raw updates from the collector, and the normalized progress the background re-broadcasts. */
+  'refresh-progress': CollectorProgressMessage | BackgroundProgressMessage
+  'refresh-status-changed': {
+    type: 'refresh-status-changed'
+    inProgress: boolean
+    progress: RefreshProgress | null
+  }
+  'refresh-result': CollectorResultMessage
+  'offscreen-collect': OffscreenCollectMessage
+  'offscreen-cancel': { type: 'offscreen-cancel'; runId: string }
+  'error-logged': { type: 'error-logged'; errorId: string }
+}
+
+export type EventType = keyof EventProtocol
+export type EventMessage<T extends EventType = EventType> = EventProtocol[T]
+
+export type RequestHandlers = {
+  [T in RequestType]?: (
+    request: RequestMessage<T>,
+    sender: chrome.runtime.MessageSender
+  ) => ResponsePayload<T> | Promise<ResponsePayload<T>>
+}
+
+export type EventHandlers = {
+  [T in EventType]?: (event: EventMessage<T>, sender: chrome.runtime.MessageSender) => void
+}
+
+type RuntimeListener = (
+  message: unknown,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: unknown) => void
+) => boolean | undefined
+
+type SendMessage = (message: unknown) => Promise<unknown>
+
+/** A request that was not answered, answered for another request, or failed in its handler. */
+export class MessageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessageError'
+  }
+}
+
+type IncomingMessage = Record<string, unknown>
+
+function isRecord(value: unknown): value is IncomingMessage {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isOptionalRunId(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'string'
+}
+
+function isNullableNumber(value: unknown): boolean {
+  return value === null || (typeof value === 'number' && Number.isFinite(value))
+}
+
+const REQUEST_VALIDATORS: { [T in RequestType]: (message: IncomingMessage) => boolean } = {
+  'start-refresh': (message) =>
+    (message.limit === undefined || isNullableNumber(message.limit)) &&
+    (message.mode === undefined || isRefreshMode(message.mode)),
+  'cancel-refresh': () => true,
+  'get-refresh-status': () => true,
+  'get-shared-activities': (message) =>
+    typeof message.memberUid === 'string' && message.memberUid.length > 0,
+}
+
+const EVENT_VALIDATORS: { [T in EventType]: (message: IncomingMessage) => boolean } = {
+  'refresh-progress': (message) =>
+    message.origin === 'collector'
+      ? typeof message.stage === 'string' && isOptionalRunId(message.runId)
+      : message.origin === 'background' && isRecord(message.progress),
+  'refresh-status-changed': (message) =>
+    typeof message.inProgress === 'boolean' &&
+    (message.progress === undefined || message.progress === null || isRecord(message.progress)),
+  'refresh-result': (message) =>
+    typeof message.success === 'boolean' && isOptionalRunId(message.runId),
+  'offscreen-collect': (message) =>
+    typeof message.runId === 'string' &&
+    isStringArray(message.existingActivityUids) &&
+    (message.targetActivityUids === null || isStringArray(message.targetActivityUids)) &&
+    isNullableNumber(message.fetchLimit) &&
+    typeof message.concurrency === 'number' &&
+    typeof message.requestDelayMs === 'number' &&
+    Array.isArray(message.roleMappings),
+  'offscreen-cancel': (message) => typeof message.runId === 'string',
+  'error-logged': (message) => typeof message.errorId === 'string',
+}
+
+const REQUEST_TYPES = new Set<unknown>(Object.keys(REQUEST_VALIDATORS))
+const EVENT_TYPES = new Set<unknown>(Object.keys(EVENT_VALIDATORS))
+
+function isRequestType(value: unknown): value is RequestType {
+  return REQUEST_TYPES.has(value)
+}
+
+function isEventType(value: unknown): value is EventType {
+  return EVENT_TYPES.has(value)
+}
+
+/** The message as a request, or null when it is not a well-formed one. */
+export function parseRequest(value: unknown): RequestMessage | null {
+  if (!isRecord(value) || !isRequestType(value.type) || typeof value.requestId !== 'string') {
+    return null
+  }
+  return REQUEST_VALIDATORS[value.type](value) ? (value as RequestMessage) : null
+}
+
+/** The message as an event, or null when it is not a well-formed one. */
+export function parseEvent(value: unknown): EventMessage | null {
+  if (!isRecord(value) || !isEventType(value.type)) {
+    return null
+  }
+  return EVENT_VALIDATORS[value.type](value) ? (value as EventMessage) : null
+}
+
+export function isEvent<T extends EventType>(value: unknown, type: T): value is EventMessage<T> {
+  return parseEvent(value)?.type === type
+}
+
+export function createRequest<T extends RequestType>(
+  type: T,
+  payload: RequestPayload<T>
+): RequestMessage<T> {
+  return { ...payload, type, requestId: crypto.randomUUID() } as RequestMessage<T>
+}
+
+/** The payload of `response`, or a `MessageError` when it does not answer `request`. */
+export function readResponse<T extends RequestType>(
+  request: RequestMessage<T>,
+  response: unknown
+): ResponsePayload<T> {
+  if (response === undefined || response === null) {
+    throw new MessageError(`No response to "${request.type}".`)
+  }
+  if (!isRecord(response) || response.requestId !== request.requestId) {
+    throw new MessageError(`Received a response that does not match "${request.type}".`)
+  }
+  if (response.ok !== true) {
+    throw new MessageError(
+      typeof response.error === 'string' ? response.error : `"${request.type}" failed.`
+    )
+  }
+  return response.payload as ResponsePayload<T>
+}
+
+function sendRuntimeMessage(message: unknown): Promise<unknown> {
+  return chrome.runtime.sendMessage(message)
+}
+
+/**
+ * Send a request and resolve with its response payload. Rejects with a `MessageError` when
+ * nothing answers or the handler fails.
+ */
+export async function sendRequest<T extends RequestType>(
+  type: T,
+  payload: RequestPayload<T>,
+  send: SendMessage = sendRuntimeMessage
+): Promise<ResponsePayload<T>> {
+  const request = createRequest(type, payload)
+  return readResponse(request, await send(request))
+}
+
+/**
+ * Broadcast an event. Events are not answered, so a context with no listener open is not an
+ * error and delivery failures are only logged.
+ */
+export async function sendEvent(
+  event: EventMessage,
+  send: SendMessage = sendRuntimeMessage
+): Promise<void> {
+  try {
+    await send(event)
+  } catch (error) {
+    console.debug('Mountaineers Assistant: "%s" not delivered', event.type, error)
+  }
+}
+
+/**
+ * A `chrome.runtime.onMessage` listener answering the requests in `handlers`. Messages for
+ * other request types are left for other listeners; malformed requests of a handled type
+ * are answered with an error.
+ */
+export function createRequestListener(handlers: RequestHandlers): RuntimeListener {
+  return (message, sender, sendResponse) => {
+    if (!isRecord(message) || !isRequestType(message.type) || !handlers[message.type]) {
+      return undefined
+    }
+    const requestId = typeof message.requestId === 'string' ? message.requestId : ''
+    const request = parseRequest(message)
+    if (!request) {
+      sendResponse({ requestId, ok: false, error: `Malformed "${message.type}" request.` })
+      return false
+    }
+    const handler = handlers[request.type] as (
+      request: RequestMessage,
+      sender: chrome.runtime.MessageSender
+    ) => unknown
+    Promise.resolve()
+      .then(() => handler(request, sender))
+      .then(
+        (payload) => sendResponse({ requestId, ok: true, payload }),
+        (error: unknown) => {
+          console.error('Mountaineers Assistant: "%s" request failed', request.type, error)
+          const reason = error instanceof Error ? error.message : String(error)
+          sendResponse({ requestId, ok: false, error: reason })
+        }
+      )
+    // Keep the channel open for the asynchronous response
+    return true
+  }
+}
+
+/** A `chrome.runtime.onMessage` listener passing valid events to `handlers`. */
+export function createEventListener(handlers: EventHandlers): RuntimeListener {
+  return (message, sender) => {
+    const event = parseEvent(message)
+    if (!event) {
+      return undefined
+    }
+    const handler = handlers[event.type] as
+      | ((event: EventMessage, sender: chrome.runtime.MessageSender) => void)
+      | undefined
+    handler?.(event, sender)
+    return undefined
+  }
+}
+
+/** Answer requests in this context. Returns a function that stops listening. */
+export function onRequests(handlers: RequestHandlers): () => void {
+  const listener = createRequestListener(handlers)
+  chrome.runtime.onMessage.addListener(listener)
+  return () => chrome.runtime.onMessage.removeListener(listener)
+}
+
+/** Listen for events in this context. Returns a function that stops listening. */
+export function onEvents(handlers: EventHandlers): () => void {
+  const listener = createEventListener(handlers)
+  chrome.runtime.onMessage.addListener(listener)
+  return () => chrome.runtime.onMessage.removeListener(listener)
+}
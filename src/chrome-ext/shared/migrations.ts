@@ -0,0 +1,141 @@
+/**
+ * Schema versions and upgrade steps for stored data. `CACHE_MIGRATIONS` covers the activity
+ * cache, kept in IndexedDB (see shared/cache) with its schema version in the meta record; legacy
+ * caches still in chrome.storage.local are migrated on their way over. `SETTINGS_MIGRATIONS`
+ * covers the settings, which stay in chrome.storage.local.
+ *
+ * Each migration upgrades a stored value from `version - 1` to `version`. Migrations are pure
+ * and ordered; add a new one (never edit a released one) whenever the stored shape changes.
+ */
+
+import { resolveActivityOutcome } from './outcome'
+import { isLeaderRole } from './roles'
+import type { ExtensionCache } from './types'
+
+type StoredRecord = Record<string, unknown>
+
+export interface Migration {
+  version: number
+  description: string
+  migrate: (value: StoredRecord) => StoredRecord
+}
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function recordsIn(value: unknown): StoredRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : []
+}
+
+export const CACHE_MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in collections missing from caches written before versioning',
+    migrate: (cache) => ({
+      ...cache,
+      activities: recordsIn(cache.activities).filter(
+        (activity) => typeof activity.uid === 'string'
+      ),
+      people: recordsIn(cache.people).filter((person) => typeof person.uid === 'string'),
+      rosterEntries: recordsIn(cache.rosterEntries).filter(
+        (entry) => typeof entry.activity_uid === 'string' && typeof entry.person_uid === 'string'
+      ),
+      lastUpdated: typeof cache.lastUpdated === 'string' ? cache.lastUpdated : null,
+      currentUserUid: typeof cache.currentUserUid === 'string' ? cache.currentUserUid : null,
+    }),
+  },
+  {
+    version: 2,
+    description: 'Record the normalized outcome on activities cached before outcomes existed',
+    migrate: (cache) => ({
+      ...cache,
+      activities: recordsIn(cache.activities).map((activity) => ({
+        ...activity,
+        outcome: resolveActivityOutcome(activity as Parameters<typeof resolveActivityOutcome>[0]),
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Derive raw role, status and leader flag for roster entries',
+    migrate: (cache) => ({
+      ...cache,
+      rosterEntries: recordsIn(cache.rosterEntries).map((entry) => {
+        const role = typeof entry.role === 'string' ? entry.role : null
+        return {
+          ...entry,
+          rawRole: typeof entry.rawRole === 'string' ? entry.rawRole : role,
+          status: typeof entry.status === 'string' ? entry.status : 'registered',
+          isLeader: typeof entry.isLeader === 'boolean' ? entry.isLeader : isLeaderRole(role),
+        }
+      }),
+    }),
+  },
+]
+
+export const SETTINGS_MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Stamp settings written before versioning; missing fields take their defaults',
+    migrate: (settings) => settings,
+  },
+]
+
+export const CACHE_SCHEMA_VERSION = latestVersion(CACHE_MIGRATIONS)
+export const SETTINGS_SCHEMA_VERSION = latestVersion(SETTINGS_MIGRATIONS)
+
+function latestVersion(migrations: readonly Migration[]): number {
+  return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0)
+}
+
+/**
+ * Run every migration newer than the value's `schemaVersion` (0 when absent), in order.
+ * Values written by a newer version of the extension are returned untouched.
+ */
+export function runMigrations(
+  value: StoredRecord,
+  migrations: readonly Migration[]
+): { value: StoredRecord; fromVersion: number; migrated: boolean } {
+  const rawVersion = value.schemaVersion
+  const fromVersion =
+    typeof rawVersion === 'number' && Number.isInteger(rawVersion) && rawVersion > 0
+      ? rawVersion
+      : 0
+  const pending = migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+  if (!pending.length) {
+    return { value, fromVersion, migrated: false }
+  }
+  let current = value
+  for (const migration of pending) {
+    current = { ...migration.migrate(current), schemaVersion: migration.version }
+  }
+  return { value: current, fromVersion, migrated: true }
+}
+
+/** Upgrade a stored cache. Returns null when nothing usable is stored. */
+export function migrateCache(raw: unknown): { cache: ExtensionCache | null; migrated: boolean } {
+  if (!isRecord(raw)) {
+    return { cache: null, migrated: false }
+  }
+  const result = runMigrations(raw, CACHE_MIGRATIONS)
+  if (result.fromVersion > CACHE_SCHEMA_VERSION) {
+    console.warn(
+      'Mountaineers Assistant: cache schema %d is newer than this version supports (%d)',
+      result.fromVersion,
+      CACHE_SCHEMA_VERSION
+    )
+  }
+  return { cache: result.value as unknown as ExtensionCache, migrated: result.migrated }
+}
+
+/** Upgrade stored settings; callers still normalize the result. */
+export function migrateSettings(raw: unknown): { settings: unknown; migrated: boolean } {
+  if (!isRecord(raw)) {
+    return { settings: raw, migrated: false }
+  }
+  const result = runMigrations(raw, SETTINGS_MIGRATIONS)
+  return { settings: result.value, migrated: result.migrated }
+}
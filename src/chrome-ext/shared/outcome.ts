@@ -0,0 +1,69 @@
+import type { ActivityOutcome, ActivityRecord } from './types'
+
+/**
+ * Outcomes in display order. Used to build filter options and outcome breakdowns.
+ */
+export const ACTIVITY_OUTCOMES: ActivityOutcome[] = [
+  'successful',
+  'turned-back',
+  'canceled',
+  'no-show',
+  'other',
+]
+
+const OUTCOME_LABELS: Record<ActivityOutcome, string> = {
+  successful: 'Successful',
+  'turned-back': 'Turned back',
+  canceled: 'Canceled',
+  'no-show': 'No show',
+  other: 'Other',
+}
+
+/**
+ * Map the free-text result from the member history (e.g. "Successful",
+ * "Turned Around", "Cancelled") onto a normalized outcome.
+ */
+export function normalizeOutcome(value: unknown): ActivityOutcome {
+  if (typeof value !== 'string') {
+    return 'other'
+  }
+  const cleaned = value.trim().toLowerCase()
+  if (!cleaned) {
+    return 'other'
+  }
+  // "Unsuccessful" and "Not successful" contain "success" too
+  if (/\bsuccess/.test(cleaned) && !/\b(?:un|not\s+)success/.test(cleaned)) {
+    return 'successful'
+  }
+  if (cleaned.includes('turn')) {
+    return 'turned-back'
+  }
+  if (cleaned.includes('cancel')) {
+    return 'canceled'
+  }
+  if (cleaned.replace(/[\s_-]+/g, '').includes('noshow')) {
+    return 'no-show'
+  }
+  return 'other'
+}
+
+/**
+ * Resolve the outcome of a stored activity, falling back to the raw result for
+ * records cached before outcomes were collected.
+ */
+export function resolveActivityOutcome(
+  activity: Pick<ActivityRecord, 'outcome' | 'result' | 'rawResult'>
+): ActivityOutcome {
+  if (activity.outcome && ACTIVITY_OUTCOMES.includes(activity.outcome)) {
+    return activity.outcome
+  }
+  return normalizeOutcome(activity.result ?? activity.rawResult)
+}
+
+export function isSuccessfulOutcome(outcome: ActivityOutcome): boolean {
+  return outcome === 'successful'
+}
+
+export function getOutcomeLabel(outcome: string): string {
+  return OUTCOME_LABELS[outcome as ActivityOutcome] ?? outcome
+}
@@ -0,0 +1,255 @@
+/**
+ * A small PDF writer for text documents. Pages are A4 and use the standard Helvetica fonts with
+ * WinAnsi encoding, so nothing has to be embedded or fetched and the output stays 7-bit ASCII
+ * (bytes above 0x7e are written as octal escapes). Layout code places text and rules with the
+ * origin at the top-left corner of the page and y measured down to the text baseline.
+ */
+
+export const PDF_PAGE_WIDTH = 595.28
+export const PDF_PAGE_HEIGHT = 841.89
+
+/** RGB, each channel from 0 to 1. */
+export type PdfColor = readonly [number, number, number]
+
+export interface PdfText {
+  x: number
+  /** Baseline, measured down from the top of the page. */
+  y: number
+  text: string
+  size: number
+  bold?: boolean
+  color?: PdfColor
+}
+
+export interface PdfRule {
+  x1: number
+  x2: number
+  y: number
+  width?: number
+  color?: PdfColor
+}
+
+export interface PdfLink {
+  x: number
+  y: number
+  width: number
+  height: number
+  url: string
+}
+
+export interface PdfPage {
+  texts: PdfText[]
+  rules: PdfRule[]
+  links: PdfLink[]
+}
+
+export interface PdfDocumentOptions {
+  title: string
+  createdAt: Date
+}
+
+// Advance widths in 1/1000 em for U+0020 through U+007E, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+  611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+  278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+// WinAnsi code and regular/bold widths for the punctuation outside Latin-1 that the app prints
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  '€': [0x80, 556, 556],
+  '…': [0x85, 1000, 1000],
+  '‘': [0x91, 222, 278],
+  '’': [0x92, 222, 278],
+  '“': [0x93, 333, 500],
+  '”': [0x94, 333, 500],
+  '•': [0x95, 350, 350],
+  '–': [0x96, 556, 556],
+  '—': [0x97, 1000, 1000],
+}
+
+const LATIN_1_WIDTHS: Record<string, number> = {
+  ' ': 278,
+  '°': 400,
+  '·': 278,
+  '×': 584,
+}
+
+const FALLBACK_CHARACTER = '?'
+
+interface EncodedCharacter {
+  code: number
+  width: number
+}
+
+const encodeCharacter = (character: string, bold: boolean): EncodedCharacter => {
+  const ascii = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  const code = character.codePointAt(0) ?? 0
+  if (code >= 0x20 && code <= 0x7e) return { code, width: ascii[code - 0x20] }
+  if (code === 0x09 || code === 0x0a || code === 0x0d) return { code: 0x20, width: ascii[0] }
+  const extra = WIN_ANSI_EXTRAS[character]
+  if (extra) return { code: extra[0], width: bold ? extra[2] : extra[1] }
+  if (code >= 0xa0 && code <= 0xff) {
+    // Accented letters are as wide as the letter they are built on
+    const base = character.normalize('NFD').charAt(0)
+    const baseCode = base.codePointAt(0) ?? 0
+    const width =
+      LATIN_1_WIDTHS[character] ??
+      (baseCode >= 0x20 && baseCode <= 0x7e ? ascii[baseCode - 0x20] : 556)
+    return { code, width }
+  }
+  return encodeCharacter(FALLBACK_CHARACTER, bold)
+}
+
+/** Width of `text` in points when set in Helvetica at `size`. */
+export function measurePdfText(text: string, size: number, bold = false): number {
+  let units = 0
+  for (const character of text) {
+    units += encodeCharacter(character, bold).width
+  }
+  return (units * size) / 1000
+}
+
+/**
+ * Break `text` into lines no wider than `maxWidth`, at spaces where possible and inside words
+ * that would not fit on a line of their own.
+ */
+export function wrapPdfText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (measurePdfText(candidate, size, bold) <= maxWidth) {
+      line = candidate
+      continue
+    }
+    if (line) lines.push(line)
+    line = ''
+    for (const character of word) {
+      if (line && measurePdfText(line + character, size, bold) > maxWidth) {
+        lines.push(line)
+        line = ''
+      }
+      line += character
+    }
+  }
+  if (line || !lines.length) lines.push(line)
+  return lines
+}
+
+const pdfString = (text: string, bold = false): string => {
+  let body = ''
+  for (const character of text) {
+    const { code } = encodeCharacter(character, bold)
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      body += `\\${String.fromCharCode(code)}`
+    } else if (code > 0x7e) {
+      body += `\\${code.toString(8).padStart(3, '0')}`
+    } else {
+      body += String.fromCharCode(code)
+    }
+  }
+  return `(${body})`
+}
+
+// Document info strings use PDFDocEncoding rather than WinAnsi, so they are written as UTF-16
+const pdfInfoString = (text: string): string => {
+  let hex = 'FEFF'
+  for (let index = 0; index < text.length; index += 1) {
+    hex += text.charCodeAt(index).toString(16).toUpperCase().padStart(4, '0')
+  }
+  return `<${hex}>`
+}
+
+const num = (value: number): string => String(Math.round(value * 100) / 100)
+
+const color = ([red, green, blue]: PdfColor): string => `${num(red)} ${num(green)} ${num(blue)}`
+
+const pdfDate = (date: Date): string =>
+  `D:${date
+    .toISOString()
+    .replace(/\.\d+Z$/, '')
+    .replace(/[-:T]/g, '')}Z`
+
+const renderContent = (page: PdfPage): string => {
+  const operations: string[] = []
+  for (const rule of page.rules) {
+    const y = num(PDF_PAGE_HEIGHT - rule.y)
+    operations.push(
+      `${color(rule.color ?? [0, 0, 0])} RG ${num(rule.width ?? 0.5)} w ` +
+        `${num(rule.x1)} ${y} m ${num(rule.x2)} ${y} l S`
+    )
+  }
+  for (const text of page.texts) {
+    operations.push(
+      `BT ${color(text.color ?? [0, 0, 0])} rg /${text.bold ? 'F2' : 'F1'} ${num(text.size)} Tf ` +
+        `${num(text.x)} ${num(PDF_PAGE_HEIGHT - text.y)} Td ${pdfString(text.text, text.bold)} Tj ET`
+    )
+  }
+  return operations.join('\n')
+}
+
+/**
+ * Serialize `pages` as a complete PDF file. The result is ASCII, so its string length is its
+ * byte length and it can be handed to a Blob as is.
+ */
+export function renderPdf(pages: readonly PdfPage[], options: PdfDocumentOptions): string {
+  // Objects 1-5 are fixed; each page then adds itself, its content stream and its links
+  const objects: string[] = []
+  const add = (body: string): number => objects.push(body)
+  add('')
+  add('')
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  add(
+    `<< /Title ${pdfInfoString(options.title)} /Producer (Mountaineers Assistant) ` +
+      `/CreationDate (${pdfDate(options.createdAt)}) >>`
+  )
+
+  const pageRefs = pages.map((page) => {
+    const content = renderContent(page)
+    const contentRef = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    const linkRefs = page.links.map((link) => {
+      const bottom = PDF_PAGE_HEIGHT - link.y - link.height
+      return add(
+        `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${num(link.x)} ${num(bottom)} ` +
+          `${num(link.x + link.width)} ${num(bottom + link.height)}] ` +
+          `/A << /S /URI /URI ${pdfString(link.url)} >> >>`
+      )
+    })
+    const annotations = linkRefs.length
+      ? ` /Annots [${linkRefs.map((ref) => `${ref} 0 R`).join(' ')}]`
+      : ''
+    return add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R${annotations} >>`
+    )
+  })
+  objects[0] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(' ')}] /Count ${
+    pageRefs.length
+  } >>`
+
+  let output = '%PDF-1.4\n'
+  const offsets = objects.map((body, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`
+  output += `startxref\n${xrefOffset}\n%%EOF\n`
+  return output
+}
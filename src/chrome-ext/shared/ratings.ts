@@ -0,0 +1,101 @@
+/**
+ * Difficulty and leader rating handling. Activity pages show free-text ratings ("Moderate",
+ * "Strenuous/Moderate", "For Beginners (Getting Started)"); a scale per activity type folds them
+ * into ordinal levels so ratings can be compared and charted over time.
+ */
+
+export interface RatingLevel {
+  label: string
+  /** Words or phrases that place a rating on this level, in lower case. */
+  aliases: string[]
+}
+
+/** Levels from easiest to hardest; level n is `levels[n - 1]`. */
+export interface RatingScale {
+  levels: RatingLevel[]
+}
+
+export const DEFAULT_RATING_SCALE: RatingScale = {
+  levels: [
+    {
+      label: 'Easy',
+      aliases: ['easy', 'basic', 'beginner', 'beginners', 'getting started', 'novice', 'casual'],
+    },
+    { label: 'Moderate', aliases: ['moderate', 'intermediate', 'medium'] },
+    { label: 'Challenging', aliases: ['challenging', 'difficult', 'hard', 'demanding'] },
+    {
+      label: 'Strenuous',
+      aliases: [
+        'strenuous',
+        'very challenging',
+        'very difficult',
+        'very strenuous',
+        'advanced',
+        'expert',
+        'extreme',
+      ],
+    },
+  ],
+}
+
+/**
+ * Activity types rated on their own scale, matched when the type contains the key, so
+ * "Rock Climbing" uses the climbing scale. Other types use DEFAULT_RATING_SCALE.
+ */
+export const RATING_SCALES: Record<string, RatingScale> = {
+  climbing: {
+    levels: [
+      { label: 'Basic', aliases: ['basic', 'easy', 'beginner', 'beginners', 'getting started'] },
+      { label: 'Intermediate', aliases: ['intermediate', 'moderate'] },
+      {
+        label: 'Advanced',
+        aliases: ['advanced', 'challenging', 'difficult', 'strenuous', 'expert'],
+      },
+    ],
+  },
+}
+
+function cleanRatingText(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const cleaned = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+  return cleaned || null
+}
+
+export function getRatingScale(activityType: string | null | undefined): RatingScale {
+  const type = (activityType ?? '').toLowerCase()
+  const key = Object.keys(RATING_SCALES).find((candidate) => type.includes(candidate))
+  return key ? RATING_SCALES[key] : DEFAULT_RATING_SCALE
+}
+
+/**
+ * Place a free-text rating on the activity type's scale. A rating naming several levels
+ * ("Easy/Moderate") counts as the hardest of them. Returns null when no level matches, which
+ * callers should report rather than drop; blank ratings are not ratings at all.
+ */
+export function normalizeRating(
+  rating: string | null | undefined,
+  activityType: string | null | undefined
+): number | null {
+  const cleaned = cleanRatingText(rating)
+  if (!cleaned) {
+    return null
+  }
+  const words = ` ${cleaned} `
+  const { levels } = getRatingScale(activityType)
+  let level = 0
+  levels.forEach((candidate, index) => {
+    if (candidate.aliases.some((alias) => words.includes(` ${alias} `))) {
+      level = index + 1
+    }
+  })
+  return level || null
+}
+
+export function hasRating(rating: string | null | undefined): rating is string {
+  return cleanRatingText(rating) !== null
+}
@@ -0,0 +1,77 @@
+import type { CollectorProgressMessage, PersistedRefreshState, RefreshProgress } from './types'
+
+export const REFRESH_STATE_KEY = 'mountaineersAssistantRefreshState'
+
+export function createRefreshState(
+  runId: string,
+  fetchLimit: number | null,
+  now: number = Date.now()
+): PersistedRefreshState {
+  return {
+    runId,
+    stage: 'pending',
+    fetchLimit,
+    pendingActivityUids: null,
+    completedActivityUids: [],
+    progress: null,
+    startedAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Fold a collector progress message into the persisted refresh state.
+ * Activities move from pending to completed once their delta has been received,
+ * because that is the point where they are merged into the cache.
+ */
+export function applyProgressToRefreshState(
+  state: PersistedRefreshState,
+  message: CollectorProgressMessage,
+  progress: RefreshProgress,
+  now: number = Date.now()
+): PersistedRefreshState {
+  const completed = new Set(state.completedActivityUids)
+  for (const activity of message.delta?.activities ?? []) {
+    completed.add(activity.uid)
+  }
+
+  const queue = Array.isArray(message.queuedActivityUids)
+    ? message.queuedActivityUids
+    : state.pendingActivityUids
+
+  return {
+    ...state,
+    stage: progress.stage,
+    pendingActivityUids: queue ? queue.filter((uid) => !completed.has(uid)) : null,
+    completedActivityUids: Array.from(completed),
+    progress,
+    updatedAt: now,
+  }
+}
+
+export function isRefreshState(value: unknown): value is PersistedRefreshState {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const candidate = value as Partial<PersistedRefreshState>
+  return (
+    typeof candidate.runId === 'string' &&
+    typeof candidate.stage === 'string' &&
+    Array.isArray(candidate.completedActivityUids) &&
+    (candidate.pendingActivityUids === null || Array.isArray(candidate.pendingActivityUids))
+  )
+}
+
+export async function loadRefreshState(): Promise<PersistedRefreshState | null> {
+  const stored = (await chrome.storage.local.get(REFRESH_STATE_KEY)) as Record<string, unknown>
+  const value = stored?.[REFRESH_STATE_KEY]
+  return isRefreshState(value) ? value : null
+}
+
+export async function saveRefreshState(state: PersistedRefreshState): Promise<void> {
+  await chrome.storage.local.set({ [REFRESH_STATE_KEY]: state })
+}
+
+export async function clearRefreshState(): Promise<void> {
+  await chrome.storage.local.remove(REFRESH_STATE_KEY)
+}
@@ -0,0 +1,64 @@
+import type { ActivityRecord, FailedActivityRecord, RefreshMode } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const REFRESH_MODES: RefreshMode[] = ['new', 'all', 'stale', 'incomplete', 'failed']
+
+export function isRefreshMode(value: unknown): value is RefreshMode {
+  return typeof value === 'string' && (REFRESH_MODES as string[]).includes(value)
+}
+
+export function getRefreshModeLabel(mode: RefreshMode, staleDays: number): string {
+  switch (mode) {
+    case 'all':
+      return 'Re-sync all activities'
+    case 'stale':
+      return `Re-sync activities not fetched in ${staleDays} ${staleDays === 1 ? 'day' : 'days'}`
+    case 'incomplete':
+      return 'Re-sync activities missing type or difficulty'
+    case 'failed':
+      return 'Retry activities that failed to load'
+    default:
+      return 'New activities only'
+  }
+}
+
+/**
+ * Pick the cached activities a refresh in `mode` should fetch again.
+ * Activities cached before `fetchedAt` was recorded count as stale.
+ */
+export function selectActivitiesForResync(
+  activities: readonly ActivityRecord[],
+  mode: RefreshMode,
+  {
+    staleDays,
+    failedActivities = [],
+    now = Date.now(),
+  }: { staleDays: number; failedActivities?: readonly FailedActivityRecord[]; now?: number }
+): string[] {
+  switch (mode) {
+    case 'all':
+      return activities.map((activity) => activity.uid)
+    case 'stale': {
+      const cutoff = now - staleDays * DAY_MS
+      return activities
+        .filter((activity) => {
+          const fetchedAt = activity.fetchedAt ? Date.parse(activity.fetchedAt) : Number.NaN
+          return Number.isNaN(fetchedAt) || fetchedAt < cutoff
+        })
+        .map((activity) => activity.uid)
+    }
+    case 'incomplete':
+      return activities
+        .filter((activity) => activity.activity_type == null || activity.difficulty_rating == null)
+        .map((activity) => activity.uid)
+    case 'failed': {
+      const failed = new Set(failedActivities.map((record) => record.uid))
+      return activities
+        .filter((activity) => failed.has(activity.uid))
+        .map((activity) => activity.uid)
+    }
+    default:
+      return []
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Roster role and status handling. The roster shows free-form position text ("Co-Leader",
+ * "Mentor", "Guest Leader"); a role-mapping table folds it into the roles the dashboard charts.
+ */
+
+import type { RoleMapping, RosterEntryRecord } from './types'
+
+export const DEFAULT_ROLE = 'Participant'
+
+/** Canonical roles that make a roster entry count as leading the activity. */
+export const LEADER_ROLES = ['Primary Leader', 'Assistant Leader'] as const
+
+export type RosterStatus = 'registered' | 'waitlisted' | 'cancelled'
+
+export const DEFAULT_ROLE_MAPPINGS: RoleMapping[] = [
+  { match: 'Primary Leader', role: 'Primary Leader' },
+  { match: 'Leader', role: 'Primary Leader' },
+  { match: 'Assistant Leader', role: 'Assistant Leader' },
+  { match: 'Co-Leader', role: 'Assistant Leader' },
+  { match: 'Guest Leader', role: 'Assistant Leader' },
+  { match: 'Instructor', role: 'Instructor' },
+  { match: 'Mentor', role: 'Instructor' },
+  { match: 'Participant', role: 'Participant' },
+  { match: 'Student', role: 'Participant' },
+]
+
+function cleanRoleText(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const cleaned = value.replace(/\s+/g, ' ').trim()
+  return cleaned || null
+}
+
+/**
+ * Resolve roster position text to a role. Unmapped text is kept as-is rather than
+ * being collapsed into Participant.
+ */
+export function resolveRole(
+  rawRole: string | null | undefined,
+  mappings: readonly RoleMapping[] = DEFAULT_ROLE_MAPPINGS
+): { role: string; isLeader: boolean } {
+  const cleaned = cleanRoleText(rawRole)
+  if (!cleaned) {
+    return { role: DEFAULT_ROLE, isLeader: false }
+  }
+  const key = cleaned.toLowerCase()
+  const mapping = mappings.find((candidate) => candidate.match.trim().toLowerCase() === key)
+  const role = mapping ? mapping.role : cleaned
+  return { role, isLeader: isLeaderRole(role) }
+}
+
+export function isLeaderRole(role: string | null | undefined): boolean {
+  const cleaned = cleanRoleText(role)
+  if (!cleaned) {
+    return false
+  }
+  return (LEADER_ROLES as readonly string[]).includes(cleaned) || /\bleader\b/i.test(cleaned)
+}
+
+/**
+ * Work out a roster entry's status from markup hints: class names, status badges and
+ * the heading of the roster section the contact sits in.
+ */
+export function detectRosterStatus(hints: ReadonlyArray<string | null | undefined>): RosterStatus {
+  const text = hints.filter(Boolean).join(' ').toLowerCase()
+  if (/wait[\s-]?list/.test(text)) {
+    return 'waitlisted'
+  }
+  if (/cancel|withdr[ae]wn|dropped/.test(text)) {
+    return 'cancelled'
+  }
+  return 'registered'
+}
+
+/** Roster and waitlist groupings a contact can sit in; page layout further out is ignored. */
+const ROSTER_CONTAINER_SELECTOR = '.roster-group, [class*="roster-"], [class*="waitlist"]'
+const ROSTER_HEADING_SELECTOR = 'h2, h3, h4, .roster-group-title'
+
+/**
+ * Read a roster contact's status from its own class or status badge, and from the class and
+ * heading of each roster or waitlist group it is listed in.
+ */
+export function readRosterStatus(contact: Element): RosterStatus {
+  const hints: Array<string | null | undefined> = [
+    contact.className,
+    contact.querySelector('.roster-status, .badge, .label')?.textContent,
+  ]
+  let container = contact.parentElement?.closest(ROSTER_CONTAINER_SELECTOR) ?? null
+  while (container) {
+    const heading = Array.from(container.children).find((child) =>
+      child.matches(ROSTER_HEADING_SELECTOR)
+    )
+    hints.push(container.className, heading?.textContent)
+    container = container.parentElement?.closest(ROSTER_CONTAINER_SELECTOR) ?? null
+  }
+  return detectRosterStatus(hints)
+}
+
+/**
+ * Waitlisted and cancelled entries are on the roster but did not take part, so they are
+ * left out of role and partner counts. Entries without a status predate status tracking.
+ */
+export function isActiveRosterEntry(entry: Pick<RosterEntryRecord, 'status'>): boolean {
+  return entry.status !== 'waitlisted' && entry.status !== 'cancelled'
+}
+
+/**
+ * Parse the "Position text = Role" lines of the preferences textarea. Blank lines and
+ * lines starting with `#` are ignored.
+ */
+export function parseRoleMappings(text: string): {
+  mappings: RoleMapping[]
+  errors: string[]
+} {
+  const mappings: RoleMapping[] = []
+  const errors: string[] = []
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) {
+      return
+    }
+    const separator = trimmed.indexOf('=')
+    const match = cleanRoleText(separator === -1 ? null : trimmed.slice(0, separator))
+    const role = cleanRoleText(separator === -1 ? null : trimmed.slice(separator + 1))
+    if (!match || !role) {
+      errors.push(`Line ${index + 1}: expected "Position = Role".`)
+      return
+    }
+    mappings.push({ match, role })
+  })
+  return { mappings, errors }
+}
+
+export function formatRoleMappings(mappings: readonly RoleMapping[]): string {
+  return mappings.map((mapping) => `${mapping.match} = ${mapping.role}`).join('\n')
+}
+
+/** Keep well-formed mappings from stored settings; fall back to the defaults otherwise. */
+export function normalizeRoleMappings(value: unknown): RoleMapping[] {
+  if (!Array.isArray(value)) {
+    return DEFAULT_ROLE_MAPPINGS.map((mapping) => ({ ...mapping }))
+  }
+  const mappings: RoleMapping[] = []
+  for (const item of value) {
+    const candidate = item as Partial<RoleMapping> | null
+    const match = cleanRoleText(candidate?.match)
+    const role = cleanRoleText(candidate?.role)
+    if (match && role) {
+      mappings.push({ match, role })
+    }
+  }
+  return mappings
+}
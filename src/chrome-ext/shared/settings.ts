@@ -0,0 +1,97 @@
+import { isAutoSyncFrequency } from './auto-sync'
+import { migrateSettings, SETTINGS_SCHEMA_VERSION } from './migrations'
+import { DEFAULT_ROLE_MAPPINGS, normalizeRoleMappings } from './roles'
+import type { ExtensionSettings } from './types'
+
+export const SETTINGS_KEY = 'mountaineersAssistantSettings'
+
+export const FETCH_CONCURRENCY_RANGE = { min: 1, max: 6 } as const
+export const FETCH_DELAY_RANGE_MS = { min: 0, max: 10_000 } as const
+export const RESYNC_STALE_DAYS_RANGE = { min: 1, max: 3650 } as const
+export const QUIET_HOUR_RANGE = { min: 0, max: 23 } as const
+
+export const DEFAULT_EXTENSION_SETTINGS: ExtensionSettings = {
+  schemaVersion: SETTINGS_SCHEMA_VERSION,
+  showAvatars: true,
+  fetchLimit: null,
+  countUnsuccessful: false,
+  showRemovedActivities: false,
+  fetchConcurrency: 2,
+  fetchDelayMs: 500,
+  resyncStaleDays: 90,
+  roleMappings: DEFAULT_ROLE_MAPPINGS,
+  autoSyncFrequency: 'off',
+  quietHoursStart: 22,
+  quietHoursEnd: 7,
+}
+
+function clampInteger(value: unknown, range: { min: number; max: number }, fallback: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback
+  }
+  return Math.min(range.max, Math.max(range.min, Math.floor(value)))
+}
+
+/**
+ * Coerce whatever is stored under the settings key into a complete settings object.
+ */
+export function normalizeExtensionSettings(value: unknown): ExtensionSettings {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_EXTENSION_SETTINGS, roleMappings: normalizeRoleMappings(null) }
+  }
+  const candidate = value as Partial<ExtensionSettings>
+  const fetchLimit = candidate.fetchLimit ?? null
+  return {
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    showAvatars:
+      typeof candidate.showAvatars === 'boolean'
+        ? candidate.showAvatars
+        : DEFAULT_EXTENSION_SETTINGS.showAvatars,
+    fetchLimit:
+      typeof fetchLimit === 'number' && Number.isFinite(fetchLimit) && fetchLimit > 0
+        ? Math.floor(fetchLimit)
+        : DEFAULT_EXTENSION_SETTINGS.fetchLimit,
+    countUnsuccessful:
+      typeof candidate.countUnsuccessful === 'boolean'
+        ? candidate.countUnsuccessful
+        : DEFAULT_EXTENSION_SETTINGS.countUnsuccessful,
+    showRemovedActivities:
+      typeof candidate.showRemovedActivities === 'boolean'
+        ? candidate.showRemovedActivities
+        : DEFAULT_EXTENSION_SETTINGS.showRemovedActivities,
+    fetchConcurrency: clampInteger(
+      candidate.fetchConcurrency,
+      FETCH_CONCURRENCY_RANGE,
+      DEFAULT_EXTENSION_SETTINGS.fetchConcurrency
+    ),
+    fetchDelayMs: clampInteger(
+      candidate.fetchDelayMs,
+      FETCH_DELAY_RANGE_MS,
+      DEFAULT_EXTENSION_SETTINGS.fetchDelayMs
+    ),
+    resyncStaleDays: clampInteger(
+      candidate.resyncStaleDays,
+      RESYNC_STALE_DAYS_RANGE,
+      DEFAULT_EXTENSION_SETTINGS.resyncStaleDays
+    ),
+    roleMappings: normalizeRoleMappings(candidate.roleMappings),
+    autoSyncFrequency: isAutoSyncFrequency(candidate.autoSyncFrequency)
+      ? candidate.autoSyncFrequency
+      : DEFAULT_EXTENSION_SETTINGS.autoSyncFrequency,
+    quietHoursStart: clampInteger(
+      candidate.quietHoursStart,
+      QUIET_HOUR_RANGE,
+      DEFAULT_EXTENSION_SETTINGS.quietHoursStart
+    ),
+    quietHoursEnd: clampInteger(
+      candidate.quietHoursEnd,
+      QUIET_HOUR_RANGE,
+      DEFAULT_EXTENSION_SETTINGS.quietHoursEnd
+    ),
+  }
+}
+
+export async function loadExtensionSettings(): Promise<ExtensionSettings> {
+  const stored = (await chrome.storage.local.get(SETTINGS_KEY)) as Record<string, unknown>
+  return normalizeExtensionSettings(migrateSettings(stored?.[SETTINGS_KEY]).settings)
+}
@@ -0,0 +1,70 @@
+/**
+ * Activities that disappear from the member history (deleted, merged into another activity,
+ * or reclassified) are kept but marked with `tombstonedAt` instead of being dropped, so a
+ * history glitch never silently loses data. Preferences lists them and can purge them.
+ */
+
+import type { ActivityRecord, ExtensionCache } from './types'
+
+export function isTombstoned(activity: Pick<ActivityRecord, 'tombstonedAt'>): boolean {
+  return Boolean(activity.tombstonedAt)
+}
+
+/**
+ * Mark cached activities missing from `historyActivityUids` as tombstoned and clear the mark
+ * from ones that reappeared. An empty history is treated as a failed read and changes nothing.
+ */
+export function reconcileTombstones(
+  activities: readonly ActivityRecord[],
+  historyActivityUids: readonly string[] | null | undefined,
+  now: Date = new Date()
+): { activities: ActivityRecord[]; tombstoned: number; restored: number } {
+  if (!historyActivityUids?.length) {
+    return { activities: [...activities], tombstoned: 0, restored: 0 }
+  }
+  const history = new Set(historyActivityUids)
+  const timestamp = now.toISOString()
+  let tombstoned = 0
+  let restored = 0
+
+  const reconciled = activities.map((activity) => {
+    const inHistory = history.has(activity.uid)
+    if (!inHistory && !isTombstoned(activity)) {
+      tombstoned += 1
+      return { ...activity, tombstonedAt: timestamp }
+    }
+    if (inHistory && isTombstoned(activity)) {
+      restored += 1
+      const { tombstonedAt: _removed, ...rest } = activity
+      return rest
+    }
+    return activity
+  })
+
+  return { activities: reconciled, tombstoned, restored }
+}
+
+/**
+ * Remove tombstoned activities together with their roster entries and failure records.
+ * People are kept since they may appear on other activities.
+ */
+export function purgeTombstonedActivities(cache: ExtensionCache): {
+  cache: ExtensionCache
+  purged: number
+} {
+  const removed = new Set(
+    cache.activities.filter((activity) => isTombstoned(activity)).map((activity) => activity.uid)
+  )
+  if (!removed.size) {
+    return { cache, purged: 0 }
+  }
+  return {
+    cache: {
+      ...cache,
+      activities: cache.activities.filter((activity) => !removed.has(activity.uid)),
+      rosterEntries: cache.rosterEntries.filter((entry) => !removed.has(entry.activity_uid)),
+      failedActivities: cache.failedActivities?.filter((record) => !removed.has(record.uid)),
+    },
+    purged: removed.size,
+  }
+}
@@ -1,3 +1,5 @@
+export type ActivityOutcome = 'successful' | 'turned-back' | 'canceled' | 'no-show' | 'other'
+
 export interface ActivityRecord {
   uid: string
   href: string
@@ -7,9 +9,22 @@ export interface ActivityRecord {
   trip_results: string | null
   result: string | null
   rawResult?: unknown
+  outcome?: ActivityOutcome
   activity_type: string | null
   difficulty_rating: string | null
   leader_rating: string | null
+  /** ISO timestamp of the last time the activity page and roster were fetched. */
+  fetchedAt?: string | null
+  /** Set when the activity no longer appears in the member history; see shared/tombstones. */
+  tombstonedAt?: string | null
+  // Read from the activity page details list; absent for activities cached before they existed
+  end_date?: string | null
+  location?: string | null
+  branch?: string | null
+  committee?: string | null
+  leader_names?: string[]
+  route_name?: string | null
+  route_href?: string | null
 }
 
 export interface PersonRecord {
@@ -23,39 +38,112 @@ export interface RosterEntryRecord {
   activity_uid: string
   person_uid: string
   role: string | null
+  /** Position text as shown on the roster, before role mapping. */
+  rawRole?: string | null
+  /** 'registered', 'waitlisted' or 'cancelled'; see shared/roles. */
   status?: string | null
   isLeader?: boolean
 }
 
 export interface ExtensionCache {
+  /** See shared/migrations; absent on caches written before versioning. */
+  schemaVersion?: number
   activities: ActivityRecord[]
   people: PersonRecord[]
   rosterEntries: RosterEntryRecord[]
   lastUpdated: string | null
   currentUserUid: string | null
+  /** Activities whose detail page or roster could not be loaded on their latest fetch. */
+  failedActivities?: FailedActivityRecord[]
+}
+
+/** JSON export written by shared/export. */
+export interface ExportArchive {
+  format: 'mountaineers-assistant-export'
+  version: number
+  exportedAt: string
+  /** True when only the activities matching the dashboard filters were exported. */
+  filtered: boolean
+  data: ExtensionCache
+}
+
+export interface FailedActivityRecord {
+  uid: string
+  title: string | null
+  /** Requests that still failed after retrying. */
+  failedParts: Array<'details' | 'roster'>
+  error: string | null
+  failedAt: string
+}
+
+export interface RoleMapping {
+  /** Roster position text, compared case-insensitively. */
+  match: string
+  /** Role recorded for matching entries. */
+  role: string
 }
 
 export interface ExtensionSettings {
+  schemaVersion: number
   showAvatars: boolean
   fetchLimit: number | null
+  countUnsuccessful: boolean
+  /** Include activities that disappeared from the member history in charts and totals. */
+  showRemovedActivities: boolean
+  /** Number of activities the collector loads in parallel. */
+  fetchConcurrency: number
+  /** Minimum delay between requests to mountaineers.org, in milliseconds. */
+  fetchDelayMs: number
+  /** Age in days after which the stale re-sync mode fetches an activity again. */
+  resyncStaleDays: number
+  /** Maps roster position text to the role recorded for it during collection. */
+  roleMappings: RoleMapping[]
+  /** How often the background syncs new activities on its own. */
+  autoSyncFrequency: AutoSyncFrequency
+  /** Local hour (0-23) from which automatic syncs are held back. Equal to the end disables it. */
+  quietHoursStart: number
+  /** Local hour (0-23) at which automatic syncs may run again. */
+  quietHoursEnd: number
+}
+
+export type AutoSyncFrequency = 'off' | 'daily' | 'weekly'
+
+/** Outcome of the most recent automatic sync, shown in preferences. */
+export interface AutoSyncRecord {
+  startedAt: string
+  finishedAt: string
+  /** 'skipped' means the user was not logged in to Mountaineers.org. */
+  status: 'success' | 'skipped' | 'error'
+  summary: RefreshSummary | null
+  error?: string
 }
 
 export interface CollectorDelta {
   activities?: ActivityRecord[]
   people?: PersonRecord[]
   rosterEntries?: RosterEntryRecord[]
+  /** Activities whose full roster was loaded; their cached roster entries are replaced. */
+  rosterActivityUids?: string[]
+  failedActivities?: FailedActivityRecord[]
 }
 
 export interface CollectorSuccessPayload {
   activities: ActivityRecord[]
   people: PersonRecord[]
   rosterEntries: RosterEntryRecord[]
+  rosterActivityUids: string[]
+  failedActivities: FailedActivityRecord[]
+  /** Every activity UID in the member history, used to detect removed activities. */
+  historyActivityUids: string[]
   currentUserUid: string | null
 }
 
 export interface CollectorResultMessage {
   type: 'refresh-result'
+  runId?: string
   success: boolean
+  /** The run was stopped early; `data` holds only the activities finished before that. */
+  cancelled?: boolean
   data?: CollectorSuccessPayload
   error?: string
 }
@@ -63,14 +151,27 @@ export interface CollectorResultMessage {
 export interface CollectorProgressMessage {
   type: 'refresh-progress'
   origin: 'collector'
+  runId?: string
   stage: string
   timestamp: number
   total?: number
   completed?: number
   activityUid?: string
-  activityTitle?: string
+  activityTitle?: string | null
   error?: string
   delta?: CollectorDelta
+  /** Full list of activities the collector is about to load, sent once per run. */
+  queuedActivityUids?: string[]
+  /** Set on 'retrying' updates: how long the collector waits before trying again. */
+  retryDelayMs?: number
+}
+
+/** A cached activity the current user shared with another member; see the content script. */
+export interface SharedActivity {
+  uid: string
+  title: string
+  date: string
+  href: string
 }
 
 export interface RefreshProgress {
@@ -87,4 +188,32 @@ export interface RefreshSummary {
   activityCount: number
   lastUpdated: string | null
   newActivities: number
+  /** Previously cached activities fetched again by a re-sync. */
+  refreshedActivities?: number
+  cancelled?: boolean
+  /** Activities from this run whose details or roster could not be loaded. */
+  failedActivities?: number
+  /** Cached activities newly found missing from the member history. */
+  tombstonedActivities?: number
+}
+
+/**
+ * Which cached activities a refresh fetches again, in addition to new ones:
+ * none, all of them, ones not fetched within the stale threshold, or ones missing
+ * an activity type or difficulty rating, or ones whose last fetch failed.
+ */
+export type RefreshMode = 'new' | 'all' | 'stale' | 'incomplete' | 'failed'
+
+export interface PersistedRefreshState {
+  runId: string
+  stage: string
+  fetchLimit: number | null
+  /** Cached activities this run re-fetches; see RefreshMode. */
+  refetchActivityUids?: string[]
+  /** Null until the collector has reported which activities it will load. */
+  pendingActivityUids: string[] | null
+  completedActivityUids: string[]
+  progress: RefreshProgress | null
+  startedAt: number
+  updatedAt: number
 }
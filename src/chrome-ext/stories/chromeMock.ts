@@ -1,6 +1,7 @@
+import { clearExtensionCache, loadExtensionCache, saveExtensionCache } from '../shared/cache'
+import { DEFAULT_ROLE_MAPPINGS } from '../shared/roles'
 import type { ExtensionCache, ExtensionSettings, RefreshProgress } from '../shared/types'
 
-const STORAGE_KEY = 'mountaineersAssistantData'
 const SETTINGS_KEY = 'mountaineersAssistantSettings'
 
 type RuntimeListener = Parameters<typeof chrome.runtime.onMessage.addListener>[0]
@@ -30,8 +31,18 @@ export interface ProgressUpdateConfig {
 }
 
 const defaultSettings: ExtensionSettings = {
+  schemaVersion: 1,
   showAvatars: true,
   fetchLimit: null,
+  countUnsuccessful: false,
+  showRemovedActivities: false,
+  fetchConcurrency: 2,
+  fetchDelayMs: 500,
+  resyncStaleDays: 90,
+  roleMappings: DEFAULT_ROLE_MAPPINGS,
+  autoSyncFrequency: 'off',
+  quietHoursStart: 22,
+  quietHoursEnd: 7,
 }
 
 export const createChromeMock = ({
@@ -98,11 +109,21 @@ export const createChromeMock = ({
   }
 
   const runtime = {
-    sendMessage: (message: unknown, responseCallback?: (response: unknown) => void): void => {
-      const payload = message as { type?: string; limit?: number | null }
+    sendMessage: (message: unknown, callback?: (response: unknown) => void): Promise<unknown> => {
+      const payload = message as { type?: string; requestId?: string; limit?: number | null }
+      // Answer in the shared/messages response envelope, both as a promise and a callback
+      let resolveResponse: (response: unknown) => void = () => undefined
+      const response = new Promise<unknown>((resolve) => {
+        resolveResponse = resolve
+      })
+      const respond = (result: unknown) => {
+        const wrapped = { requestId: payload?.requestId, ok: true, payload: result }
+        callback?.(wrapped)
+        resolveResponse(wrapped)
+      }
       if (payload?.type === 'get-refresh-status') {
-        responseCallback?.({ success: true, inProgress: false })
-        return
+        respond({ success: true, inProgress: false, progress: null })
+        return response
       }
       if (payload?.type === 'start-refresh') {
         clearScheduledTimers()
@@ -116,6 +137,7 @@ export const createChromeMock = ({
         broadcastRuntimeMessage({
           type: 'refresh-status-changed',
           inProgress: true,
+          progress: null,
         })
 
         const sortedUpdates = [...progressUpdates].sort((a, b) => a.delay - b.delay)
@@ -125,6 +147,7 @@ export const createChromeMock = ({
             const progress = buildProgressPayload(update)
             broadcastRuntimeMessage({
               type: 'refresh-progress',
+              origin: 'background',
               progress,
             })
           }, update.delay)
@@ -137,13 +160,15 @@ export const createChromeMock = ({
           broadcastRuntimeMessage({
             type: 'refresh-status-changed',
             inProgress: false,
+            progress: null,
           })
-          responseCallback?.({ success: true, summary })
+          respond({ success: true, summary })
         }, completionDelay)
 
-        return
+        return response
       }
-      responseCallback?.({ success: true })
+      respond({ success: true })
+      return response
     },
     onMessage: {
       addListener: (listener: RuntimeListener) => {
@@ -162,10 +187,7 @@ export const createChromeMock = ({
     local: {
       get: async (keys?: string | string[] | Record<string, unknown>) => {
         if (!keys) {
-          return {
-            [STORAGE_KEY]: clone(currentData),
-            [SETTINGS_KEY]: clone(currentSettings),
-          }
+          return { [SETTINGS_KEY]: clone(currentSettings) }
         }
 
         const requestedKeys = Array.isArray(keys)
@@ -176,9 +198,6 @@ export const createChromeMock = ({
 
         const result: Record<string, unknown> = {}
         for (const key of requestedKeys) {
-          if (key === STORAGE_KEY) {
-            result[key] = clone(currentData)
-          }
           if (key === SETTINGS_KEY) {
             result[key] = clone(currentSettings)
           }
@@ -186,12 +205,6 @@ export const createChromeMock = ({
         return result
       },
       set: async (items: Record<string, unknown>) => {
-        if (STORAGE_KEY in items) {
-          const next = (items[STORAGE_KEY] as ExtensionCache | null) ?? null
-          const prev = clone(currentData)
-          currentData = clone(next)
-          emitStorageChange(STORAGE_KEY, clone(next), prev)
-        }
         if (SETTINGS_KEY in items) {
           const prev = clone(currentSettings)
           currentSettings = {
@@ -203,11 +216,6 @@ export const createChromeMock = ({
       },
       remove: async (key: string | string[]) => {
         const keys = Array.isArray(key) ? key : [key]
-        if (keys.includes(STORAGE_KEY)) {
-          const prev = clone(currentData)
-          currentData = null
-          emitStorageChange(STORAGE_KEY, null, prev)
-        }
         if (keys.includes(SETTINGS_KEY)) {
           const prev = clone(currentSettings)
           currentSettings = { ...defaultSettings }
@@ -215,11 +223,8 @@ export const createChromeMock = ({
         }
       },
       clear: async () => {
-        const prevData = clone(currentData)
         const prevSettings = clone(currentSettings)
-        currentData = null
         currentSettings = { ...defaultSettings }
-        emitStorageChange(STORAGE_KEY, null, prevData)
         emitStorageChange(SETTINGS_KEY, clone(currentSettings), prevSettings)
       },
     },
@@ -260,11 +265,19 @@ export const createChromeMock = ({
   ;(window as typeof window & { chrome?: typeof chrome }).chrome = chromeMock as typeof chrome
   delete (window as typeof window & { mountaineersDashboard?: unknown }).mountaineersDashboard
 
+  // Pages read the cache from IndexedDB, so the story data is written there. The write is
+  // queued before the page's first read, and IndexedDB commits it before that read runs.
+  const seedCache = (next: ExtensionCache | null) => {
+    currentData = clone(next)
+    return (next ? saveExtensionCache(clone(next)) : clearExtensionCache()).catch((error) => {
+      console.error('Chrome mock failed to seed the activity cache', error)
+    })
+  }
+  seedCache(currentData)
+
   return {
-    getData: () => clone(currentData),
-    setData: (next: ExtensionCache | null) => {
-      currentData = clone(next)
-    },
+    getData: () => loadExtensionCache(),
+    setData: seedCache,
     setSettings: (next: ExtensionSettings) => {
       currentSettings = clone(next)
     },
@@ -0,0 +1,63 @@
+/**
+ * Cache records for unit tests. Tests build on these factories instead of spelling out every
+ * field, so a change to the stored shape is made here once.
+ */
+
+import type {
+  ActivityRecord,
+  ExtensionCache,
+  PersonRecord,
+  RosterEntryRecord,
+} from '../../src/chrome-ext/shared/types'
+
+/** A successful trip on 2025-01-01 with no type or ratings. */
+export function activity(uid: string, overrides: Partial<ActivityRecord> = {}): ActivityRecord {
+  return {
+    uid,
+    href: `https://www.mountaineers.org/activities/${uid}`,
+    title: uid,
+    category: 'trip',
+    start_date: '2025-01-01',
+    trip_results: null,
+    result: 'Successful',
+    activity_type: null,
+    difficulty_rating: null,
+    leader_rating: null,
+    ...overrides,
+  }
+}
+
+/** An activity of `type` starting at midnight UTC on `date` (YYYY-MM-DD). */
+export function activityOn(
+  uid: string,
+  date: string,
+  type: string,
+  overrides: Partial<ActivityRecord> = {}
+): ActivityRecord {
+  return activity(uid, { start_date: `${date}T00:00:00.000Z`, activity_type: type, ...overrides })
+}
+
+export function person(uid: string, name: string | null = null): PersonRecord {
+  return { uid, name, href: null, avatar: null }
+}
+
+export function rosterEntry(
+  activityUid: string,
+  personUid: string,
+  role: string | null = 'Participant',
+  overrides: Partial<RosterEntryRecord> = {}
+): RosterEntryRecord {
+  return { activity_uid: activityUid, person_uid: personUid, role, ...overrides }
+}
+
+/** A cache holding only what is given. */
+export function buildCache(parts: Partial<ExtensionCache> = {}): ExtensionCache {
+  return {
+    activities: [],
+    people: [],
+    rosterEntries: [],
+    lastUpdated: null,
+    currentUserUid: null,
+    ...parts,
+  }
+}
@@ -1,8 +1,9 @@
 import fs from 'node:fs/promises'
 import path from 'node:path'
 import { type BrowserContext, test as base, chromium } from '@playwright/test'
+import { CACHE_SCHEMA_VERSION } from '../../src/chrome-ext/shared/migrations'
 
-const STORAGE_KEY = 'mountaineersAssistantData'
+const CACHE_DB_NAME = 'mountaineersAssistant'
 const SETTINGS_KEY = 'mountaineersAssistantSettings'
 const ACTIVE_TAB_URL = 'https://www.mountaineers.org/my-dashboard'
 
@@ -96,13 +97,45 @@ export const test = base.extend<ExtensionHarness>({
         serviceWorker = await context.waitForEvent('serviceworker')
       }
 
+      // Seed the extension's IndexedDB cache directly, the way the extension itself stores it
       await serviceWorker.evaluate(
-        async ({ storageKey, settingsKey, cache, settings }) => {
+        async ({ dbName, settingsKey, cache, settings }) => {
           try {
-            await chrome.storage.local.set({
-              [storageKey]: cache,
-              [settingsKey]: settings,
+            // The background creates the database and its stores as it starts; opening it
+            // before then would create it empty
+            for (let attempt = 0; attempt < 100; attempt++) {
+              const databases = await indexedDB.databases()
+              if (databases.some((database) => database.name === dbName)) {
+                break
+              }
+              await new Promise((resolve) => setTimeout(resolve, 10))
+            }
+            const db = await new Promise<IDBDatabase>((resolve, reject) => {
+              const request = indexedDB.open(dbName)
+              request.onsuccess = () => resolve(request.result)
+              request.onerror = () => reject(request.error)
             })
+            const { activities, people, rosterEntries, ...meta } = cache
+            const transaction = db.transaction(
+              ['activities', 'people', 'rosterEntries', 'meta'],
+              'readwrite'
+            )
+            for (const activity of activities) {
+              transaction.objectStore('activities').put(activity)
+            }
+            for (const person of people) {
+              transaction.objectStore('people').put(person)
+            }
+            for (const entry of rosterEntries) {
+              transaction.objectStore('rosterEntries').put(entry)
+            }
+            transaction.objectStore('meta').put(meta, 'cache')
+            await new Promise<void>((resolve, reject) => {
+              transaction.oncomplete = () => resolve()
+              transaction.onerror = () => reject(transaction.error)
+            })
+            db.close()
+            await chrome.storage.local.set({ [settingsKey]: settings })
           } catch (error) {
             console.error(
               'Mountaineers Assistant test harness failed to seed storage:',
@@ -111,9 +144,10 @@ export const test = base.extend<ExtensionHarness>({
           }
         },
         {
-          storageKey: STORAGE_KEY,
+          dbName: CACHE_DB_NAME,
           settingsKey: SETTINGS_KEY,
           cache: {
+            schemaVersion: CACHE_SCHEMA_VERSION,
             activities,
             people,
             rosterEntries,
@@ -127,14 +161,7 @@ export const test = base.extend<ExtensionHarness>({
         }
       )
       await context.addInitScript(
-        ({
-          activeTabUrl,
-          summaryPayload,
-          cachePayload,
-          settingsPayload,
-          storageKey,
-          settingsKey,
-        }) => {
+        ({ activeTabUrl, summaryPayload, settingsPayload, settingsKey }) => {
           const applyStubs = () => {
             const chromeApi = (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome
             if (!chromeApi) {
@@ -148,10 +175,8 @@ export const test = base.extend<ExtensionHarness>({
               return JSON.parse(JSON.stringify(value))
             }
 
-            type CacheState = typeof cachePayload | null
             type SettingsState = typeof settingsPayload
 
-            let cacheState: CacheState = clone(cachePayload)
             let settingsState: SettingsState = clone(settingsPayload)
 
             const storageListeners: Array<
@@ -256,17 +281,23 @@ export const test = base.extend<ExtensionHarness>({
               ) => {
                 const callback =
                   typeof optionsOrCallback === 'function' ? optionsOrCallback : maybeCallback
-                const payload = message as { type?: string; limit?: number | null } | undefined
+                const payload = message as
+                  | { type?: string; requestId?: string; limit?: number | null }
+                  | undefined
+                // Answer in the shared/messages response envelope
+                const respond = (result: unknown) => {
+                  const response = { requestId: payload?.requestId, ok: true, payload: result }
+                  callback?.(response)
+                  return Promise.resolve(response)
+                }
                 if (payload?.type === 'get-refresh-status') {
-                  callback?.({ success: true, inProgress: false })
-                  return undefined
+                  return respond({ success: true, inProgress: false, progress: null })
                 }
                 if (payload?.type === 'start-refresh') {
-                  callback?.({
+                  return respond({
                     success: true,
                     summary: summaryPayload,
                   })
-                  return undefined
                 }
                 return originalSendMessage(
                   message,
@@ -299,7 +330,7 @@ export const test = base.extend<ExtensionHarness>({
                 keys?: string | string[] | Record<string, unknown> | null
               ): string[] => {
                 if (!keys) {
-                  return [storageKey, settingsKey]
+                  return [settingsKey]
                 }
                 if (typeof keys === 'string') {
                   return [keys]
@@ -314,9 +345,7 @@ export const test = base.extend<ExtensionHarness>({
                 const requested = resolveKeys(keys)
                 const result: Record<string, unknown> = {}
                 for (const key of requested) {
-                  if (key === storageKey) {
-                    result[key] = clone(cacheState)
-                  } else if (key === settingsKey) {
+                  if (key === settingsKey) {
                     result[key] = clone(settingsState)
                   }
                 }
@@ -334,13 +363,6 @@ export const test = base.extend<ExtensionHarness>({
 
               const stubbedSet = ((items: Record<string, unknown>) => {
                 const updated: string[] = []
-                if (storageKey in items) {
-                  const previous = clone(cacheState)
-                  const nextValue = items[storageKey] as CacheState
-                  cacheState = nextValue == null ? null : clone(nextValue)
-                  emitStorageChange(storageKey, clone(cacheState), previous)
-                  updated.push(storageKey)
-                }
                 if (settingsKey in items) {
                   const previous = clone(settingsState)
                   const nextSettings = items[settingsKey] as Partial<SettingsState> | undefined
@@ -360,12 +382,6 @@ export const test = base.extend<ExtensionHarness>({
               const stubbedRemove = ((keys: string | string[]) => {
                 const requested = resolveKeys(keys)
                 let touched = false
-                if (requested.includes(storageKey)) {
-                  const previous = clone(cacheState)
-                  cacheState = null
-                  emitStorageChange(storageKey, null, previous)
-                  touched = true
-                }
                 if (requested.includes(settingsKey)) {
                   const previous = clone(settingsState)
                   settingsState = clone(settingsPayload)
@@ -379,11 +395,8 @@ export const test = base.extend<ExtensionHarness>({
               }) as unknown as typeof chrome.storage.local.remove
 
               const stubbedClear = (() => {
-                const prevCache = clone(cacheState)
                 const prevSettings = clone(settingsState)
-                cacheState = null
                 settingsState = clone(settingsPayload)
-                emitStorageChange(storageKey, null, prevCache)
                 emitStorageChange(settingsKey, clone(settingsState), prevSettings)
                 return Promise.resolve()
               }) as unknown as typeof chrome.storage.local.clear
@@ -429,18 +442,10 @@ export const test = base.extend<ExtensionHarness>({
             lastUpdated,
             newActivities: 0,
           },
-          cachePayload: {
-            activities,
-            people,
-            rosterEntries,
-            lastUpdated,
-            currentUserUid,
-          },
           settingsPayload: {
             showAvatars: true,
             fetchLimit: 25,
           },
-          storageKey: STORAGE_KEY,
           settingsKey: SETTINGS_KEY,
         }
       )
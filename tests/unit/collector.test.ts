@@ -0,0 +1,357 @@
+/**
+ * Unit tests for offscreen collector helpers
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  computeBackoffDelay,
+  createFetchWithRetry,
+  FetchTimeoutError,
+  parseRetryAfter,
+} from '../../src/chrome-ext/collector/fetch-with-retry'
+import { createRateLimiter } from '../../src/chrome-ext/collector/rate-limiter'
+import {
+  COLLECTOR_INACTIVITY_TIMEOUT_MS,
+  waitForCollectorResult,
+} from '../../src/chrome-ext/collector/result-wait'
+import { runWorkerPool } from '../../src/chrome-ext/collector/worker-pool'
+import type { EventHandlers } from '../../src/chrome-ext/shared/messages'
+
+const tick = () => new Promise((resolve) => setImmediate(resolve))
+
+describe('runWorkerPool', () => {
+  it('never runs more than the configured number of workers at once', async () => {
+    let active = 0
+    let peak = 0
+    const processed: number[] = []
+
+    await runWorkerPool(
+      [1, 2, 3, 4, 5, 6, 7],
+      async (item) => {
+        active += 1
+        peak = Math.max(peak, active)
+        await tick()
+        processed.push(item)
+        active -= 1
+      },
+      { concurrency: 3 }
+    )
+
+    assert.strictEqual(peak, 3)
+    assert.deepStrictEqual(
+      [...processed].sort((a, b) => a - b),
+      [1, 2, 3, 4, 5, 6, 7]
+    )
+  })
+
+  it('passes the original index to the worker', async () => {
+    const seen: Array<[string, number]> = []
+    await runWorkerPool(
+      ['a', 'b', 'c'],
+      async (item, index) => {
+        seen.push([item, index])
+      },
+      { concurrency: 2 }
+    )
+    assert.deepStrictEqual(
+      seen.sort((a, b) => a[1] - b[1]),
+      [
+        ['a', 0],
+        ['b', 1],
+        ['c', 2],
+      ]
+    )
+  })
+
+  it('treats invalid concurrency as sequential', async () => {
+    let active = 0
+    let peak = 0
+    await runWorkerPool(
+      [1, 2, 3],
+      async () => {
+        active += 1
+        peak = Math.max(peak, active)
+        await tick()
+        active -= 1
+      },
+      { concurrency: 0 }
+    )
+    assert.strictEqual(peak, 1)
+  })
+
+  it('stops scheduling new items once shouldStop returns true', async () => {
+    const processed: number[] = []
+    await runWorkerPool(
+      [1, 2, 3, 4],
+      async (item) => {
+        processed.push(item)
+      },
+      { concurrency: 1, shouldStop: () => processed.length >= 2 }
+    )
+    assert.deepStrictEqual(processed, [1, 2])
+  })
+
+  it('lets in-flight items finish when stopped mid-run', async () => {
+    let stopped = false
+    const finished: number[] = []
+    await runWorkerPool(
+      [1, 2, 3, 4, 5],
+      async (item) => {
+        await tick()
+        if (item === 1) {
+          stopped = true
+        }
+        await tick()
+        finished.push(item)
+      },
+      { concurrency: 2, shouldStop: () => stopped }
+    )
+    assert.deepStrictEqual(finished.sort(), [1, 2])
+  })
+
+  it('rejects with the first worker error', async () => {
+    await assert.rejects(
+      runWorkerPool(
+        [1, 2],
+        async (item) => {
+          if (item === 1) {
+            throw new Error('boom')
+          }
+        },
+        { concurrency: 1 }
+      ),
+      { message: 'boom' }
+    )
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('spaces acquisitions by the configured interval', async () => {
+    let now = 0
+    const sleeps: number[] = []
+    const limiter = createRateLimiter({
+      intervalMs: 500,
+      now: () => now,
+      sleep: async (ms) => {
+        sleeps.push(ms)
+        now += ms
+      },
+    })
+
+    await limiter.acquire()
+    await limiter.acquire()
+    await limiter.acquire()
+
+    assert.deepStrictEqual(sleeps, [500, 500])
+  })
+
+  it('allows bursts up to the configured capacity', async () => {
+    let now = 0
+    const sleeps: number[] = []
+    const limiter = createRateLimiter({
+      intervalMs: 100,
+      burst: 2,
+      now: () => now,
+      sleep: async (ms) => {
+        sleeps.push(ms)
+        now += ms
+      },
+    })
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()])
+
+    assert.deepStrictEqual(sleeps, [100])
+  })
+
+  it('does not wait when the interval is zero', async () => {
+    const limiter = createRateLimiter({
+      intervalMs: 0,
+      sleep: async () => {
+        throw new Error('should not sleep')
+      },
+    })
+    await limiter.acquire()
+    await limiter.acquire()
+  })
+})
+
+describe('createFetchWithRetry', () => {
+  const respond = (status: number, headers: Record<string, string> = {}) =>
+    new Response(status === 204 ? null : 'body', { status, headers })
+
+  function setup(responses: Array<Response | Error>, options = {}) {
+    const calls: string[] = []
+    const sleeps: number[] = []
+    const fetcher = createFetchWithRetry({
+      fetch: async (url) => {
+        calls.push(url)
+        const next = responses.shift()
+        if (!next || next instanceof Error) {
+          throw next ?? new Error('no more responses')
+        }
+        return next
+      },
+      random: () => 0,
+      now: () => 0,
+      sleep: async (ms) => {
+        sleeps.push(ms)
+      },
+      timeoutMs: 0,
+      ...options,
+    })
+    return { fetcher, calls, sleeps }
+  }
+
+  it('retries 5xx and network errors with growing delays', async () => {
+    const { fetcher, calls, sleeps } = setup([
+      respond(503),
+      new TypeError('Failed to fetch'),
+      respond(200),
+    ])
+    const response = await fetcher('https://example.org/a')
+    assert.strictEqual(response.status, 200)
+    assert.strictEqual(calls.length, 3)
+    assert.deepStrictEqual(sleeps, [500, 1000])
+  })
+
+  it('waits at least as long as Retry-After asks', async () => {
+    const { fetcher, sleeps } = setup([respond(429, { 'Retry-After': '7' }), respond(200)])
+    await fetcher('https://example.org/a')
+    assert.deepStrictEqual(sleeps, [7000])
+  })
+
+  it('gives up when Retry-After exceeds the maximum wait', async () => {
+    const { fetcher, calls } = setup([respond(429, { 'Retry-After': '600' })])
+    const response = await fetcher('https://example.org/a')
+    assert.strictEqual(response.status, 429)
+    assert.strictEqual(calls.length, 1)
+  })
+
+  it('returns the last response once retries are exhausted', async () => {
+    const { fetcher, calls } = setup([respond(502), respond(502)], { retries: 1 })
+    const response = await fetcher('https://example.org/a')
+    assert.strictEqual(response.status, 502)
+    assert.strictEqual(calls.length, 2)
+  })
+
+  it('does not retry client errors', async () => {
+    const { fetcher, calls } = setup([respond(404)])
+    assert.strictEqual((await fetcher('https://example.org/a')).status, 404)
+    assert.strictEqual(calls.length, 1)
+  })
+
+  it('stops retrying once shouldStop returns true', async () => {
+    const { fetcher, calls } = setup([new TypeError('offline')], { shouldStop: () => true })
+    await assert.rejects(fetcher('https://example.org/a'), TypeError)
+    assert.strictEqual(calls.length, 1)
+  })
+
+  it('reports each retry', async () => {
+    const attempts: Array<[number, number | null]> = []
+    const { fetcher } = setup([respond(500), respond(200)], {
+      onRetry: ({ attempt, status }: { attempt: number; status: number | null }) => {
+        attempts.push([attempt, status])
+      },
+    })
+    await fetcher('https://example.org/a')
+    assert.deepStrictEqual(attempts, [[2, 500]])
+  })
+
+  it('aborts attempts that exceed the timeout', async () => {
+    const fetcher = createFetchWithRetry({
+      fetch: (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        }),
+      retries: 0,
+      timeoutMs: 5,
+    })
+    await assert.rejects(fetcher('https://example.org/slow'), FetchTimeoutError)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('reads delay seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+    assert.strictEqual(parseRetryAfter('120', now), 120_000)
+    assert.strictEqual(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now), 30_000)
+    assert.strictEqual(parseRetryAfter('soon', now), null)
+    assert.strictEqual(parseRetryAfter(null, now), null)
+  })
+})
+
+describe('computeBackoffDelay', () => {
+  it('doubles per attempt within the jitter range and respects the cap', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000 }
+    assert.strictEqual(computeBackoffDelay(1, { ...options, random: () => 0 }), 500)
+    assert.strictEqual(computeBackoffDelay(3, { ...options, random: () => 1 }), 4000)
+    assert.strictEqual(computeBackoffDelay(10, { ...options, random: () => 1 }), 5000)
+  })
+})
+
+describe('waitForCollectorResult', () => {
+  const SENDER = {} as chrome.runtime.MessageSender
+
+  function createBus() {
+    let handlers: EventHandlers = {}
+    return {
+      subscribe: (next: EventHandlers) => {
+        handlers = next
+        return () => {
+          handlers = {}
+        }
+      },
+      progress: (runId: string) =>
+        handlers['refresh-progress']?.(
+          { type: 'refresh-progress', origin: 'collector', runId, stage: 'retrying', timestamp: 0 },
+          SENDER
+        ),
+      result: (runId: string) =>
+        handlers['refresh-result']?.({ type: 'refresh-result', runId, success: true }, SENDER),
+    }
+  }
+
+  it('keeps waiting through a long Retry-After', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] })
+    const bus = createBus()
+    const result = waitForCollectorResult('run-1', { subscribe: bus.subscribe })
+    const responses = [
+      new Response('busy', { status: 429, headers: { 'Retry-After': '60' } }),
+      new Response('ok', { status: 200 }),
+    ]
+    // The collector's fetch, reporting each retry as progress the way the offscreen document does
+    const fetcher = createFetchWithRetry({
+      fetch: async () => responses.shift() ?? new Response(null, { status: 500 }),
+      random: () => 0,
+      now: () => 0,
+      onRetry: () => bus.progress('run-1'),
+    })
+    const fetched = fetcher('https://example.org/activity').then((response) => {
+      bus.result('run-1')
+      return response.status
+    })
+
+    await tick()
+    t.mock.timers.tick(59_000)
+    await tick()
+    t.mock.timers.tick(1_000)
+    assert.strictEqual(await fetched, 200)
+    assert.strictEqual((await result).success, true)
+  })
+
+  it('times out once the collector goes quiet', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] })
+    const bus = createBus()
+    const result = waitForCollectorResult('run-1', { subscribe: bus.subscribe })
+    t.mock.timers.tick(COLLECTOR_INACTIVITY_TIMEOUT_MS - 1)
+    // Progress from another run does not count
+    bus.progress('run-0')
+    t.mock.timers.tick(1)
+    await assert.rejects(result, /Timed out while refreshing activities/)
+  })
+
+  it('allows for the longest retry wait and a timed-out attempt', () => {
+    assert.ok(COLLECTOR_INACTIVITY_TIMEOUT_MS > 120_000 + 30_000)
+  })
+})
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  paginateActivityLog,
+  searchActivityLog,
+  sortActivityLog,
+  toggleActivityLogSort,
+} from '../../../src/chrome-ext/insights/activity-log'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import type { ActivityLogEntry } from '../../../src/chrome-ext/insights/types'
+import { calculateDashboard, prepareDashboardData } from '../../../src/chrome-ext/insights/utils'
+import { activity, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+function entry(
+  uid: string,
+  date: string,
+  overrides: Partial<ActivityLogEntry> = {}
+): ActivityLogEntry {
+  return {
+    uid,
+    title: uid,
+    href: null,
+    date: new Date(`${date}T00:00:00.000Z`),
+    activityType: 'Hiking',
+    category: 'Trip',
+    roles: ['Participant'],
+    difficulty: null,
+    partnerCount: 0,
+    outcome: 'successful',
+    removed: false,
+    roster: [],
+    ...overrides,
+  }
+}
+
+const ENTRIES = [
+  entry('a1', '2024-01-01', { title: 'Mount Si Day Hike', difficulty: 'Moderate' }),
+  entry('a2', '2024-03-01', { title: 'Basic Climbing Field Trip', partnerCount: 12 }),
+  entry('a3', '2024-02-01', { title: 'Mount Rainier Climb', difficulty: 'Strenuous' }),
+]
+
+describe('searchActivityLog', () => {
+  it('matches every word of the query against titles, ignoring case', () => {
+    assert.deepStrictEqual(
+      searchActivityLog(ENTRIES, 'mount  CLIMB').map((item) => item.uid),
+      ['a3']
+    )
+    assert.strictEqual(searchActivityLog(ENTRIES, '   ').length, 3)
+  })
+})
+
+describe('sortActivityLog', () => {
+  it('sorts by date, newest first by default', () => {
+    assert.deepStrictEqual(
+      sortActivityLog(ENTRIES, { key: 'date', direction: 'desc' }).map((item) => item.uid),
+      ['a2', 'a3', 'a1']
+    )
+  })
+
+  it('keeps missing values last in either direction', () => {
+    const ascending = sortActivityLog(ENTRIES, { key: 'difficulty', direction: 'asc' })
+    const descending = sortActivityLog(ENTRIES, { key: 'difficulty', direction: 'desc' })
+    assert.deepStrictEqual(
+      ascending.map((item) => item.uid),
+      ['a1', 'a3', 'a2']
+    )
+    assert.deepStrictEqual(
+      descending.map((item) => item.uid),
+      ['a3', 'a1', 'a2']
+    )
+  })
+
+  it('flips the active column and starts others at their default direction', () => {
+    const byDate = { key: 'date', direction: 'desc' } as const
+    assert.deepStrictEqual(toggleActivityLogSort(byDate, 'date'), { key: 'date', direction: 'asc' })
+    assert.deepStrictEqual(toggleActivityLogSort(byDate, 'type'), { key: 'type', direction: 'asc' })
+    assert.deepStrictEqual(toggleActivityLogSort(byDate, 'partners'), {
+      key: 'partners',
+      direction: 'desc',
+    })
+  })
+})
+
+describe('paginateActivityLog', () => {
+  it('slices pages and clamps out-of-range page numbers', () => {
+    const page = paginateActivityLog(ENTRIES, 5, 2)
+    assert.strictEqual(page.page, 1)
+    assert.strictEqual(page.pageCount, 2)
+    assert.deepStrictEqual(
+      page.entries.map((item) => item.uid),
+      ['a3']
+    )
+    assert.deepStrictEqual([page.first, page.last, page.total], [3, 3, 3])
+    assert.deepStrictEqual(paginateActivityLog([], 0).pageCount, 1)
+  })
+})
+
+describe('calculateDashboard activity log', () => {
+  it('lists every counted activity with its roster, newest first', () => {
+    const prepared = prepareDashboardData(
+      buildCache({
+        activities: Array.from({ length: 12 }, (_, index) =>
+          activity(`a${index}`, {
+            href: `/activities/a${index}`,
+            title: `Activity ${index}`,
+            start_date: new Date(Date.UTC(2024, index, 1)).toISOString(),
+            activity_type: 'Hiking',
+            difficulty_rating: 'Easy',
+          })
+        ),
+        people: [person('me', 'Me'), { ...person('pat', 'Pat'), href: '/members/pat' }],
+        rosterEntries: [rosterEntry('a11', 'me'), rosterEntry('a11', 'pat', 'Primary Leader')],
+        currentUserUid: 'me',
+      })
+    )
+    const view = calculateDashboard(prepared, {
+      activityType: [],
+      category: [],
+      role: [],
+      partner: [],
+      outcome: [],
+      branch: [],
+      leader: [],
+      dateRange: DEFAULT_DATE_RANGE,
+    })
+    // Unlike recent activities, the log is not capped
+    assert.strictEqual(view.activityLog.length, 12)
+    const [latest] = view.activityLog
+    assert.strictEqual(latest.uid, 'a11')
+    assert.strictEqual(latest.partnerCount, 1)
+    assert.deepStrictEqual(latest.roles, ['Participant'])
+    assert.deepStrictEqual(
+      latest.roster.map((person) => [person.name, person.role, person.isCurrentUser]),
+      [
+        ['Me', 'Participant', true],
+        ['Pat', 'Primary Leader', false],
+      ]
+    )
+    assert.strictEqual(latest.roster[1].profile, 'https://www.mountaineers.org/members/pat')
+  })
+})
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  buildTimelineBuckets,
+  describeDateRange,
+  describeDateRangePhrase,
+  getBucketKey,
+  normalizeDateRange,
+  parseDateInput,
+  resolveDateRange,
+  toCustomDateRange,
+} from '../../../src/chrome-ext/insights/date-range'
+import type { DateRangePreset } from '../../../src/chrome-ext/insights/types'
+
+const NOW = new Date('2025-01-15T18:00:00.000Z')
+
+const resolve = (preset: DateRangePreset, now = NOW) => {
+  const { start, end } = resolveDateRange({ preset, start: null, end: null }, now)
+  return [start?.toISOString() ?? null, end?.toISOString() ?? null]
+}
+
+describe('resolveDateRange', () => {
+  it('leaves all time unbounded', () => {
+    assert.deepStrictEqual(resolve('all'), [null, null])
+  })
+
+  it('resolves calendar presets relative to now', () => {
+    assert.deepStrictEqual(resolve('this-year'), [
+      '2025-01-01T00:00:00.000Z',
+      '2026-01-01T00:00:00.000Z',
+    ])
+    assert.deepStrictEqual(resolve('last-year'), [
+      '2024-01-01T00:00:00.000Z',
+      '2025-01-01T00:00:00.000Z',
+    ])
+    assert.deepStrictEqual(resolve('last-12-months'), [
+      '2024-01-16T00:00:00.000Z',
+      '2025-01-16T00:00:00.000Z',
+    ])
+  })
+
+  it('uses meteorological seasons, with winter spanning the new year', () => {
+    assert.deepStrictEqual(resolve('this-season'), [
+      '2024-12-01T00:00:00.000Z',
+      '2025-03-01T00:00:00.000Z',
+    ])
+    assert.deepStrictEqual(resolve('this-season', new Date('2024-12-10T00:00:00.000Z')), [
+      '2024-12-01T00:00:00.000Z',
+      '2025-03-01T00:00:00.000Z',
+    ])
+    assert.deepStrictEqual(resolve('this-season', new Date('2024-05-31T00:00:00.000Z')), [
+      '2024-03-01T00:00:00.000Z',
+      '2024-06-01T00:00:00.000Z',
+    ])
+  })
+
+  it('includes the whole end day of a custom range and allows open ends', () => {
+    const bounded = resolveDateRange({ preset: 'custom', start: '2024-03-01', end: '2024-03-31' })
+    assert.strictEqual(bounded.end?.toISOString(), '2024-04-01T00:00:00.000Z')
+    const open = resolveDateRange({ preset: 'custom', start: null, end: '2024-03-31' })
+    assert.strictEqual(open.start, null)
+  })
+
+  it('converts a preset into the equivalent custom range', () => {
+    assert.deepStrictEqual(
+      toCustomDateRange({ preset: 'last-year', start: null, end: null }, NOW),
+      { preset: 'custom', start: '2024-01-01', end: '2024-12-31' }
+    )
+  })
+})
+
+describe('normalizeDateRange', () => {
+  it('drops unknown presets and invalid dates', () => {
+    assert.deepStrictEqual(normalizeDateRange({ preset: 'forever' }), {
+      preset: 'all',
+      start: null,
+      end: null,
+    })
+    assert.deepStrictEqual(
+      normalizeDateRange({ preset: 'custom', start: '2024-02-30', end: '2024-03-01' }),
+      { preset: 'custom', start: null, end: '2024-03-01' }
+    )
+    assert.deepStrictEqual(normalizeDateRange({ preset: 'last-year', start: '2024-01-01' }), {
+      preset: 'last-year',
+      start: null,
+      end: null,
+    })
+  })
+
+  it('parses only real calendar dates', () => {
+    assert.strictEqual(parseDateInput('2024-02-29')?.toISOString(), '2024-02-29T00:00:00.000Z')
+    assert.strictEqual(parseDateInput('2023-02-29'), null)
+    assert.strictEqual(parseDateInput('March 1'), null)
+  })
+})
+
+describe('describeDateRange', () => {
+  it('labels presets and custom ranges', () => {
+    assert.strictEqual(
+      describeDateRange({ preset: 'this-season', start: null, end: null }),
+      'This season'
+    )
+    assert.strictEqual(
+      describeDateRange({ preset: 'custom', start: '2024-03-01', end: null }),
+      'Since Mar 1, 2024'
+    )
+    assert.strictEqual(
+      describeDateRangePhrase({ preset: 'custom', start: '2024-03-01', end: '2024-03-31' }),
+      'between Mar 1, 2024 and Mar 31, 2024'
+    )
+    assert.strictEqual(describeDateRangePhrase({ preset: 'all', start: null, end: null }), null)
+  })
+})
+
+describe('timeline buckets', () => {
+  it('starts weeks on Monday', () => {
+    // 2024-06-01 was a Saturday
+    assert.strictEqual(getBucketKey(new Date('2024-06-01T10:00:00.000Z'), 'week'), '2024-05-27')
+    assert.strictEqual(getBucketKey(new Date('2024-06-03T00:00:00.000Z'), 'week'), '2024-06-03')
+  })
+
+  it('covers every bucket between the first and last date', () => {
+    const first = new Date('2023-11-20T00:00:00.000Z')
+    const last = new Date('2024-02-02T00:00:00.000Z')
+    assert.deepStrictEqual(
+      buildTimelineBuckets(first, last, 'month').map((bucket) => bucket.label),
+      ['Nov 2023', 'Dec 2023', 'Jan 2024', 'Feb 2024']
+    )
+    assert.deepStrictEqual(buildTimelineBuckets(first, last, 'quarter'), [
+      { key: '2023-10-01', label: 'Q4 2023' },
+      { key: '2024-01-01', label: 'Q1 2024' },
+    ])
+    assert.deepStrictEqual(
+      buildTimelineBuckets(first, last, 'year').map((bucket) => bucket.label),
+      ['2023', '2024']
+    )
+    assert.strictEqual(buildTimelineBuckets(first, last, 'week').length, 11)
+  })
+})
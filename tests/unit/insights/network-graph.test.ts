@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import {
+  buildPartnerNetwork,
+  getEgoNetwork,
+  layoutNetwork,
+} from '../../../src/chrome-ext/insights/network-graph'
+import type { DashboardFilters } from '../../../src/chrome-ext/insights/types'
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+const EMPTY_FILTERS: DashboardFilters = {
+  activityType: [],
+  category: [],
+  role: [],
+  partner: [],
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
+}
+
+// Pat and Sam hike together, Lee and Kim scramble together, and one climb links Pat and Lee
+function createCache(): ExtensionCache {
+  const rosters: Record<string, string[]> = {
+    a1: ['me', 'pat', 'sam'],
+    a2: ['me', 'pat', 'sam'],
+    a3: ['me', 'lee', 'kim'],
+    a4: ['me', 'pat', 'lee'],
+  }
+  return buildCache({
+    activities: [
+      activityOn('a1', '2024-01-10', 'Hiking'),
+      activityOn('a2', '2024-02-10', 'Hiking'),
+      activityOn('a3', '2024-03-10', 'Scrambling'),
+      activityOn('a4', '2024-04-10', 'Climbing'),
+    ],
+    people: ['me', 'pat', 'sam', 'lee', 'kim'].map((uid) =>
+      person(uid, uid.charAt(0).toUpperCase() + uid.slice(1))
+    ),
+    rosterEntries: Object.entries(rosters).flatMap(([activityUid, people]) =>
+      people.map((personUid) => rosterEntry(activityUid, personUid))
+    ),
+    currentUserUid: 'me',
+  })
+}
+
+describe('buildPartnerNetwork', () => {
+  it('weights edges by the number of shared activities', () => {
+    const network = buildPartnerNetwork(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    const weightOf = (a: string, b: string) =>
+      network.edges.find(
+        (edge) =>
+          (edge.source === a && edge.target === b) || (edge.source === b && edge.target === a)
+      )?.weight
+    assert.strictEqual(weightOf('pat', 'sam'), 2)
+    assert.strictEqual(weightOf('lee', 'kim'), 1)
+    assert.strictEqual(weightOf('pat', 'lee'), 1)
+    assert.strictEqual(weightOf('me', 'pat'), 3)
+    assert.strictEqual(weightOf('sam', 'kim'), undefined)
+    assert.deepStrictEqual(
+      network.nodes.map((node) => [node.uid, node.activities]),
+      [
+        ['me', 4],
+        ['pat', 3],
+        ['lee', 2],
+        ['sam', 2],
+        ['kim', 1],
+      ]
+    )
+  })
+
+  it('groups people who go out together and keeps you out of the circles', () => {
+    const network = buildPartnerNetwork(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.deepStrictEqual(network.clusters, [
+      ['kim', 'lee'],
+      ['pat', 'sam'],
+    ])
+    const clusterOf = new Map(network.nodes.map((node) => [node.uid, node.cluster]))
+    assert.strictEqual(clusterOf.get('me'), -1)
+    assert.strictEqual(clusterOf.get('pat'), clusterOf.get('sam'))
+    assert.notStrictEqual(clusterOf.get('pat'), clusterOf.get('lee'))
+    assert.ok(network.nodes.find((node) => node.uid === 'me')?.isCurrentUser)
+  })
+
+  it('follows the dashboard filters', () => {
+    const network = buildPartnerNetwork(
+      prepareDashboardData(createCache()),
+      { ...EMPTY_FILTERS, activityType: ['Hiking'] },
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.deepStrictEqual(
+      network.nodes.map((node) => node.uid),
+      ['me', 'pat', 'sam']
+    )
+  })
+
+  it('keeps only the most frequent partners', () => {
+    const network = buildPartnerNetwork(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS,
+      2
+    )
+    assert.deepStrictEqual(
+      network.nodes.map((node) => node.uid),
+      ['me', 'pat', 'lee']
+    )
+    assert.ok(network.edges.every((edge) => edge.source !== 'sam' && edge.target !== 'sam'))
+  })
+})
+
+describe('getEgoNetwork', () => {
+  it('returns the person and their direct connections', () => {
+    const network = buildPartnerNetwork(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    const partnerEdges = network.edges.filter(
+      (edge) => edge.source !== 'me' && edge.target !== 'me'
+    )
+    assert.deepStrictEqual(Array.from(getEgoNetwork(partnerEdges, 'sam')).sort(), ['pat', 'sam'])
+    assert.deepStrictEqual(Array.from(getEgoNetwork(partnerEdges, 'lee')).sort(), [
+      'kim',
+      'lee',
+      'pat',
+    ])
+  })
+})
+
+describe('layoutNetwork', () => {
+  it('places every node inside the padded box, the same way each time', () => {
+    const { nodes, edges } = buildPartnerNetwork(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    const options = { width: 400, height: 300, padding: 20 }
+    const first = layoutNetwork(nodes, edges, options)
+    const second = layoutNetwork(nodes, edges, options)
+    assert.strictEqual(first.size, nodes.length)
+    first.forEach((position, uid) => {
+      assert.ok(position.x >= 20 && position.x <= 380, `${uid} x ${position.x}`)
+      assert.ok(position.y >= 20 && position.y <= 280, `${uid} y ${position.y}`)
+      assert.deepStrictEqual(second.get(uid), position)
+    })
+  })
+
+  it('centers a lone node and handles an empty graph', () => {
+    assert.strictEqual(layoutNetwork([], [], { width: 100, height: 100 }).size, 0)
+    const positions = layoutNetwork(
+      [{ uid: 'pat', name: 'Pat', activities: 1, cluster: 0, isCurrentUser: false }],
+      [],
+      { width: 100, height: 80 }
+    )
+    assert.deepStrictEqual(positions.get('pat'), { x: 50, y: 40 })
+  })
+})
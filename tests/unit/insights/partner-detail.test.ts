@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { calculatePartnerDetail } from '../../../src/chrome-ext/insights/partner-detail'
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+function createCache(): ExtensionCache {
+  return buildCache({
+    activities: [
+      activityOn('a1', '2023-05-01', 'Hiking'),
+      activityOn('a2', '2024-01-10', 'Scrambling'),
+      activityOn('a3', '2024-03-10', 'Scrambling'),
+      activityOn('a4', '2024-06-01', 'Climbing', { result: 'Turned Back' }),
+      activityOn('a5', '2025-02-01', 'Hiking'),
+    ],
+    people: [
+      person('me', 'Me'),
+      { ...person('pat', 'Pat'), href: '/members/pat' },
+      person('sam', 'Sam'),
+      person('lee', 'Lee'),
+    ],
+    rosterEntries: [
+      rosterEntry('a1', 'me'),
+      rosterEntry('a1', 'pat', 'Primary Leader'),
+      rosterEntry('a2', 'me', 'Primary Leader'),
+      rosterEntry('a2', 'pat'),
+      rosterEntry('a2', 'sam'),
+      rosterEntry('a3', 'me'),
+      rosterEntry('a3', 'pat'),
+      rosterEntry('a3', 'sam'),
+      rosterEntry('a3', 'lee'),
+      rosterEntry('a4', 'me'),
+      rosterEntry('a4', 'pat'),
+      rosterEntry('a5', 'me'),
+      rosterEntry('a5', 'sam'),
+    ],
+    currentUserUid: 'me',
+  })
+}
+
+describe('calculatePartnerDetail', () => {
+  it('summarizes the shared history with one partner', () => {
+    const detail = calculatePartnerDetail(
+      prepareDashboardData(createCache()),
+      'pat',
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.ok(detail)
+    assert.strictEqual(detail.name, 'Pat')
+    assert.strictEqual(detail.profile, 'https://www.mountaineers.org/members/pat')
+    // The turned-back climb does not count by default
+    assert.strictEqual(detail.sharedCount, 3)
+    assert.deepStrictEqual(
+      detail.activities.map((entry) => entry.uid),
+      ['a3', 'a2', 'a1']
+    )
+    assert.strictEqual(detail.firstShared?.toISOString(), '2023-05-01T00:00:00.000Z')
+    assert.strictEqual(detail.lastShared?.toISOString(), '2024-03-10T00:00:00.000Z')
+    assert.deepStrictEqual(
+      detail.activityTypes.map((entry) => [entry.label, entry.value]),
+      [
+        ['Scrambling', 2],
+        ['Hiking', 1],
+      ]
+    )
+  })
+
+  it('compares roles and ranks the people who often come along', () => {
+    const detail = calculatePartnerDetail(
+      prepareDashboardData(createCache()),
+      'pat',
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.deepStrictEqual(detail?.roles, [
+      { role: 'Participant', yours: 2, theirs: 2 },
+      { role: 'Primary Leader', yours: 1, theirs: 1 },
+    ])
+    assert.deepStrictEqual(detail?.coPartners, [
+      { uid: 'sam', name: 'Sam', count: 2 },
+      { uid: 'lee', name: 'Lee', count: 1 },
+    ])
+  })
+
+  it('follows the display settings but ignores dashboard filters', () => {
+    const detail = calculatePartnerDetail(prepareDashboardData(createCache()), 'pat', {
+      ...DEFAULT_DISPLAY_SETTINGS,
+      countUnsuccessful: true,
+    })
+    assert.strictEqual(detail?.sharedCount, 4)
+  })
+
+  it('returns null for unknown people and for yourself', () => {
+    const prepared = prepareDashboardData(createCache())
+    assert.strictEqual(calculatePartnerDetail(prepared, 'nobody', DEFAULT_DISPLAY_SETTINGS), null)
+    assert.strictEqual(calculatePartnerDetail(prepared, 'me', DEFAULT_DISPLAY_SETTINGS), null)
+  })
+})
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import { calculateRatingProgression } from '../../../src/chrome-ext/insights/ratings'
+import type { DashboardFilters } from '../../../src/chrome-ext/insights/types'
+import {
+  calculateDashboard,
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import type { ActivityRecord } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache } from '../../fixtures/cache'
+
+function prepare(activities: ActivityRecord[]) {
+  return prepareDashboardData(buildCache({ activities }))
+}
+
+describe('calculateRatingProgression', () => {
+  it('charts ratings over time per type and finds the hardest completed', () => {
+    const prepared = prepare([
+      activityOn('a3', '2024-06-01', 'Scrambling', {
+        difficulty_rating: 'Strenuous',
+        result: 'Turned Around',
+      }),
+      activityOn('a1', '2023-05-01', 'Scrambling', {
+        difficulty_rating: 'Easy',
+        leader_rating: 'For Beginners',
+      }),
+      activityOn('a2', '2024-01-10', 'Scrambling', { difficulty_rating: 'Challenging' }),
+      activityOn('a4', '2024-07-01', 'Scrambling', { difficulty_rating: 'Difficult' }),
+      activityOn('a5', '2024-02-01', 'Climbing', { difficulty_rating: 'Intermediate' }),
+    ])
+    const { types } = calculateRatingProgression(prepared.activities)
+    assert.deepStrictEqual(
+      types.map((entry) => entry.activityType),
+      ['Scrambling', 'Climbing']
+    )
+
+    const [scrambling, climbing] = types
+    assert.deepStrictEqual(scrambling.scale, ['Easy', 'Moderate', 'Challenging', 'Strenuous'])
+    assert.deepStrictEqual(
+      scrambling.difficulty.map((point) => [point.uid, point.level]),
+      [
+        ['a1', 1],
+        ['a2', 3],
+        ['a3', 4],
+        ['a4', 3],
+      ]
+    )
+    assert.deepStrictEqual(
+      scrambling.leaderRating.map((point) => [point.uid, point.rating]),
+      [['a1', 'For Beginners']]
+    )
+    // The strenuous scramble was turned back, so the first challenging one is the record
+    assert.strictEqual(scrambling.highestCompleted?.uid, 'a2')
+    assert.strictEqual(scrambling.highestCompleted?.title, 'a2')
+
+    assert.deepStrictEqual(climbing.scale, ['Basic', 'Intermediate', 'Advanced'])
+    assert.strictEqual(climbing.highestCompleted?.level, 2)
+  })
+
+  it('reports unrecognized ratings instead of dropping them silently', () => {
+    const prepared = prepare([
+      activityOn('a1', '2024-01-01', 'Scrambling', { difficulty_rating: 'Class 4' }),
+      activityOn('a2', '2024-02-01', 'Scrambling', { difficulty_rating: ' Class 4 ' }),
+      activityOn('a3', '2024-03-01', 'Hiking', { leader_rating: 'Ask the leader' }),
+      activityOn('a4', '2024-04-01', 'Hiking', { difficulty_rating: '  ' }),
+    ])
+    const ratings = calculateRatingProgression(prepared.activities)
+    assert.deepStrictEqual(ratings.types, [])
+    assert.deepStrictEqual(ratings.unknown, [
+      { activityType: 'Scrambling', kind: 'difficulty', rating: 'Class 4', count: 2 },
+      { activityType: 'Hiking', kind: 'leader', rating: 'Ask the leader', count: 1 },
+    ])
+  })
+
+  it('follows the dashboard filters', () => {
+    const prepared = prepare([
+      activityOn('a1', '2024-01-01', 'Scrambling', { difficulty_rating: 'Moderate' }),
+      activityOn('a2', '2024-02-01', 'Hiking', { difficulty_rating: 'Easy' }),
+    ])
+    const filters: DashboardFilters = {
+      activityType: ['Hiking'],
+      category: [],
+      role: [],
+      partner: [],
+      outcome: [],
+      branch: [],
+      leader: [],
+      dateRange: DEFAULT_DATE_RANGE,
+    }
+    const view = calculateDashboard(prepared, filters, DEFAULT_DISPLAY_SETTINGS)
+    assert.deepStrictEqual(
+      view.ratings.types.map((entry) => entry.activityType),
+      ['Hiking']
+    )
+  })
+})
@@ -0,0 +1,178 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import { calculateRecords } from '../../../src/chrome-ext/insights/records'
+import type { ActivityLogEntry, DashboardFilters } from '../../../src/chrome-ext/insights/types'
+import {
+  calculateDashboard,
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import { activityOn, buildCache } from '../../fixtures/cache'
+
+function entry(
+  uid: string,
+  date: string,
+  activityType: string,
+  overrides: Partial<ActivityLogEntry> = {}
+): ActivityLogEntry {
+  return {
+    uid,
+    title: `Activity ${uid}`,
+    href: null,
+    date: new Date(`${date}T00:00:00.000Z`),
+    activityType,
+    category: 'Trip',
+    roles: ['Participant'],
+    difficulty: null,
+    partnerCount: 0,
+    outcome: 'successful',
+    removed: false,
+    roster: [],
+    ...overrides,
+  }
+}
+
+const isCourse = (value: ActivityLogEntry) => value.category === 'Course'
+
+describe('calculateRecords', () => {
+  it('finds the longest weekly and monthly streaks', () => {
+    const records = calculateRecords(
+      [
+        // Three weeks in a row, starting Monday, January 1, 2024
+        entry('a1', '2024-01-03', 'Hiking'),
+        entry('a2', '2024-01-08', 'Hiking'),
+        entry('a3', '2024-01-21', 'Hiking'),
+        // A lone week in March, then two more months in a row
+        entry('a4', '2024-03-14', 'Hiking'),
+        entry('a5', '2024-04-02', 'Hiking'),
+      ],
+      isCourse
+    )
+    assert.strictEqual(records.weekStreak?.length, 3)
+    assert.strictEqual(records.weekStreak?.start.toISOString(), '2024-01-01T00:00:00.000Z')
+    assert.strictEqual(records.weekStreak?.end.toISOString(), '2024-01-21T00:00:00.000Z')
+    assert.strictEqual(records.monthStreak?.length, 2)
+    assert.strictEqual(records.monthStreak?.start.toISOString(), '2024-03-01T00:00:00.000Z')
+    assert.strictEqual(records.monthStreak?.end.toISOString(), '2024-04-30T00:00:00.000Z')
+  })
+
+  it('keeps the earliest streak on a tie and counts weeks across the new year', () => {
+    const records = calculateRecords(
+      [
+        entry('a1', '2023-12-28', 'Hiking'),
+        entry('a2', '2024-01-02', 'Hiking'),
+        entry('a3', '2024-06-04', 'Hiking'),
+        entry('a4', '2024-06-11', 'Hiking'),
+      ],
+      isCourse
+    )
+    assert.strictEqual(records.weekStreak?.length, 2)
+    assert.strictEqual(records.weekStreak?.start.toISOString(), '2023-12-25T00:00:00.000Z')
+  })
+
+  it('finds the longest break between activities', () => {
+    const records = calculateRecords(
+      [
+        entry('a3', '2024-09-01', 'Hiking'),
+        entry('a1', '2024-01-01', 'Hiking'),
+        entry('a2', '2024-01-11', 'Hiking'),
+      ],
+      isCourse
+    )
+    assert.strictEqual(records.longestGap?.days, 234)
+    assert.strictEqual(records.longestGap?.from.toISOString(), '2024-01-11T00:00:00.000Z')
+    assert.strictEqual(records.longestGap?.to.toISOString(), '2024-09-01T00:00:00.000Z')
+  })
+
+  it('names the busiest month and season, with winter spanning the new year', () => {
+    const records = calculateRecords(
+      [
+        entry('a1', '2023-12-20', 'Skiing'),
+        entry('a2', '2024-01-05', 'Skiing'),
+        entry('a3', '2024-02-10', 'Skiing'),
+        entry('a4', '2024-08-03', 'Scrambling'),
+        entry('a5', '2024-08-17', 'Scrambling'),
+      ],
+      isCourse
+    )
+    assert.deepStrictEqual(records.busiestMonth, { label: 'August 2024', count: 2 })
+    assert.deepStrictEqual(records.busiestSeason, { label: 'Winter 2023–24', count: 3 })
+  })
+
+  it('leaves courses out of the biggest group', () => {
+    const records = calculateRecords(
+      [
+        entry('a1', '2024-01-01', 'Hiking', { partnerCount: 4 }),
+        entry('a2', '2024-02-01', 'Navigation', { partnerCount: 40, category: 'Course' }),
+        entry('a3', '2024-03-01', 'Climbing', { partnerCount: 6 }),
+        entry('a4', '2024-04-01', 'Hiking', { partnerCount: 6 }),
+      ],
+      isCourse
+    )
+    assert.strictEqual(records.biggestGroup?.uid, 'a3')
+    assert.strictEqual(records.biggestGroup?.partners, 6)
+  })
+
+  it('lists the first activity of each type, oldest first', () => {
+    const records = calculateRecords(
+      [
+        entry('a4', '2024-04-01', 'Hiking'),
+        entry('a3', '2024-03-01', 'Climbing'),
+        entry('a2', '2024-02-01', 'Hiking'),
+      ],
+      isCourse
+    )
+    assert.deepStrictEqual(
+      records.firsts.map((first) => [first.activityType, first.uid]),
+      [
+        ['Hiking', 'a2'],
+        ['Climbing', 'a3'],
+      ]
+    )
+  })
+
+  it('has no records without activities', () => {
+    assert.deepStrictEqual(calculateRecords([], isCourse), {
+      weekStreak: null,
+      monthStreak: null,
+      longestGap: null,
+      busiestMonth: null,
+      busiestSeason: null,
+      biggestGroup: null,
+      firsts: [],
+    })
+  })
+})
+
+describe('calculateDashboard records', () => {
+  it('updates with the filters', () => {
+    const cache = buildCache({
+      activities: [
+        activityOn('a1', '2024-01-01', 'Hiking'),
+        activityOn('a2', '2024-01-08', 'Climbing'),
+        activityOn('a3', '2024-01-15', 'Hiking'),
+      ],
+    })
+    const filters: DashboardFilters = {
+      activityType: [],
+      category: [],
+      role: [],
+      partner: [],
+      outcome: [],
+      branch: [],
+      leader: [],
+      dateRange: DEFAULT_DATE_RANGE,
+    }
+    const prepared = prepareDashboardData(cache)
+    const all = calculateDashboard(prepared, filters, DEFAULT_DISPLAY_SETTINGS)
+    assert.strictEqual(all.records.weekStreak?.length, 3)
+    const hiking = calculateDashboard(
+      prepared,
+      { ...filters, activityType: ['Hiking'] },
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.strictEqual(hiking.records.weekStreak?.length, 1)
+    assert.strictEqual(hiking.records.longestGap?.days, 14)
+  })
+})
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import { calculateResume } from '../../../src/chrome-ext/insights/resume'
+import { buildResumeDocument, buildResumePdf } from '../../../src/chrome-ext/insights/resume-export'
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import { activityOn, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+const NOW = new Date('2025-04-01T12:00:00.000Z')
+
+function createResume() {
+  const cache = buildCache({
+    activities: [
+      activityOn('a1', '2024-01-10', 'Scrambling', {
+        title: 'Scramble - Tooth & <Chair> Peak',
+        difficulty_rating: 'Moderate',
+      }),
+      activityOn('a2', '2024-06-01', 'Scrambling', { result: 'Turned Back' }),
+    ],
+    people: [person('me', 'Me'), person('pat', 'Pat')],
+    rosterEntries: [
+      rosterEntry('a1', 'me', 'Primary Leader'),
+      rosterEntry('a1', 'pat'),
+      rosterEntry('a2', 'me'),
+    ],
+    currentUserUid: 'me',
+  })
+  return calculateResume(
+    prepareDashboardData(cache),
+    {
+      activityType: [],
+      category: [],
+      role: [],
+      partner: [],
+      outcome: [],
+      branch: [],
+      leader: [],
+      dateRange: DEFAULT_DATE_RANGE,
+    },
+    DEFAULT_DISPLAY_SETTINGS
+  )
+}
+
+describe('buildResumeDocument', () => {
+  it('renders a standalone HTML document', () => {
+    const file = buildResumeDocument(createResume(), { now: NOW })
+    assert.strictEqual(file.filename, 'mountaineers-resume-2025-04-01.html')
+    assert.strictEqual(file.mimeType, 'text/html;charset=utf-8')
+    assert.ok(file.content.startsWith('<!DOCTYPE html>'))
+    assert.match(file.content, /<h1>Me<\/h1>/)
+    assert.match(file.content, /<h2>Scrambling<\/h2>/)
+    assert.match(file.content, /Roles held: Primary Leader × 1/)
+    assert.match(file.content, /Highest difficulty: Moderate \(Moderate\)/)
+    // Titles are escaped, and the turned-back scramble is left out
+    assert.match(file.content, /Tooth &amp; &lt;Chair&gt; Peak/)
+    assert.match(file.content, /1 activity/)
+    // No scripts or remote resources
+    assert.doesNotMatch(file.content, /<script|<link|src=/)
+  })
+
+  it('titles the document by name when the member is known', () => {
+    const resume = createResume()
+    assert.match(buildResumeDocument(resume, { now: NOW }).content, /<title>Me – Outdoor resume</)
+    const anonymous = buildResumeDocument({ ...resume, name: null }, { now: NOW })
+    assert.match(anonymous.content, /<title>Outdoor resume<\/title>/)
+    assert.match(anonymous.content, /<h1>Outdoor resume<\/h1>/)
+  })
+
+  it('lists partner names only when asked', () => {
+    const resume = createResume()
+    assert.doesNotMatch(buildResumeDocument(resume, { now: NOW }).content, /Pat|Partners/)
+    const withPartners = buildResumeDocument(resume, { includePartners: true, now: NOW })
+    assert.match(withPartners.content, /<th>Partners<\/th>/)
+    assert.match(withPartners.content, /<td>Pat<\/td>/)
+  })
+})
+
+describe('buildResumePdf', () => {
+  it('renders the resume as a PDF file', () => {
+    const file = buildResumePdf(createResume(), { now: NOW })
+    assert.strictEqual(file.filename, 'mountaineers-resume-2025-04-01.pdf')
+    assert.strictEqual(file.mimeType, 'application/pdf')
+    assert.ok(file.content.startsWith('%PDF-1.4'))
+    assert.match(file.content, /\(Me\) Tj/)
+    assert.match(file.content, /\(Scrambling\) Tj/)
+    assert.match(file.content, /Roles held: Primary Leader \\327 1/)
+    assert.match(file.content, /\(Scramble - Tooth & <Chair> Peak\) Tj/)
+    assert.match(file.content, /\/URI \(https:\/\/www\.mountaineers\.org\/activities\/a1\)/)
+    assert.doesNotMatch(file.content, /\(a2\) Tj/)
+    assert.match(file.content, /\/Count 1 /)
+  })
+
+  it('lists partner names only when asked', () => {
+    const resume = createResume()
+    assert.doesNotMatch(buildResumePdf(resume, { now: NOW }).content, /\((Pat|PARTNERS)\)/)
+    const withPartners = buildResumePdf(resume, { includePartners: true, now: NOW }).content
+    assert.match(withPartners, /\(PARTNERS\) Tj/)
+    assert.match(withPartners, /\(Pat\) Tj/)
+  })
+
+  it('continues long resumes on further pages', () => {
+    const resume = createResume()
+    const activities = Array.from({ length: 80 }, (_, index) => ({
+      ...resume.activities[0],
+      uid: `a${index}`,
+    }))
+    const long = {
+      ...resume,
+      sections: [{ ...resume.sections[0], count: activities.length, activities }],
+    }
+    const content = buildResumePdf(long, { now: NOW }).content
+    const pageCount = Number(content.match(/\/Count (\d+)/)?.[1])
+    assert.ok(pageCount > 1)
+    assert.match(content, new RegExp(`Page ${pageCount} of ${pageCount}`))
+    // The table header repeats on every page
+    assert.strictEqual(content.match(/\(ACTIVITY\) Tj/g)?.length, pageCount)
+  })
+})
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import { calculateResume, isLeadershipRole } from '../../../src/chrome-ext/insights/resume'
+import type { DashboardFilters } from '../../../src/chrome-ext/insights/types'
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+function createCache(): ExtensionCache {
+  return buildCache({
+    activities: [
+      activityOn('a1', '2023-05-01', 'Hiking', { difficulty_rating: 'Easy' }),
+      activityOn('a2', '2024-01-10', 'Scrambling', { difficulty_rating: 'Moderate' }),
+      activityOn('a3', '2024-03-10', 'Scrambling', { difficulty_rating: 'Challenging' }),
+      activityOn('a4', '2024-06-01', 'Scrambling', {
+        difficulty_rating: 'Strenuous',
+        result: 'Turned Back',
+      }),
+      activityOn('a5', '2025-02-01', 'Hiking'),
+      activityOn('a6', '2025-03-01', 'Navigation', { category: 'course' }),
+    ],
+    people: [person('me', 'Me'), person('pat', 'Pat'), person('sam', 'Sam')],
+    rosterEntries: [
+      rosterEntry('a1', 'me'),
+      rosterEntry('a1', 'sam', 'Primary Leader'),
+      rosterEntry('a1', 'pat'),
+      rosterEntry('a2', 'me', 'Primary Leader'),
+      rosterEntry('a2', 'pat'),
+      rosterEntry('a3', 'me', 'Primary Leader'),
+      rosterEntry('a4', 'me', 'Primary Leader'),
+      rosterEntry('a5', 'me'),
+      rosterEntry('a6', 'me', 'Instructor'),
+    ],
+    currentUserUid: 'me',
+  })
+}
+
+const NO_FILTERS: DashboardFilters = {
+  activityType: [],
+  category: [],
+  role: [],
+  partner: [],
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
+}
+
+describe('calculateResume', () => {
+  it('groups successful activities by type', () => {
+    const resume = calculateResume(
+      prepareDashboardData(createCache()),
+      NO_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.strictEqual(resume.name, 'Me')
+    // The turned-back scramble never appears
+    assert.strictEqual(resume.totalActivities, 5)
+    assert.deepStrictEqual(
+      resume.activities.map((entry) => entry.uid),
+      ['a6', 'a5', 'a3', 'a2', 'a1']
+    )
+    assert.deepStrictEqual(resume.firstDate, new Date('2023-05-01T00:00:00.000Z'))
+    assert.deepStrictEqual(resume.lastDate, new Date('2025-03-01T00:00:00.000Z'))
+
+    assert.deepStrictEqual(
+      resume.sections.map((section) => [section.activityType, section.count]),
+      [
+        ['Hiking', 2],
+        ['Scrambling', 2],
+        ['Navigation', 1],
+      ]
+    )
+    const scrambling = resume.sections[1]
+    assert.deepStrictEqual(scrambling.firstDate, new Date('2024-01-10T00:00:00.000Z'))
+    assert.deepStrictEqual(scrambling.lastDate, new Date('2024-03-10T00:00:00.000Z'))
+    assert.deepStrictEqual(scrambling.highestDifficulty, {
+      label: 'Challenging',
+      rating: 'Challenging',
+    })
+    assert.deepStrictEqual(resume.sections[2].highestDifficulty, null)
+  })
+
+  it('lists leadership and instructor roles', () => {
+    const resume = calculateResume(
+      prepareDashboardData(createCache()),
+      NO_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.strictEqual(resume.leadershipCount, 3)
+    assert.deepStrictEqual(resume.sections[1].leadershipRoles, [
+      { role: 'Primary Leader', count: 2 },
+    ])
+    assert.deepStrictEqual(resume.sections[2].leadershipRoles, [{ role: 'Instructor', count: 1 }])
+    assert.deepStrictEqual(resume.sections[0].leadershipRoles, [])
+  })
+
+  it('names partners without the current user', () => {
+    const resume = calculateResume(
+      prepareDashboardData(createCache()),
+      NO_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    const hike = resume.activities.find((entry) => entry.uid === 'a1')
+    assert.deepStrictEqual(hike?.partnerNames, ['Pat', 'Sam'])
+  })
+
+  it('follows the dashboard filters', () => {
+    const resume = calculateResume(
+      prepareDashboardData(createCache()),
+      { ...NO_FILTERS, activityType: ['Scrambling'] },
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.deepStrictEqual(
+      resume.activities.map((entry) => entry.uid),
+      ['a3', 'a2']
+    )
+    assert.deepStrictEqual(
+      resume.sections.map((section) => section.activityType),
+      ['Scrambling']
+    )
+  })
+})
+
+describe('isLeadershipRole', () => {
+  it('covers leaders and instructors', () => {
+    assert.strictEqual(isLeadershipRole('Primary Leader'), true)
+    assert.strictEqual(isLeadershipRole('Assistant Leader'), true)
+    assert.strictEqual(isLeadershipRole('Instructor'), true)
+    assert.strictEqual(isLeadershipRole('Participant'), false)
+  })
+})
@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import {
+  buildCalendarHeatmap,
+  buildSeasonality,
+  getHeatmapLevel,
+  getSeasonIndex,
+  getWeekdayIndex,
+} from '../../../src/chrome-ext/insights/seasonality'
+import type { DashboardFilters } from '../../../src/chrome-ext/insights/types'
+import {
+  calculateDashboard,
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import type { ActivityRecord } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache } from '../../fixtures/cache'
+
+const EMPTY_FILTERS: DashboardFilters = {
+  activityType: [],
+  category: [],
+  role: [],
+  partner: [],
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
+}
+
+function prepare(activities: ActivityRecord[]) {
+  return prepareDashboardData(buildCache({ activities }))
+}
+
+const utc = (value: string) => new Date(`${value}T00:00:00.000Z`)
+
+describe('seasonality helpers', () => {
+  it('numbers weekdays from Monday and seasons from winter', () => {
+    assert.strictEqual(getWeekdayIndex(utc('2024-08-05')), 0)
+    assert.strictEqual(getWeekdayIndex(utc('2024-08-11')), 6)
+    assert.strictEqual(getSeasonIndex(utc('2024-12-01')), 0)
+    assert.strictEqual(getSeasonIndex(utc('2024-02-29')), 0)
+    assert.strictEqual(getSeasonIndex(utc('2024-03-01')), 1)
+    assert.strictEqual(getSeasonIndex(utc('2024-08-31')), 2)
+    assert.strictEqual(getSeasonIndex(utc('2024-11-30')), 3)
+  })
+
+  it('scales heatmap levels against the busiest day', () => {
+    assert.strictEqual(getHeatmapLevel(0, 4), 0)
+    assert.strictEqual(getHeatmapLevel(1, 4), 1)
+    assert.strictEqual(getHeatmapLevel(3, 4), 3)
+    assert.strictEqual(getHeatmapLevel(4, 4), 4)
+    assert.strictEqual(getHeatmapLevel(1, 1), 4)
+    assert.strictEqual(getHeatmapLevel(0, 0), 0)
+  })
+})
+
+describe('buildCalendarHeatmap', () => {
+  it('lays out full Monday-first weeks per year, newest year first', () => {
+    const prepared = prepare([
+      activityOn('a1', '2023-12-30', 'Hiking'),
+      activityOn('a2', '2024-01-02', 'Hiking'),
+      activityOn('a3', '2024-01-02', 'Scrambling'),
+      activityOn('a4', '2024-01-02', 'Scrambling'),
+    ])
+    const calendar = buildCalendarHeatmap(prepared.activities, utc('2023-12-01'), utc('2024-01-31'))
+    assert.deepStrictEqual(
+      calendar.years.map((entry) => entry.year),
+      [2024, 2023]
+    )
+    assert.strictEqual(calendar.maxCount, 3)
+
+    const [year2024, year2023] = calendar.years
+    assert.ok(year2024.weeks.every((week) => week.length === 7))
+    // January 1, 2024 was a Monday, so the grid starts on it
+    assert.strictEqual(year2024.weeks[0][0].date, '2024-01-01')
+    assert.deepStrictEqual(year2024.weeks[0][1], {
+      date: '2024-01-02',
+      count: 3,
+      types: ['Scrambling', 'Hiking'],
+      inRange: true,
+    })
+    assert.strictEqual(year2024.weeks[5][3].inRange, false)
+    assert.strictEqual(year2024.activities, 3)
+    assert.strictEqual(year2024.activeDays, 1)
+    assert.deepStrictEqual(year2024.months.slice(0, 2), [
+      { label: 'Jan', week: 0 },
+      { label: 'Feb', week: 4 },
+    ])
+
+    // January 1, 2023 was a Sunday, so the first column starts in 2022
+    assert.strictEqual(year2023.weeks[0][0].date, '2022-12-26')
+    assert.strictEqual(year2023.weeks[0][6].inRange, false)
+    assert.strictEqual(year2023.activities, 1)
+  })
+
+  it('is empty without dates', () => {
+    assert.deepStrictEqual(buildCalendarHeatmap([], null, null), { years: [], maxCount: 0 })
+  })
+})
+
+describe('buildSeasonality', () => {
+  it('breaks activities down by month, weekday and season per series', () => {
+    const prepared = prepare([
+      activityOn('a1', '2023-08-05', 'Scrambling'),
+      activityOn('a2', '2024-08-14', 'Scrambling'),
+      activityOn('a3', '2024-01-13', 'Hiking'),
+      activityOn('a4', '2024-03-12', 'Climbing'),
+    ])
+    const seasonality = buildSeasonality(prepared.activities, ['Scrambling', 'Other'], (entry) =>
+      entry.typeLabel === 'Scrambling' ? 'Scrambling' : 'Other'
+    )
+    const [scrambling, other] = seasonality.month.series
+    assert.strictEqual(scrambling.name, 'Scrambling')
+    assert.strictEqual(scrambling.data[7], 2)
+    assert.strictEqual(
+      scrambling.data.reduce((sum, value) => sum + value, 0),
+      2
+    )
+    assert.deepStrictEqual(other.data.slice(0, 3), [1, 0, 1])
+    assert.deepStrictEqual(seasonality.season.categories, ['Winter', 'Spring', 'Summer', 'Fall'])
+    assert.deepStrictEqual(seasonality.season.series[0].data, [0, 0, 2, 0])
+    assert.deepStrictEqual(seasonality.season.series[1].data, [1, 1, 0, 0])
+    assert.deepStrictEqual(seasonality.weekday.series[0].data, [0, 0, 1, 0, 0, 1, 0])
+    // Two of the four fell on a Saturday
+    assert.strictEqual(seasonality.weekendShare, 50)
+  })
+
+  it('has no weekend share without activities', () => {
+    assert.strictEqual(buildSeasonality([], [], () => '').weekendShare, null)
+  })
+})
+
+describe('calculateDashboard calendar and seasonality', () => {
+  it('covers the selected date range and uses the timeline series', () => {
+    const prepared = prepare([
+      activityOn('a1', '2024-05-04', 'Hiking'),
+      activityOn('a2', '2024-06-01', 'Scrambling'),
+    ])
+    const view = calculateDashboard(
+      prepared,
+      { ...EMPTY_FILTERS, dateRange: { preset: 'custom', start: '2024-05-01', end: '2024-06-30' } },
+      DEFAULT_DISPLAY_SETTINGS
+    )
+    assert.deepStrictEqual(
+      view.calendar.years.map((entry) => entry.year),
+      [2024]
+    )
+    const inRange = view.calendar.years[0].weeks.flat().filter((day) => day.inRange)
+    assert.strictEqual(inRange[0].date, '2024-05-01')
+    assert.strictEqual(inRange[inRange.length - 1].date, '2024-06-30')
+    assert.deepStrictEqual(
+      view.seasonality.month.series.map((series) => series.name),
+      view.timeline.series.map((series) => series.name)
+    )
+  })
+})
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  buildDashboardSearch,
+  parseDashboardUrlState,
+} from '../../../src/chrome-ext/insights/url-state'
+
+describe('parseDashboardUrlState', () => {
+  it('keeps supporting the single partner link from member pages', () => {
+    const state = parseDashboardUrlState('?partner=pat')
+    assert.deepStrictEqual(state.filters.partner, ['pat'])
+    assert.deepStrictEqual(state.filters.dateRange, { preset: 'all', start: null, end: null })
+    assert.strictEqual(state.granularity, 'month')
+    assert.strictEqual(state.person, null)
+  })
+
+  it('reads the open partner page', () => {
+    const state = parseDashboardUrlState('?person=pat')
+    assert.strictEqual(state.person, 'pat')
+    assert.deepStrictEqual(state.filters.partner, [])
+    assert.strictEqual(buildDashboardSearch(state), '?person=pat')
+  })
+
+  it('reads repeated filters, the date range and the granularity', () => {
+    const state = parseDashboardUrlState(
+      '?type=Hiking&type=Scrambling&leader=Alex+Doe&range=custom&from=2024-01-01&to=2024-06-30&granularity=week'
+    )
+    assert.deepStrictEqual(state.filters.activityType, ['Hiking', 'Scrambling'])
+    assert.deepStrictEqual(state.filters.leader, ['Alex Doe'])
+    assert.deepStrictEqual(state.filters.dateRange, {
+      preset: 'custom',
+      start: '2024-01-01',
+      end: '2024-06-30',
+    })
+    assert.strictEqual(state.granularity, 'week')
+  })
+
+  it('treats bare dates as a custom range and ignores unknown values', () => {
+    const state = parseDashboardUrlState('?from=2024-01-01&granularity=decade')
+    assert.deepStrictEqual(state.filters.dateRange, {
+      preset: 'custom',
+      start: '2024-01-01',
+      end: null,
+    })
+    assert.strictEqual(state.granularity, 'month')
+    assert.strictEqual(parseDashboardUrlState('?range=soon').filters.dateRange.preset, 'all')
+  })
+})
+
+describe('buildDashboardSearch', () => {
+  it('omits defaults', () => {
+    assert.strictEqual(buildDashboardSearch(parseDashboardUrlState('')), '')
+  })
+
+  it('round-trips through parseDashboardUrlState', () => {
+    const state = parseDashboardUrlState(
+      '?type=Hiking&partner=pat&partner=sam&range=last-year&granularity=quarter'
+    )
+    const search = buildDashboardSearch(state)
+    assert.strictEqual(
+      search,
+      '?type=Hiking&partner=pat&partner=sam&range=last-year&granularity=quarter'
+    )
+    assert.deepStrictEqual(parseDashboardUrlState(search), state)
+  })
+})
@@ -1,14 +1,58 @@
 import assert from 'node:assert/strict'
 import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import type { DashboardFilters } from '../../../src/chrome-ext/insights/types'
 import {
+  calculateDashboard,
   formatDate,
   formatDateRange,
   formatNumber,
   getActivityTypeColors,
   initials,
+  prepareDashboardData,
   titleCase,
   toExternalHref,
 } from '../../../src/chrome-ext/insights/utils'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+const EMPTY_FILTERS: DashboardFilters = {
+  activityType: [],
+  category: [],
+  role: [],
+  partner: [],
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
+}
+
+function createCache(): ExtensionCache {
+  const activity = (uid: string, result: string, date: string, type: string, details = {}) =>
+    activityOn(uid, date, type, { trip_results: result, result, ...details })
+  return buildCache({
+    activities: [
+      activity('a1', 'Successful', '2024-06-01', 'Scrambling', {
+        branch: 'Seattle',
+        leader_names: ['Alex Doe'],
+      }),
+      activity('a2', 'Turned Back', '2024-07-01', 'Scrambling', {
+        branch: 'Tacoma',
+        leader_names: ['Pat', 'Alex Doe'],
+      }),
+      activity('a3', 'Canceled', '2024-08-01', 'Hiking'),
+      activity('a4', 'Successful', '2024-09-01', 'Hiking'),
+    ],
+    people: [person('me', 'Me'), person('pat', 'Pat')],
+    rosterEntries: [
+      rosterEntry('a1', 'me'),
+      rosterEntry('a2', 'me'),
+      rosterEntry('a2', 'pat', 'Primary Leader'),
+      rosterEntry('a4', 'me'),
+    ],
+    currentUserUid: 'me',
+  })
+}
 
 describe('formatNumber', () => {
   it('formats integers with locale separators', () => {
@@ -163,3 +207,187 @@ describe('getActivityTypeColors', () => {
     assert.ok(colors.every((c) => typeof c === 'string' && c.startsWith('#')))
   })
 })
+
+describe('calculateDashboard outcomes', () => {
+  it('exposes the outcomes present in the cache as filter options', () => {
+    const prepared = prepareDashboardData(createCache())
+    assert.deepStrictEqual(prepared.filterOptions.outcomes, [
+      'successful',
+      'turned-back',
+      'canceled',
+    ])
+  })
+
+  it('counts only successful activities toward totals by default', () => {
+    const view = calculateDashboard(prepareDashboardData(createCache()), EMPTY_FILTERS)
+    assert.strictEqual(view.metrics.totalActivities, 2)
+    assert.strictEqual(view.metrics.turnAroundCount, 1)
+    assert.strictEqual(view.metrics.successRate, 50)
+    assert.strictEqual(view.totals.partners, 0)
+  })
+
+  it('counts every outcome when the preference is enabled', () => {
+    const view = calculateDashboard(prepareDashboardData(createCache()), EMPTY_FILTERS, {
+      countUnsuccessful: true,
+    })
+    assert.strictEqual(view.metrics.totalActivities, 4)
+    assert.strictEqual(view.totals.partners, 1)
+  })
+
+  it('reports success rate per activity type', () => {
+    const view = calculateDashboard(prepareDashboardData(createCache()), EMPTY_FILTERS)
+    const scrambling = view.outcomes.byType.find((entry) => entry.label === 'Scrambling')
+    assert.deepStrictEqual(scrambling, {
+      label: 'Scrambling',
+      successful: 1,
+      total: 2,
+      successRate: 50,
+    })
+  })
+
+  it('honors an explicit outcome filter', () => {
+    const view = calculateDashboard(prepareDashboardData(createCache()), {
+      ...EMPTY_FILTERS,
+      outcome: ['turned-back'],
+    })
+    assert.strictEqual(view.metrics.totalActivities, 1)
+    assert.strictEqual(view.recentActivities[0].uid, 'a2')
+  })
+})
+
+describe('calculateDashboard activity details', () => {
+  it('collects branch and leader filter options', () => {
+    const prepared = prepareDashboardData(createCache())
+    assert.deepStrictEqual(prepared.filterOptions.branches, ['Seattle', 'Tacoma'])
+    assert.deepStrictEqual(prepared.filterOptions.leaders, ['Alex Doe', 'Pat'])
+  })
+
+  it('filters by branch, excluding activities without one', () => {
+    const view = calculateDashboard(prepareDashboardData(createCache()), {
+      ...EMPTY_FILTERS,
+      branch: ['Seattle'],
+    })
+    assert.strictEqual(view.metrics.totalActivities, 1)
+    assert.strictEqual(view.recentActivities[0].branch, 'Seattle')
+  })
+
+  it('filters by any selected leader', () => {
+    const view = calculateDashboard(
+      prepareDashboardData(createCache()),
+      { ...EMPTY_FILTERS, leader: ['Alex Doe'] },
+      { countUnsuccessful: true }
+    )
+    assert.deepStrictEqual(view.recentActivities.map((activity) => activity.uid).sort(), [
+      'a1',
+      'a2',
+    ])
+  })
+})
+
+describe('calculateDashboard roster status', () => {
+  it('leaves waitlisted and cancelled entries out of roles and partners', () => {
+    const cache = createCache()
+    cache.people.push(person('sam', 'Sam'))
+    cache.rosterEntries.push(
+      { activity_uid: 'a1', person_uid: 'sam', role: 'Participant', status: 'waitlisted' },
+      { activity_uid: 'a3', person_uid: 'me', role: 'Mentor', status: 'cancelled' }
+    )
+    const prepared = prepareDashboardData(cache)
+    assert.deepStrictEqual(prepared.filterOptions.roles, ['Participant'])
+
+    const view = calculateDashboard(prepared, EMPTY_FILTERS, { countUnsuccessful: true })
+    assert.deepStrictEqual(
+      view.partners.map((partner) => partner.uid),
+      ['pat']
+    )
+  })
+})
+
+describe('calculateDashboard removed activities', () => {
+  const withRemoved = () => {
+    const cache = createCache()
+    cache.activities[0] = { ...cache.activities[0], tombstonedAt: '2025-01-01T00:00:00.000Z' }
+    return prepareDashboardData(cache)
+  }
+
+  it('excludes tombstoned activities by default', () => {
+    const view = calculateDashboard(withRemoved(), EMPTY_FILTERS)
+    assert.strictEqual(view.metrics.totalActivities, 1)
+  })
+
+  it('leaves partners met only on removed activities out of the partners table', () => {
+    const cache = createCache()
+    cache.activities[0] = { ...cache.activities[0], tombstonedAt: '2025-01-01T00:00:00.000Z' }
+    cache.people.push(person('sam', 'Sam'))
+    cache.rosterEntries.push(rosterEntry('a1', 'sam'))
+    const prepared = prepareDashboardData(cache)
+
+    const view = calculateDashboard(prepared, EMPTY_FILTERS)
+    assert.ok(!view.partners.some((partner) => partner.uid === 'sam'))
+
+    const withRemoved = calculateDashboard(prepared, EMPTY_FILTERS, {
+      countUnsuccessful: false,
+      showRemovedActivities: true,
+    })
+    assert.strictEqual(withRemoved.metrics.uniquePartners, view.metrics.uniquePartners + 1)
+    assert.ok(withRemoved.partners.some((partner) => partner.uid === 'sam'))
+  })
+
+  it('includes and flags them when the preference is enabled', () => {
+    const view = calculateDashboard(withRemoved(), EMPTY_FILTERS, {
+      countUnsuccessful: false,
+      showRemovedActivities: true,
+    })
+    assert.strictEqual(view.metrics.totalActivities, 2)
+    assert.strictEqual(view.recentActivities.find((entry) => entry.uid === 'a1')?.removed, true)
+  })
+})
+
+describe('calculateDashboard date range and timeline', () => {
+  const settings = { countUnsuccessful: true }
+
+  it('spans the cached activities by month when no range is selected', () => {
+    const view = calculateDashboard(prepareDashboardData(createCache()), EMPTY_FILTERS, settings)
+    assert.strictEqual(view.timeline.granularity, 'month')
+    assert.deepStrictEqual(view.timeline.categories, [
+      'Jun 2024',
+      'Jul 2024',
+      'Aug 2024',
+      'Sep 2024',
+    ])
+    assert.deepStrictEqual(
+      view.timeline.series.map((series) => [series.name, series.data]),
+      [
+        ['Scrambling', [1, 1, 0, 0]],
+        ['Hiking', [0, 0, 1, 1]],
+      ]
+    )
+  })
+
+  it('filters by a custom range and covers the whole range in the timeline', () => {
+    const view = calculateDashboard(
+      prepareDashboardData(createCache()),
+      { ...EMPTY_FILTERS, dateRange: { preset: 'custom', start: '2024-07-01', end: '2024-12-31' } },
+      settings,
+      { granularity: 'quarter' }
+    )
+    assert.deepStrictEqual(view.activityUids, ['a2', 'a3', 'a4'])
+    assert.deepStrictEqual(view.timeline.categories, ['Q3 2024', 'Q4 2024'])
+  })
+
+  it('resolves relative presets against the given date', () => {
+    const view = calculateDashboard(
+      prepareDashboardData(createCache()),
+      { ...EMPTY_FILTERS, dateRange: { preset: 'this-season', start: null, end: null } },
+      settings,
+      { granularity: 'week', now: new Date('2024-07-15T12:00:00.000Z') }
+    )
+    // Summer runs June through August
+    assert.deepStrictEqual(view.activityUids, ['a1', 'a2', 'a3'])
+    assert.strictEqual(view.timeline.categories[0], 'May 27, 2024')
+    assert.strictEqual(
+      view.timeline.categories[view.timeline.categories.length - 1],
+      'Aug 26, 2024'
+    )
+  })
+})
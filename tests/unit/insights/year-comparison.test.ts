@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { DEFAULT_DATE_RANGE } from '../../../src/chrome-ext/insights/date-range'
+import type { DashboardFilters } from '../../../src/chrome-ext/insights/types'
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  prepareDashboardData,
+} from '../../../src/chrome-ext/insights/utils'
+import {
+  calculateYearComparison,
+  getAvailableYears,
+  getDayOfYear,
+  getDefaultComparisonYears,
+} from '../../../src/chrome-ext/insights/year-comparison'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activityOn, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+const EMPTY_FILTERS: DashboardFilters = {
+  activityType: [],
+  category: [],
+  role: [],
+  partner: [],
+  outcome: [],
+  branch: [],
+  leader: [],
+  dateRange: DEFAULT_DATE_RANGE,
+}
+
+function createCache(): ExtensionCache {
+  return buildCache({
+    activities: [
+      activityOn('a1', '2023-05-01', 'Hiking', { difficulty_rating: 'Moderate' }),
+      activityOn('a2', '2024-01-10', 'Hiking', { difficulty_rating: 'Moderate' }),
+      activityOn('a3', '2024-01-10', 'Scrambling', { difficulty_rating: 'Strenuous' }),
+      activityOn('a4', '2024-06-01', 'Climbing', { result: 'Turned Back' }),
+      activityOn('a5', '2025-02-01', 'Scrambling'),
+    ],
+    people: [person('me', 'Me'), person('pat', 'Pat'), person('sam', 'Sam')],
+    rosterEntries: [
+      rosterEntry('a1', 'me'),
+      rosterEntry('a1', 'pat', 'Leader'),
+      rosterEntry('a2', 'me', 'Leader'),
+      rosterEntry('a2', 'pat'),
+      rosterEntry('a3', 'me'),
+      rosterEntry('a3', 'sam'),
+      rosterEntry('a5', 'me'),
+    ],
+    currentUserUid: 'me',
+  })
+}
+
+describe('year selection', () => {
+  it('lists years with activities and defaults to the latest two', () => {
+    const years = getAvailableYears(prepareDashboardData(createCache()))
+    assert.deepStrictEqual(years, [2025, 2024, 2023])
+    assert.deepStrictEqual(getDefaultComparisonYears(years), [2024, 2025])
+  })
+
+  it('counts days of the year from January 1st', () => {
+    assert.strictEqual(getDayOfYear(new Date('2024-01-01T00:00:00Z')), 1)
+    assert.strictEqual(getDayOfYear(new Date('2024-12-31T23:00:00Z')), 366)
+  })
+})
+
+describe('calculateYearComparison', () => {
+  it('summarizes each year with deltas against the previous one', () => {
+    const comparison = calculateYearComparison(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS,
+      [2024, 2023]
+    )
+    const [first, second] = comparison.years
+    assert.strictEqual(first.year, 2023)
+    assert.strictEqual(first.delta, null)
+    // The turned-back climb does not count toward totals by default
+    assert.strictEqual(second.activities, 2)
+    assert.strictEqual(second.uniquePartners, 2)
+    // Pat was already a partner in 2023
+    assert.strictEqual(second.newPartners, 1)
+    assert.deepStrictEqual(second.newActivityTypes, ['Scrambling'])
+    assert.deepStrictEqual(second.delta, {
+      activities: 1,
+      uniquePartners: 1,
+      newPartners: 0,
+      newActivityTypes: 0,
+    })
+    assert.deepStrictEqual(
+      second.roles.map((entry) => [entry.label, entry.value]),
+      [
+        ['Leader', 1],
+        ['Participant', 1],
+      ]
+    )
+    assert.deepStrictEqual(
+      second.difficulty.map((entry) => entry.label),
+      ['Moderate', 'Strenuous']
+    )
+  })
+
+  it('honors the dashboard filters and display settings', () => {
+    const prepared = prepareDashboardData(createCache())
+    const comparison = calculateYearComparison(
+      prepared,
+      { ...EMPTY_FILTERS, activityType: ['Scrambling', 'Climbing'] },
+      { ...DEFAULT_DISPLAY_SETTINGS, countUnsuccessful: true },
+      [2024, 2025]
+    )
+    assert.deepStrictEqual(
+      comparison.years.map((year) => year.activities),
+      [2, 1]
+    )
+    assert.deepStrictEqual(comparison.years[0].newActivityTypes, ['Climbing', 'Scrambling'])
+    assert.deepStrictEqual(
+      comparison.years[0].difficulty.map((entry) => entry.label),
+      ['Strenuous', 'Unrated']
+    )
+  })
+
+  it('builds cumulative counts by day of year', () => {
+    const comparison = calculateYearComparison(
+      prepareDashboardData(createCache()),
+      EMPTY_FILTERS,
+      DEFAULT_DISPLAY_SETTINGS,
+      [2024]
+    )
+    assert.deepStrictEqual(comparison.cumulative, [
+      {
+        year: 2024,
+        data: [
+          [0, 0],
+          [10, 2],
+        ],
+      },
+    ])
+  })
+})
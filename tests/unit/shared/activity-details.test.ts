@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  type DetailEntry,
+  normalizeWhitespace,
+  parseActivityDetails,
+  parseDetailDate,
+} from '../../../src/chrome-ext/shared/activity-details'
+
+function entry(label: string, value: string, links: DetailEntry['links'] = []): DetailEntry {
+  return { label, value, links }
+}
+
+describe('parseActivityDetails', () => {
+  it('maps the core rating fields', () => {
+    const details = parseActivityDetails([
+      entry('activity type', 'Scrambling'),
+      entry('difficulty', 'Moderate'),
+      entry('leader rating', 'For Beginners'),
+    ])
+    assert.strictEqual(details.activityType, 'Scrambling')
+    assert.strictEqual(details.difficultyRating, 'Moderate')
+    assert.strictEqual(details.leaderRating, 'For Beginners')
+  })
+
+  it('maps dates, location, branch and committee', () => {
+    const details = parseActivityDetails([
+      entry('date', 'Sat, Jun 1, 2024'),
+      entry('end date', 'Sun, Jun 2, 2024'),
+      entry('meeting place', 'Issaquah Park & Ride'),
+      entry('branch', 'Seattle'),
+      entry('committee', 'Seattle Scrambling Committee'),
+      entry('registration opens', 'Mon, May 6, 2024, 10:00 AM'),
+    ])
+    assert.strictEqual(details.startDate, 'Sat, Jun 1, 2024')
+    assert.strictEqual(details.endDate, 'Sun, Jun 2, 2024')
+    assert.strictEqual(details.location, 'Issaquah Park & Ride')
+    assert.strictEqual(details.branch, 'Seattle')
+    assert.strictEqual(details.committee, 'Seattle Scrambling Committee')
+    assert.strictEqual(details.registrationOpens, 'Mon, May 6, 2024, 10:00 AM')
+  })
+
+  it('collects leader names from links or comma-separated text without duplicates', () => {
+    const details = parseActivityDetails([
+      entry('leader', 'Alex Doe', [{ text: 'Alex Doe', href: '/members/alex-doe' }]),
+      entry('co-leaders', 'Pat Lee, Alex Doe'),
+    ])
+    assert.deepStrictEqual(details.leaderNames, ['Alex Doe', 'Pat Lee'])
+  })
+
+  it('keeps the route link, falling back to plain text', () => {
+    const linked = parseActivityDetails([
+      entry('route/place', 'Mount Si', [{ text: 'Mount Si', href: '/routes-places/mount-si' }]),
+    ])
+    assert.deepStrictEqual(linked.route, { text: 'Mount Si', href: '/routes-places/mount-si' })
+
+    const plain = parseActivityDetails([entry('place', 'Tiger Mountain')])
+    assert.deepStrictEqual(plain.route, { text: 'Tiger Mountain', href: null })
+  })
+
+  it('ignores unknown labels', () => {
+    const details = parseActivityDetails([entry('prerequisites', 'Scramble Course')])
+    assert.strictEqual(details.activityType, null)
+    assert.deepStrictEqual(details.leaderNames, [])
+  })
+})
+
+describe('parseDetailDate', () => {
+  it('strips the weekday and returns wall-clock components', () => {
+    assert.deepStrictEqual(parseDetailDate('Sat, Jan 20, 2024, 9:00 AM'), {
+      year: 2024,
+      month: 0,
+      day: 20,
+      hours: 9,
+      minutes: 0,
+    })
+  })
+
+  it('returns null for missing or unparseable values', () => {
+    assert.strictEqual(parseDetailDate(null), null)
+    assert.strictEqual(parseDetailDate('sometime soon'), null)
+  })
+})
+
+describe('normalizeWhitespace', () => {
+  it('collapses whitespace and maps empty text to null', () => {
+    assert.strictEqual(normalizeWhitespace('  Mount \n Si  '), 'Mount Si')
+    assert.strictEqual(normalizeWhitespace('   '), null)
+    assert.strictEqual(normalizeWhitespace(undefined), null)
+  })
+})
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  getAutoSyncDecision,
+  isAutoSyncRecord,
+  isWithinQuietHours,
+} from '../../../src/chrome-ext/shared/auto-sync'
+import type { AutoSyncRecord } from '../../../src/chrome-ext/shared/types'
+
+const at = (hour: number, day = 10) => new Date(2025, 5, day, hour, 30)
+
+describe('isWithinQuietHours', () => {
+  it('handles ranges within a day', () => {
+    assert.strictEqual(isWithinQuietHours(at(13), 12, 14), true)
+    assert.strictEqual(isWithinQuietHours(at(14), 12, 14), false)
+  })
+
+  it('handles ranges that wrap past midnight', () => {
+    assert.strictEqual(isWithinQuietHours(at(23), 22, 7), true)
+    assert.strictEqual(isWithinQuietHours(at(3), 22, 7), true)
+    assert.strictEqual(isWithinQuietHours(at(7), 22, 7), false)
+    assert.strictEqual(isWithinQuietHours(at(12), 22, 7), false)
+  })
+
+  it('treats equal start and end as disabled', () => {
+    assert.strictEqual(isWithinQuietHours(at(5), 5, 5), false)
+  })
+})
+
+describe('getAutoSyncDecision', () => {
+  const daily = { autoSyncFrequency: 'daily' as const, quietHoursStart: 22, quietHoursEnd: 7 }
+  const record = (startedAt: Date): AutoSyncRecord => ({
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    status: 'success',
+    summary: null,
+  })
+
+  it('never runs when disabled', () => {
+    assert.deepStrictEqual(
+      getAutoSyncDecision({ ...daily, autoSyncFrequency: 'off' }, null, at(12)),
+      { run: false, reason: 'disabled' }
+    )
+  })
+
+  it('waits out quiet hours', () => {
+    assert.deepStrictEqual(getAutoSyncDecision(daily, null, at(23)), {
+      run: false,
+      reason: 'quiet-hours',
+    })
+  })
+
+  it('runs when nothing has run yet or the interval has passed', () => {
+    assert.deepStrictEqual(getAutoSyncDecision(daily, null, at(12)), { run: true })
+    assert.deepStrictEqual(getAutoSyncDecision(daily, record(at(11, 9)), at(12)), { run: true })
+  })
+
+  it('skips until the interval has passed', () => {
+    assert.deepStrictEqual(getAutoSyncDecision(daily, record(at(8)), at(12)), {
+      run: false,
+      reason: 'not-due',
+    })
+    assert.deepStrictEqual(
+      getAutoSyncDecision({ ...daily, autoSyncFrequency: 'weekly' }, record(at(12, 5)), at(12)),
+      { run: false, reason: 'not-due' }
+    )
+  })
+})
+
+describe('isAutoSyncRecord', () => {
+  it('validates stored records', () => {
+    assert.strictEqual(
+      isAutoSyncRecord({ startedAt: 'a', finishedAt: 'b', status: 'skipped', summary: null }),
+      true
+    )
+    assert.strictEqual(isAutoSyncRecord({ startedAt: 'a', status: 'done' }), false)
+    assert.strictEqual(isAutoSyncRecord(null), false)
+  })
+})
@@ -0,0 +1,189 @@
+import 'fake-indexeddb/auto'
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import {
+  applyCacheChanges,
+  CACHE_CHANGED_KEY,
+  type CacheChangeNotice,
+  clearExtensionCache,
+  getActivitiesByUid,
+  getCacheMeta,
+  getRosterEntriesForPerson,
+  isOwnCacheChange,
+  LEGACY_CACHE_KEY,
+  loadCacheMeta,
+  loadExtensionCache,
+  saveExtensionCache,
+} from '../../../src/chrome-ext/shared/cache'
+import { CACHE_SCHEMA_VERSION } from '../../../src/chrome-ext/shared/migrations'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activity, buildCache, person, rosterEntry } from '../../fixtures/cache'
+
+// Mock chrome.storage.local
+const storageMock = new Map<string, unknown>()
+global.chrome = {
+  storage: {
+    local: {
+      get: async (key: string) => {
+        return { [key]: storageMock.get(key) }
+      },
+      set: async (items: Record<string, unknown>) => {
+        for (const [key, value] of Object.entries(items)) {
+          storageMock.set(key, value)
+        }
+      },
+      remove: async (key: string) => {
+        storageMock.delete(key)
+      },
+    },
+  },
+  // biome-ignore lint/suspicious/noExplicitAny: Mock object for testing
+} as any
+
+function createCache(): ExtensionCache {
+  return buildCache({
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    activities: [
+      activity('a1', { start_date: '2024-03-01' }),
+      activity('a2', { start_date: '2025-02-01' }),
+    ],
+    people: [person('p2', 'Bo'), person('p1', 'Ada')],
+    rosterEntries: [rosterEntry('a1', 'p1'), rosterEntry('a1', 'p2'), rosterEntry('a2', 'p1')],
+    lastUpdated: '2025-06-01T00:00:00Z',
+    currentUserUid: 'p1',
+  })
+}
+
+/** Overwrite the stored meta record, as an older version of the extension would have left it. */
+async function writeStoredMeta(meta: Record<string, unknown>): Promise<void> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('mountaineersAssistant')
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  const transaction = db.transaction('meta', 'readwrite')
+  transaction.objectStore('meta').put(meta, 'cache')
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+  db.close()
+}
+
+describe('cache storage', () => {
+  beforeEach(async () => {
+    await clearExtensionCache()
+    storageMock.clear()
+  })
+
+  it('reads nothing from an empty database', async () => {
+    assert.strictEqual(await loadExtensionCache(), null)
+    assert.strictEqual(await loadCacheMeta(), null)
+  })
+
+  it('reads back a saved cache in display order', async () => {
+    await saveExtensionCache(createCache())
+    const loaded = await loadExtensionCache()
+    assert.deepStrictEqual(
+      loaded?.activities.map((item) => item.uid),
+      ['a2', 'a1']
+    )
+    assert.deepStrictEqual(
+      loaded?.people.map((item) => item.name),
+      ['Ada', 'Bo']
+    )
+    assert.strictEqual(loaded?.rosterEntries.length, 3)
+    assert.deepStrictEqual(await loadCacheMeta(), getCacheMeta(createCache()))
+  })
+
+  it('replaces everything on save', async () => {
+    await saveExtensionCache(createCache())
+    await saveExtensionCache({ ...createCache(), activities: [activity('a3')], rosterEntries: [] })
+    const loaded = await loadExtensionCache()
+    assert.deepStrictEqual(
+      loaded?.activities.map((item) => item.uid),
+      ['a3']
+    )
+    assert.deepStrictEqual(loaded?.rosterEntries, [])
+  })
+
+  it('writes a delta without touching other records', async () => {
+    await saveExtensionCache(createCache())
+    await applyCacheChanges({
+      activities: [activity('a1', { start_date: '2024-03-01', title: 'Renamed' })],
+      people: [person('p3', 'Cy')],
+      rosterEntries: [rosterEntry('a1', 'p3', 'Primary Leader')],
+      replacedRosterActivityUids: ['a1'],
+      meta: { ...getCacheMeta(createCache()), lastUpdated: '2025-07-01T00:00:00Z' },
+    })
+    const loaded = await loadExtensionCache()
+    assert.strictEqual(loaded?.activities.find((item) => item.uid === 'a1')?.title, 'Renamed')
+    assert.strictEqual(loaded?.activities.find((item) => item.uid === 'a2')?.title, 'a2')
+    assert.deepStrictEqual(
+      loaded?.people.map((item) => item.uid),
+      ['p1', 'p2', 'p3']
+    )
+    // The a1 roster is replaced; a2's is left alone
+    assert.deepStrictEqual(
+      loaded?.rosterEntries.map((entry) => `${entry.activity_uid}:${entry.person_uid}`).sort(),
+      ['a1:p3', 'a2:p1']
+    )
+    assert.strictEqual(loaded?.lastUpdated, '2025-07-01T00:00:00Z')
+  })
+
+  it('looks records up by person and by uid', async () => {
+    await saveExtensionCache(createCache())
+    assert.deepStrictEqual(
+      (await getRosterEntriesForPerson('p1')).map((entry) => entry.activity_uid).sort(),
+      ['a1', 'a2']
+    )
+    assert.deepStrictEqual(
+      (await getActivitiesByUid(['a2', 'missing'])).map((item) => item.uid),
+      ['a2']
+    )
+  })
+
+  it('clears every store', async () => {
+    await saveExtensionCache(createCache())
+    await clearExtensionCache()
+    assert.strictEqual(await loadExtensionCache(), null)
+    assert.deepStrictEqual(await getRosterEntriesForPerson('p1'), [])
+  })
+
+  it('announces writes with a notice this context recognizes as its own', async () => {
+    await saveExtensionCache(createCache())
+    const notice = storageMock.get(CACHE_CHANGED_KEY) as CacheChangeNotice
+    assert.strictEqual(typeof notice.changedAt, 'number')
+    assert.strictEqual(isOwnCacheChange({ newValue: notice }), true)
+    assert.strictEqual(isOwnCacheChange({ newValue: { ...notice, writerId: 'other' } }), false)
+    assert.strictEqual(isOwnCacheChange({ newValue: Date.now() }), false)
+  })
+
+  it('moves a legacy chrome.storage cache into IndexedDB without announcing it', async () => {
+    storageMock.set(LEGACY_CACHE_KEY, {
+      activities: [activity('a1')],
+      rosterEntries: [{ activity_uid: 'a1', person_uid: 'p1', role: 'Primary Leader' }],
+    })
+    const loaded = await loadExtensionCache()
+    assert.deepStrictEqual(
+      loaded?.activities.map((item) => [item.uid, item.outcome]),
+      [['a1', 'successful']]
+    )
+    assert.strictEqual(loaded?.rosterEntries[0].isLeader, true)
+    assert.strictEqual(loaded?.schemaVersion, CACHE_SCHEMA_VERSION)
+    assert.strictEqual(storageMock.has(LEGACY_CACHE_KEY), false)
+    assert.strictEqual(storageMock.has(CACHE_CHANGED_KEY), false)
+  })
+
+  it('migrates an older stored cache on read without announcing it', async () => {
+    await saveExtensionCache(createCache())
+    storageMock.clear()
+    await writeStoredMeta({ ...getCacheMeta(createCache()), schemaVersion: 2 })
+
+    const loaded = await loadExtensionCache()
+    assert.strictEqual(loaded?.schemaVersion, CACHE_SCHEMA_VERSION)
+    assert.ok(loaded?.rosterEntries.every((entry) => entry.status === 'registered'))
+    assert.strictEqual((await loadCacheMeta())?.schemaVersion, CACHE_SCHEMA_VERSION)
+    assert.strictEqual(storageMock.has(CACHE_CHANGED_KEY), false)
+  })
+})
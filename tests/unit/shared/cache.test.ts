@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { getCacheMeta, selectCacheChanges } from '../../../src/chrome-ext/shared/cache'
+import { CACHE_SCHEMA_VERSION } from '../../../src/chrome-ext/shared/migrations'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activity, person, rosterEntry } from '../../fixtures/cache'
+
+const cache: ExtensionCache = {
+  activities: [activity('a1'), activity('a2')],
+  people: [person('p1', 'Ada'), person('p2', 'Bo')],
+  rosterEntries: [rosterEntry('a1', 'p1'), rosterEntry('a1', 'p2'), rosterEntry('a2', 'p1')],
+  lastUpdated: '2025-06-01T00:00:00Z',
+  currentUserUid: 'p1',
+  failedActivities: [],
+}
+
+describe('getCacheMeta', () => {
+  it('drops the record collections and stamps the schema version', () => {
+    assert.deepStrictEqual(getCacheMeta(cache), {
+      lastUpdated: '2025-06-01T00:00:00Z',
+      currentUserUid: 'p1',
+      failedActivities: [],
+      schemaVersion: CACHE_SCHEMA_VERSION,
+    })
+  })
+})
+
+describe('selectCacheChanges', () => {
+  it('picks the merged records a delta touched', () => {
+    const changes = selectCacheChanges(cache, {
+      activities: [activity('a1')],
+      people: [person('p2')],
+      rosterEntries: [rosterEntry('a1', 'p2')],
+      rosterActivityUids: ['a1'],
+    })
+    assert.deepStrictEqual(
+      changes.activities.map((item) => item.uid),
+      ['a1']
+    )
+    // The merged record is written, not the partial one from the delta
+    assert.deepStrictEqual(changes.people, [cache.people[1]])
+    assert.deepStrictEqual(changes.rosterEntries, [
+      rosterEntry('a1', 'p1'),
+      rosterEntry('a1', 'p2'),
+    ])
+    assert.deepStrictEqual(changes.replacedRosterActivityUids, ['a1'])
+    assert.strictEqual(changes.meta.currentUserUid, 'p1')
+  })
+
+  it('writes only metadata for a delta without records', () => {
+    const changes = selectCacheChanges(cache, { failedActivities: [] })
+    assert.deepStrictEqual(changes.activities, [])
+    assert.deepStrictEqual(changes.people, [])
+    assert.deepStrictEqual(changes.rosterEntries, [])
+    assert.deepStrictEqual(changes.replacedRosterActivityUids, [])
+  })
+})
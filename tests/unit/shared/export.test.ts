@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  buildCsvExportFiles,
+  buildJsonExportFile,
+  buildMyActivitiesCsv,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  subsetCache,
+  toCsv,
+} from '../../../src/chrome-ext/shared/export'
+import { CACHE_SCHEMA_VERSION } from '../../../src/chrome-ext/shared/migrations'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activity, person, rosterEntry } from '../../fixtures/cache'
+
+const NOW = new Date('2025-06-30T12:00:00Z')
+
+function createCache(): ExtensionCache {
+  return {
+    activities: [
+      activity('a1', { title: 'Mount Si, "West" route', activity_type: 'Day Hiking' }),
+      activity('a2', { activity_type: 'Day Hiking' }),
+    ],
+    people: [
+      person('me', 'Me'),
+      person('p1', 'Zoe'),
+      person('p2', 'Ada'),
+      person('p3', 'Wait Listed'),
+    ],
+    rosterEntries: [
+      rosterEntry('a1', 'me'),
+      rosterEntry('a1', 'p1', 'Leader', { isLeader: true }),
+      rosterEntry('a1', 'p2'),
+      rosterEntry('a1', 'p3', 'Participant', { status: 'waitlisted' }),
+      rosterEntry('a2', 'p2'),
+    ],
+    lastUpdated: '2025-06-01T00:00:00Z',
+    currentUserUid: 'me',
+  }
+}
+
+describe('toCsv', () => {
+  it('quotes separators and neutralizes formulas', () => {
+    const csv = toCsv(
+      [
+        { header: 'text', value: (row: { text: string | null }) => row.text },
+        { header: 'length', value: (row: { text: string | null }) => row.text?.length },
+      ],
+      [{ text: 'a,b' }, { text: 'say "hi"' }, { text: '=1+1' }, { text: null }]
+    )
+    assert.strictEqual(csv, 'text,length\r\n"a,b",3\r\n"say ""hi""",8\r\n\'=1+1,4\r\n,\r\n')
+  })
+})
+
+describe('subsetCache', () => {
+  it('keeps the selected activities and the people on them', () => {
+    const subset = subsetCache(createCache(), ['a2'])
+    assert.deepStrictEqual(
+      subset.activities.map((item) => item.uid),
+      ['a2']
+    )
+    assert.deepStrictEqual(
+      subset.people.map((person) => person.uid),
+      ['me', 'p2']
+    )
+    assert.strictEqual(subset.rosterEntries.length, 1)
+  })
+})
+
+describe('buildJsonExportFile', () => {
+  it('writes a versioned archive', () => {
+    const file = buildJsonExportFile(createCache(), { now: NOW })
+    assert.strictEqual(file.filename, 'mountaineers-assistant-2025-06-30.json')
+    const archive = JSON.parse(file.content)
+    assert.strictEqual(archive.format, EXPORT_FORMAT)
+    assert.strictEqual(archive.version, EXPORT_VERSION)
+    assert.strictEqual(archive.exportedAt, NOW.toISOString())
+    assert.strictEqual(archive.filtered, false)
+    assert.strictEqual(archive.data.schemaVersion, CACHE_SCHEMA_VERSION)
+    assert.strictEqual(archive.data.activities.length, 2)
+  })
+
+  it('marks filtered exports', () => {
+    const archive = JSON.parse(
+      buildJsonExportFile(createCache(), { activityUids: ['a1'], now: NOW }).content
+    )
+    assert.strictEqual(archive.filtered, true)
+    assert.strictEqual(archive.data.activities.length, 1)
+  })
+})
+
+describe('buildCsvExportFiles', () => {
+  it('writes one spreadsheet-friendly file per sheet', () => {
+    const files = buildCsvExportFiles(createCache(), { now: NOW })
+    assert.deepStrictEqual(
+      files.map((file) => file.filename),
+      [
+        'mountaineers-activities-2025-06-30.csv',
+        'mountaineers-people-2025-06-30.csv',
+        'mountaineers-roster-2025-06-30.csv',
+        'mountaineers-my-activities-with-partners-2025-06-30.csv',
+      ]
+    )
+    for (const file of files) {
+      assert.ok(file.content.startsWith('\uFEFF'))
+    }
+    const activityRows = files[0].content.trim().split('\r\n')
+    assert.strictEqual(activityRows.length, 3)
+    assert.ok(activityRows[1].includes('"Mount Si, ""West"" route"'))
+  })
+})
+
+describe('buildMyActivitiesCsv', () => {
+  it('lists active partners on the current user activities', () => {
+    const rows = buildMyActivitiesCsv(createCache()).trim().split('\r\n')
+    assert.strictEqual(rows.length, 2)
+    assert.strictEqual(
+      rows[1],
+      '2025-01-01,"Mount Si, ""West"" route",Day Hiking,trip,successful,Participant,2,Ada; Zoe,https://www.mountaineers.org/activities/a1'
+    )
+  })
+})
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildJsonExportFile } from '../../../src/chrome-ext/shared/export'
+import {
+  applyImport,
+  parseImportFile,
+  validateExtensionCache,
+} from '../../../src/chrome-ext/shared/import'
+import { CACHE_SCHEMA_VERSION } from '../../../src/chrome-ext/shared/migrations'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activity, person, rosterEntry } from '../../fixtures/cache'
+
+const NOW = new Date('2025-06-30T12:00:00Z')
+
+function createCache(): ExtensionCache {
+  return {
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    activities: [
+      activity('a1', { start_date: '2024-03-01' }),
+      activity('a2', { start_date: '2025-02-01' }),
+    ],
+    people: [person('me', 'Me Myself')],
+    rosterEntries: [rosterEntry('a1', 'me')],
+    lastUpdated: '2025-06-01T00:00:00Z',
+    currentUserUid: 'me',
+  }
+}
+
+describe('validateExtensionCache', () => {
+  it('accepts a cache', () => {
+    assert.deepStrictEqual(validateExtensionCache(createCache()), [])
+  })
+
+  it('reports malformed records with their position', () => {
+    const cache = createCache() as unknown as Record<string, unknown>
+    cache.people = [{ uid: 'p1', name: 42 }]
+    cache.rosterEntries = 'nope'
+    assert.deepStrictEqual(validateExtensionCache(cache), [
+      'people[0].name must be a string or null',
+      'rosterEntries must be a list',
+    ])
+  })
+
+  it('rejects caches from a newer schema', () => {
+    const errors = validateExtensionCache({ ...createCache(), schemaVersion: 999 })
+    assert.deepStrictEqual(errors, ['The cache was written by a newer version of the extension'])
+  })
+})
+
+describe('parseImportFile', () => {
+  it('reads an export archive and previews it', () => {
+    const file = buildJsonExportFile(createCache(), { now: NOW })
+    const result = parseImportFile(file.content)
+    assert.ok(result.ok)
+    assert.strictEqual(result.cache.activities.length, 2)
+    assert.deepStrictEqual(result.preview, {
+      activityCount: 2,
+      peopleCount: 1,
+      rosterEntryCount: 1,
+      earliest: '2024-03-01',
+      latest: '2025-02-01',
+      currentUserUid: 'me',
+      currentUserName: 'Me Myself',
+      exportedAt: NOW.toISOString(),
+      filtered: false,
+    })
+  })
+
+  it('accepts a raw cache dump and upgrades it', () => {
+    const { schemaVersion: _version, ...legacy } = createCache()
+    const result = parseImportFile(JSON.stringify(legacy))
+    assert.ok(result.ok)
+    assert.strictEqual(result.cache.schemaVersion, CACHE_SCHEMA_VERSION)
+    assert.strictEqual(result.preview.exportedAt, null)
+  })
+
+  it('rejects files that are not exports', () => {
+    assert.deepStrictEqual(parseImportFile('not json'), {
+      ok: false,
+      errors: ['The file is not valid JSON'],
+    })
+    assert.deepStrictEqual(parseImportFile(JSON.stringify({ format: 'other', data: {} })), {
+      ok: false,
+      errors: ['The file is not a Mountaineers Assistant export'],
+    })
+  })
+
+  it('limits the number of reported problems', () => {
+    const cache = createCache()
+    const broken = { ...cache, activities: Array.from({ length: 8 }, () => ({ title: 'x' })) }
+    const result = parseImportFile(JSON.stringify(broken))
+    assert.ok(!result.ok)
+    assert.strictEqual(result.errors.length, 6)
+    assert.match(result.errors[5], /more problems/)
+  })
+})
+
+describe('applyImport', () => {
+  it('replaces the cache', () => {
+    const imported = { ...createCache(), activities: [activity('a9')] }
+    assert.strictEqual(applyImport(createCache(), imported, 'replace'), imported)
+  })
+
+  it('merges without losing details already cached', () => {
+    const existing = createCache()
+    existing.activities[0].difficulty_rating = 'Moderate'
+    const imported: ExtensionCache = {
+      ...createCache(),
+      activities: [activity('a1', { start_date: '2024-03-01' }), activity('a3')],
+      rosterEntries: [rosterEntry('a3', 'me', 'Leader')],
+    }
+    const merged = applyImport(existing, imported, 'merge')
+    assert.deepStrictEqual(merged.activities.map((item) => item.uid).sort(), ['a1', 'a2', 'a3'])
+    assert.strictEqual(
+      merged.activities.find((item) => item.uid === 'a1')?.difficulty_rating,
+      'Moderate'
+    )
+    assert.strictEqual(merged.rosterEntries.length, 2)
+  })
+  it('keeps fresher cached activities when merging an older export', () => {
+    const existing = createCache()
+    existing.activities[0] = {
+      ...existing.activities[0],
+      result: 'Turned Back',
+      fetchedAt: '2025-06-20T00:00:00Z',
+    }
+    const imported: ExtensionCache = {
+      ...createCache(),
+      activities: [
+        activity('a1', { result: 'Successful', fetchedAt: '2025-01-10T00:00:00Z' }),
+        activity('a2', { title: 'Renamed', fetchedAt: '2025-03-01T00:00:00Z' }),
+      ],
+      rosterEntries: [rosterEntry('a1', 'pat')],
+      lastUpdated: '2025-01-10T00:00:00Z',
+    }
+    const merged = applyImport(existing, imported, 'merge')
+    const a1 = merged.activities.find((item) => item.uid === 'a1')
+    assert.strictEqual(a1?.result, 'Turned Back')
+    assert.strictEqual(a1?.fetchedAt, '2025-06-20T00:00:00Z')
+    assert.deepStrictEqual(merged.rosterEntries, existing.rosterEntries)
+    // The cached a2 has no fetch time, so the export fills it in
+    assert.strictEqual(merged.activities.find((item) => item.uid === 'a2')?.title, 'Renamed')
+    assert.strictEqual(merged.lastUpdated, '2025-06-01T00:00:00Z')
+  })
+})
@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  createEventListener,
+  createRequest,
+  createRequestListener,
+  MessageError,
+  parseEvent,
+  parseRequest,
+  sendRequest,
+} from '../../../src/chrome-ext/shared/messages'
+
+const SENDER = {} as chrome.runtime.MessageSender
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined
+  const promise = new Promise<T>((done) => {
+    resolve = done
+  })
+  return { promise, resolve }
+}
+
+/** Deliver a message to a listener and resolve with what it answers. */
+function dispatch(
+  listener: ReturnType<typeof createRequestListener>,
+  message: unknown
+): { handled: boolean | undefined; response: Promise<unknown> } {
+  const { promise, resolve } = deferred<unknown>()
+  const handled = listener(message, SENDER, resolve)
+  return { handled, response: promise }
+}
+
+describe('parseRequest', () => {
+  it('accepts well-formed requests', () => {
+    const request = createRequest('start-refresh', { limit: 10, mode: 'stale' })
+    assert.deepStrictEqual(parseRequest(request), request)
+  })
+
+  it('rejects requests without an ID or with a bad payload', () => {
+    assert.strictEqual(parseRequest({ type: 'get-refresh-status' }), null)
+    assert.strictEqual(
+      parseRequest({ type: 'start-refresh', requestId: 'r1', mode: 'everything' }),
+      null
+    )
+    assert.strictEqual(
+      parseRequest({ type: 'get-shared-activities', requestId: 'r1', memberUid: '' }),
+      null
+    )
+    assert.strictEqual(parseRequest({ type: 'toString', requestId: 'r1' }), null)
+  })
+})
+
+describe('parseEvent', () => {
+  it('tells collector progress from background progress', () => {
+    const collector = {
+      type: 'refresh-progress',
+      origin: 'collector',
+      runId: 'run-1',
+      stage: 'processing',
+      timestamp: 1,
+    }
+    assert.deepStrictEqual(parseEvent(collector), collector)
+    assert.strictEqual(parseEvent({ type: 'refresh-progress', origin: 'background' }), null)
+    assert.strictEqual(parseEvent({ type: 'refresh-progress', stage: 'processing' }), null)
+  })
+
+  it('ignores unknown messages', () => {
+    assert.strictEqual(parseEvent({ type: 'something-else' }), null)
+    assert.strictEqual(parseEvent('refresh-result'), null)
+  })
+})
+
+describe('sendRequest', () => {
+  it('resolves with the payload of the matching response', async () => {
+    const response = await sendRequest('get-shared-activities', { memberUid: 'm1' }, (message) => {
+      const request = message as { requestId: string; memberUid: string }
+      assert.strictEqual(request.memberUid, 'm1')
+      return Promise.resolve({
+        requestId: request.requestId,
+        ok: true,
+        payload: { activities: [] },
+      })
+    })
+    assert.deepStrictEqual(response, { activities: [] })
+  })
+
+  it('rejects missing, mismatched and failed responses', async () => {
+    await assert.rejects(
+      sendRequest('get-refresh-status', {}, () => Promise.resolve(undefined)),
+      MessageError
+    )
+    await assert.rejects(
+      sendRequest('get-refresh-status', {}, () =>
+        Promise.resolve({ requestId: 'someone-else', ok: true, payload: {} })
+      ),
+      /does not match/
+    )
+    await assert.rejects(
+      sendRequest('get-refresh-status', {}, (message) =>
+        Promise.resolve({
+          requestId: (message as { requestId: string }).requestId,
+          ok: false,
+          error: 'Storage is unavailable',
+        })
+      ),
+      { name: 'MessageError', message: 'Storage is unavailable' }
+    )
+  })
+})
+
+describe('createRequestListener', () => {
+  it('answers concurrent requests with their own request IDs', async () => {
+    const pending = new Map<string, ReturnType<typeof deferred<string>>>()
+    const listener = createRequestListener({
+      'get-shared-activities': async ({ memberUid }) => {
+        const gate = deferred<string>()
+        pending.set(memberUid, gate)
+        const title = await gate.promise
+        return { activities: [{ uid: memberUid, title, date: '2025-01-01', href: '' }] }
+      },
+    })
+    const first = createRequest('get-shared-activities', { memberUid: 'm1' })
+    const second = createRequest('get-shared-activities', { memberUid: 'm2' })
+    const firstCall = dispatch(listener, first)
+    const secondCall = dispatch(listener, second)
+    assert.strictEqual(firstCall.handled, true)
+
+    await new Promise((resolve) => setImmediate(resolve))
+    // Finish in the opposite order to the requests
+    pending.get('m2')?.resolve('Second')
+    pending.get('m1')?.resolve('First')
+
+    const firstResponse = (await firstCall.response) as Record<string, unknown>
+    const secondResponse = (await secondCall.response) as Record<string, unknown>
+    assert.strictEqual(firstResponse.requestId, first.requestId)
+    assert.strictEqual(secondResponse.requestId, second.requestId)
+    assert.deepStrictEqual(
+      (firstResponse.payload as { activities: Array<{ title: string }> }).activities[0].title,
+      'First'
+    )
+  })
+
+  it('reports handler failures and malformed requests to the sender', async () => {
+    const listener = createRequestListener({
+      'cancel-refresh': () => {
+        throw new Error('Nothing to cancel')
+      },
+      'get-shared-activities': () => ({ activities: [] }),
+    })
+    const request = createRequest('cancel-refresh', {})
+    assert.deepStrictEqual(await dispatch(listener, request).response, {
+      requestId: request.requestId,
+      ok: false,
+      error: 'Nothing to cancel',
+    })
+    assert.deepStrictEqual(
+      await dispatch(listener, { type: 'get-shared-activities', requestId: 'r1' }).response,
+      { requestId: 'r1', ok: false, error: 'Malformed "get-shared-activities" request.' }
+    )
+  })
+
+  it('leaves requests it does not handle to other listeners', () => {
+    const listener = createRequestListener({ 'cancel-refresh': () => ({ success: true }) })
+    const { handled } = dispatch(listener, createRequest('get-refresh-status', {}))
+    assert.strictEqual(handled, undefined)
+  })
+})
+
+describe('createEventListener', () => {
+  it('passes only valid events to their handler', () => {
+    const received: string[] = []
+    const listener = createEventListener({
+      'offscreen-cancel': (event) => received.push(event.runId),
+    })
+    listener({ type: 'offscreen-cancel', runId: 'run-1' }, SENDER, () => undefined)
+    listener({ type: 'offscreen-cancel' }, SENDER, () => undefined)
+    listener({ type: 'error-logged', errorId: 'e1' }, SENDER, () => undefined)
+    assert.deepStrictEqual(received, ['run-1'])
+  })
+})
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  CACHE_MIGRATIONS,
+  CACHE_SCHEMA_VERSION,
+  type Migration,
+  migrateCache,
+  migrateSettings,
+  runMigrations,
+  SETTINGS_SCHEMA_VERSION,
+} from '../../../src/chrome-ext/shared/migrations'
+import { normalizeExtensionSettings } from '../../../src/chrome-ext/shared/settings'
+
+const legacyCache = {
+  activities: [
+    {
+      uid: 'a1',
+      href: 'https://example.org/a1',
+      title: 'Mount Si',
+      category: 'trip',
+      start_date: '2020-05-01',
+      trip_results: null,
+      result: 'Successful',
+      activity_type: 'Day Hiking',
+      difficulty_rating: null,
+      leader_rating: null,
+    },
+    { title: 'no uid' },
+  ],
+  rosterEntries: [
+    { activity_uid: 'a1', person_uid: 'p1', role: 'Primary Leader' },
+    { activity_uid: 'a1', person_uid: 'p2', role: 'Participant' },
+  ],
+}
+
+describe('runMigrations', () => {
+  const steps: Migration[] = [
+    { version: 2, description: 'second', migrate: (value) => ({ ...value, order: 'ab' }) },
+    { version: 1, description: 'first', migrate: (value) => ({ ...value, order: 'a' }) },
+  ]
+
+  it('runs pending migrations in version order and stamps the version', () => {
+    const result = runMigrations({}, steps)
+    assert.deepStrictEqual(result.value, { order: 'ab', schemaVersion: 2 })
+    assert.strictEqual(result.fromVersion, 0)
+    assert.strictEqual(result.migrated, true)
+  })
+
+  it('skips migrations already applied', () => {
+    const result = runMigrations({ schemaVersion: 1, order: 'a' }, steps)
+    assert.deepStrictEqual(result.value, { schemaVersion: 2, order: 'ab' })
+    assert.strictEqual(result.fromVersion, 1)
+  })
+
+  it('leaves values from a newer version untouched', () => {
+    const value = { schemaVersion: 9, extra: true }
+    const result = runMigrations(value, steps)
+    assert.strictEqual(result.value, value)
+    assert.strictEqual(result.migrated, false)
+  })
+})
+
+describe('migrateCache', () => {
+  it('declares contiguous versions', () => {
+    assert.deepStrictEqual(
+      CACHE_MIGRATIONS.map((migration) => migration.version),
+      Array.from({ length: CACHE_SCHEMA_VERSION }, (_, index) => index + 1)
+    )
+  })
+
+  it('upgrades an unversioned cache to the current schema', () => {
+    const { cache, migrated } = migrateCache(legacyCache)
+    assert.ok(cache)
+    assert.strictEqual(migrated, true)
+    assert.strictEqual(cache.schemaVersion, CACHE_SCHEMA_VERSION)
+    assert.deepStrictEqual(cache.people, [])
+    assert.strictEqual(cache.lastUpdated, null)
+    assert.strictEqual(cache.currentUserUid, null)
+    assert.deepStrictEqual(
+      cache.activities.map((activity) => activity.uid),
+      ['a1']
+    )
+    assert.strictEqual(cache.activities[0].outcome, 'successful')
+    assert.deepStrictEqual(
+      cache.rosterEntries.map(({ rawRole, status, isLeader }) => ({ rawRole, status, isLeader })),
+      [
+        { rawRole: 'Primary Leader', status: 'registered', isLeader: true },
+        { rawRole: 'Participant', status: 'registered', isLeader: false },
+      ]
+    )
+  })
+
+  it('is a no-op on a current cache', () => {
+    const { cache: upgraded } = migrateCache(legacyCache)
+    const { cache, migrated } = migrateCache(upgraded)
+    assert.strictEqual(migrated, false)
+    assert.strictEqual(cache, upgraded)
+  })
+
+  it('returns null when nothing is stored', () => {
+    assert.deepStrictEqual(migrateCache(undefined), { cache: null, migrated: false })
+  })
+})
+
+describe('migrateSettings', () => {
+  it('stamps unversioned settings and keeps their values', () => {
+    const { settings, migrated } = migrateSettings({ showAvatars: false })
+    assert.strictEqual(migrated, true)
+    const normalized = normalizeExtensionSettings(settings)
+    assert.strictEqual(normalized.schemaVersion, SETTINGS_SCHEMA_VERSION)
+    assert.strictEqual(normalized.showAvatars, false)
+  })
+
+  it('leaves current settings alone', () => {
+    const current = { schemaVersion: SETTINGS_SCHEMA_VERSION, showAvatars: true }
+    assert.deepStrictEqual(migrateSettings(current), { settings: current, migrated: false })
+  })
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  getOutcomeLabel,
+  normalizeOutcome,
+  resolveActivityOutcome,
+} from '../../../src/chrome-ext/shared/outcome'
+
+describe('normalizeOutcome', () => {
+  it('recognizes successful results', () => {
+    assert.strictEqual(normalizeOutcome('Successful'), 'successful')
+    assert.strictEqual(normalizeOutcome('  successful '), 'successful')
+  })
+
+  it('does not count negated results as successful', () => {
+    assert.strictEqual(normalizeOutcome('Unsuccessful'), 'other')
+    assert.strictEqual(normalizeOutcome('Not successful'), 'other')
+    assert.strictEqual(normalizeOutcome('unsuccessful - weather'), 'other')
+    assert.strictEqual(normalizeOutcome('Unsuccessful, turned around'), 'turned-back')
+  })
+
+  it('recognizes turn-arounds', () => {
+    assert.strictEqual(normalizeOutcome('Turned Back'), 'turned-back')
+    assert.strictEqual(normalizeOutcome('Turned around'), 'turned-back')
+  })
+
+  it('recognizes both spellings of canceled', () => {
+    assert.strictEqual(normalizeOutcome('Canceled'), 'canceled')
+    assert.strictEqual(normalizeOutcome('Cancelled'), 'canceled')
+  })
+
+  it('recognizes no-shows', () => {
+    assert.strictEqual(normalizeOutcome('No Show'), 'no-show')
+    assert.strictEqual(normalizeOutcome('no-show'), 'no-show')
+  })
+
+  it('falls back to other for unknown or missing results', () => {
+    assert.strictEqual(normalizeOutcome('Bad weather'), 'other')
+    assert.strictEqual(normalizeOutcome(''), 'other')
+    assert.strictEqual(normalizeOutcome(null), 'other')
+    assert.strictEqual(normalizeOutcome(42), 'other')
+  })
+})
+
+describe('resolveActivityOutcome', () => {
+  it('prefers the stored outcome', () => {
+    assert.strictEqual(
+      resolveActivityOutcome({ outcome: 'canceled', result: 'Successful' }),
+      'canceled'
+    )
+  })
+
+  it('derives the outcome from the result for older records', () => {
+    assert.strictEqual(resolveActivityOutcome({ result: 'Turned Back' }), 'turned-back')
+    assert.strictEqual(
+      resolveActivityOutcome({ result: null, rawResult: 'Successful' }),
+      'successful'
+    )
+  })
+})
+
+describe('getOutcomeLabel', () => {
+  it('returns a readable label', () => {
+    assert.strictEqual(getOutcomeLabel('turned-back'), 'Turned back')
+  })
+
+  it('returns unknown values unchanged', () => {
+    assert.strictEqual(getOutcomeLabel('mystery'), 'mystery')
+  })
+})
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  measurePdfText,
+  type PdfPage,
+  renderPdf,
+  wrapPdfText,
+} from '../../../src/chrome-ext/shared/pdf'
+
+const CREATED_AT = new Date('2025-04-01T12:00:00.000Z')
+
+const page = (parts: Partial<PdfPage> = {}): PdfPage => ({
+  texts: [],
+  rules: [],
+  links: [],
+  ...parts,
+})
+
+describe('measurePdfText', () => {
+  it('uses the Helvetica widths', () => {
+    // 'i' is 222 units and 'W' is 944 units wide
+    assert.strictEqual(measurePdfText('iW', 10), 11.66)
+    assert.strictEqual(measurePdfText('i', 10, true), 2.78)
+    assert.strictEqual(measurePdfText('é', 10), measurePdfText('e', 10))
+  })
+})
+
+describe('wrapPdfText', () => {
+  it('breaks at spaces and inside words that cannot fit', () => {
+    assert.deepStrictEqual(wrapPdfText('aaa bbb ccc', 40, 10), ['aaa bbb', 'ccc'])
+    assert.deepStrictEqual(wrapPdfText('aaaaaaaaaa', 30, 10), ['aaaaa', 'aaaaa'])
+    assert.deepStrictEqual(wrapPdfText('', 30, 10), [''])
+  })
+})
+
+describe('renderPdf', () => {
+  it('writes a PDF whose cross-reference table points at each object', () => {
+    const content = renderPdf([page(), page()], { title: 'Test', createdAt: CREATED_AT })
+    assert.ok(content.startsWith('%PDF-1.4\n'))
+    assert.ok(content.endsWith('%%EOF\n'))
+    assert.match(content, /\/Type \/Pages \/Kids \[\d+ 0 R \d+ 0 R\] \/Count 2/)
+    assert.match(content, /\/CreationDate \(D:20250401120000Z\)/)
+
+    const startxref = Number(content.match(/startxref\n(\d+)\n/)?.[1])
+    assert.ok(content.slice(startxref).startsWith('xref\n'))
+    const offsets = [...content.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) =>
+      Number(match[1])
+    )
+    offsets.forEach((offset, index) => {
+      assert.ok(content.slice(offset).startsWith(`${index + 1} 0 obj\n`))
+    })
+  })
+
+  it('escapes text and keeps the file ASCII', () => {
+    const content = renderPdf(
+      [page({ texts: [{ x: 10, y: 20, text: 'Tooth (S) \\ Café – ✓', size: 9 }] })],
+      { title: 'Me – Outdoor resume', createdAt: CREATED_AT }
+    )
+    assert.match(content, /\(Tooth \\\(S\\\) \\\\ Caf\\351 \\226 \?\) Tj/)
+    // Baselines are measured from the top of the page
+    assert.match(content, / 10 821\.89 Td /)
+    assert.match(content, /\/Title <FEFF004D0065/)
+    assert.ok([...content].every((character) => character.charCodeAt(0) < 0x80))
+  })
+
+  it('sizes content streams in bytes and adds link annotations', () => {
+    const content = renderPdf(
+      [
+        page({
+          rules: [{ x1: 0, x2: 100, y: 50 }],
+          links: [{ x: 10, y: 40, width: 30, height: 10, url: 'https://example.com/a' }],
+        }),
+      ],
+      { title: 'Test', createdAt: CREATED_AT }
+    )
+    const stream = content.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)
+    assert.strictEqual(Number(stream?.[1]), stream?.[2].length)
+    assert.match(content, /\/Rect \[10 791\.89 40 801\.89\] \/A << \/S \/URI \/URI \(https:/)
+    assert.match(content, /\/Annots \[\d+ 0 R\]/)
+  })
+})
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  DEFAULT_RATING_SCALE,
+  getRatingScale,
+  hasRating,
+  normalizeRating,
+  RATING_SCALES,
+} from '../../../src/chrome-ext/shared/ratings'
+
+describe('normalizeRating', () => {
+  it('places common ratings on the default scale', () => {
+    assert.strictEqual(normalizeRating('Easy', 'Hiking'), 1)
+    assert.strictEqual(normalizeRating('Moderate', 'Hiking'), 2)
+    assert.strictEqual(normalizeRating('  challenging ', 'Scrambling'), 3)
+    assert.strictEqual(normalizeRating('Strenuous', 'Scrambling'), 4)
+    assert.strictEqual(normalizeRating('For Beginners (Getting Started)', 'Hiking'), 1)
+  })
+
+  it('counts a rating naming several levels as the hardest', () => {
+    assert.strictEqual(normalizeRating('Easy/Moderate', 'Hiking'), 2)
+    assert.strictEqual(normalizeRating('Strenuous, Technical 3', 'Scrambling'), 4)
+    assert.strictEqual(normalizeRating('Very Challenging', 'Snowshoeing'), 4)
+  })
+
+  it('uses the scale of the activity type', () => {
+    assert.strictEqual(getRatingScale('Rock Climbing'), RATING_SCALES.climbing)
+    assert.strictEqual(getRatingScale('Hiking'), DEFAULT_RATING_SCALE)
+    assert.strictEqual(getRatingScale(null), DEFAULT_RATING_SCALE)
+    assert.strictEqual(normalizeRating('Strenuous', 'Climbing'), 3)
+    assert.strictEqual(normalizeRating('Basic Alpine', 'Alpine Climbing'), 1)
+  })
+
+  it('returns null for blank or unrecognized ratings', () => {
+    assert.strictEqual(normalizeRating(null, 'Hiking'), null)
+    assert.strictEqual(normalizeRating('   ', 'Hiking'), null)
+    assert.strictEqual(normalizeRating('Class 4', 'Scrambling'), null)
+    // Whole words only
+    assert.strictEqual(normalizeRating('Hardy', 'Hiking'), null)
+  })
+})
+
+describe('hasRating', () => {
+  it('ignores blank values', () => {
+    assert.strictEqual(hasRating('Moderate'), true)
+    assert.strictEqual(hasRating(' - '), false)
+    assert.strictEqual(hasRating(null), false)
+  })
+})
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  applyProgressToRefreshState,
+  createRefreshState,
+  isRefreshState,
+} from '../../../src/chrome-ext/shared/refresh-state'
+import type {
+  CollectorProgressMessage,
+  RefreshProgress,
+} from '../../../src/chrome-ext/shared/types'
+import { activity } from '../../fixtures/cache'
+
+function progress(stage: string, completed = 0, total = 3): RefreshProgress {
+  return {
+    total,
+    completed,
+    remaining: total - completed,
+    stage,
+    activityUid: null,
+    activityTitle: null,
+    timestamp: 0,
+  }
+}
+
+function message(overrides: Partial<CollectorProgressMessage>): CollectorProgressMessage {
+  return {
+    type: 'refresh-progress',
+    origin: 'collector',
+    runId: 'run-1',
+    stage: '',
+    timestamp: 0,
+    ...overrides,
+  }
+}
+
+describe('applyProgressToRefreshState', () => {
+  it('leaves the queue unknown until the collector reports it', () => {
+    const state = createRefreshState('run-1', 10, 0)
+    const next = applyProgressToRefreshState(
+      state,
+      message({ stage: 'fetching-activities' }),
+      progress('fetching-activities'),
+      5
+    )
+    assert.strictEqual(next.pendingActivityUids, null)
+    assert.strictEqual(next.stage, 'fetching-activities')
+    assert.strictEqual(next.updatedAt, 5)
+    assert.strictEqual(next.fetchLimit, 10)
+  })
+
+  it('moves activities from pending to completed as deltas arrive', () => {
+    let state = createRefreshState('run-1', null, 0)
+    state = applyProgressToRefreshState(
+      state,
+      message({ stage: 'activities-collected', queuedActivityUids: ['a', 'b', 'c'] }),
+      progress('activities-collected')
+    )
+    assert.deepStrictEqual(state.pendingActivityUids, ['a', 'b', 'c'])
+
+    state = applyProgressToRefreshState(
+      state,
+      message({
+        stage: 'processing',
+        delta: { activities: [activity('b')], people: [], rosterEntries: [] },
+      }),
+      progress('processing', 1)
+    )
+    assert.deepStrictEqual(state.pendingActivityUids, ['a', 'c'])
+    assert.deepStrictEqual(state.completedActivityUids, ['b'])
+    assert.strictEqual(state.progress?.completed, 1)
+  })
+
+  it('does not re-queue activities completed before the queue was reported', () => {
+    let state = createRefreshState('run-1', null, 0)
+    state = { ...state, completedActivityUids: ['a'] }
+    state = applyProgressToRefreshState(
+      state,
+      message({ stage: 'activities-collected', queuedActivityUids: ['a', 'b'] }),
+      progress('activities-collected')
+    )
+    assert.deepStrictEqual(state.pendingActivityUids, ['b'])
+  })
+})
+
+describe('isRefreshState', () => {
+  it('accepts persisted state and rejects malformed values', () => {
+    assert.strictEqual(isRefreshState(createRefreshState('run-1', null)), true)
+    assert.strictEqual(isRefreshState(null), false)
+    assert.strictEqual(isRefreshState({ runId: 'run-1' }), false)
+  })
+})
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { isRefreshMode, selectActivitiesForResync } from '../../../src/chrome-ext/shared/resync'
+import type { ActivityRecord } from '../../../src/chrome-ext/shared/types'
+import { activity as baseActivity } from '../../fixtures/cache'
+
+const NOW = Date.parse('2025-06-30T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const activity = (uid: string, overrides: Partial<ActivityRecord> = {}): ActivityRecord =>
+  baseActivity(uid, {
+    activity_type: 'Climbing',
+    difficulty_rating: 'Moderate',
+    fetchedAt: new Date(NOW - DAY_MS).toISOString(),
+    ...overrides,
+  })
+
+describe('selectActivitiesForResync', () => {
+  const activities = [
+    activity('fresh'),
+    activity('old', { fetchedAt: new Date(NOW - 40 * DAY_MS).toISOString() }),
+    activity('never', { fetchedAt: undefined }),
+    activity('untyped', { activity_type: null }),
+    activity('unrated', { difficulty_rating: null }),
+  ]
+
+  it('selects nothing in new-only mode', () => {
+    assert.deepStrictEqual(
+      selectActivitiesForResync(activities, 'new', { staleDays: 30, now: NOW }),
+      []
+    )
+  })
+
+  it('selects every cached activity in all mode', () => {
+    assert.strictEqual(
+      selectActivitiesForResync(activities, 'all', { staleDays: 30, now: NOW }).length,
+      activities.length
+    )
+  })
+
+  it('selects activities fetched before the cutoff or never fetched', () => {
+    assert.deepStrictEqual(
+      selectActivitiesForResync(activities, 'stale', { staleDays: 30, now: NOW }),
+      ['old', 'never']
+    )
+  })
+
+  it('selects activities missing a type or difficulty', () => {
+    assert.deepStrictEqual(
+      selectActivitiesForResync(activities, 'incomplete', { staleDays: 30, now: NOW }),
+      ['untyped', 'unrated']
+    )
+  })
+
+  it('selects cached activities recorded as failed', () => {
+    const failedActivities = [
+      { uid: 'old', title: null, failedParts: ['roster' as const], error: null, failedAt: '' },
+      { uid: 'gone', title: null, failedParts: ['details' as const], error: null, failedAt: '' },
+    ]
+    assert.deepStrictEqual(
+      selectActivitiesForResync(activities, 'failed', {
+        staleDays: 30,
+        failedActivities,
+        now: NOW,
+      }),
+      ['old']
+    )
+  })
+})
+
+describe('isRefreshMode', () => {
+  it('accepts known modes only', () => {
+    assert.strictEqual(isRefreshMode('stale'), true)
+    assert.strictEqual(isRefreshMode('everything'), false)
+    assert.strictEqual(isRefreshMode(undefined), false)
+  })
+})
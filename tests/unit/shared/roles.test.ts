@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseHTML } from 'linkedom'
+import {
+  DEFAULT_ROLE_MAPPINGS,
+  detectRosterStatus,
+  formatRoleMappings,
+  isActiveRosterEntry,
+  normalizeRoleMappings,
+  parseRoleMappings,
+  readRosterStatus,
+  resolveRole,
+} from '../../../src/chrome-ext/shared/roles'
+
+describe('resolveRole', () => {
+  it('maps known position text case-insensitively', () => {
+    assert.deepStrictEqual(resolveRole('co-leader'), { role: 'Assistant Leader', isLeader: true })
+    assert.deepStrictEqual(resolveRole('Mentor'), { role: 'Instructor', isLeader: false })
+    assert.deepStrictEqual(resolveRole('  Primary   Leader '), {
+      role: 'Primary Leader',
+      isLeader: true,
+    })
+  })
+
+  it('keeps unmapped position text instead of collapsing it to Participant', () => {
+    assert.deepStrictEqual(resolveRole('Scramble Coach'), {
+      role: 'Scramble Coach',
+      isLeader: false,
+    })
+    assert.deepStrictEqual(resolveRole('Trip Leader', []), { role: 'Trip Leader', isLeader: true })
+  })
+
+  it('defaults missing position text to Participant', () => {
+    assert.deepStrictEqual(resolveRole(null), { role: 'Participant', isLeader: false })
+    assert.deepStrictEqual(resolveRole('  '), { role: 'Participant', isLeader: false })
+  })
+
+  it('uses the supplied mappings', () => {
+    const mappings = [{ match: 'Student', role: 'Course Student' }]
+    assert.deepStrictEqual(resolveRole('Student', mappings), {
+      role: 'Course Student',
+      isLeader: false,
+    })
+  })
+})
+
+describe('detectRosterStatus', () => {
+  it('recognizes waitlist and cancellation hints', () => {
+    assert.strictEqual(detectRosterStatus(['roster-contact', 'Wait List']), 'waitlisted')
+    assert.strictEqual(detectRosterStatus(['roster-contact waitlisted']), 'waitlisted')
+    assert.strictEqual(detectRosterStatus([null, 'Canceled']), 'cancelled')
+    assert.strictEqual(detectRosterStatus(['Withdrawn']), 'cancelled')
+  })
+
+  it('treats everything else as registered', () => {
+    assert.strictEqual(
+      detectRosterStatus(['roster-contact', undefined, 'Participants']),
+      'registered'
+    )
+    assert.strictEqual(detectRosterStatus([]), 'registered')
+  })
+})
+
+describe('readRosterStatus', () => {
+  // Contacts sit in roster groups inside the page's own sections, whose headings say nothing
+  // about the people listed
+  const { document } = parseHTML(`
+    <main>
+      <section class="activity-tabs">
+        <h2>Cancellation policy</h2>
+        <div class="roster-tab">
+          <div class="roster-group">
+            <h3 class="roster-group-title">Participants</h3>
+            <div class="roster-contact" id="registered">Ada</div>
+            <div class="roster-contact" id="badge">Bo <span class="roster-status">Wait List</span></div>
+          </div>
+          <div class="roster-group waitlist">
+            <h3>Ropes</h3>
+            <div class="roster-contact" id="waitlisted">Cy</div>
+          </div>
+          <div class="roster-group">
+            <h3>Cancelled</h3>
+            <ul class="roster-contacts">
+              <li class="roster-contact" id="cancelled">Di</li>
+            </ul>
+          </div>
+          <div class="roster-contact" id="ungrouped">Ed</div>
+        </div>
+      </section>
+    </main>
+  `)
+  const statusOf = (id: string) =>
+    readRosterStatus(document.getElementById(id) as unknown as Element)
+
+  it('reads waitlisted and cancelled groups from their class or heading', () => {
+    assert.strictEqual(statusOf('waitlisted'), 'waitlisted')
+    assert.strictEqual(statusOf('cancelled'), 'cancelled')
+  })
+
+  it("reads the contact's own status badge", () => {
+    assert.strictEqual(statusOf('badge'), 'waitlisted')
+  })
+
+  it('ignores page sections outside the roster', () => {
+    assert.strictEqual(statusOf('registered'), 'registered')
+    assert.strictEqual(statusOf('ungrouped'), 'registered')
+  })
+})
+
+describe('isActiveRosterEntry', () => {
+  it('excludes waitlisted and cancelled entries only', () => {
+    assert.strictEqual(isActiveRosterEntry({ status: 'registered' }), true)
+    assert.strictEqual(isActiveRosterEntry({}), true)
+    assert.strictEqual(isActiveRosterEntry({ status: 'waitlisted' }), false)
+    assert.strictEqual(isActiveRosterEntry({ status: 'cancelled' }), false)
+  })
+})
+
+describe('role mapping text', () => {
+  it('round-trips the default table', () => {
+    const { mappings, errors } = parseRoleMappings(formatRoleMappings(DEFAULT_ROLE_MAPPINGS))
+    assert.deepStrictEqual(errors, [])
+    assert.deepStrictEqual(mappings, DEFAULT_ROLE_MAPPINGS)
+  })
+
+  it('skips blank and comment lines and reports malformed ones', () => {
+    const { mappings, errors } = parseRoleMappings(
+      '# comment\n\nGuest Leader = Primary Leader\nMentor\n = Instructor'
+    )
+    assert.deepStrictEqual(mappings, [{ match: 'Guest Leader', role: 'Primary Leader' }])
+    assert.deepStrictEqual(errors, [
+      'Line 4: expected "Position = Role".',
+      'Line 5: expected "Position = Role".',
+    ])
+  })
+})
+
+describe('normalizeRoleMappings', () => {
+  it('falls back to the defaults when nothing is stored', () => {
+    assert.deepStrictEqual(normalizeRoleMappings(undefined), DEFAULT_ROLE_MAPPINGS)
+  })
+
+  it('keeps an empty stored table and drops malformed entries', () => {
+    assert.deepStrictEqual(normalizeRoleMappings([]), [])
+    assert.deepStrictEqual(
+      normalizeRoleMappings([{ match: 'Mentor', role: 'Instructor' }, { match: 'x' }, null]),
+      [{ match: 'Mentor', role: 'Instructor' }]
+    )
+  })
+})
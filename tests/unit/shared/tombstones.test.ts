@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  purgeTombstonedActivities,
+  reconcileTombstones,
+} from '../../../src/chrome-ext/shared/tombstones'
+import type { ExtensionCache } from '../../../src/chrome-ext/shared/types'
+import { activity, person, rosterEntry } from '../../fixtures/cache'
+
+const NOW = new Date('2025-06-30T12:00:00Z')
+
+describe('reconcileTombstones', () => {
+  it('marks activities missing from the history', () => {
+    const result = reconcileTombstones([activity('a'), activity('b')], ['a'], NOW)
+    assert.strictEqual(result.tombstoned, 1)
+    assert.strictEqual(result.activities[0].tombstonedAt, undefined)
+    assert.strictEqual(result.activities[1].tombstonedAt, NOW.toISOString())
+  })
+
+  it('keeps the original timestamp of an existing tombstone', () => {
+    const earlier = '2025-01-01T00:00:00.000Z'
+    const result = reconcileTombstones([activity('b', { tombstonedAt: earlier })], ['a'], NOW)
+    assert.strictEqual(result.tombstoned, 0)
+    assert.strictEqual(result.activities[0].tombstonedAt, earlier)
+  })
+
+  it('restores activities that reappear', () => {
+    const result = reconcileTombstones(
+      [activity('a', { tombstonedAt: '2025-01-01T00:00:00.000Z' })],
+      ['a'],
+      NOW
+    )
+    assert.strictEqual(result.restored, 1)
+    assert.ok(!('tombstonedAt' in result.activities[0]))
+  })
+
+  it('ignores an empty or missing history', () => {
+    assert.strictEqual(reconcileTombstones([activity('a')], [], NOW).tombstoned, 0)
+    assert.strictEqual(reconcileTombstones([activity('a')], undefined, NOW).tombstoned, 0)
+  })
+})
+
+describe('purgeTombstonedActivities', () => {
+  it('removes tombstoned activities and their roster entries', () => {
+    const cache: ExtensionCache = {
+      activities: [activity('a'), activity('b', { tombstonedAt: NOW.toISOString() })],
+      people: [person('pat', 'Pat')],
+      rosterEntries: [rosterEntry('a', 'pat'), rosterEntry('b', 'pat')],
+      lastUpdated: null,
+      currentUserUid: null,
+    }
+    const { cache: purged, purged: count } = purgeTombstonedActivities(cache)
+    assert.strictEqual(count, 1)
+    assert.deepStrictEqual(
+      purged.activities.map((item) => item.uid),
+      ['a']
+    )
+    assert.deepStrictEqual(
+      purged.rosterEntries.map((entry) => entry.activity_uid),
+      ['a']
+    )
+    assert.strictEqual(purged.people.length, 1)
+  })
+})
@@ -44,9 +44,9 @@ module.exports = defineConfig({
     outDir: resolve(__dirname, 'dist'),
     emptyOutDir: true,
     rolldownOptions: {
+      // content-script.ts is built separately by vite.content-script.config.js
       input: {
         background: resolve(chromeExtensionRoot, 'background.ts'),
-        'content-script': resolve(chromeExtensionRoot, 'content-script.ts'),
         offscreen: resolve(chromeExtensionRoot, 'offscreen.html'),
         preferences: resolve(chromeExtensionRoot, 'preferences.html'),
         insights: resolve(chromeExtensionRoot, 'insights.html'),
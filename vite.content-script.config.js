@@ -0,0 +1,27 @@
+const { resolve } = require('node:path')
+const { defineConfig } = require('vite')
+
+const chromeExtensionRoot = resolve(__dirname, 'src/chrome-ext')
+
+// Content scripts run as classic scripts, so they cannot import the shared chunks the
+// main build splits out. Build the content script on its own as one self-contained file.
+module.exports = defineConfig({
+  root: chromeExtensionRoot,
+  publicDir: false,
+  base: './',
+  build: {
+    outDir: resolve(__dirname, 'dist'),
+    // Runs after the main build, which has already populated dist/
+    emptyOutDir: false,
+    copyPublicDir: false,
+    rolldownOptions: {
+      input: {
+        'content-script': resolve(chromeExtensionRoot, 'content-script.ts'),
+      },
+      output: {
+        format: 'iife',
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+})